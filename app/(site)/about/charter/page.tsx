@@ -5,24 +5,32 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadCharter } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import { generatePageMetadata } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export const metadata: Metadata = {
-  title: "Builder Charter",
-  description:
+export async function generateMetadata({
+  params,
+}: LocalePageProps): Promise<Metadata> {
+  return generatePageMetadata(
+    "Builder Charter",
     "Our pillars and principles for building an open, neutral, and sovereign Bitcoin ecosystem.",
-  keywords: [
-    "builder",
-    "charter",
-    "principles",
-    "pillars",
-    "bitcoin",
-    "sovereignty",
-    "collaboration",
-  ],
-};
+    [
+      "builder",
+      "charter",
+      "principles",
+      "pillars",
+      "bitcoin",
+      "sovereignty",
+      "collaboration",
+    ],
+    { canonicalUrl: urls.about.charter(), locale: await getPageLocale(params) }
+  );
+}
 
-export default async function CharterPage() {
-  const charter = await loadCharter();
+export default async function CharterPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const charter = await loadCharter({ locale });
 
   return (
     <PageContainer>
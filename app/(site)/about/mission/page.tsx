@@ -5,23 +5,31 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadMission } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import { generatePageMetadata } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export const metadata: Metadata = {
-  title: "Builder Mission Statement",
-  description:
+export async function generateMetadata({
+  params,
+}: LocalePageProps): Promise<Metadata> {
+  return generatePageMetadata(
+    "Builder Mission Statement",
     "Accelerate the creation of Bitcoin products by fostering an open, neutral, sovereign, and collaborative builder ecosystem.",
-  keywords: [
-    "builder",
-    "mission",
-    "bitcoin",
-    "products",
-    "collaboration",
-    "sovereignty",
-  ],
-};
+    [
+      "builder",
+      "mission",
+      "bitcoin",
+      "products",
+      "collaboration",
+      "sovereignty",
+    ],
+    { canonicalUrl: urls.about.mission(), locale: await getPageLocale(params) }
+  );
+}
 
-export default async function MissionPage() {
-  const mission = await loadMission();
+export default async function MissionPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const mission = await loadMission({ locale });
 
   return (
     <PageContainer>
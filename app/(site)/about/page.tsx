@@ -1,6 +1,6 @@
 import type { Metadata } from "next";
-import Link from "next/link";
 
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
@@ -12,29 +12,37 @@ import {
   loadPhilosophy,
   loadVision,
 } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import { generatePageMetadata } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export const metadata: Metadata = {
-  title: "About Builder | Foundation & Philosophy",
-  description:
+export async function generateMetadata({
+  params,
+}: LocalePageProps): Promise<Metadata> {
+  return generatePageMetadata(
+    "About Builder | Foundation & Philosophy",
     "Discover Builder's mission, vision, charter, and philosophy. Learn about our commitment to building Bitcoin products through open collaboration and structured knowledge.",
-  keywords: [
-    "builder",
-    "mission",
-    "vision",
-    "charter",
-    "philosophy",
-    "bitcoin",
-    "open source",
-    "sovereignty",
-  ],
-};
+    [
+      "builder",
+      "mission",
+      "vision",
+      "charter",
+      "philosophy",
+      "bitcoin",
+      "open source",
+      "sovereignty",
+    ],
+    { canonicalUrl: urls.about.overview(), locale: await getPageLocale(params) }
+  );
+}
 
-export default async function AboutPage() {
-  const mission = await loadMission();
-  const vision = await loadVision();
-  const charter = await loadCharter();
-  const philosophy = await loadPhilosophy();
-  const { cities } = await loadCities();
+export default async function AboutPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const mission = await loadMission({ locale });
+  const vision = await loadVision({ locale });
+  const charter = await loadCharter({ locale });
+  const philosophy = await loadPhilosophy({ locale });
+  const { cities } = await loadCities({ locale });
 
   return (
     <PageContainer>
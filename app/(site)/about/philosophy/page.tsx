@@ -5,25 +5,36 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadPhilosophy } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import { generatePageMetadata } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export const metadata: Metadata = {
-  title: "Builder Philosophy",
-  description:
+export async function generateMetadata({
+  params,
+}: LocalePageProps): Promise<Metadata> {
+  return generatePageMetadata(
+    "Builder Philosophy",
     "Our approach to education, design, AI, and community-driven progress in the Bitcoin ecosystem.",
-  keywords: [
-    "builder",
-    "philosophy",
-    "education",
-    "design",
-    "ux",
-    "ai",
-    "community",
-    "bitcoin",
-  ],
-};
+    [
+      "builder",
+      "philosophy",
+      "education",
+      "design",
+      "ux",
+      "ai",
+      "community",
+      "bitcoin",
+    ],
+    {
+      canonicalUrl: urls.about.philosophy(),
+      locale: await getPageLocale(params),
+    }
+  );
+}
 
-export default async function PhilosophyPage() {
-  const philosophy = await loadPhilosophy();
+export default async function PhilosophyPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const philosophy = await loadPhilosophy({ locale });
 
   return (
     <PageContainer>
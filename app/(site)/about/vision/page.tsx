@@ -5,23 +5,24 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadVision } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import { generatePageMetadata } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export const metadata: Metadata = {
-  title: "Builder Vision",
-  description:
+export async function generateMetadata({
+  params,
+}: LocalePageProps): Promise<Metadata> {
+  return generatePageMetadata(
+    "Builder Vision",
     "A world where Bitcoin builders have the tools, knowledge, and community to create the next generation of open financial products.",
-  keywords: [
-    "builder",
-    "vision",
-    "bitcoin",
-    "future",
-    "community",
-    "education",
-  ],
-};
+    ["builder", "vision", "bitcoin", "future", "community", "education"],
+    { canonicalUrl: urls.about.vision(), locale: await getPageLocale(params) }
+  );
+}
 
-export default async function VisionPage() {
-  const vision = await loadVision();
+export default async function VisionPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const vision = await loadVision({ locale });
 
   return (
     <PageContainer>
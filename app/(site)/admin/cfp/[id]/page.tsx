@@ -0,0 +1,157 @@
+import { notFound } from "next/navigation";
+
+import { ProposalReview } from "@/components/admin/ProposalReview";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { requireAdmin } from "@/lib/auth";
+import { getProposal, getSchedulableEvents } from "@/lib/cfp";
+import { loadContentGraph } from "@/lib/content-graph";
+import { previewPath } from "@/lib/preview";
+import { paths } from "@/lib/utils/urls";
+
+interface ProposalPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function AdminProposalPage({ params }: ProposalPageProps) {
+  await requireAdmin();
+  const { id } = await params;
+  const proposal = await getProposal(id);
+
+  if (!proposal) {
+    notFound();
+  }
+
+  const graph = await loadContentGraph({ includeDrafts: true });
+  const events = await getSchedulableEvents();
+  const presenter = proposal.presenterId
+    ? graph.getPresenter(proposal.presenterId)
+    : undefined;
+  const presentation = proposal.presentationId
+    ? graph.getPresentation(proposal.presentationId)
+    : undefined;
+  const scheduledEvent = proposal.scheduledEventSlug
+    ? graph.getEvent(proposal.scheduledEventSlug)
+    : undefined;
+  const preferredEvent = proposal.eventSlug
+    ? graph.getEvent(proposal.eventSlug)
+    : undefined;
+  const { links } = proposal.presenter;
+
+  return (
+    <PageContainer>
+      <Link
+        href={paths.admin.cfp()}
+        className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
+      >
+        ← Proposals
+      </Link>
+      <Heading level="h1" className="text-orange-400 mb-4">
+        {proposal.title}
+      </Heading>
+      <p className="text-lg text-neutral-300 mb-8">
+        <span className="capitalize">{proposal.status}</span> ·{" "}
+        {proposal.duration} minutes · submitted{" "}
+        {new Date(proposal.createdAt).toLocaleDateString("en-CA")}
+        {preferredEvent && ` · prefers ${preferredEvent.title}`}
+      </p>
+
+      {(presentation || presenter || scheduledEvent) && (
+        <Section>
+          <div className="p-4 bg-neutral-900 border border-neutral-800 rounded-lg space-y-1 text-neutral-300">
+            {presentation && (
+              <p>
+                Presentation:{" "}
+                <a
+                  href={previewPath(
+                    paths.presentations.detail(presentation.slug)
+                  )}
+                  className="text-orange-400 hover:text-orange-300 transition-colors"
+                >
+                  {presentation.title}
+                </a>{" "}
+                ({presentation.status ?? "published"})
+              </p>
+            )}
+            {presenter && (
+              <p>
+                Presenter:{" "}
+                <a
+                  href={previewPath(paths.presenters.detail(presenter.slug))}
+                  className="text-orange-400 hover:text-orange-300 transition-colors"
+                >
+                  {presenter.name}
+                </a>{" "}
+                ({presenter.status ?? "published"})
+              </p>
+            )}
+            {scheduledEvent && (
+              <p>
+                Scheduled at:{" "}
+                <Link
+                  href={paths.admin.eventAttendees(scheduledEvent.slug)}
+                  className="text-orange-400 hover:text-orange-300 transition-colors"
+                >
+                  {scheduledEvent.title}
+                </Link>
+              </p>
+            )}
+          </div>
+        </Section>
+      )}
+
+      <Section>
+        <Heading level="h4" className="text-neutral-100">
+          Abstract
+        </Heading>
+        <p className="text-neutral-300 whitespace-pre-line">
+          {proposal.abstract}
+        </p>
+      </Section>
+
+      <Section>
+        <Heading level="h4" className="text-neutral-100">
+          Presenter
+        </Heading>
+        <div className="space-y-2 text-neutral-300">
+          <p>
+            {proposal.presenter.name}
+            {proposal.presenter.title && `, ${proposal.presenter.title}`}
+            {proposal.presenter.company && ` at ${proposal.presenter.company}`}
+          </p>
+          <p>
+            <a
+              href={`mailto:${proposal.presenter.email}`}
+              className="text-orange-400 hover:text-orange-300 transition-colors"
+            >
+              {proposal.presenter.email}
+            </a>
+          </p>
+          <p className="whitespace-pre-line">{proposal.presenter.bio}</p>
+          {links && (
+            <ul className="text-sm text-neutral-400">
+              {Object.entries(links)
+                .filter(([, value]) => value)
+                .map(([network, value]) => (
+                  <li key={network}>
+                    {network}: {value}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      </Section>
+
+      <Section>
+        <ProposalReview
+          proposal={proposal}
+          presenters={graph.presenters.map(({ id, name }) => ({ id, name }))}
+          events={events.map(({ slug, title }) => ({ slug, title }))}
+        />
+      </Section>
+    </PageContainer>
+  );
+}
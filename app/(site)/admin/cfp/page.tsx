@@ -0,0 +1,79 @@
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { requireAdmin } from "@/lib/auth";
+import {
+  getProposalCounts,
+  type Proposal,
+  type ProposalStatus,
+  readProposals,
+} from "@/lib/cfp";
+import { paths } from "@/lib/utils/urls";
+
+const columns: { status: ProposalStatus; title: string }[] = [
+  { status: "submitted", title: "Submitted" },
+  { status: "accepted", title: "Accepted" },
+  { status: "scheduled", title: "Scheduled" },
+  { status: "rejected", title: "Rejected" },
+];
+
+export default async function AdminCfpPage() {
+  await requireAdmin();
+  const proposals = await readProposals();
+  const counts = getProposalCounts(proposals);
+
+  const renderProposal = (proposal: Proposal) => (
+    <Link
+      key={proposal.id}
+      href={paths.admin.proposal(proposal.id)}
+      className="block p-4 bg-neutral-900 border border-neutral-800 rounded-lg hover:border-orange-400 transition-colors"
+    >
+      <p className="text-neutral-100">{proposal.title}</p>
+      <p className="text-sm text-neutral-400 mt-1">
+        {proposal.presenter.name} · {proposal.duration} min
+      </p>
+      <p className="text-xs text-neutral-500 mt-1">
+        {new Date(proposal.createdAt).toLocaleDateString("en-CA")}
+        {proposal.comments.length > 0 &&
+          ` · ${proposal.comments.length} ${
+            proposal.comments.length === 1 ? "comment" : "comments"
+          }`}
+      </p>
+    </Link>
+  );
+
+  return (
+    <PageContainer>
+      <Heading level="h1" className="text-orange-400 mb-4">
+        Call for Proposals
+      </Heading>
+      <p className="text-lg text-neutral-300 mb-8">
+        Talks sent through the{" "}
+        <Link
+          href={paths.cfp()}
+          className="text-orange-400 hover:text-orange-300 transition-colors"
+        >
+          proposal form
+        </Link>
+        . Accepting one creates draft presenter and presentation entries.
+      </p>
+
+      <Section>
+        <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-4">
+          {columns.map(({ status, title }) => (
+            <div key={status} className="space-y-3">
+              <Heading level="h5" className="text-neutral-100">
+                {title} ({counts[status]})
+              </Heading>
+              {proposals
+                .filter((proposal) => proposal.status === status)
+                .map(renderProposal)}
+            </div>
+          ))}
+        </div>
+      </Section>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,85 @@
+import { notFound } from "next/navigation";
+
+import { ContentEditor } from "@/components/admin/ContentEditor";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+
+import { requireAdmin } from "@/lib/auth";
+import {
+  type EntryRef,
+  getEntityId,
+  getEntryLabel,
+  isContentKey,
+  loadEditorData,
+} from "@/lib/content-editor";
+import { CONTENT_REGISTRY } from "@/lib/content-registry";
+import { paths } from "@/lib/utils/urls";
+
+interface AdminContentEntryPageProps {
+  params: Promise<{ key: string; entry: string }>;
+}
+
+function parseEntryRef(entry: string): EntryRef | undefined {
+  if (/^\d+$/.test(entry)) return Number(entry);
+  if (entry === "new" || entry === "fields") return entry;
+  return undefined;
+}
+
+function getEntryTitle(ref: EntryRef, value: unknown): string {
+  if (ref === "new") return "New entry";
+  if (ref === "fields") return "Collection fields";
+
+  return getEntryLabel(value, `Entry ${ref + 1}`);
+}
+
+export default async function AdminContentEntryPage({
+  params,
+}: AdminContentEntryPageProps) {
+  await requireAdmin();
+  const { key, entry } = await params;
+  const ref = parseEntryRef(entry);
+  if (!isContentKey(key) || ref === undefined) {
+    notFound();
+  }
+
+  const data = await loadEditorData(key, ref);
+  if (!data) {
+    notFound();
+  }
+
+  const entityId =
+    typeof ref === "number" ? getEntityId(data.value) : undefined;
+
+  return (
+    <PageContainer>
+      <Link
+        href={paths.admin.contentFile(key)}
+        className="text-orange-400 hover:text-orange-300"
+      >
+        ← {CONTENT_REGISTRY[key].filename}
+      </Link>
+      <Heading level="h1" className="text-orange-400 mt-4 mb-2">
+        {getEntryTitle(ref, data.value)}
+      </Heading>
+      <div className="mb-8">
+        {(ref === "fields" || entityId) && (
+          <Link
+            href={paths.admin.contentHistory(key, entityId)}
+            className="text-sm text-orange-400 hover:text-orange-300"
+          >
+            History
+          </Link>
+        )}
+      </div>
+      <ContentEditor
+        contentKey={key}
+        entry={ref}
+        schema={data.schema}
+        references={data.references}
+        initialValue={data.value}
+        revision={data.revision}
+      />
+    </PageContainer>
+  );
+}
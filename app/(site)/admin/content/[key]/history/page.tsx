@@ -0,0 +1,60 @@
+import { notFound } from "next/navigation";
+
+import { ContentHistory } from "@/components/admin/ContentHistory";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+
+import { requireAdmin } from "@/lib/auth";
+import { isContentKey, loadContentHistory } from "@/lib/content-editor";
+import { CONTENT_REGISTRY } from "@/lib/content-registry";
+import { paths } from "@/lib/utils/urls";
+
+interface AdminContentHistoryPageProps {
+  params: Promise<{ key: string }>;
+  searchParams: Promise<{ entity?: string }>;
+}
+
+export default async function AdminContentHistoryPage({
+  params,
+  searchParams,
+}: AdminContentHistoryPageProps) {
+  await requireAdmin();
+  const { key } = await params;
+  const { entity } = await searchParams;
+  if (!isContentKey(key)) {
+    notFound();
+  }
+
+  const { filename, entries } = CONTENT_REGISTRY[key];
+  const { versions, revision } = await loadContentHistory(key, entity);
+
+  return (
+    <PageContainer>
+      <Link
+        href={paths.admin.contentFile(key)}
+        className="text-orange-400 hover:text-orange-300"
+      >
+        ← {filename}
+      </Link>
+      <Heading level="h1" className="text-orange-400 mt-4 mb-2">
+        History
+      </Heading>
+      <p className="text-neutral-400 mb-8">
+        {entity ? (
+          <span className="font-mono">{entity}</span>
+        ) : entries ? (
+          "Collection fields"
+        ) : (
+          filename
+        )}
+      </p>
+      <ContentHistory
+        contentKey={key}
+        entityId={entity}
+        versions={versions}
+        revision={revision}
+      />
+    </PageContainer>
+  );
+}
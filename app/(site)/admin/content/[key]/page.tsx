@@ -0,0 +1,121 @@
+import { notFound } from "next/navigation";
+
+import { ContentEditor } from "@/components/admin/ContentEditor";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+
+import { requireAdmin } from "@/lib/auth";
+import { getDeletedEntities } from "@/lib/content-audit";
+import {
+  getEntrySummaries,
+  isContentKey,
+  loadEditorData,
+  loadRawContent,
+} from "@/lib/content-editor";
+import { CONTENT_REGISTRY } from "@/lib/content-registry";
+import { paths } from "@/lib/utils/urls";
+
+interface AdminContentFilePageProps {
+  params: Promise<{ key: string }>;
+}
+
+export default async function AdminContentFilePage({
+  params,
+}: AdminContentFilePageProps) {
+  await requireAdmin();
+  const { key } = await params;
+  if (!isContentKey(key)) {
+    notFound();
+  }
+
+  const entry = CONTENT_REGISTRY[key];
+  const data = entry.entries ? undefined : await loadEditorData(key, undefined);
+  const deleted = entry.entries ? await getDeletedEntities(key) : [];
+  const linkClass = "text-orange-400 hover:text-orange-300";
+
+  return (
+    <PageContainer>
+      <Link href={paths.admin.content()} className={linkClass}>
+        ← All content
+      </Link>
+      <Heading level="h1" className="text-orange-400 mt-4 mb-2">
+        {entry.filename}
+      </Heading>
+      <p className="text-neutral-400 mb-2">{entry.description}</p>
+      <Link
+        href={paths.admin.contentHistory(key)}
+        className={`${linkClass} text-sm inline-block mb-8`}
+      >
+        {entry.entries ? "Collection fields history" : "History"}
+      </Link>
+
+      {entry.entries ? (
+        <>
+          <div className="flex flex-wrap gap-4 mb-6">
+            <Link
+              href={paths.admin.contentEntry(key, "new")}
+              className={linkClass}
+            >
+              + New entry
+            </Link>
+            <Link
+              href={paths.admin.contentEntry(key, "fields")}
+              className={linkClass}
+            >
+              Collection fields
+            </Link>
+          </div>
+          <ul className="divide-y divide-neutral-800 border border-neutral-800 rounded-lg">
+            {getEntrySummaries(key, await loadRawContent(key)).map((item) => (
+              <li key={item.index}>
+                <Link
+                  href={paths.admin.contentEntry(key, item.index)}
+                  className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-neutral-900 transition-colors"
+                >
+                  <span className="text-neutral-100">{item.label}</span>
+                  <span className="text-xs text-neutral-500 font-mono">
+                    {item.key}
+                    {item.status && ` · ${item.status}`}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+          {deleted.length > 0 && (
+            <div className="mt-8">
+              <Heading level="h4" className="text-neutral-100">
+                Deleted entries
+              </Heading>
+              <ul className="space-y-2">
+                {deleted.map((change) => (
+                  <li key={change.id} className="text-sm">
+                    <Link
+                      href={paths.admin.contentHistory(key, change.entityId)}
+                      className={linkClass}
+                    >
+                      {change.entityId}
+                    </Link>{" "}
+                    <span className="text-neutral-500">
+                      deleted {new Date(change.timestamp).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      ) : (
+        data && (
+          <ContentEditor
+            contentKey={key}
+            schema={data.schema}
+            references={data.references}
+            initialValue={data.value}
+            revision={data.revision}
+          />
+        )
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,70 @@
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { requireAdmin } from "@/lib/auth";
+import { type ContentSummary, listEditableContent } from "@/lib/content-editor";
+import { paths } from "@/lib/utils/urls";
+
+const CATEGORY_TITLES: Record<ContentSummary["category"], string> = {
+  pages: "Pages",
+  collections: "Collections",
+  education: "Education",
+  foundation: "Foundation",
+};
+
+export default async function AdminContentPage() {
+  await requireAdmin();
+  const content = await listEditableContent();
+
+  return (
+    <PageContainer>
+      <Heading level="h1" className="text-orange-400 mb-4">
+        Content Editor
+      </Heading>
+      <p className="text-lg text-neutral-300 mb-8">
+        Edit the JSON files in content/. Every change is validated and shown as
+        a diff before it&apos;s saved.
+      </p>
+
+      {(Object.keys(CATEGORY_TITLES) as ContentSummary["category"][]).map(
+        (category) => {
+          const files = content.filter((file) => file.category === category);
+          if (files.length === 0) return null;
+
+          return (
+            <Section key={category}>
+              <Heading level="h3" className="text-neutral-100">
+                {CATEGORY_TITLES[category]}
+              </Heading>
+              <div className="grid gap-3 md:grid-cols-2">
+                {files.map((file) => (
+                  <Link
+                    key={file.key}
+                    href={paths.admin.contentFile(file.key)}
+                    className="block p-4 bg-neutral-900 border border-neutral-800 rounded-lg hover:border-orange-400 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-neutral-100">
+                        {file.filename}
+                      </span>
+                      <span className="text-xs text-neutral-500">
+                        {file.count !== undefined &&
+                          `${file.count} ${file.count === 1 ? "entry" : "entries"}`}
+                        {file.layout === "directory" && " · split directory"}
+                      </span>
+                    </div>
+                    <p className="text-sm text-neutral-400 mt-1">
+                      {file.description}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            </Section>
+          );
+        }
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,120 @@
+import { notFound } from "next/navigation";
+
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+
+import { requireAdmin } from "@/lib/auth";
+import { getAttendanceStats } from "@/lib/check-in";
+import { loadEvent } from "@/lib/content";
+import { getEventRsvps, getRsvpCounts, type RsvpStatus } from "@/lib/rsvp";
+import { paths } from "@/lib/utils/urls";
+
+interface AttendeesPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+const statusClass: Record<RsvpStatus, string> = {
+  confirmed: "text-green-300",
+  waitlisted: "text-orange-300",
+  cancelled: "text-neutral-500",
+};
+
+export default async function AdminAttendeesPage({
+  params,
+}: AttendeesPageProps) {
+  await requireAdmin();
+  const { slug } = await params;
+  const event = await loadEvent(slug, { includeDrafts: true });
+
+  if (!event) {
+    notFound();
+  }
+
+  const rsvps = await getEventRsvps(event.slug);
+  const counts = getRsvpCounts(event, rsvps);
+  const attendance = getAttendanceStats(rsvps);
+
+  return (
+    <PageContainer>
+      <Link
+        href={paths.admin.events()}
+        className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
+      >
+        ← All events
+      </Link>
+      <Heading level="h1" className="text-orange-400 mb-4">
+        {event.title}
+      </Heading>
+      <div className="flex flex-wrap items-center gap-6 mb-8">
+        <p className="text-lg text-neutral-300">
+          {counts.confirmed}
+          {counts.capacity !== undefined && ` / ${counts.capacity}`} confirmed ·{" "}
+          {counts.waitlisted} waitlisted · {attendance.checkedIn} checked in
+        </p>
+        <Link
+          href={paths.admin.eventCheckIn(event.slug)}
+          className="text-orange-400 hover:text-orange-300 transition-colors"
+        >
+          📷 Check-in desk
+        </Link>
+        <Link
+          href={paths.admin.eventFeedback(event.slug)}
+          className="text-orange-400 hover:text-orange-300 transition-colors"
+        >
+          ⭐ Feedback
+        </Link>
+        <a
+          href={`/api/admin/events/${event.slug}/attendees.csv`}
+          className="text-orange-400 hover:text-orange-300 transition-colors"
+        >
+          ⬇️ Download CSV
+        </a>
+      </div>
+
+      {rsvps.length === 0 ? (
+        <p className="text-neutral-400">No one has signed up yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-neutral-400 border-b border-neutral-800">
+              <tr>
+                <th className="py-2 pr-4">Name</th>
+                <th className="py-2 pr-4">Email</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Signed up</th>
+                <th className="py-2 pr-4">Checked in</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rsvps.map((rsvp) => (
+                <tr key={rsvp.id} className="border-b border-neutral-900">
+                  <td className="py-2 pr-4 text-neutral-100">{rsvp.name}</td>
+                  <td className="py-2 pr-4 text-neutral-300">{rsvp.email}</td>
+                  <td className={`py-2 pr-4 ${statusClass[rsvp.status]}`}>
+                    {rsvp.status}
+                    {rsvp.ticketId && " · paid"}
+                  </td>
+                  <td className="py-2 pr-4 text-neutral-400">
+                    <time dateTime={rsvp.createdAt}>
+                      {new Date(rsvp.createdAt).toLocaleString("en-CA")}
+                    </time>
+                  </td>
+                  <td className="py-2 pr-4 text-neutral-400">
+                    {rsvp.checkedInAt ? (
+                      <time dateTime={rsvp.checkedInAt}>
+                        {new Date(rsvp.checkedInAt).toLocaleTimeString("en-CA")}
+                      </time>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </PageContainer>
+  );
+}
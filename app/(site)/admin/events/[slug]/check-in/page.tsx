@@ -0,0 +1,60 @@
+import { notFound } from "next/navigation";
+
+import { CheckInDesk } from "@/components/admin/CheckInDesk";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+
+import { requireAdmin } from "@/lib/auth";
+import { getAttendanceStats, getRecentCheckIns } from "@/lib/check-in";
+import { loadEvent } from "@/lib/content";
+import { getEventRsvps } from "@/lib/rsvp";
+import { paths } from "@/lib/utils/urls";
+
+interface CheckInPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Door check-in for an event. Attendees' QR codes link here with their
+ * token, so scanning one with a signed-in phone checks them in.
+ */
+export default async function AdminCheckInPage({
+  params,
+  searchParams,
+}: CheckInPageProps) {
+  await requireAdmin();
+  const { slug } = await params;
+  const { token } = await searchParams;
+  const event = await loadEvent(slug, { includeDrafts: true });
+
+  if (!event) {
+    notFound();
+  }
+
+  const rsvps = await getEventRsvps(event.slug);
+
+  return (
+    <PageContainer>
+      <Link
+        href={paths.admin.eventAttendees(event.slug)}
+        className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
+      >
+        ← Attendees
+      </Link>
+      <Heading level="h1" className="text-orange-400 mb-8">
+        Check-in: {event.title}
+      </Heading>
+
+      <CheckInDesk
+        slug={event.slug}
+        token={token}
+        initial={{
+          attendance: getAttendanceStats(rsvps),
+          recent: getRecentCheckIns(rsvps),
+        }}
+      />
+    </PageContainer>
+  );
+}
@@ -0,0 +1,98 @@
+import { notFound } from "next/navigation";
+
+import { RatingSummaryCard } from "@/components/admin/RatingSummaryCard";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { requireAdmin } from "@/lib/auth";
+import { loadEvent } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import {
+  FEEDBACK_WINDOW_DAYS,
+  getEventFeedback,
+  isFeedbackOpen,
+  summarizeFeedback,
+} from "@/lib/feedback";
+import { paths } from "@/lib/utils/urls";
+
+interface EventFeedbackPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function AdminEventFeedbackPage({
+  params,
+}: EventFeedbackPageProps) {
+  await requireAdmin();
+  const { slug } = await params;
+  const event = await loadEvent(slug, { includeDrafts: true });
+
+  if (!event) {
+    notFound();
+  }
+
+  const graph = await loadContentGraph({ includeDrafts: true });
+  const presentationIds = event.presentationIds ?? [];
+  const summary = summarizeFeedback(
+    await getEventFeedback(event.slug),
+    presentationIds
+  );
+
+  return (
+    <PageContainer>
+      <Link
+        href={paths.admin.eventAttendees(event.slug)}
+        className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
+      >
+        ← Attendees
+      </Link>
+      <Heading level="h1" className="text-orange-400 mb-4">
+        Feedback: {event.title}
+      </Heading>
+      <p className="text-lg text-neutral-300 mb-8">
+        {summary.responses} {summary.responses === 1 ? "response" : "responses"}{" "}
+        ·{" "}
+        {isFeedbackOpen(event)
+          ? `open until ${FEEDBACK_WINDOW_DAYS} days after the event`
+          : "closed"}
+      </p>
+
+      <Section>
+        <RatingSummaryCard title="Event overall" summary={summary.overall} />
+      </Section>
+
+      {presentationIds.length > 0 && (
+        <Section>
+          <Heading level="h2" className="text-neutral-100">
+            Presentations
+          </Heading>
+          <div className="space-y-4">
+            {presentationIds.map((id) => {
+              const presentation = graph.getPresentation(id);
+              const presenter =
+                presentation && graph.getPresentationPresenter(presentation);
+              return (
+                <RatingSummaryCard
+                  key={id}
+                  title={presentation?.title ?? id}
+                  subtitle={
+                    presenter && (
+                      <Link
+                        href={paths.admin.presenterFeedback(presenter.slug)}
+                        className="hover:text-orange-400 transition-colors"
+                      >
+                        {presenter.name}
+                      </Link>
+                    )
+                  }
+                  summary={summary.presentations[id]}
+                />
+              );
+            })}
+          </div>
+        </Section>
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,87 @@
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { requireAdmin } from "@/lib/auth";
+import { loadEvents } from "@/lib/content";
+import { splitEventsByTime } from "@/lib/event-time";
+import { getRsvpCounts, readRsvps } from "@/lib/rsvp";
+import type { Event } from "@/lib/types";
+import { paths } from "@/lib/utils/urls";
+
+export default async function AdminEventsPage() {
+  await requireAdmin();
+  const { events } = await loadEvents({ includeDrafts: true });
+  const rsvps = await readRsvps();
+  const { upcoming, past } = splitEventsByTime(events);
+
+  const renderEvent = (event: Event) => {
+    const counts = getRsvpCounts(
+      event,
+      rsvps.filter((rsvp) => rsvp.eventSlug === event.slug)
+    );
+    return (
+      <Link
+        key={event.slug}
+        href={paths.admin.eventAttendees(event.slug)}
+        className="block p-4 bg-neutral-900 border border-neutral-800 rounded-lg hover:border-orange-400 transition-colors"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-neutral-100">{event.title}</span>
+          <span className="text-xs text-neutral-500">
+            {event.rsvpOpen ? "RSVPs open" : "RSVPs closed"}
+          </span>
+        </div>
+        <p className="text-sm text-neutral-400 mt-1">
+          {counts.confirmed}
+          {counts.capacity !== undefined && ` / ${counts.capacity}`} confirmed
+          {counts.waitlisted > 0 && ` · ${counts.waitlisted} waitlisted`}
+        </p>
+      </Link>
+    );
+  };
+
+  return (
+    <PageContainer>
+      <Heading level="h1" className="text-orange-400 mb-4">
+        Events
+      </Heading>
+      <p className="text-lg text-neutral-300 mb-8">
+        RSVPs and attendee lists. Open RSVPs on an event with{" "}
+        <code>rsvpOpen</code> and cap them with <code>capacity</code> in the{" "}
+        <Link
+          href={paths.admin.contentFile("events")}
+          className="text-orange-400 hover:text-orange-300 transition-colors"
+        >
+          content editor
+        </Link>
+        . Talks for upcoming events come in through the{" "}
+        <Link
+          href={paths.admin.cfp()}
+          className="text-orange-400 hover:text-orange-300 transition-colors"
+        >
+          call for proposals
+        </Link>
+        .
+      </p>
+
+      {[
+        { title: "Upcoming", items: upcoming },
+        { title: "Past", items: past },
+      ].map(
+        ({ title, items }) =>
+          items.length > 0 && (
+            <Section key={title}>
+              <Heading level="h3" className="text-neutral-100">
+                {title}
+              </Heading>
+              <div className="grid gap-3 md:grid-cols-2">
+                {items.map(renderEvent)}
+              </div>
+            </Section>
+          )
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,90 @@
+import { notFound } from "next/navigation";
+
+import { RatingSummaryCard } from "@/components/admin/RatingSummaryCard";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { requireAdmin } from "@/lib/auth";
+import { loadPresenterBySlug } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import {
+  getPresentationRatings,
+  readFeedback,
+  summarizeRatings,
+} from "@/lib/feedback";
+import { paths } from "@/lib/utils/urls";
+
+interface PresenterFeedbackPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function AdminPresenterFeedbackPage({
+  params,
+}: PresenterFeedbackPageProps) {
+  await requireAdmin();
+  const { slug } = await params;
+  const presenter = await loadPresenterBySlug(slug);
+
+  if (!presenter) {
+    notFound();
+  }
+
+  const graph = await loadContentGraph({ includeDrafts: true });
+  const responses = await readFeedback();
+  const talks = graph.getPresenterPresentations(presenter.id).map((p) => ({
+    presentation: p,
+    events: graph.events.filter((event) =>
+      event.presentationIds?.includes(p.id)
+    ),
+    ratings: getPresentationRatings(responses, p.id),
+  }));
+  const overall = summarizeRatings(talks.flatMap((talk) => talk.ratings));
+
+  return (
+    <PageContainer>
+      <Link
+        href={paths.admin.events()}
+        className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
+      >
+        ← All events
+      </Link>
+      <Heading level="h1" className="text-orange-400 mb-4">
+        Feedback: {presenter.name}
+      </Heading>
+
+      <Section>
+        <RatingSummaryCard title="All talks" summary={overall} />
+      </Section>
+
+      {talks.length > 0 && (
+        <Section>
+          <Heading level="h2" className="text-neutral-100">
+            Talks
+          </Heading>
+          <div className="space-y-4">
+            {talks.map(({ presentation, events, ratings }) => (
+              <RatingSummaryCard
+                key={presentation.id}
+                title={presentation.title}
+                subtitle={events.map((event, index) => (
+                  <span key={event.slug}>
+                    {index > 0 && " · "}
+                    <Link
+                      href={paths.admin.eventFeedback(event.slug)}
+                      className="hover:text-orange-400 transition-colors"
+                    >
+                      {event.title}
+                    </Link>
+                  </span>
+                ))}
+                summary={summarizeRatings(ratings)}
+              />
+            ))}
+          </div>
+        </Section>
+      )}
+    </PageContainer>
+  );
+}
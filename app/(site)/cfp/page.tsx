@@ -0,0 +1,81 @@
+import { ProposalForm } from "@/components/cfp/ProposalForm";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { JsonLd } from "@/components/seo/JsonLd";
+import { Heading } from "@/components/ui/Heading";
+
+import { PROPOSAL_DURATIONS } from "@/lib/cfp";
+import { loadEvents } from "@/lib/content";
+import { splitEventsByTime } from "@/lib/event-time";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import {
+  createBreadcrumbList,
+  createSchemaGraph,
+  createWebPageSchema,
+  generatePageMetadata,
+} from "@/lib/seo";
+import { paths, urls } from "@/lib/utils/urls";
+
+// Regenerated every 15 minutes so ended events can't be picked
+export const revalidate = 900;
+
+const TITLE = "Call for Proposals | Builder Vancouver";
+const DESCRIPTION =
+  "Propose a talk or demo for an upcoming Builder Vancouver meetup. We welcome speakers building on Bitcoin, Lightning and Nostr.";
+
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    TITLE,
+    DESCRIPTION,
+    ["call for proposals", "cfp", "speak", "talk", "bitcoin", "vancouver"],
+    {
+      canonicalUrl: urls.cfp(),
+      locale: await getPageLocale(params),
+    }
+  );
+}
+
+export default async function CfpPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const { events } = await loadEvents({ locale });
+  const { upcoming } = splitEventsByTime(events);
+
+  const pageSchema = createWebPageSchema(urls.cfp(), TITLE, DESCRIPTION);
+  const breadcrumbSchema = createBreadcrumbList([
+    { name: "Home", url: urls.home() },
+    { name: "Call for Proposals" },
+  ]);
+  const structuredData = createSchemaGraph(pageSchema, breadcrumbSchema);
+
+  return (
+    <>
+      <JsonLd data={structuredData} />
+      <PageContainer>
+        <Heading level="h1" className="text-orange-400 mb-4">
+          Call for Proposals
+        </Heading>
+        <p className="text-xl text-neutral-300 mb-4">
+          Building something on Bitcoin, Lightning or Nostr? Tell us about it.
+          Lightning talks, deep dives and live demos are all welcome, whether
+          it&apos;s your first talk or your fiftieth.
+        </p>
+        <p className="text-lg text-neutral-400 mb-12">
+          The organizers review every proposal and reply by email. Accepted
+          talks show up on the{" "}
+          <Link
+            href={paths.events.list()}
+            className="text-orange-400 hover:text-orange-300 transition-colors"
+          >
+            events page
+          </Link>{" "}
+          once they&apos;re scheduled.
+        </p>
+
+        <ProposalForm
+          durations={PROPOSAL_DURATIONS}
+          events={upcoming.map(({ slug, title }) => ({ slug, title }))}
+        />
+      </PageContainer>
+    </>
+  );
+}
@@ -0,0 +1,23 @@
+import { loadContentGraph } from "@/lib/content-graph";
+import {
+  calendarResponse,
+  createUpcomingEventsCalendar,
+} from "@/lib/event-calendar";
+
+/**
+ * GET /cities/[slug]/events.ics
+ * Subscribable iCalendar feed of a city's upcoming events
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const graph = await loadContentGraph();
+  const city = graph.cities.find((c) => c.slug === slug);
+
+  if (!city) {
+    return new Response("City not found", { status: 404 });
+  }
+  return calendarResponse(createUpcomingEventsCalendar(graph, city.id));
+}
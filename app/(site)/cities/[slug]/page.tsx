@@ -1,6 +1,6 @@
-import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { CityMapClient } from "@/components/maps/CityMapClient";
 import { JsonLd } from "@/components/seo/JsonLd";
@@ -8,7 +8,15 @@ import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
-import { getCityEvents, loadCities, loadCity } from "@/lib/content";
+import { loadCities, loadCity } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import {
+  formatEventDate,
+  formatEventTimeRange,
+  getEventTimezone,
+  splitEventsByTime,
+} from "@/lib/event-time";
+import { getPageLocale } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCitySchema,
@@ -16,25 +24,33 @@ import {
   createWebPageSchema,
   generateMetadata as generateMeta,
 } from "@/lib/seo";
-import { urls } from "@/lib/utils/urls";
+import { paths, urls } from "@/lib/utils/urls";
+
+// Regenerated every 15 minutes so ended events leave the city's
+// upcoming events
+export const revalidate = 900;
 
 interface CityPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateMetadata({ params }: CityPageProps) {
   const { slug } = await params;
-  const city = await loadCity(slug);
+  const locale = await getPageLocale(params);
+  const city = await loadCity(slug, { locale });
 
   if (!city) {
     return {};
   }
 
-  return generateMeta({
-    title: `${city.name} | Bitcoin Builder Cities`,
-    description: city.meta.longDescription,
-    keywords: city.tags,
-  });
+  return generateMeta(
+    {
+      title: `${city.name} | Bitcoin Builder Cities`,
+      description: city.meta.longDescription,
+      keywords: city.tags,
+    },
+    { canonicalUrl: urls.cities.detail(slug), locale }
+  );
 }
 
 export async function generateStaticParams() {
@@ -46,13 +62,17 @@ export async function generateStaticParams() {
 
 export default async function CityPage({ params }: CityPageProps) {
   const { slug } = await params;
-  const city = await loadCity(slug);
+  const locale = await getPageLocale(params);
+  const city = await loadCity(slug, { locale });
 
   if (!city) {
     notFound();
   }
 
-  const events = await getCityEvents(city.id);
+  const { upcoming: events } = splitEventsByTime(
+    (await loadContentGraph({ locale })).getCityEvents(city.id)
+  );
+  const timeZone = getEventTimezone(city);
 
   const pageSchema = createWebPageSchema(
     urls.cities.detail(city.slug),
@@ -283,6 +303,14 @@ export default async function CityPage({ params }: CityPageProps) {
           <Heading level="h2" className="text-neutral-100 mb-4">
             Upcoming Events
           </Heading>
+          <p className="mb-6">
+            <a
+              href={paths.cities.calendar(city.slug)}
+              className="text-orange-400 hover:text-orange-300 transition-colors"
+            >
+              🗓️ Subscribe to {city.name} events (.ics)
+            </a>
+          </p>
           {events.length > 0 ? (
             <div className="space-y-4">
               {events.map((event) => (
@@ -298,8 +326,8 @@ export default async function CityPage({ params }: CityPageProps) {
                     {event.title}
                   </Heading>
                   <div className="text-sm text-neutral-400 mb-2 space-y-1">
-                    <p>📅 {event.date}</p>
-                    <p>🕐 {event.time}</p>
+                    <p>📅 {formatEventDate(event, timeZone, locale)}</p>
+                    <p>🕐 {formatEventTimeRange(event, timeZone, locale)}</p>
                     <p>📍 {event.location}</p>
                   </div>
                   <p className="text-neutral-300">{event.description}</p>
@@ -343,8 +371,7 @@ export default async function CityPage({ params }: CityPageProps) {
             Why {city.name} Is Great For Bitcoin
           </Heading>
 
-          {city.whyThisCityIsGreatForBitcoin.economicStrengths.length >
-            0 && (
+          {city.whyThisCityIsGreatForBitcoin.economicStrengths.length > 0 && (
             <div className="mb-6">
               <Heading
                 level="h3"
@@ -388,10 +415,7 @@ export default async function CityPage({ params }: CityPageProps) {
               Regulatory Environment
             </Heading>
             <p className="text-neutral-300 mb-2">
-              {
-                city.whyThisCityIsGreatForBitcoin.regulatoryEnvironment
-                  .summary
-              }
+              {city.whyThisCityIsGreatForBitcoin.regulatoryEnvironment.summary}
             </p>
             <div className="flex items-center gap-2">
               <span className="text-sm text-neutral-400">
@@ -464,9 +488,7 @@ export default async function CityPage({ params }: CityPageProps) {
               >
                 Safety Notes
               </Heading>
-              <p className="text-neutral-300">
-                {city.travelGuide.safetyNotes}
-              </p>
+              <p className="text-neutral-300">{city.travelGuide.safetyNotes}</p>
             </div>
 
             {city.travelGuide.localTips.length > 0 && (
@@ -1,12 +1,12 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
-import { loadCities, loadEvents } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCollectionPageSchema,
@@ -15,20 +15,23 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export const metadata = generatePageMetadata(
-  "Bitcoin Builder Cities",
-  "Explore Bitcoin Builder cities around the world and their ecosystems.",
-  ["cities", "bitcoin", "builder", "community"]
-);
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "Bitcoin Builder Cities",
+    "Explore Bitcoin Builder cities around the world and their ecosystems.",
+    ["cities", "bitcoin", "builder", "community"],
+    { canonicalUrl: urls.cities.list(), locale: await getPageLocale(params) }
+  );
+}
 
-export default async function CitiesPage() {
-  const { cities } = await loadCities();
-  const { events } = await loadEvents();
+export default async function CitiesPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const graph = await loadContentGraph({ locale });
+  const { cities } = graph;
 
-  // Pre-compute event counts for each city (more efficient than calling getCityEvents multiple times)
   const citiesWithEventCounts = cities.map((city) => ({
     ...city,
-    eventCount: events.filter((event) => event.cityId === city.id).length,
+    eventCount: graph.getCityEvents(city.id).length,
   }));
 
   const collectionSchema = createCollectionPageSchema(
@@ -0,0 +1,26 @@
+import { SITE_NAME } from "@/lib/constants";
+import { loadContentGraph } from "@/lib/content-graph";
+import { calendarResponse, createEventsCalendar } from "@/lib/event-calendar";
+
+/**
+ * GET /events/[slug]/event.ics
+ * One event as an .ics download, for "Add to calendar"
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const graph = await loadContentGraph();
+  const event = graph.getEvent(slug);
+
+  if (!event) {
+    return new Response("Event not found", { status: 404 });
+  }
+  return calendarResponse(
+    createEventsCalendar([event], graph, {
+      name: `${SITE_NAME}: ${event.title}`,
+    }),
+    `${event.slug}.ics`
+  );
+}
@@ -0,0 +1,55 @@
+import { notFound } from "next/navigation";
+
+import { LiveAgenda } from "@/components/events/LiveAgenda";
+
+import { isAdmin } from "@/lib/auth";
+import { loadEvent } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getScheduleSlots } from "@/lib/event-schedule";
+import { getEventTimezone } from "@/lib/event-time";
+import { getPageLocale } from "@/lib/i18n";
+import { getScheduleShift, toLiveSlots } from "@/lib/live-agenda";
+import { getPreviewOptions } from "@/lib/preview";
+
+interface LiveAgendaPageProps {
+  params: Promise<{ slug: string; locale?: string }>;
+}
+
+export async function generateMetadata({ params }: LiveAgendaPageProps) {
+  const { slug } = await params;
+  const event = await loadEvent(slug);
+
+  return {
+    title: event ? `Live: ${event.title}` : "Live agenda",
+    robots: { index: false, follow: false },
+  };
+}
+
+/**
+ * Full-screen "now/next" agenda for projecting during the event
+ */
+export default async function LiveAgendaPage({ params }: LiveAgendaPageProps) {
+  const { slug } = await params;
+  const locale = await getPageLocale(params);
+  const preview = { ...(await getPreviewOptions()), locale };
+  const event = await loadEvent(slug, preview);
+
+  if (!event || !event.schedule?.length) {
+    notFound();
+  }
+
+  const graph = await loadContentGraph(preview);
+  const timeZone = getEventTimezone(graph.getEventCity(event));
+
+  return (
+    <LiveAgenda
+      slug={event.slug}
+      eventTitle={event.title}
+      timeZone={timeZone}
+      locale={locale}
+      slots={toLiveSlots(getScheduleSlots(event, timeZone), graph)}
+      initialShift={await getScheduleShift(event.slug)}
+      canShift={await isAdmin()}
+    />
+  );
+}
@@ -1,23 +1,29 @@
-import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { EventFeedback } from "@/components/events/EventFeedback";
+import { EventLivestream } from "@/components/events/EventLivestream";
+import { EventRsvp } from "@/components/events/EventRsvp";
 import { Schedule } from "@/components/events/Schedule";
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
+import { PreviewNotice } from "@/components/ui/PreviewNotice";
 import { Section } from "@/components/ui/Section";
 
+import { loadEvent, loadEvents } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
 import {
-  loadCityById,
-  loadEvent,
-  loadEvents,
-  loadNewsTopics,
-  loadPresentationById,
-  loadPresentations,
-  loadPresenters,
-  loadSponsors,
-} from "@/lib/content";
+  formatEventDate,
+  formatEventTimeRange,
+  getEventTimezone,
+  isUpcomingEvent,
+} from "@/lib/event-time";
+import { getFeedbackPresentations } from "@/lib/feedback";
+import { getPageLocale } from "@/lib/i18n";
+import { getPreviewOptions } from "@/lib/preview";
 import {
   createBreadcrumbList,
   createEventSchema,
@@ -25,14 +31,23 @@ import {
   generateMetadata as generateMeta,
 } from "@/lib/seo";
 import { paths, urls } from "@/lib/utils/urls";
+import { getPublishingState } from "@/lib/visibility";
+
+// Regenerated every 15 minutes so ended events show as over, with
+// their recap
+export const revalidate = 900;
 
 interface EventPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateMetadata({ params }: EventPageProps) {
   const { slug } = await params;
-  const event = await loadEvent(slug);
+  const locale = await getPageLocale(params);
+  const event = await loadEvent(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
 
   if (!event) {
     return {};
@@ -41,6 +56,7 @@ export async function generateMetadata({ params }: EventPageProps) {
   const canonicalUrl = urls.events.detail(slug);
   return generateMeta(event.meta, {
     canonicalUrl,
+    locale,
     type: "website",
   });
 }
@@ -54,64 +70,54 @@ export async function generateStaticParams() {
 
 export default async function EventPage({ params }: EventPageProps) {
   const { slug } = await params;
-  const event = await loadEvent(slug);
+  const locale = await getPageLocale(params);
+  const preview = { ...(await getPreviewOptions()), locale };
+  const event = await loadEvent(slug, preview);
 
   if (!event) {
     notFound();
   }
 
-  // Resolve relationships inline
-  const city = event.cityId ? await loadCityById(event.cityId) : undefined;
-  const sponsors = event.sponsorIds
-    ? (await loadSponsors()).sponsors.filter((s) =>
-        event.sponsorIds!.includes(s.id)
-      )
-    : [];
-  const presentations = event.presentationIds
-    ? (await loadPresentations()).presentations.filter((p) =>
-        event.presentationIds!.includes(p.id)
-      )
-    : [];
-  const newsTopics = event.newsTopicIds
-    ? (await loadNewsTopics()).newsTopics.filter((t) =>
-        event.newsTopicIds!.includes(t.id)
-      )
-    : [];
-
-  // Pre-load presenters for presentations and schedule
-  const presentersData = await loadPresenters();
-  const presentersById = new Map(
-    presentersData.presenters.map((p) => [p.id, p])
-  );
-
-  // Pre-load presentations for schedule items
+  const publishingState = getPublishingState(event);
+  const graph = await loadContentGraph(preview);
+  const city = graph.getEventCity(event);
+  const series = graph.getEventSeries(event);
+  const timeZone = getEventTimezone(city);
+  const sponsors = graph.getEventSponsors(event);
+  const venue = graph.getEventVenue(event);
+  const presentations = graph.getEventPresentations(event);
+  const newsTopics = graph.getEventNewsTopics(event);
+  const presenters = graph.getEventPresenters(event);
+  const isPast = !isUpcomingEvent(event);
+  const recap = isPast ? graph.getEventRecap(event) : undefined;
+
+  // Lookup maps for the schedule
+  const presentersById = new Map(presenters.map((p) => [p.id, p]));
   const presentationsById = new Map(presentations.map((p) => [p.id, p]));
-
-  // Also load any presentations referenced in schedule items
-  if (event.schedule) {
-    for (const scheduleItem of event.schedule) {
-      if (
-        scheduleItem.presentationId &&
-        !presentationsById.has(scheduleItem.presentationId)
-      ) {
-        const presentation = await loadPresentationById(
-          scheduleItem.presentationId
-        );
-        if (presentation) {
-          presentationsById.set(presentation.id, presentation);
-        }
-      }
-    }
-  }
+  const recordings = [
+    ...(event.recordingUrl
+      ? [{ title: "Full stream", url: event.recordingUrl }]
+      : []),
+    ...presentations.flatMap((presentation) => {
+      const url = presentation.videoUrl ?? presentation.recordingUrl;
+      return url ? [{ title: presentation.title, url }] : [];
+    }),
+  ];
 
   // Generate structured data
   const eventSchema = createEventSchema({
     title: event.title,
     slug: event.slug,
     description: event.description,
-    date: event.date,
-    time: event.time,
+    startDate: event.startDate,
+    endDate: event.endDate,
     location: event.location,
+    ticketPriceSats: event.ticketPriceSats,
+    series,
+    attendanceMode: event.attendanceMode,
+    streamUrl: event.streamUrl,
+    city,
+    venueAddress: venue?.address,
   });
 
   const breadcrumbSchema = createBreadcrumbList([
@@ -124,8 +130,13 @@ export default async function EventPage({ params }: EventPageProps) {
 
   return (
     <>
-      <JsonLd data={structuredData} />
+      {publishingState === "published" && <JsonLd data={structuredData} />}
       <PageContainer>
+        <PreviewNotice
+          state={publishingState}
+          publishAt={event.publishAt}
+          path={paths.events.detail(slug)}
+        />
         <Link
           href="/events"
           className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
@@ -151,9 +162,27 @@ export default async function EventPage({ params }: EventPageProps) {
         </div>
 
         <div className="text-lg text-neutral-300 mb-8 space-y-2">
-          <p>📅 {event.date}</p>
-          <p>🕐 {event.time}</p>
-          <p>📍 {event.location}</p>
+          <p>
+            📅{" "}
+            <time dateTime={event.startDate}>
+              {formatEventDate(event, timeZone, locale)}
+            </time>
+          </p>
+          <p>🕐 {formatEventTimeRange(event, timeZone, locale)}</p>
+          {event.attendanceMode === "online" ? (
+            <p>💻 Online</p>
+          ) : (
+            <p>
+              📍 {event.location}
+              {venue?.address &&
+                !event.location.includes(venue.address.streetAddress) &&
+                `, ${venue.address.streetAddress}`}
+            </p>
+          )}
+          {event.attendanceMode === "mixed" && <p>💻 Also streamed online</p>}
+          {event.ticketPriceSats && (
+            <p>🎟️ {event.ticketPriceSats.toLocaleString("en-CA")} sats</p>
+          )}
           {city && (
             <p>
               🏙️ Hosted in{" "}
@@ -165,19 +194,99 @@ export default async function EventPage({ params }: EventPageProps) {
               </Link>
             </p>
           )}
+          {series && (
+            <p>
+              🔁 Part of{" "}
+              <Link
+                href={paths.series.detail(series.slug)}
+                className="text-orange-400 hover:text-orange-300 transition-colors"
+              >
+                {series.title}
+              </Link>
+            </p>
+          )}
+          {isPast ? (
+            <p className="text-neutral-400">✅ This event has ended</p>
+          ) : (
+            <p>
+              <a
+                href={paths.events.calendarFile(slug)}
+                className="text-orange-400 hover:text-orange-300 transition-colors"
+              >
+                🗓️ Add to calendar (.ics)
+              </a>
+            </p>
+          )}
         </div>
 
         <p className="text-xl text-neutral-300 mb-12">{event.description}</p>
 
+        <EventLivestream
+          title={event.title}
+          startDate={event.startDate}
+          endDate={event.endDate}
+          streamUrl={event.streamUrl}
+          recordings={recordings}
+        />
+
+        {event.rsvpOpen && (
+          <EventRsvp
+            slug={event.slug}
+            priceSats={event.ticketPriceSats}
+            heading={event.ticketPriceSats ? "Tickets" : "RSVP"}
+            hideWhenClosed
+          />
+        )}
+
+        <EventFeedback
+          slug={event.slug}
+          presentations={getFeedbackPresentations(graph, event)}
+          heading="Feedback"
+        />
+
+        {recap && (
+          <Section>
+            <Heading level="h2" className="text-neutral-100 mb-4">
+              Event Recap
+            </Heading>
+            <article className="bg-neutral-900 border border-neutral-800 rounded-xl p-6 hover:border-orange-400 transition-colors">
+              <Link href={paths.recaps.detail(recap.slug)}>
+                <Heading
+                  level="h3"
+                  className="text-neutral-100 mb-2 hover:text-orange-400 transition-colors"
+                >
+                  {recap.title}
+                </Heading>
+              </Link>
+              <p className="text-neutral-300 mb-4">{recap.summary}</p>
+              <Link
+                href={paths.recaps.detail(recap.slug)}
+                className="inline-block text-orange-400 hover:text-orange-300 font-medium transition-colors"
+              >
+                Read the Recap →
+              </Link>
+            </article>
+          </Section>
+        )}
+
         {event.schedule && event.schedule.length > 0 && (
           <Section>
             <Heading level="h2" className="text-neutral-100 mb-4">
               Schedule
             </Heading>
+            {!isPast && (
+              <Link
+                href={paths.events.live(slug)}
+                className="inline-block text-orange-400 hover:text-orange-300 mb-4 transition-colors"
+              >
+                📺 Live agenda →
+              </Link>
+            )}
             <Schedule
               items={event.schedule}
               presentersById={presentersById}
               presentationsById={presentationsById}
+              locale={locale}
             />
           </Section>
         )}
@@ -189,9 +298,10 @@ export default async function EventPage({ params }: EventPageProps) {
               <Heading level="h2" className="text-neutral-100 mb-4">
                 {section.title}
               </Heading>
-              <div className="text-lg text-neutral-300 mb-6 whitespace-pre-line leading-relaxed">
-                {section.body}
-              </div>
+              <Markdown
+                source={section.body}
+                className="text-lg text-neutral-300 mb-6 leading-relaxed"
+              />
               {section.links && section.links.length > 0 && (
                 <div className="flex flex-wrap gap-4">
                   {section.links.map((link, linkIndex) => (
@@ -211,96 +321,65 @@ export default async function EventPage({ params }: EventPageProps) {
             </Section>
           ))}
 
-        {(() => {
-          // Extract unique presenters from presentations
-          const presenterIds = new Set<string>();
-          presentations.forEach((presentation) => {
-            if (presentation.presenterId) {
-              presenterIds.add(presentation.presenterId);
-            }
-          });
-
-          // Also check presentations in schedule items
-          if (event.schedule) {
-            for (const scheduleItem of event.schedule) {
-              if (scheduleItem.presentationId) {
-                const presentation = presentationsById.get(
-                  scheduleItem.presentationId
-                );
-                if (presentation?.presenterId) {
-                  presenterIds.add(presentation.presenterId);
-                }
-              }
-            }
-          }
-
-          const uniquePresenters = Array.from(presenterIds)
-            .map((id) => presentersById.get(id))
-            .filter((p): p is NonNullable<typeof p> => p !== undefined);
-
-          if (uniquePresenters.length > 0) {
-            return (
-              <Section>
-                <Heading level="h2" className="text-neutral-100 mb-4">
-                  Presenters
-                </Heading>
-                <p className="text-neutral-300 mb-6">
-                  Meet the speakers presenting at this event:
-                </p>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {uniquePresenters.map((presenter) => (
-                    <article
-                      key={presenter.id}
-                      className="bg-neutral-900 border border-neutral-800 rounded-xl p-6 hover:border-orange-400 transition-colors"
-                    >
-                      <Link href={`/presenters/${presenter.slug}`}>
-                        <div className="flex items-start gap-4 mb-4">
-                          {presenter.avatar && (
-                            <img
-                              src={presenter.avatar}
-                              alt={presenter.name}
-                              className="w-16 h-16 rounded-full object-cover flex-shrink-0"
-                            />
-                          )}
-                          <div className="flex-1 min-w-0">
-                            <Heading
-                              level="h3"
-                              className="text-neutral-100 mb-1 hover:text-orange-400 transition-colors"
-                            >
-                              {presenter.name}
-                            </Heading>
-                            {presenter.title && (
-                              <p className="text-sm text-neutral-400 mb-1">
-                                {presenter.title}
-                              </p>
-                            )}
-                            {presenter.company && (
-                              <p className="text-sm text-neutral-500">
-                                {presenter.company}
-                              </p>
-                            )}
-                          </div>
-                        </div>
-                      </Link>
-                      {presenter.bio && (
-                        <p className="text-sm text-neutral-300 mb-4 line-clamp-3">
-                          {presenter.bio}
-                        </p>
+        {presenters.length > 0 && (
+          <Section>
+            <Heading level="h2" className="text-neutral-100 mb-4">
+              Presenters
+            </Heading>
+            <p className="text-neutral-300 mb-6">
+              Meet the speakers presenting at this event:
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {presenters.map((presenter) => (
+                <article
+                  key={presenter.id}
+                  className="bg-neutral-900 border border-neutral-800 rounded-xl p-6 hover:border-orange-400 transition-colors"
+                >
+                  <Link href={`/presenters/${presenter.slug}`}>
+                    <div className="flex items-start gap-4 mb-4">
+                      {presenter.avatar && (
+                        <img
+                          src={presenter.avatar}
+                          alt={presenter.name}
+                          className="w-16 h-16 rounded-full object-cover flex-shrink-0"
+                        />
                       )}
-                      <Link
-                        href={`/presenters/${presenter.slug}`}
-                        className="inline-block text-orange-400 hover:text-orange-300 font-medium transition-colors text-sm"
-                      >
-                        View Profile →
-                      </Link>
-                    </article>
-                  ))}
-                </div>
-              </Section>
-            );
-          }
-          return null;
-        })()}
+                      <div className="flex-1 min-w-0">
+                        <Heading
+                          level="h3"
+                          className="text-neutral-100 mb-1 hover:text-orange-400 transition-colors"
+                        >
+                          {presenter.name}
+                        </Heading>
+                        {presenter.title && (
+                          <p className="text-sm text-neutral-400 mb-1">
+                            {presenter.title}
+                          </p>
+                        )}
+                        {presenter.company && (
+                          <p className="text-sm text-neutral-500">
+                            {presenter.company}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </Link>
+                  {presenter.bio && (
+                    <p className="text-sm text-neutral-300 mb-4 line-clamp-3">
+                      {presenter.bio}
+                    </p>
+                  )}
+                  <Link
+                    href={`/presenters/${presenter.slug}`}
+                    className="inline-block text-orange-400 hover:text-orange-300 font-medium transition-colors text-sm"
+                  >
+                    View Profile →
+                  </Link>
+                </article>
+              ))}
+            </div>
+          </Section>
+        )}
 
         <Section>
           <Heading level="h2" className="text-neutral-100 mb-4">
@@ -309,8 +388,9 @@ export default async function EventPage({ params }: EventPageProps) {
           {newsTopics.length > 0 ? (
             <>
               <p className="text-neutral-300 mb-6">
-                We will be discussing these Bitcoin and Lightning Network news
-                topics at this event:
+                {isPast
+                  ? "We discussed these Bitcoin and Lightning Network news topics at this event:"
+                  : "We will be discussing these Bitcoin and Lightning Network news topics at this event:"}
               </p>
               <div className="space-y-4">
                 {newsTopics.map((topic) => (
@@ -426,6 +506,8 @@ export default async function EventPage({ params }: EventPageProps) {
                   const presenter = presentersById.get(
                     presentation.presenterId
                   );
+                  const recording =
+                    presentation.videoUrl ?? presentation.recordingUrl;
                   return (
                     <article
                       key={presentation.id}
@@ -475,6 +557,16 @@ export default async function EventPage({ params }: EventPageProps) {
                             📊 View Slides →
                           </Link>
                         )}
+                        {recording && (
+                          <a
+                            href={recording}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-block text-orange-400 hover:text-orange-300 font-medium transition-colors text-sm"
+                          >
+                            🎥 Watch Recording →
+                          </a>
+                        )}
                       </div>
                     </article>
                   );
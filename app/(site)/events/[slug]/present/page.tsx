@@ -4,16 +4,24 @@ import { notFound } from "next/navigation";
 
 import { EventTopicsPresentationView } from "@/components/events/EventTopicsPresentationView";
 
-import { loadEvent, loadNewsTopics } from "@/lib/content";
+import { loadEvent } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale, localizePath } from "@/lib/i18n";
+import { getPreviewOptions } from "@/lib/preview";
 import { generatePageMetadata } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
 interface EventPresentationPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateMetadata({ params }: EventPresentationPageProps) {
   const { slug } = await params;
-  const event = await loadEvent(slug);
+  const locale = await getPageLocale(params);
+  const event = await loadEvent(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
 
   if (!event) {
     return {};
@@ -22,7 +30,8 @@ export async function generateMetadata({ params }: EventPresentationPageProps) {
   return generatePageMetadata(
     `${event.title} - Discussion Presentation | Builder Vancouver`,
     `Discussion topics and questions for ${event.title}`,
-    ["events", "presentation", "discussion", ...(event.meta.keywords || [])]
+    ["events", "presentation", "discussion", ...(event.meta.keywords || [])],
+    { canonicalUrl: urls.events.present(slug), locale }
   );
 }
 
@@ -37,17 +46,18 @@ export default async function EventPresentationPage({
   params,
 }: EventPresentationPageProps) {
   const { slug } = await params;
-  const event = await loadEvent(slug);
+  const locale = await getPageLocale(params);
+  const preview = { ...(await getPreviewOptions()), locale };
+  const event = await loadEvent(slug, preview);
 
   if (!event) {
     notFound();
   }
 
   // Load news topics for this event
-  const { newsTopics } = await loadNewsTopics();
-  const eventTopics = event.newsTopicIds
-    ? newsTopics.filter((t) => event.newsTopicIds!.includes(t.id))
-    : [];
+  const eventTopics = (await loadContentGraph(preview)).getEventNewsTopics(
+    event
+  );
 
   // Filter to only topics with discussion questions
   const topicsWithQuestions = eventTopics.filter(
@@ -62,7 +72,7 @@ export default async function EventPresentationPage({
             This event has no discussion topics with questions.
           </p>
           <a
-            href={`/events/${slug}`}
+            href={localizePath(`/events/${slug}`, locale)}
             className="text-orange-400 hover:text-orange-300"
           >
             Go back to event
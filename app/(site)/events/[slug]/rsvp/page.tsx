@@ -0,0 +1,96 @@
+import { notFound } from "next/navigation";
+
+import { EventFeedback } from "@/components/events/EventFeedback";
+import { EventRsvp } from "@/components/events/EventRsvp";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { Heading } from "@/components/ui/Heading";
+
+import { loadEvent } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import {
+  formatEventDate,
+  formatEventTimeRange,
+  getEventTimezone,
+} from "@/lib/event-time";
+import { getFeedbackPresentations } from "@/lib/feedback";
+import { getPageLocale } from "@/lib/i18n";
+import { paths } from "@/lib/utils/urls";
+
+interface RsvpPageProps {
+  params: Promise<{ slug: string; locale?: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export async function generateMetadata({ params }: RsvpPageProps) {
+  const { slug } = await params;
+  const event = await loadEvent(slug);
+
+  return {
+    title: event ? `Your RSVP | ${event.title}` : "Your RSVP",
+    robots: { index: false, follow: false },
+  };
+}
+
+/**
+ * RSVP confirmation, reached from the event page or the link saved after
+ * signing up. Signed-in attendees see their RSVP without a token.
+ */
+export default async function RsvpPage({
+  params,
+  searchParams,
+}: RsvpPageProps) {
+  const { slug } = await params;
+  const { token } = await searchParams;
+  const locale = await getPageLocale(params);
+  const event = await loadEvent(slug, { locale });
+
+  if (!event) {
+    notFound();
+  }
+
+  const graph = await loadContentGraph({ locale });
+  const timeZone = getEventTimezone(graph.getEventCity(event));
+
+  return (
+    <PageContainer>
+      <Link
+        href={paths.events.detail(slug)}
+        className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
+      >
+        ← Back to {event.title}
+      </Link>
+
+      <Heading level="h1" className="text-orange-400 mb-4">
+        Your RSVP
+      </Heading>
+
+      <div className="text-lg text-neutral-300 mb-8 space-y-2">
+        <p className="font-semibold text-neutral-100">{event.title}</p>
+        <p>📅 {formatEventDate(event, timeZone, locale)}</p>
+        <p>🕐 {formatEventTimeRange(event, timeZone, locale)}</p>
+        <p>📍 {event.location}</p>
+      </div>
+
+      <EventRsvp
+        slug={slug}
+        token={token}
+        priceSats={event.ticketPriceSats}
+        showPass
+      />
+
+      <p className="text-sm text-neutral-500 mt-6">
+        Bookmark this page to come back to your RSVP. Anyone with the link can
+        cancel it.
+      </p>
+
+      <EventFeedback
+        slug={slug}
+        token={token}
+        presentations={getFeedbackPresentations(graph, event)}
+        heading="How Was It?"
+        className="mt-12"
+      />
+    </PageContainer>
+  );
+}
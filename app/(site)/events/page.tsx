@@ -0,0 +1,122 @@
+import { EventCard } from "@/components/events/EventCard";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { JsonLd } from "@/components/seo/JsonLd";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { loadContentGraph } from "@/lib/content-graph";
+import { splitEventsByTime } from "@/lib/event-time";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import {
+  createBreadcrumbList,
+  createCollectionPageSchema,
+  createSchemaGraph,
+  generatePageMetadata,
+} from "@/lib/seo";
+import { paths, urls } from "@/lib/utils/urls";
+
+// Regenerated every 15 minutes so ended events move to the past events
+export const revalidate = 900;
+
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "Events | Builder Vancouver",
+    "View upcoming Builder Vancouver meetups, workshops, and Bitcoin events.",
+    ["events", "bitcoin", "meetups", "vancouver", "workshops"],
+    { canonicalUrl: urls.events.list(), locale: await getPageLocale(params) }
+  );
+}
+
+export default async function EventsPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const graph = await loadContentGraph({ locale });
+  const { events } = graph;
+  const { upcoming, past } = splitEventsByTime(events);
+
+  // Generate structured data
+  const collectionSchema = createCollectionPageSchema(
+    urls.events.list(),
+    "Events | Builder Vancouver",
+    "View upcoming Builder Vancouver meetups, workshops, and Bitcoin events.",
+    [...upcoming, ...past].map((event) => ({
+      name: event.title,
+      url: urls.events.detail(event.slug),
+      description: event.description,
+    }))
+  );
+
+  const breadcrumbSchema = createBreadcrumbList([
+    { name: "Home", url: urls.home() },
+    { name: "Events" },
+  ]);
+
+  const structuredData = createSchemaGraph(collectionSchema, breadcrumbSchema);
+
+  return (
+    <>
+      <JsonLd data={structuredData} />
+      <PageContainer>
+        <Heading level="h1" className="text-orange-400 mb-4">
+          Events
+        </Heading>
+        <p className="text-xl text-neutral-300 mb-4">
+          Join us for upcoming Bitcoin meetups, workshops, and community events.
+        </p>
+        <p className="mb-12">
+          <a
+            href={paths.events.calendar()}
+            className="text-orange-400 hover:text-orange-300 transition-colors"
+          >
+            🗓️ Subscribe to the events calendar (.ics)
+          </a>
+        </p>
+
+        <Section>
+          <Heading level="h2" className="text-neutral-100 mb-6">
+            Upcoming Events
+          </Heading>
+          {upcoming.length === 0 ? (
+            <EmptyState
+              icon="📅"
+              title="No Upcoming Events"
+              message="We don't have any upcoming events scheduled at the moment. Check back soon for new meetups, workshops, and Bitcoin community events!"
+            />
+          ) : (
+            <div className="space-y-8">
+              {upcoming.map((event) => (
+                <EventCard
+                  key={event.slug}
+                  event={event}
+                  city={graph.getEventCity(event)}
+                  locale={locale}
+                  headingLevel="h3"
+                />
+              ))}
+            </div>
+          )}
+        </Section>
+
+        {past.length > 0 && (
+          <Section>
+            <Heading level="h2" className="text-neutral-100 mb-6">
+              Past Events
+            </Heading>
+            <div className="space-y-8">
+              {past.map((event) => (
+                <EventCard
+                  key={event.slug}
+                  event={event}
+                  city={graph.getEventCity(event)}
+                  recap={graph.getEventRecap(event)}
+                  locale={locale}
+                  headingLevel="h3"
+                />
+              ))}
+            </div>
+          </Section>
+        )}
+      </PageContainer>
+    </>
+  );
+}
@@ -4,8 +4,11 @@ import { FAQPageContent } from "@/components/faq/FAQPageContent";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
 
 import { loadFAQs } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import { markdownToPlainText } from "@/lib/markdown";
 import {
   createBreadcrumbList,
   createFAQPageSchema,
@@ -15,21 +18,26 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata(): Promise<Metadata> {
-  const content = await loadFAQs();
+export async function generateMetadata({
+  params,
+}: LocalePageProps): Promise<Metadata> {
+  const locale = await getPageLocale(params);
+  const content = await loadFAQs({ locale });
   return generateMeta(content.meta, {
     canonicalUrl: urls.faq(),
+    locale,
   });
 }
 
-export default async function FAQPage() {
-  const content = await loadFAQs();
+export default async function FAQPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadFAQs({ locale });
 
   // Flatten all FAQs for schema
   const allFaqs = content.categories.flatMap((category) =>
     category.faqs.map((faq) => ({
       question: faq.question,
-      answer: faq.answer,
+      answer: markdownToPlainText(faq.answer),
     }))
   );
 
@@ -45,6 +53,16 @@ export default async function FAQPage() {
     { name: "FAQ" },
   ]);
 
+  // Answers are rendered here so the client component only toggles them
+  const answers = Object.fromEntries(
+    content.categories.flatMap((category) =>
+      category.faqs.map((faq) => [
+        faq.id,
+        <Markdown key={faq.id} source={faq.answer} />,
+      ])
+    )
+  );
+
   const structuredData = createSchemaGraph(
     faqPageSchema,
     webPageSchema,
@@ -60,7 +78,7 @@ export default async function FAQPage() {
         </Heading>
         <p className="text-xl text-neutral-300 mb-12">{content.description}</p>
 
-        <FAQPageContent content={content} />
+        <FAQPageContent content={content} answers={answers} />
       </PageContainer>
     </>
   );
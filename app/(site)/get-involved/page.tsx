@@ -3,6 +3,7 @@ import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
 
 import { loadGetInvolved } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createHowToSchema,
@@ -11,13 +12,18 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadGetInvolved();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadGetInvolved({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.getInvolved(),
+    locale,
+  });
 }
 
-export default async function GetInvolvedPage() {
-  const content = await loadGetInvolved();
+export default async function GetInvolvedPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadGetInvolved({ locale });
 
   const howToSchema = createHowToSchema({
     title: content.title,
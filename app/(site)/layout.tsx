@@ -0,0 +1,35 @@
+import type { Metadata } from "next";
+
+import { SiteDocument } from "@/components/layout/SiteDocument";
+
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+
+// Every page is regenerated at least hourly, so scheduled entries go live
+// after their publishAt without a rebuild
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: "Builder Vancouver | Bitcoin Meetups & Education",
+  description:
+    "Join Builder Vancouver for Bitcoin meetups, Lightning Network education, and Layer 2 exploration. Connect with the local Bitcoin community.",
+  keywords: [
+    "bitcoin",
+    "vancouver",
+    "meetup",
+    "lightning network",
+    "layer 2",
+    "bitcoin education",
+  ],
+};
+
+/**
+ * Root layout of the English site. Translated routes have their own root
+ * layout in app/[locale] so <html lang> matches the page.
+ */
+export default function RootLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <SiteDocument lang={DEFAULT_LOCALE}>{children}</SiteDocument>;
+}
@@ -1,12 +1,13 @@
-import Link from "next/link";
-
-import { PageContainer } from "@/components/layout/PageContainer";
 import { FAQSection } from "@/components/faq/FAQSection";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
 import { Section } from "@/components/ui/Section";
 
-import { loadLightning101, getFAQsByTags } from "@/lib/content";
+import { getFAQsByTags, loadLightning101 } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCourseSchema,
@@ -15,14 +16,19 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadLightning101();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadLightning101({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.education.lightning101(),
+    locale,
+  });
 }
 
-export default async function Lightning101Page() {
-  const content = await loadLightning101();
-  const lightningFaqs = await getFAQsByTags(["lightning"]);
+export default async function Lightning101Page({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadLightning101({ locale });
+  const lightningFaqs = await getFAQsByTags(["lightning"], { locale });
 
   // Generate structured data
   const courseSchema = createCourseSchema({
@@ -53,9 +59,10 @@ export default async function Lightning101Page() {
             <Heading level="h2" className="text-neutral-100 mb-4">
               {section.title}
             </Heading>
-            <div className="text-lg text-neutral-300 mb-6 whitespace-pre-line leading-relaxed">
-              {section.body}
-            </div>
+            <Markdown
+              source={section.body}
+              className="text-lg text-neutral-300 mb-6 leading-relaxed"
+            />
             {section.links && section.links.length > 0 && (
               <div className="flex flex-wrap gap-4">
                 {section.links.map((link, linkIndex) => (
@@ -1,18 +1,19 @@
-import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadMember, loadMembers } from "@/lib/content";
+import { getPageLocale } from "@/lib/i18n";
 import { generateMetadata as generateMeta } from "@/lib/seo";
 import type { MemberResource } from "@/lib/types";
 import { urls } from "@/lib/utils/urls";
 
 interface MemberPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateStaticParams() {
@@ -24,7 +25,8 @@ export async function generateStaticParams() {
 
 export async function generateMetadata({ params }: MemberPageProps) {
   const { slug } = await params;
-  const member = await loadMember(slug);
+  const locale = await getPageLocale(params);
+  const member = await loadMember(slug, { locale });
 
   if (!member) {
     return {};
@@ -33,16 +35,19 @@ export async function generateMetadata({ params }: MemberPageProps) {
   const description = member.summary;
   const title = `${member.title} | Builder Member Persona`;
 
-  return generateMeta({
-    title,
-    description,
-    keywords: [
-      member.title,
-      "Builder Vancouver",
-      "Lightning Network workshop",
-      "Bitcoin community",
-    ],
-  });
+  return generateMeta(
+    {
+      title,
+      description,
+      keywords: [
+        member.title,
+        "Builder Vancouver",
+        "Lightning Network workshop",
+        "Bitcoin community",
+      ],
+    },
+    { canonicalUrl: urls.members.detail(slug), locale }
+  );
 }
 
 const RESOURCE_TYPE_LABELS: Record<MemberResource["type"], string> = {
@@ -59,7 +64,8 @@ const RESOURCE_TYPE_LABELS: Record<MemberResource["type"], string> = {
 
 export default async function MemberDetailPage({ params }: MemberPageProps) {
   const { slug } = await params;
-  const member = await loadMember(slug);
+  const locale = await getPageLocale(params);
+  const member = await loadMember(slug, { locale });
 
   if (!member) {
     notFound();
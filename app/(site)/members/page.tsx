@@ -1,20 +1,26 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadMembers } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import { generateMetadata as generateMeta } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadMembers();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadMembers({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.members.list(),
+    locale,
+  });
 }
 
-export default async function MembersPage() {
-  const content = await loadMembers();
+export default async function MembersPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadMembers({ locale });
 
   return (
     <PageContainer>
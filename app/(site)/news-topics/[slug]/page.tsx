@@ -1,6 +1,6 @@
-import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
@@ -8,6 +8,7 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadNewsTopicBySlug, loadNewsTopics } from "@/lib/content";
+import { getPageLocale } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createSchemaGraph,
@@ -16,22 +17,26 @@ import {
 import { urls } from "@/lib/utils/urls";
 
 interface NewsTopicPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateMetadata({ params }: NewsTopicPageProps) {
   const { slug } = await params;
-  const topic = await loadNewsTopicBySlug(slug);
+  const locale = await getPageLocale(params);
+  const topic = await loadNewsTopicBySlug(slug, { locale });
 
   if (!topic) {
     return {};
   }
 
-  return generateMeta({
-    title: `${topic.title} | Builder Vancouver`,
-    description: topic.summary,
-    keywords: topic.tags || [],
-  });
+  return generateMeta(
+    {
+      title: `${topic.title} | Builder Vancouver`,
+      description: topic.summary,
+      keywords: topic.tags || [],
+    },
+    { canonicalUrl: urls.newsTopics.detail(slug), locale }
+  );
 }
 
 export async function generateStaticParams() {
@@ -43,7 +48,8 @@ export async function generateStaticParams() {
 
 export default async function NewsTopicPage({ params }: NewsTopicPageProps) {
   const { slug } = await params;
-  const topic = await loadNewsTopicBySlug(slug);
+  const locale = await getPageLocale(params);
+  const topic = await loadNewsTopicBySlug(slug, { locale });
 
   if (!topic) {
     notFound();
@@ -1,5 +1,4 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
@@ -7,6 +6,7 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadNewsTopics } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCollectionPageSchema,
@@ -15,14 +15,21 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export const metadata = generatePageMetadata(
-  "News Topics | Builder Vancouver",
-  "Explore Bitcoin and Lightning Network news topics for discussion at Builder Vancouver events.",
-  ["news", "bitcoin", "lightning", "discussion", "topics"]
-);
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "News Topics | Builder Vancouver",
+    "Explore Bitcoin and Lightning Network news topics for discussion at Builder Vancouver events.",
+    ["news", "bitcoin", "lightning", "discussion", "topics"],
+    {
+      canonicalUrl: urls.newsTopics.list(),
+      locale: await getPageLocale(params),
+    }
+  );
+}
 
-export default async function NewsTopicsPage() {
-  const { newsTopics } = await loadNewsTopics();
+export default async function NewsTopicsPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const { newsTopics } = await loadNewsTopics({ locale });
 
   // Sort by date added (newest first)
   const sortedTopics = [...newsTopics].sort(
@@ -1,12 +1,13 @@
-import Link from "next/link";
-
-import { PageContainer } from "@/components/layout/PageContainer";
 import { FAQSection } from "@/components/faq/FAQSection";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
 import { Section } from "@/components/ui/Section";
 
-import { loadOnboarding, getFAQsByTags } from "@/lib/content";
+import { getFAQsByTags, loadOnboarding } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createHowToSchema,
@@ -15,14 +16,22 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadOnboarding();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadOnboarding({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.onboarding(),
+    locale,
+  });
 }
 
-export default async function OnboardingPage() {
-  const content = await loadOnboarding();
-  const gettingStartedFaqs = await getFAQsByTags(["getting-started", "community"]);
+export default async function OnboardingPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadOnboarding({ locale });
+  const gettingStartedFaqs = await getFAQsByTags(
+    ["getting-started", "community"],
+    { locale }
+  );
 
   // Generate structured data
   const howToSchema = createHowToSchema({
@@ -56,9 +65,10 @@ export default async function OnboardingPage() {
             <Heading level="h2" className="text-neutral-100 mb-4">
               {section.title}
             </Heading>
-            <p className="text-lg text-neutral-300 mb-6 leading-relaxed">
-              {section.body}
-            </p>
+            <Markdown
+              source={section.body}
+              className="text-lg text-neutral-300 mb-6 leading-relaxed"
+            />
             {section.links && section.links.length > 0 && (
               <div className="flex flex-wrap gap-4">
                 {section.links.map((link, linkIndex) => (
@@ -1,11 +1,12 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
 import { Section } from "@/components/ui/Section";
 
 import { loadOpenSource } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCourseSchema,
@@ -14,13 +15,18 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadOpenSource();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadOpenSource({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.openSource(),
+    locale,
+  });
 }
 
-export default async function OpenSourcePage() {
-  const content = await loadOpenSource();
+export default async function OpenSourcePage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadOpenSource({ locale });
 
   // Generate structured data
   const courseSchema = createCourseSchema({
@@ -51,9 +57,10 @@ export default async function OpenSourcePage() {
             <Heading level="h2" className="text-neutral-100 mb-4">
               {section.title}
             </Heading>
-            <div className="text-lg text-neutral-300 mb-6 whitespace-pre-line leading-relaxed">
-              {section.body}
-            </div>
+            <Markdown
+              source={section.body}
+              className="text-lg text-neutral-300 mb-6 leading-relaxed"
+            />
             {section.links && section.links.length > 0 && (
               <div className="flex flex-wrap gap-4">
                 {section.links.map((link, linkIndex) => (
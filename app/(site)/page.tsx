@@ -1,18 +1,30 @@
-import Link from "next/link";
-
+import { EventCard } from "@/components/events/EventCard";
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
 import { Section } from "@/components/ui/Section";
 
-import { loadCities, loadHome, loadMembers } from "@/lib/content";
+import { loadHome, loadMembers } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { splitEventsByTime } from "@/lib/event-time";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import { generateHomeMetadata } from "@/lib/seo";
 
-export const metadata = generateHomeMetadata();
+// Regenerated every 15 minutes so the next event moves on once it ends
+export const revalidate = 900;
+
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generateHomeMetadata(await getPageLocale(params));
+}
 
-export default async function Home() {
-  const content = await loadHome();
-  const { cities } = await loadCities();
-  const memberContent = await loadMembers();
+export default async function Home({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadHome({ locale });
+  const memberContent = await loadMembers({ locale });
+  const graph = await loadContentGraph({ locale });
+  const { cities } = graph;
+  const [nextEvent] = splitEventsByTime(graph.events).upcoming;
 
   return (
     <PageContainer>
@@ -32,15 +44,31 @@ export default async function Home() {
         </Link>
       </div>
 
+      {/* Next Event */}
+      {nextEvent && (
+        <Section>
+          <Heading level="h2" className="text-neutral-100 mb-6">
+            Next Event
+          </Heading>
+          <EventCard
+            event={nextEvent}
+            city={graph.getEventCity(nextEvent)}
+            locale={locale}
+            headingLevel="h3"
+          />
+        </Section>
+      )}
+
       {/* Content Sections */}
       {content.sections.map((section, index) => (
         <Section key={index}>
           <Heading level="h2" className="text-neutral-100 mb-4">
             {section.title}
           </Heading>
-          <p className="text-lg text-neutral-300 mb-6 leading-relaxed">
-            {section.body}
-          </p>
+          <Markdown
+            source={section.body}
+            className="text-lg text-neutral-300 mb-6 leading-relaxed"
+          />
           {section.links && section.links.length > 0 && (
             <div className="flex flex-wrap gap-4">
               {section.links.map((link, linkIndex) => (
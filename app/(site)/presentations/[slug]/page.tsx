@@ -1,17 +1,21 @@
-import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
+import { PreviewNotice } from "@/components/ui/PreviewNotice";
 import { Section } from "@/components/ui/Section";
 
 import {
-  loadEvent,
   loadPresentation,
   loadPresentations,
   loadPresenterById,
 } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale } from "@/lib/i18n";
+import { getPreviewOptions } from "@/lib/preview";
 import {
   createArticleSchema,
   createBreadcrumbList,
@@ -19,20 +23,27 @@ import {
   generateMetadata as generateMeta,
 } from "@/lib/seo";
 import { paths, urls } from "@/lib/utils/urls";
+import { getPublishingState } from "@/lib/visibility";
 
 interface PresentationPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateMetadata({ params }: PresentationPageProps) {
   const { slug } = await params;
-  const presentation = await loadPresentation(slug);
+  const locale = await getPageLocale(params);
+  const presentation = await loadPresentation(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
 
   if (!presentation) {
     return {};
   }
 
-  const presenter = await loadPresenterById(presentation.presenterId);
+  const presenter = await loadPresenterById(presentation.presenterId, {
+    locale,
+  });
   const canonicalUrl = urls.presentations.detail(slug);
   const publishedTime = presentation.date
     ? new Date(presentation.date).toISOString()
@@ -40,6 +51,7 @@ export async function generateMetadata({ params }: PresentationPageProps) {
 
   return generateMeta(presentation.meta, {
     canonicalUrl,
+    locale,
     type: "article",
     publishedTime,
     authors: presenter ? [presenter.name] : undefined,
@@ -57,16 +69,18 @@ export default async function PresentationPage({
   params,
 }: PresentationPageProps) {
   const { slug } = await params;
-  const presentation = await loadPresentation(slug);
+  const locale = await getPageLocale(params);
+  const preview = { ...(await getPreviewOptions()), locale };
+  const presentation = await loadPresentation(slug, preview);
 
   if (!presentation) {
     notFound();
   }
 
-  const presenter = await loadPresenterById(presentation.presenterId);
-  const event = presentation.eventId
-    ? await loadEvent(presentation.eventId)
-    : undefined;
+  const publishingState = getPublishingState(presentation);
+  const graph = await loadContentGraph(preview);
+  const presenter = graph.getPresentationPresenter(presentation);
+  const event = graph.getPresentationEvent(presentation);
 
   // Generate structured data
   const articleSchema = createArticleSchema({
@@ -74,7 +88,7 @@ export default async function PresentationPage({
     slug: presentation.slug,
     summary: presentation.description,
     date: presentation.date || new Date().toISOString().split("T")[0],
-    eventTitle: event?.title || "Builder Vancouver",
+    eventSlug: event?.slug,
     authorId: presenter?.id,
     authorName: presenter?.name,
     authorUrl: presenter ? urls.presenters.detail(presenter.slug) : undefined,
@@ -91,8 +105,13 @@ export default async function PresentationPage({
 
   return (
     <>
-      <JsonLd data={structuredData} />
+      {publishingState === "published" && <JsonLd data={structuredData} />}
       <PageContainer>
+        <PreviewNotice
+          state={publishingState}
+          publishAt={presentation.publishAt}
+          path={paths.presentations.detail(slug)}
+        />
         <Link
           href="/presentations"
           className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
@@ -235,9 +254,10 @@ export default async function PresentationPage({
                 <Heading level="h2" className="text-neutral-100 mb-4">
                   {section.title}
                 </Heading>
-                <div className="text-lg text-neutral-300 mb-6 whitespace-pre-line leading-relaxed">
-                  {section.body}
-                </div>
+                <Markdown
+                  source={section.body}
+                  className="text-lg text-neutral-300 mb-6 leading-relaxed"
+                />
                 {section.links && section.links.length > 0 && (
                   <div className="flex flex-wrap gap-4">
                     {section.links.map((link, linkIndex) => (
@@ -1,16 +1,12 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
-import {
-  loadEvents,
-  loadPresentations,
-  loadPresenters,
-} from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCollectionPageSchema,
@@ -19,20 +15,22 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export const metadata = generatePageMetadata(
-  "Presentations | Builder Vancouver",
-  "Browse all presentations and talks from Builder Vancouver events. Learn about Bitcoin, Lightning Network, and more.",
-  ["presentations", "bitcoin", "lightning", "talks", "vancouver"]
-);
-
-export default async function PresentationsPage() {
-  const { presentations } = await loadPresentations();
-  const { events } = await loadEvents();
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "Presentations | Builder Vancouver",
+    "Browse all presentations and talks from Builder Vancouver events. Learn about Bitcoin, Lightning Network, and more.",
+    ["presentations", "bitcoin", "lightning", "talks", "vancouver"],
+    {
+      canonicalUrl: urls.presentations.list(),
+      locale: await getPageLocale(params),
+    }
+  );
+}
 
-  // Pre-load events and presenters for efficient lookup
-  const eventsById = new Map(events.map((event) => [event.slug, event]));
-  const presentersData = await loadPresenters();
-  const presentersById = new Map(presentersData.presenters.map((p) => [p.id, p]));
+export default async function PresentationsPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const graph = await loadContentGraph({ locale });
+  const { presentations } = graph;
 
   // Sort presentations by date (most recent first)
   const sortedPresentations = [...presentations].sort((a, b) => {
@@ -85,10 +83,8 @@ export default async function PresentationsPage() {
         ) : (
           <div className="space-y-8">
             {sortedPresentations.map((presentation) => {
-              const presenter = presentersById.get(presentation.presenterId);
-              const event = presentation.eventId
-                ? eventsById.get(presentation.eventId)
-                : undefined;
+              const presenter = graph.getPresentationPresenter(presentation);
+              const event = graph.getPresentationEvent(presentation);
 
               return (
                 <Section key={presentation.id}>
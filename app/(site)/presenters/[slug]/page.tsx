@@ -1,18 +1,17 @@
-import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
+import { PreviewNotice } from "@/components/ui/PreviewNotice";
 import { Section } from "@/components/ui/Section";
 
-import {
-  getPresentationsByPresenter,
-  loadEvents,
-  loadPresenterBySlug,
-  loadPresenters,
-} from "@/lib/content";
+import { loadPresenterBySlug, loadPresenters } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale } from "@/lib/i18n";
+import { getPreviewOptions } from "@/lib/preview";
 import {
   createBreadcrumbList,
   createPersonSchema,
@@ -20,15 +19,20 @@ import {
   createWebPageSchema,
   generatePageMetadata,
 } from "@/lib/seo";
-import { urls } from "@/lib/utils/urls";
+import { paths, urls } from "@/lib/utils/urls";
+import { getPublishingState } from "@/lib/visibility";
 
 interface PresenterPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateMetadata({ params }: PresenterPageProps) {
   const { slug } = await params;
-  const presenter = await loadPresenterBySlug(slug);
+  const locale = await getPageLocale(params);
+  const presenter = await loadPresenterBySlug(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
 
   if (!presenter) {
     return {};
@@ -46,6 +50,7 @@ export async function generateMetadata({ params }: PresenterPageProps) {
     ["presenter", "speaker", presenter.name.toLowerCase()],
     {
       canonicalUrl,
+      locale,
       images: presenter.avatar
         ? [{ url: presenter.avatar, alt: presenter.name }]
         : undefined,
@@ -62,15 +67,17 @@ export async function generateStaticParams() {
 
 export default async function PresenterPage({ params }: PresenterPageProps) {
   const { slug } = await params;
-  const presenter = await loadPresenterBySlug(slug);
+  const locale = await getPageLocale(params);
+  const preview = { ...(await getPreviewOptions()), locale };
+  const presenter = await loadPresenterBySlug(slug, preview);
 
   if (!presenter) {
     notFound();
   }
 
-  const presentations = await getPresentationsByPresenter(presenter.id);
-  const { events } = await loadEvents();
-  const eventsById = new Map(events.map((event) => [event.slug, event]));
+  const publishingState = getPublishingState(presenter);
+  const graph = await loadContentGraph(preview);
+  const presentations = graph.getPresenterPresentations(presenter.id);
 
   // Generate structured data
   const pageSchema = createWebPageSchema(
@@ -108,8 +115,13 @@ export default async function PresenterPage({ params }: PresenterPageProps) {
 
   return (
     <>
-      <JsonLd data={structuredData} />
+      {publishingState === "published" && <JsonLd data={structuredData} />}
       <PageContainer>
+        <PreviewNotice
+          state={publishingState}
+          publishAt={presenter.publishAt}
+          path={paths.presenters.detail(slug)}
+        />
         <Link
           href="/presenters"
           className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
@@ -192,9 +204,7 @@ export default async function PresenterPage({ params }: PresenterPageProps) {
           {presentations.length > 0 ? (
             <div className="space-y-6">
               {presentations.map((presentation) => {
-                const event = presentation.eventId
-                  ? eventsById.get(presentation.eventId)
-                  : undefined;
+                const event = graph.getPresentationEvent(presentation);
 
                 return (
                   <article
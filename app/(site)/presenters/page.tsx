@@ -1,12 +1,12 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
-import { loadPresentations, loadPresenters } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCollectionPageSchema,
@@ -15,27 +15,27 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export const metadata = generatePageMetadata(
-  "Presenters | Builder Vancouver",
-  "Meet the speakers and presenters sharing their knowledge at Builder Vancouver events.",
-  ["presenters", "speakers", "bitcoin", "lightning", "vancouver"]
-);
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "Presenters | Builder Vancouver",
+    "Meet the speakers and presenters sharing their knowledge at Builder Vancouver events.",
+    ["presenters", "speakers", "bitcoin", "lightning", "vancouver"],
+    {
+      canonicalUrl: urls.presenters.list(),
+      locale: await getPageLocale(params),
+    }
+  );
+}
 
-export default async function PresentersPage() {
-  const { presenters } = await loadPresenters();
+export default async function PresentersPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const graph = await loadContentGraph({ locale });
+  const { presenters } = graph;
 
   // Sort presenters alphabetically by name
   const sortedPresenters = [...presenters].sort((a, b) =>
     a.name.localeCompare(b.name)
   );
-  
-  // Pre-load presentations for all presenters
-  const presentationsData = await loadPresentations();
-  const presentationsByPresenterId = new Map<string, typeof presentationsData.presentations>();
-  presentationsData.presentations.forEach((p) => {
-    const existing = presentationsByPresenterId.get(p.presenterId) || [];
-    presentationsByPresenterId.set(p.presenterId, [...existing, p]);
-  });
 
   // Generate structured data
   const collectionSchema = createCollectionPageSchema(
@@ -80,7 +80,9 @@ export default async function PresentersPage() {
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {sortedPresenters.map((presenter) => {
-              const presentations = presentationsByPresenterId.get(presenter.id) || [];
+              const presentations = graph.getPresenterPresentations(
+                presenter.id
+              );
 
               return (
                 <article
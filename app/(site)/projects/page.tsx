@@ -4,15 +4,22 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadProjects } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import { generateMetadata as generateMeta } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadProjects();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadProjects({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.projects(),
+    locale,
+  });
 }
 
-export default async function ProjectsPage() {
-  const content = await loadProjects();
+export default async function ProjectsPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadProjects({ locale });
 
   return (
     <PageContainer>
@@ -0,0 +1,176 @@
+import { notFound } from "next/navigation";
+
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { JsonLd } from "@/components/seo/JsonLd";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
+import { PreviewNotice } from "@/components/ui/PreviewNotice";
+import { Section } from "@/components/ui/Section";
+
+import { getAttendanceStats } from "@/lib/check-in";
+import { loadRecap, loadRecaps } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale } from "@/lib/i18n";
+import { getPreviewOptions } from "@/lib/preview";
+import { getEventRsvps } from "@/lib/rsvp";
+import {
+  createArticleSchema,
+  createBreadcrumbList,
+  createSchemaGraph,
+  generateMetadata as generateMeta,
+} from "@/lib/seo";
+import { paths, urls } from "@/lib/utils/urls";
+import { getPublishingState } from "@/lib/visibility";
+
+interface RecapPageProps {
+  params: Promise<{ slug: string; locale?: string }>;
+}
+
+export async function generateMetadata({ params }: RecapPageProps) {
+  const { slug } = await params;
+  const locale = await getPageLocale(params);
+  const recap = await loadRecap(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
+
+  if (!recap) {
+    return {};
+  }
+
+  return generateMeta(recap.meta, {
+    canonicalUrl: urls.recaps.detail(slug),
+    locale,
+  });
+}
+
+export async function generateStaticParams() {
+  const { recaps } = await loadRecaps();
+  return recaps.map((recap) => ({
+    slug: recap.slug,
+  }));
+}
+
+export default async function RecapPage({ params }: RecapPageProps) {
+  const { slug } = await params;
+  const locale = await getPageLocale(params);
+  const preview = { ...(await getPreviewOptions()), locale };
+  const recap = await loadRecap(slug, preview);
+
+  if (!recap) {
+    notFound();
+  }
+
+  const publishingState = getPublishingState(recap);
+  const graph = await loadContentGraph(preview);
+  const event = graph.getRecapEvent(recap);
+  const attendance = event
+    ? getAttendanceStats(await getEventRsvps(event.slug))
+    : undefined;
+
+  // Generate structured data
+  const articleSchema = createArticleSchema({
+    title: recap.title,
+    slug: recap.slug,
+    summary: recap.summary,
+    date: recap.date,
+    eventSlug: event?.slug,
+  });
+
+  const breadcrumbSchema = createBreadcrumbList([
+    { name: "Home", url: urls.home() },
+    { name: "Recaps", url: urls.recaps.list() },
+    { name: recap.title },
+  ]);
+
+  const structuredData = createSchemaGraph(articleSchema, breadcrumbSchema);
+
+  return (
+    <>
+      {publishingState === "published" && <JsonLd data={structuredData} />}
+      <PageContainer>
+        <PreviewNotice
+          state={publishingState}
+          publishAt={recap.publishAt}
+          path={paths.recaps.detail(slug)}
+        />
+        <Link
+          href="/recaps"
+          className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
+        >
+          ← Back to Recaps
+        </Link>
+
+        <Heading level="h1" className="text-orange-400 mb-4">
+          {recap.title}
+        </Heading>
+
+        <div className="text-lg text-neutral-300 mb-8 space-y-2">
+          <p>📅 {recap.date}</p>
+          {event && (
+            <p>
+              Event:{" "}
+              <Link
+                href={paths.events.detail(event.slug)}
+                className="text-orange-400 hover:text-orange-300 transition-colors"
+              >
+                {event.title}
+              </Link>
+            </p>
+          )}
+          {attendance && attendance.checkedIn > 0 && (
+            <p>
+              👥 {attendance.checkedIn} attended
+              {attendance.turnout !== undefined &&
+                ` · ${attendance.confirmed} RSVPed · ${Math.round(attendance.turnout * 100)}% turnout`}
+            </p>
+          )}
+        </div>
+
+        <p className="text-xl text-neutral-300 mb-12">{recap.summary}</p>
+
+        {recap.sections && recap.sections.length > 0 ? (
+          <>
+            {recap.sections.map((section, index) => (
+              <Section key={index}>
+                <Heading level="h2" className="text-neutral-100 mb-4">
+                  {section.title}
+                </Heading>
+                <Markdown
+                  source={section.body}
+                  className="text-lg text-neutral-300 mb-6 leading-relaxed"
+                />
+                {section.links && section.links.length > 0 && (
+                  <div className="flex flex-wrap gap-4">
+                    {section.links.map((link, linkIndex) => (
+                      <Link
+                        key={linkIndex}
+                        href={link.url}
+                        className="text-orange-400 hover:text-orange-300 font-medium underline transition-colors"
+                        {...(link.external
+                          ? { target: "_blank", rel: "noopener noreferrer" }
+                          : {})}
+                      >
+                        {link.text}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </Section>
+            ))}
+          </>
+        ) : (
+          <Section>
+            <EmptyState
+              icon="📝"
+              message="No additional sections have been added to this recap yet."
+              className="py-8"
+            />
+          </Section>
+        )}
+      </PageContainer>
+    </>
+  );
+}
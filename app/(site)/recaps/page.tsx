@@ -1,28 +1,37 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
-import { loadRecaps } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCollectionPageSchema,
   createSchemaGraph,
   generatePageMetadata,
 } from "@/lib/seo";
-import { urls } from "@/lib/utils/urls";
+import { paths, urls } from "@/lib/utils/urls";
 
-export const metadata = generatePageMetadata(
-  "Event Recaps | Builder Vancouver",
-  "Read recaps and highlights from past Builder Vancouver events and workshops.",
-  ["recaps", "bitcoin", "events", "vancouver", "highlights"]
-);
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "Event Recaps | Builder Vancouver",
+    "Read recaps and highlights from past Builder Vancouver events and workshops.",
+    ["recaps", "bitcoin", "events", "vancouver", "highlights"],
+    { canonicalUrl: urls.recaps.list(), locale: await getPageLocale(params) }
+  );
+}
 
-export default async function RecapsPage() {
-  const { recaps } = await loadRecaps();
+export default async function RecapsPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const graph = await loadContentGraph({ locale });
+  const { recaps } = graph;
+  const items = recaps.map((recap) => ({
+    recap,
+    event: graph.getRecapEvent(recap),
+  }));
 
   // Generate structured data
   const collectionSchema = createCollectionPageSchema(
@@ -64,7 +73,7 @@ export default async function RecapsPage() {
           </Section>
         ) : (
           <div className="space-y-8">
-            {recaps.map((recap) => (
+            {items.map(({ recap, event }) => (
             <Section key={recap.slug}>
               <article className="bg-neutral-900 border border-neutral-800 rounded-xl p-6 hover:border-orange-400 transition-colors">
                 <Link href={`/recaps/${recap.slug}`}>
@@ -77,7 +86,17 @@ export default async function RecapsPage() {
                 </Link>
                 <div className="text-sm text-neutral-400 mb-4">
                   <p>📅 {recap.date}</p>
-                  <p>Event: {recap.eventTitle}</p>
+                  {event && (
+                    <p>
+                      Event:{" "}
+                      <Link
+                        href={paths.events.detail(event.slug)}
+                        className="text-orange-400 hover:text-orange-300 transition-colors"
+                      >
+                        {event.title}
+                      </Link>
+                    </p>
+                  )}
                 </div>
                 <p className="text-neutral-300 mb-4">{recap.summary}</p>
                 <Link
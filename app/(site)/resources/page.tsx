@@ -4,15 +4,22 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadResources } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import { generateMetadata as generateMeta } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadResources();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadResources({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.resources(),
+    locale,
+  });
 }
 
-export default async function ResourcesPage() {
-  const content = await loadResources();
+export default async function ResourcesPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadResources({ locale });
 
   // Group resources by category
   const resourcesByCategory = content.resources.reduce(
@@ -0,0 +1,20 @@
+import { loadContentGraph } from "@/lib/content-graph";
+import { calendarResponse, createSeriesCalendar } from "@/lib/event-calendar";
+
+/**
+ * GET /series/[slug]/events.ics
+ * Subscribable iCalendar feed of an event series' upcoming events
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const graph = await loadContentGraph();
+  const series = graph.eventSeries.find((s) => s.slug === slug);
+
+  if (!series) {
+    return new Response("Series not found", { status: 404 });
+  }
+  return calendarResponse(createSeriesCalendar(graph, series));
+}
@@ -0,0 +1,228 @@
+import { notFound } from "next/navigation";
+
+import { EventCard } from "@/components/events/EventCard";
+import { Schedule } from "@/components/events/Schedule";
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { JsonLd } from "@/components/seo/JsonLd";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
+import { PreviewNotice } from "@/components/ui/PreviewNotice";
+import { Section } from "@/components/ui/Section";
+
+import { loadEventSeries, loadEventSeriesBySlug } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { describeRecurrence } from "@/lib/event-series";
+import { formatScheduleTime, splitEventsByTime } from "@/lib/event-time";
+import { getPageLocale } from "@/lib/i18n";
+import { getPreviewOptions } from "@/lib/preview";
+import {
+  createBreadcrumbList,
+  createEventSeriesSchema,
+  createSchemaGraph,
+  generateMetadata as generateMeta,
+} from "@/lib/seo";
+import { paths, urls } from "@/lib/utils/urls";
+import { getPublishingState } from "@/lib/visibility";
+
+// Regenerated every 15 minutes so ended meetups move to the past ones
+export const revalidate = 900;
+
+interface SeriesPageProps {
+  params: Promise<{ slug: string; locale?: string }>;
+}
+
+export async function generateMetadata({ params }: SeriesPageProps) {
+  const { slug } = await params;
+  const locale = await getPageLocale(params);
+  const series = await loadEventSeriesBySlug(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
+
+  if (!series) {
+    return {};
+  }
+
+  return generateMeta(series.meta, {
+    canonicalUrl: urls.series.detail(slug),
+    locale,
+    type: "website",
+  });
+}
+
+export async function generateStaticParams() {
+  const { series } = await loadEventSeries();
+  return series.map((s) => ({
+    slug: s.slug,
+  }));
+}
+
+export default async function SeriesPage({ params }: SeriesPageProps) {
+  const { slug } = await params;
+  const locale = await getPageLocale(params);
+  const preview = { ...(await getPreviewOptions()), locale };
+  const series = await loadEventSeriesBySlug(slug, preview);
+
+  if (!series) {
+    notFound();
+  }
+
+  const publishingState = getPublishingState(series);
+  const graph = await loadContentGraph(preview);
+  const city = series.cityId ? graph.getCity(series.cityId) : undefined;
+  const events = graph.getSeriesEvents(series.id);
+  const { upcoming, past } = splitEventsByTime(events);
+  const { recurrence } = series;
+
+  const seriesSchema = createEventSeriesSchema({
+    title: series.title,
+    slug: series.slug,
+    description: series.description,
+    eventSlugs: events.map((event) => event.slug),
+  });
+
+  const breadcrumbSchema = createBreadcrumbList([
+    { name: "Home", url: urls.home() },
+    { name: "Events", url: urls.events.list() },
+    { name: series.title },
+  ]);
+
+  const structuredData = createSchemaGraph(seriesSchema, breadcrumbSchema);
+
+  return (
+    <>
+      {publishingState === "published" && <JsonLd data={structuredData} />}
+      <PageContainer>
+        <PreviewNotice
+          state={publishingState}
+          publishAt={series.publishAt}
+          path={paths.series.detail(slug)}
+        />
+        <Link
+          href="/events"
+          className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
+        >
+          ← Back to Events
+        </Link>
+
+        <Heading level="h1" className="text-orange-400 mb-4">
+          {series.title}
+        </Heading>
+
+        <div className="text-lg text-neutral-300 mb-8 space-y-2">
+          <p>🔁 {describeRecurrence(recurrence)}</p>
+          <p>
+            🕐 {formatScheduleTime(recurrence.startTime, locale)} –{" "}
+            {formatScheduleTime(recurrence.endTime, locale)}
+          </p>
+          <p>📍 {series.location}</p>
+          {city && (
+            <p>
+              🏙️ Hosted in{" "}
+              <Link
+                href={paths.cities.detail(city.slug)}
+                className="text-orange-400 hover:text-orange-300 transition-colors"
+              >
+                {city.name}
+              </Link>
+            </p>
+          )}
+          <p>
+            <a
+              href={paths.series.calendar(series.slug)}
+              className="text-orange-400 hover:text-orange-300 transition-colors"
+            >
+              🗓️ Subscribe to this series (.ics)
+            </a>
+          </p>
+        </div>
+
+        <p className="text-xl text-neutral-300 mb-12">{series.description}</p>
+
+        <Section>
+          <Heading level="h2" className="text-neutral-100 mb-6">
+            Upcoming Events
+          </Heading>
+          {upcoming.length === 0 ? (
+            <EmptyState
+              icon="📅"
+              message="No upcoming events are scheduled in this series. Check back soon!"
+              className="py-8"
+            />
+          ) : (
+            <div className="space-y-8">
+              {upcoming.map((event) => (
+                <EventCard
+                  key={event.slug}
+                  event={event}
+                  city={graph.getEventCity(event)}
+                  locale={locale}
+                  headingLevel="h3"
+                />
+              ))}
+            </div>
+          )}
+        </Section>
+
+        {series.schedule && series.schedule.length > 0 && (
+          <Section>
+            <Heading level="h2" className="text-neutral-100 mb-4">
+              Typical Schedule
+            </Heading>
+            <Schedule items={series.schedule} locale={locale} />
+          </Section>
+        )}
+
+        {series.sections.map((section, index) => (
+          <Section key={index}>
+            <Heading level="h2" className="text-neutral-100 mb-4">
+              {section.title}
+            </Heading>
+            <Markdown
+              source={section.body}
+              className="text-lg text-neutral-300 mb-6 leading-relaxed"
+            />
+            {section.links && section.links.length > 0 && (
+              <div className="flex flex-wrap gap-4">
+                {section.links.map((link, linkIndex) => (
+                  <a
+                    key={linkIndex}
+                    href={link.url}
+                    className="text-orange-400 hover:text-orange-300 font-medium underline transition-colors"
+                    {...(link.external
+                      ? { target: "_blank", rel: "noopener noreferrer" }
+                      : {})}
+                  >
+                    {link.text}
+                  </a>
+                ))}
+              </div>
+            )}
+          </Section>
+        ))}
+
+        {past.length > 0 && (
+          <Section>
+            <Heading level="h2" className="text-neutral-100 mb-6">
+              Past Events
+            </Heading>
+            <div className="space-y-8">
+              {past.map((event) => (
+                <EventCard
+                  key={event.slug}
+                  event={event}
+                  city={graph.getEventCity(event)}
+                  recap={graph.getEventRecap(event)}
+                  locale={locale}
+                  headingLevel="h3"
+                />
+              ))}
+            </div>
+          </Section>
+        )}
+      </PageContainer>
+    </>
+  );
+}
@@ -1,31 +1,44 @@
-import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
+import { PreviewNotice } from "@/components/ui/PreviewNotice";
 import { Section } from "@/components/ui/Section";
+
 import { loadSlideDeck, loadSlides } from "@/lib/content";
+import { getPageLocale } from "@/lib/i18n";
+import { markdownToPlainText } from "@/lib/markdown";
+import { getPreviewOptions } from "@/lib/preview";
 import {
   createBreadcrumbList,
   createSchemaGraph,
   generateMetadata as generateMeta,
 } from "@/lib/seo";
 import { paths, urls } from "@/lib/utils/urls";
+import { getPublishingState } from "@/lib/visibility";
 
 interface SlideDeckPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateMetadata({ params }: SlideDeckPageProps) {
   const { slug } = await params;
-  const deck = await loadSlideDeck(slug);
+  const locale = await getPageLocale(params);
+  const deck = await loadSlideDeck(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
 
   if (!deck) {
     return {};
   }
 
-  return generateMeta(deck.meta);
+  return generateMeta(deck.meta, {
+    canonicalUrl: urls.slides.detail(slug),
+    locale,
+  });
 }
 
 export async function generateStaticParams() {
@@ -37,12 +50,18 @@ export async function generateStaticParams() {
 
 export default async function SlideDeckPage({ params }: SlideDeckPageProps) {
   const { slug } = await params;
-  const deck = await loadSlideDeck(slug);
+  const locale = await getPageLocale(params);
+  const deck = await loadSlideDeck(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
 
   if (!deck) {
     notFound();
   }
 
+  const publishingState = getPublishingState(deck);
+
   const sortedSlides = [...deck.slides].sort((a, b) => a.order - b.order);
   const createdDate = new Date(deck.createdAt).toLocaleDateString();
   const updatedDate = new Date(deck.updatedAt).toLocaleDateString();
@@ -57,8 +76,13 @@ export default async function SlideDeckPage({ params }: SlideDeckPageProps) {
 
   return (
     <>
-      <JsonLd data={structuredData} />
+      {publishingState === "published" && <JsonLd data={structuredData} />}
       <PageContainer>
+        <PreviewNotice
+          state={publishingState}
+          publishAt={deck.publishAt}
+          path={paths.slides.detail(slug)}
+        />
         <Link
           href={paths.slides.list()}
           className="inline-block text-orange-400 hover:text-orange-300 mb-6 transition-colors"
@@ -73,7 +97,10 @@ export default async function SlideDeckPage({ params }: SlideDeckPageProps) {
             </Heading>
             <p className="text-xl text-neutral-300 mb-4">{deck.description}</p>
             <div className="flex flex-wrap gap-4 text-sm text-neutral-400">
-              <p>📊 {deck.slides.length} {deck.slides.length === 1 ? "slide" : "slides"}</p>
+              <p>
+                📊 {deck.slides.length}{" "}
+                {deck.slides.length === 1 ? "slide" : "slides"}
+              </p>
               <p>📅 Created {createdDate}</p>
               <p>🔄 Updated {updatedDate}</p>
             </div>
@@ -89,9 +116,12 @@ export default async function SlideDeckPage({ params }: SlideDeckPageProps) {
         {sortedSlides.length === 0 ? (
           <Section>
             <div className="text-center py-12">
-              <p className="text-neutral-400 mb-4">This deck has no slides yet.</p>
+              <p className="text-neutral-400 mb-4">
+                This deck has no slides yet.
+              </p>
               <p className="text-sm text-neutral-500">
-                To add slides, edit the slides.json file in the content directory.
+                To add slides, edit the slides.json file in the content
+                directory.
               </p>
             </div>
           </Section>
@@ -124,11 +154,13 @@ export default async function SlideDeckPage({ params }: SlideDeckPageProps) {
 
                   <div className="text-neutral-300 space-y-2">
                     {slide.subtitle && (
-                      <p className="text-sm text-neutral-400">{slide.subtitle}</p>
+                      <p className="text-sm text-neutral-400">
+                        {slide.subtitle}
+                      </p>
                     )}
                     {slide.body && (
                       <p className="text-sm line-clamp-3 whitespace-pre-line">
-                        {slide.body}
+                        {markdownToPlainText(slide.body)}
                       </p>
                     )}
                     {slide.image && (
@@ -151,7 +183,11 @@ export default async function SlideDeckPage({ params }: SlideDeckPageProps) {
               Editing Instructions
             </Heading>
             <p className="text-neutral-300 mb-4">
-              To edit this slide deck, modify the <code className="bg-neutral-800 px-2 py-1 rounded text-orange-400">content/slides.json</code> file.
+              To edit this slide deck, modify the{" "}
+              <code className="bg-neutral-800 px-2 py-1 rounded text-orange-400">
+                content/slides.json
+              </code>{" "}
+              file.
             </p>
             <p className="text-sm text-neutral-400">
               Full CRUD functionality will be available in a future update.
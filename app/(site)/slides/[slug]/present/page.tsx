@@ -3,15 +3,22 @@ import { notFound } from "next/navigation";
 
 import { PresentationView } from "@/components/slides/PresentationView";
 import { loadSlideDeck, loadSlides } from "@/lib/content";
+import { getPageLocale, localizePath } from "@/lib/i18n";
+import { getPreviewOptions } from "@/lib/preview";
 import { generatePageMetadata } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
 interface PresentationPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateMetadata({ params }: PresentationPageProps) {
   const { slug } = await params;
-  const deck = await loadSlideDeck(slug);
+  const locale = await getPageLocale(params);
+  const deck = await loadSlideDeck(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
 
   if (!deck) {
     return {};
@@ -20,7 +27,8 @@ export async function generateMetadata({ params }: PresentationPageProps) {
   return generatePageMetadata(
     `${deck.title} - Presentation | Builder Vancouver`,
     deck.description,
-    ["slides", "presentation", ...(deck.meta.keywords || [])]
+    ["slides", "presentation", ...(deck.meta.keywords || [])],
+    { canonicalUrl: urls.slides.present(slug), locale }
   );
 }
 
@@ -35,7 +43,11 @@ export default async function PresentationPage({
   params,
 }: PresentationPageProps) {
   const { slug } = await params;
-  const deck = await loadSlideDeck(slug);
+  const locale = await getPageLocale(params);
+  const deck = await loadSlideDeck(slug, {
+    ...(await getPreviewOptions()),
+    locale,
+  });
 
   if (!deck) {
     notFound();
@@ -47,7 +59,7 @@ export default async function PresentationPage({
         <div className="text-center">
           <p className="text-neutral-400 mb-4">This slide deck has no slides.</p>
           <a
-            href={`/slides/${slug}`}
+            href={localizePath(`/slides/${slug}`, locale)}
             className="text-orange-400 hover:text-orange-300"
           >
             Go back to edit
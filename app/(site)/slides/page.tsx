@@ -1,5 +1,4 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
@@ -7,6 +6,7 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 import { SlideDeckCard } from "@/components/slides/SlideDeckCard";
 import { loadSlides } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCollectionPageSchema,
@@ -15,14 +15,18 @@ import {
 } from "@/lib/seo";
 import { paths, urls } from "@/lib/utils/urls";
 
-export const metadata = generatePageMetadata(
-  "Slides | Builder Vancouver",
-  "Browse and present slide decks from Builder Vancouver. Create, edit, and share presentations about Bitcoin and technology.",
-  ["slides", "presentations", "bitcoin", "vancouver"]
-);
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "Slides | Builder Vancouver",
+    "Browse and present slide decks from Builder Vancouver. Create, edit, and share presentations about Bitcoin and technology.",
+    ["slides", "presentations", "bitcoin", "vancouver"],
+    { canonicalUrl: urls.slides.list(), locale: await getPageLocale(params) }
+  );
+}
 
-export default async function SlidesPage() {
-  const { slideDecks } = await loadSlides();
+export default async function SlidesPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const { slideDecks } = await loadSlides({ locale });
 
   // Sort by updated date (most recent first)
   const sortedDecks = [...slideDecks].sort((a, b) => {
@@ -1,12 +1,12 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
-import { loadEvents, loadSponsors } from "@/lib/content";
+import { loadContentGraph } from "@/lib/content-graph";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCollectionPageSchema,
@@ -15,21 +15,24 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export const metadata = generatePageMetadata(
-  "Sponsors | Builder Vancouver",
-  "Meet our generous sponsors who support Bitcoin Builder events and community initiatives.",
-  ["sponsors", "partners", "bitcoin", "builder", "community"]
-);
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "Sponsors | Builder Vancouver",
+    "Meet our generous sponsors who support Bitcoin Builder events and community initiatives.",
+    ["sponsors", "partners", "bitcoin", "builder", "community"],
+    { canonicalUrl: urls.sponsors.list(), locale: await getPageLocale(params) }
+  );
+}
 
-export default async function SponsorsPage() {
-  const { sponsors } = await loadSponsors();
-  const { events } = await loadEvents();
+export default async function SponsorsPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const graph = await loadContentGraph({ locale });
+  const { sponsors } = graph;
 
   // Pre-compute event counts for each sponsor (how many events they sponsor)
   const sponsorsWithEventCounts = sponsors.map((sponsor) => ({
     ...sponsor,
-    eventCount: events.filter((event) => event.sponsorIds?.includes(sponsor.id))
-      .length,
+    eventCount: graph.getSponsorEvents(sponsor.id).length,
   }));
 
   // Group sponsors by type for better organization
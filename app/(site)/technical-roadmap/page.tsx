@@ -4,6 +4,7 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadTechnicalRoadmap } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createSchemaGraph,
@@ -12,9 +13,13 @@ import {
 } from "@/lib/seo";
 import { buildUrl, urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadTechnicalRoadmap();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadTechnicalRoadmap({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.technicalRoadmap(),
+    locale,
+  });
 }
 
 function getStatusColor(status: string): string {
@@ -65,8 +70,11 @@ function formatDate(dateString?: string): string {
   }
 }
 
-export default async function TechnicalRoadmapPage() {
-  const content = await loadTechnicalRoadmap();
+export default async function TechnicalRoadmapPage({
+  params,
+}: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadTechnicalRoadmap({ locale });
 
   // Generate structured data
   const pageUrl = buildUrl("/technical-roadmap");
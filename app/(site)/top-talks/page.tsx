@@ -0,0 +1,131 @@
+import { Link } from "@/components/i18n/Link";
+import { PageContainer } from "@/components/layout/PageContainer";
+import { JsonLd } from "@/components/seo/JsonLd";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { loadContentGraph } from "@/lib/content-graph";
+import {
+  formatRating,
+  getTopTalks,
+  MIN_PUBLIC_RATINGS,
+  readFeedback,
+} from "@/lib/feedback";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
+import {
+  createBreadcrumbList,
+  createCollectionPageSchema,
+  createSchemaGraph,
+  generatePageMetadata,
+} from "@/lib/seo";
+import { paths, urls } from "@/lib/utils/urls";
+
+export async function generateMetadata({ params }: LocalePageProps) {
+  return generatePageMetadata(
+    "Top Talks | Builder Vancouver",
+    "The best-rated talks at Builder Vancouver events, as rated by attendees.",
+    ["top talks", "presentations", "bitcoin", "lightning", "vancouver"],
+    {
+      canonicalUrl: urls.topTalks(),
+      locale: await getPageLocale(params),
+    }
+  );
+}
+
+export default async function TopTalksPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const graph = await loadContentGraph({ locale });
+  const talks = getTopTalks(await readFeedback(), graph.presentations);
+
+  const collectionSchema = createCollectionPageSchema(
+    urls.topTalks(),
+    "Top Talks | Builder Vancouver",
+    "The best-rated talks at Builder Vancouver events.",
+    talks.map(({ presentation }) => ({
+      name: presentation.title,
+      url: urls.presentations.detail(presentation.slug),
+      description: presentation.description,
+    }))
+  );
+
+  const breadcrumbSchema = createBreadcrumbList([
+    { name: "Home", url: urls.home() },
+    { name: "Presentations", url: urls.presentations.list() },
+    { name: "Top Talks" },
+  ]);
+
+  const structuredData = createSchemaGraph(collectionSchema, breadcrumbSchema);
+
+  return (
+    <>
+      <JsonLd data={structuredData} />
+      <PageContainer>
+        <Heading level="h1" className="text-orange-400 mb-4">
+          Top Talks
+        </Heading>
+        <p className="text-xl text-neutral-300 mb-12">
+          The talks attendees rated highest in their feedback after our events.
+          Only talks whose presenters chose to share their ratings and with at
+          least {MIN_PUBLIC_RATINGS} ratings are listed.
+        </p>
+
+        {talks.length === 0 ? (
+          <Section>
+            <EmptyState
+              icon="⭐"
+              title="No Ratings Yet"
+              message="No talks have enough ratings to be listed yet. Came to one of our events? Rate the talks on the event page!"
+            />
+          </Section>
+        ) : (
+          <ol className="space-y-4">
+            {talks.map(({ presentation, summary }, index) => {
+              const presenter = graph.getPresentationPresenter(presentation);
+
+              return (
+                <li
+                  key={presentation.id}
+                  className="flex items-center gap-6 bg-neutral-900 border border-neutral-800 rounded-xl p-6 hover:border-orange-400 transition-colors"
+                >
+                  <span className="text-3xl font-bold text-neutral-500 w-10 shrink-0">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1">
+                    <Link href={paths.presentations.detail(presentation.slug)}>
+                      <Heading
+                        level="h2"
+                        className="text-neutral-100 text-xl mb-1 hover:text-orange-400 transition-colors"
+                      >
+                        {presentation.title}
+                      </Heading>
+                    </Link>
+                    {presenter && (
+                      <p className="text-sm text-neutral-400">
+                        by{" "}
+                        <Link
+                          href={paths.presenters.detail(presenter.slug)}
+                          className="text-orange-400 hover:text-orange-300 transition-colors"
+                        >
+                          {presenter.name}
+                        </Link>
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-right shrink-0">
+                    <span className="text-2xl text-orange-400 font-semibold">
+                      ★ {formatRating(summary.average)}
+                    </span>
+                    <span className="block text-xs text-neutral-500">
+                      {summary.count} ratings
+                    </span>
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </PageContainer>
+    </>
+  );
+}
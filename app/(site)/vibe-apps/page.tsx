@@ -4,15 +4,22 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadVibeApps } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import { generateMetadata as generateMeta } from "@/lib/seo";
+import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadVibeApps();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadVibeApps({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.vibeApps(),
+    locale,
+  });
 }
 
-export default async function VibeAppsPage() {
-  const content = await loadVibeApps();
+export default async function VibeAppsPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadVibeApps({ locale });
 
   return (
     <PageContainer>
@@ -1,11 +1,12 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
 import { Section } from "@/components/ui/Section";
 
 import { loadVibeCoding } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createCourseSchema,
@@ -14,13 +15,18 @@ import {
 } from "@/lib/seo";
 import { urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadVibeCoding();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadVibeCoding({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.education.vibeCoding(),
+    locale,
+  });
 }
 
-export default async function VibeCodingPage() {
-  const content = await loadVibeCoding();
+export default async function VibeCodingPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadVibeCoding({ locale });
 
   // Generate structured data
   const courseSchema = createCourseSchema({
@@ -52,9 +58,10 @@ export default async function VibeCodingPage() {
             <Heading level="h2" className="text-neutral-100 mb-4">
               {section.title}
             </Heading>
-            <div className="text-lg text-neutral-300 mb-6 whitespace-pre-line leading-relaxed">
-              {section.body}
-            </div>
+            <Markdown
+              source={section.body}
+              className="text-lg text-neutral-300 mb-6 leading-relaxed"
+            />
             {section.links && section.links.length > 0 && (
               <div className="flex flex-wrap gap-4">
                 {section.links.map((link, linkIndex) => (
@@ -1,12 +1,14 @@
-import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { JsonLd } from "@/components/seo/JsonLd";
 import { Heading } from "@/components/ui/Heading";
+import { Markdown } from "@/components/ui/Markdown";
 import { Section } from "@/components/ui/Section";
 
 import { loadWallet, loadWallets } from "@/lib/content";
+import { getPageLocale } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createSchemaGraph,
@@ -16,7 +18,7 @@ import {
 import { paths, urls } from "@/lib/utils/urls";
 
 interface WalletPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ slug: string; locale?: string }>;
 }
 
 export async function generateStaticParams() {
@@ -28,13 +30,17 @@ export async function generateStaticParams() {
 
 export async function generateMetadata({ params }: WalletPageProps) {
   const { slug } = await params;
-  const wallet = await loadWallet(slug);
+  const locale = await getPageLocale(params);
+  const wallet = await loadWallet(slug, { locale });
 
   if (!wallet) {
     return {};
   }
 
-  return generateMeta(wallet.meta);
+  return generateMeta(wallet.meta, {
+    canonicalUrl: urls.wallets.detail(slug),
+    locale,
+  });
 }
 
 function PlatformBadge({ platform }: { platform: string }) {
@@ -78,7 +84,8 @@ function TypeBadge({ type }: { type: string }) {
 
 export default async function WalletDetailPage({ params }: WalletPageProps) {
   const { slug } = await params;
-  const wallet = await loadWallet(slug);
+  const locale = await getPageLocale(params);
+  const wallet = await loadWallet(slug, { locale });
 
   if (!wallet) {
     notFound();
@@ -234,9 +241,10 @@ export default async function WalletDetailPage({ params }: WalletPageProps) {
                 <Heading level="h2" className="text-neutral-100 mb-4">
                   {section.title}
                 </Heading>
-                <div className="text-lg text-neutral-300 whitespace-pre-line leading-relaxed">
-                  {section.body}
-                </div>
+                <Markdown
+                  source={section.body}
+                  className="text-lg text-neutral-300 leading-relaxed"
+                />
                 {section.links && section.links.length > 0 && (
                   <div className="flex flex-wrap gap-4 mt-4">
                     {section.links.map((link, linkIndex) => (
@@ -1,5 +1,4 @@
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { PageContainer } from "@/components/layout/PageContainer";
 import { FAQSection } from "@/components/faq/FAQSection";
 import { JsonLd } from "@/components/seo/JsonLd";
@@ -8,6 +7,7 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadWallets, getFAQsByTags } from "@/lib/content";
+import { getPageLocale, type LocalePageProps } from "@/lib/i18n";
 import {
   createBreadcrumbList,
   createSchemaGraph,
@@ -16,9 +16,13 @@ import {
 } from "@/lib/seo";
 import { paths, urls } from "@/lib/utils/urls";
 
-export async function generateMetadata() {
-  const content = await loadWallets();
-  return generateMeta(content.meta);
+export async function generateMetadata({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadWallets({ locale });
+  return generateMeta(content.meta, {
+    canonicalUrl: urls.wallets.list(),
+    locale,
+  });
 }
 
 function PlatformBadge({ platform }: { platform: string }) {
@@ -60,9 +64,10 @@ function TypeBadge({ type }: { type: string }) {
   );
 }
 
-export default async function WalletsPage() {
-  const content = await loadWallets();
-  const walletFaqs = await getFAQsByTags(["wallets"]);
+export default async function WalletsPage({ params }: LocalePageProps) {
+  const locale = await getPageLocale(params);
+  const content = await loadWallets({ locale });
+  const walletFaqs = await getFAQsByTags(["wallets"], { locale });
 
   // Generate structured data
   const webPageSchema = createWebPageSchema(
@@ -0,0 +1 @@
+export { default, generateMetadata } from "@/app/(site)/bitcoin-101/page";
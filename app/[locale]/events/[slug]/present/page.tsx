@@ -0,0 +1,5 @@
+export {
+  default,
+  generateMetadata,
+  generateStaticParams,
+} from "@/app/(site)/events/[slug]/present/page";
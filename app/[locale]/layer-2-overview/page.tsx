@@ -0,0 +1 @@
+export { default, generateMetadata } from "@/app/(site)/layer-2-overview/page";
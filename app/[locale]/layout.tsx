@@ -0,0 +1,38 @@
+import { SiteDocument } from "@/components/layout/SiteDocument";
+
+import { DEFAULT_LOCALE, isLocale, PREFIXED_LOCALES } from "@/lib/i18n";
+
+export { metadata } from "@/app/(site)/layout";
+
+// Segment config isn't read through re-exports
+export const revalidate = 3600;
+
+/**
+ * Root layout of translated routes: /fr/... renders the same pages as the
+ * English site with the locale passed through route params. The pages
+ * themselves are re-exported from their English routes.
+ *
+ * Unknown locales are turned away by `getPageLocale` in each page, so the
+ * 404 renders inside this layout. A root layout can't show not-found.tsx
+ * for itself, and `dynamicParams` would also stop entries published after
+ * the build from rendering under /fr.
+ */
+export function generateStaticParams() {
+  return PREFIXED_LOCALES.map((locale) => ({ locale }));
+}
+
+export default async function LocaleLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}>) {
+  const { locale } = await params;
+
+  return (
+    <SiteDocument lang={isLocale(locale) ? locale : DEFAULT_LOCALE}>
+      {children}
+    </SiteDocument>
+  );
+}
@@ -0,0 +1 @@
+export { default, generateMetadata } from "@/app/(site)/lightning-101/page";
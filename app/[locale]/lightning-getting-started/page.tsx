@@ -0,0 +1,4 @@
+export {
+  default,
+  generateMetadata,
+} from "@/app/(site)/lightning-getting-started/page";
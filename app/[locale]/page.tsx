@@ -0,0 +1,4 @@
+export { default, generateMetadata } from "@/app/(site)/page";
+
+// Segment config isn't read through re-exports
+export const revalidate = 900;
@@ -0,0 +1,8 @@
+export {
+  default,
+  generateMetadata,
+  generateStaticParams,
+} from "@/app/(site)/series/[slug]/page";
+
+// Segment config isn't read through re-exports
+export const revalidate = 900;
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { currentUser } from "@clerk/nextjs/server";
+import { z } from "zod";
+
+import { authorizeAdmin } from "@/lib/auth";
+import { addProposalComment, CfpError, CommentRequestSchema } from "@/lib/cfp";
+
+/**
+ * POST /api/admin/cfp/[id]/comments
+ * Adds a reviewer comment to a talk proposal
+ *
+ * Request body:
+ * {
+ *   body: string
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  const { id } = await params;
+
+  try {
+    const { body } = CommentRequestSchema.parse(await request.json());
+    const user = await currentUser();
+    const proposal = await addProposalComment(
+      id,
+      {
+        userId: access.userId,
+        name:
+          user?.fullName ??
+          user?.username ??
+          user?.primaryEmailAddress?.emailAddress ??
+          "Admin",
+      },
+      body
+    );
+
+    return NextResponse.json({ comments: proposal.comments }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CfpError) {
+      return NextResponse.json(
+        { error: "Not found", message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error("CFP comment error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Could not save the comment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+import { z } from "zod";
+
+import { authorizeAdmin } from "@/lib/auth";
+import {
+  CfpError,
+  getProposal,
+  reviewProposal,
+  ReviewRequestSchema,
+} from "@/lib/cfp";
+
+/**
+ * POST /api/admin/cfp/[id]
+ * Accepts, schedules, rejects or reopens a talk proposal. Accepting creates
+ * draft presenter and presentation entries in content/; scheduling adds the
+ * talk to an event's schedule. Nothing is written when the content changes
+ * would introduce validation issues, which are returned as `content`.
+ *
+ * Request body:
+ * { action: "accept", presenterId?: string, schedule?: { eventSlug, startTime } }
+ * { action: "schedule", schedule: { eventSlug, startTime } }
+ * { action: "reject" } | { action: "reopen" }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  const { id } = await params;
+  if (!(await getProposal(id))) {
+    return NextResponse.json(
+      { error: "Not found", message: "Proposal not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const review = ReviewRequestSchema.parse(await request.json());
+    const result = await reviewProposal(id, access.userId, review);
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: 409 });
+    }
+    if (result.content) {
+      revalidatePath("/", "layout");
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CfpError) {
+      return NextResponse.json(
+        { error: "Conflict", message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error("CFP review error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not update the proposal",
+      },
+      { status: 500 }
+    );
+  }
+}
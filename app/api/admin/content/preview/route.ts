@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { z } from "zod";
+
+import { authorizeAdmin } from "@/lib/auth";
+import { ContentEditSchema, previewContentEdit } from "@/lib/content-editor";
+
+/**
+ * POST /api/admin/content/preview
+ * Validates a content edit and returns the diff it would write
+ *
+ * Request body:
+ * {
+ *   key: string (content registry key, e.g. "events"),
+ *   entry?: number | "new" | "fields" (omit to edit a non-collection file),
+ *   value?: unknown (omit to delete the entry),
+ *   revision: string (from the editor page)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  try {
+    const edit = ContentEditSchema.parse(await request.json());
+    const result = await previewContentEdit(edit);
+    return NextResponse.json(result, { status: result.error ? 409 : 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Content preview error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Could not preview the edit" },
+      { status: 500 }
+    );
+  }
+}
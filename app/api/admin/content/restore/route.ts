@@ -0,0 +1,61 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+import { z } from "zod";
+
+import { authorizeAdmin } from "@/lib/auth";
+import {
+  ContentRestoreSchema,
+  restoreContentVersion,
+} from "@/lib/content-editor";
+
+/**
+ * POST /api/admin/content/restore
+ * Puts back an earlier version of a content entry from the audit log. The
+ * old version is validated against the current schemas and content first,
+ * exactly like an edit, and the restore itself is logged.
+ *
+ * Request body:
+ * {
+ *   key: string (content registry key, e.g. "events"),
+ *   entityId?: string (entry ID or slug; omit for the top-level fields),
+ *   version: string (audit log entry ID),
+ *   revision: string (from the history page),
+ *   dryRun?: boolean (only return the diff and any issues)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  try {
+    const restore = ContentRestoreSchema.parse(await request.json());
+    const result = await restoreContentVersion(restore, access.userId);
+
+    if (result.ok && !restore.dryRun) {
+      revalidatePath("/", "layout");
+    }
+    return NextResponse.json(result, { status: result.error ? 409 : 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Content restore error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Could not restore" },
+      { status: 500 }
+    );
+  }
+}
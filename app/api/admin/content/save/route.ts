@@ -0,0 +1,51 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+import { z } from "zod";
+
+import { authorizeAdmin } from "@/lib/auth";
+import { ContentEditSchema, saveContentEdit } from "@/lib/content-editor";
+
+/**
+ * POST /api/admin/content/save
+ * Validates a content edit and writes it to content/. Nothing is written
+ * when the edit introduces validation issues or the file changed since
+ * the editor was opened (`revision` no longer matches).
+ *
+ * Request body: same as /api/admin/content/preview
+ */
+export async function POST(request: NextRequest) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  try {
+    const edit = ContentEditSchema.parse(await request.json());
+    const result = await saveContentEdit(edit, access.userId);
+
+    if (result.ok) {
+      revalidatePath("/", "layout");
+    }
+    return NextResponse.json(result, { status: result.error ? 409 : 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Content save error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Could not save the edit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { authorizeAdmin } from "@/lib/auth";
+import { loadEvent } from "@/lib/content";
+import { getEventRsvps, toAttendeeCsv } from "@/lib/rsvp";
+
+/**
+ * GET /api/admin/events/[slug]/attendees.csv
+ * Everyone who signed up for the event, as a CSV download
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  const { slug } = await params;
+  const event = await loadEvent(slug, { includeDrafts: true });
+  if (!event) {
+    return new Response("Event not found", { status: 404 });
+  }
+
+  return new Response(toAttendeeCsv(await getEventRsvps(event.slug)), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${event.slug}-attendees.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
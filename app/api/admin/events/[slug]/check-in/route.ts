@@ -0,0 +1,150 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+import { z } from "zod";
+
+import { authorizeAdmin } from "@/lib/auth";
+import {
+  checkIn,
+  CheckInRequestSchema,
+  getAttendanceStats,
+  getRecentCheckIns,
+} from "@/lib/check-in";
+import { loadEvent } from "@/lib/content";
+import { getEventRsvps } from "@/lib/rsvp";
+
+interface CheckInRouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+const notFound = () =>
+  NextResponse.json(
+    { error: "Not found", message: "Event not found" },
+    { status: 404 }
+  );
+
+async function getDesk(eventSlug: string) {
+  const rsvps = await getEventRsvps(eventSlug);
+  return {
+    attendance: getAttendanceStats(rsvps),
+    recent: getRecentCheckIns(rsvps),
+  };
+}
+
+/**
+ * GET /api/admin/events/[slug]/check-in
+ * Running headcount and the latest check-ins
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: CheckInRouteContext
+) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  const { slug } = await params;
+  const event = await loadEvent(slug, { includeDrafts: true });
+  if (!event) {
+    return notFound();
+  }
+
+  return NextResponse.json(await getDesk(event.slug), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+/**
+ * POST /api/admin/events/[slug]/check-in
+ * Checks in the attendee a scanned or typed token belongs to
+ *
+ * Request body:
+ * {
+ *   token: string (the token, or the link encoded in the QR code)
+ * }
+ *
+ * Responds with the attendee and the new headcount. Tokens for another
+ * event, unconfirmed RSVPs and repeat check-ins are rejected.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: CheckInRouteContext
+) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  const { slug } = await params;
+  const event = await loadEvent(slug, { includeDrafts: true });
+  if (!event) {
+    return notFound();
+  }
+
+  try {
+    const { token } = CheckInRequestSchema.parse(await request.json());
+    const result = await checkIn(event, token);
+
+    if (result.status === "invalid") {
+      return NextResponse.json(
+        {
+          error: "Invalid token",
+          message: "This code isn't a valid ticket for this event",
+          status: result.status,
+        },
+        { status: 400 }
+      );
+    }
+
+    const attendee = {
+      name: result.rsvp.name,
+      checkedInAt: result.rsvp.checkedInAt,
+    };
+
+    if (result.status !== "checked-in") {
+      return NextResponse.json(
+        {
+          error: "Conflict",
+          message:
+            result.status === "duplicate"
+              ? `${attendee.name} is already checked in`
+              : `${attendee.name}'s RSVP is ${result.rsvp.status}, not confirmed`,
+          status: result.status,
+          attendee,
+          ...(await getDesk(event.slug)),
+        },
+        { status: 409 }
+      );
+    }
+
+    // Attendance stats are shown on the event's recap
+    revalidatePath("/recaps/[slug]", "page");
+    revalidatePath("/[locale]/recaps/[slug]", "page");
+
+    return NextResponse.json({
+      status: result.status,
+      attendee,
+      ...(await getDesk(event.slug)),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Check-in error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Could not check in" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { z } from "zod";
+
+import { authorizeAdmin } from "@/lib/auth";
+import { loadEvent } from "@/lib/content";
+import {
+  ScheduleShiftRequestSchema,
+  setScheduleShift,
+} from "@/lib/live-agenda";
+
+/**
+ * POST /api/admin/events/[slug]/schedule-shift
+ * Shifts the whole schedule on live agenda screens
+ *
+ * Request body:
+ * {
+ *   minutes: number (late when positive, early when negative; 0 resets)
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  const { slug } = await params;
+  const event = await loadEvent(slug, { includeDrafts: true });
+  if (!event) {
+    return NextResponse.json(
+      { error: "Not found", message: "Event not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const { minutes } = ScheduleShiftRequestSchema.parse(await request.json());
+    const shift = await setScheduleShift(event.slug, minutes, access.userId);
+    return NextResponse.json({ shiftMinutes: shift.minutes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Schedule shift error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not shift the schedule",
+      },
+      { status: 500 }
+    );
+  }
+}
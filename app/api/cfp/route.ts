@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+
+import { CfpError, ProposalRequestSchema, submitProposal } from "@/lib/cfp";
+
+/**
+ * POST /api/cfp
+ * Submits a talk proposal for review
+ *
+ * Request body:
+ * {
+ *   title: string,
+ *   abstract: string,
+ *   duration: number (minutes: 5, 10, 15, 20, 30, 45 or 60),
+ *   eventSlug?: string (event the presenter would like to speak at),
+ *   presenter: {
+ *     name: string,
+ *     email: string,
+ *     bio: string,
+ *     title?: string,
+ *     company?: string,
+ *     links?: { twitter?, github?, website?, nostr? }
+ *   }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = ProposalRequestSchema.parse(await request.json());
+    const { userId } = await auth();
+    const proposal = await submitProposal(body, userId ?? undefined);
+
+    return NextResponse.json(
+      { id: proposal.id, status: proposal.status },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CfpError) {
+      return NextResponse.json(
+        { error: "Conflict", message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error("CFP submission error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not submit the proposal",
+      },
+      { status: 500 }
+    );
+  }
+}
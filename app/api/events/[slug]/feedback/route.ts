@@ -0,0 +1,152 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+
+import { loadEvent } from "@/lib/content";
+import {
+  FeedbackError,
+  FeedbackRequestSchema,
+  findFeedback,
+  getRespondent,
+  isFeedbackOpen,
+  readFeedback,
+  submitFeedback,
+} from "@/lib/feedback";
+import { getEventRsvps } from "@/lib/rsvp";
+
+interface FeedbackRouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+const notFound = () =>
+  NextResponse.json(
+    { error: "Not found", message: "Event not found" },
+    { status: 404 }
+  );
+
+/**
+ * GET /api/events/[slug]/feedback?token=...
+ * Whether feedback is open, plus the visitor's earlier response when signed
+ * in or when their RSVP `token` is given
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: FeedbackRouteContext
+) {
+  const { slug } = await params;
+  const event = await loadEvent(slug);
+  if (!event) {
+    return notFound();
+  }
+
+  const { userId } = await auth();
+  const respondent = getRespondent(await getEventRsvps(event.slug), {
+    token: request.nextUrl.searchParams.get("token") ?? undefined,
+    userId,
+  });
+  const response = respondent
+    ? findFeedback(await readFeedback(), event.slug, respondent)
+    : undefined;
+
+  return NextResponse.json(
+    {
+      open: isFeedbackOpen(event),
+      canRespond: respondent !== undefined,
+      response: response
+        ? { overall: response.overall, presentations: response.presentations }
+        : null,
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/**
+ * POST /api/events/[slug]/feedback
+ * Rates the event and its presentations. Open to signed-in visitors and to
+ * attendees with an RSVP token; answering again replaces the earlier response.
+ *
+ * Request body:
+ * {
+ *   token?: string (RSVP token, when signed out),
+ *   overall: { rating: 1-5, comment?: string },
+ *   presentations?: { [presentationId]: { rating: 1-5, comment?: string } }
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: FeedbackRouteContext
+) {
+  const { slug } = await params;
+  const event = await loadEvent(slug);
+  if (!event) {
+    return notFound();
+  }
+
+  try {
+    const { token, ...body } = FeedbackRequestSchema.parse(
+      await request.json()
+    );
+    const { userId } = await auth();
+    const respondent = getRespondent(await getEventRsvps(event.slug), {
+      token,
+      userId,
+    });
+
+    if (!respondent) {
+      return NextResponse.json(
+        {
+          error: "Unauthorized",
+          message: token
+            ? "No RSVP was found for this token"
+            : "Sign in or use the link from your RSVP confirmation",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { feedback, created } = await submitFeedback(event, respondent, body);
+
+    revalidatePath("/top-talks", "page");
+    revalidatePath("/[locale]/top-talks", "page");
+
+    return NextResponse.json(
+      {
+        response: {
+          overall: feedback.overall,
+          presentations: feedback.presentations,
+        },
+      },
+      { status: created ? 201 : 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof FeedbackError) {
+      return NextResponse.json(
+        { error: "Conflict", message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error("Feedback error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not save the feedback",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { loadEvent } from "@/lib/content";
+import { getScheduleShift } from "@/lib/live-agenda";
+import { getPreviewOptions } from "@/lib/preview";
+
+/**
+ * GET /api/events/[slug]/live
+ * How far the schedule is shifted, polled by open live agenda screens.
+ * `serverTime` lets screens correct a wrong local clock.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  // Draft events are previewed through draft mode, like the page
+  const event = await loadEvent(slug, await getPreviewOptions());
+  if (!event) {
+    return NextResponse.json(
+      { error: "Not found", message: "Event not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      shiftMinutes: await getScheduleShift(event.slug),
+      serverTime: new Date().toISOString(),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { z } from "zod";
+
+import { getCheckInPass } from "@/lib/check-in";
+import { loadEvent } from "@/lib/content";
+import {
+  cancelRsvp,
+  createRsvp,
+  findRsvp,
+  getEventRsvps,
+  getRsvpCounts,
+  isRsvpOpen,
+  RsvpError,
+  type RsvpLookup,
+  RsvpRequestSchema,
+  toRsvpView,
+} from "@/lib/rsvp";
+
+interface RsvpRouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+const notFound = () =>
+  NextResponse.json(
+    { error: "Not found", message: "Event not found" },
+    { status: 404 }
+  );
+
+/**
+ * The signed-in user's RSVP, or the one the token belongs to
+ */
+async function getLookup(token: string | null): Promise<RsvpLookup | null> {
+  if (token) return { token };
+  const { userId } = await auth();
+  return userId ? { userId } : null;
+}
+
+/**
+ * GET /api/events/[slug]/rsvp?token=...
+ * Live RSVP counts, plus the visitor's own RSVP when signed in or when
+ * `token` (returned by POST) is given. Confirmed RSVPs come with their
+ * check-in `pass`.
+ */
+export async function GET(request: NextRequest, { params }: RsvpRouteContext) {
+  const { slug } = await params;
+  const event = await loadEvent(slug);
+  if (!event) {
+    return notFound();
+  }
+
+  const rsvps = await getEventRsvps(event.slug);
+  const lookup = await getLookup(request.nextUrl.searchParams.get("token"));
+  const rsvp = lookup ? findRsvp(rsvps, lookup) : undefined;
+
+  return NextResponse.json(
+    {
+      open: isRsvpOpen(event),
+      counts: getRsvpCounts(event, rsvps),
+      rsvp: rsvp ? toRsvpView(rsvps, rsvp) : null,
+      pass: (rsvp && (await getCheckInPass(rsvp))) ?? null,
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/**
+ * POST /api/events/[slug]/rsvp
+ * Signs up for the event. Signed-in visitors sign up with their Clerk
+ * account's name and email; everyone else gives both.
+ *
+ * Request body:
+ * {
+ *   name: string,
+ *   email?: string (required when signed out)
+ * }
+ *
+ * Responds with the RSVP, whose `status` is "confirmed" or "waitlisted"
+ * once the event is full. Keep its `token` to look it up or cancel later.
+ */
+export async function POST(request: NextRequest, { params }: RsvpRouteContext) {
+  const { slug } = await params;
+  const event = await loadEvent(slug);
+  if (!event) {
+    return notFound();
+  }
+
+  try {
+    const body = RsvpRequestSchema.parse(await request.json());
+    const { userId } = await auth();
+    const user = userId ? await currentUser() : null;
+    const email = user?.primaryEmailAddress?.emailAddress ?? body.email;
+
+    if (!email) {
+      return NextResponse.json(
+        { error: "Validation error", message: "Email is required" },
+        { status: 400 }
+      );
+    }
+
+    const { rsvp, created } = await createRsvp(event, {
+      name: body.name,
+      email,
+      ...(userId && { userId }),
+    });
+
+    // Only a verified account may pick up an existing RSVP; an email typed
+    // by someone else mustn't hand out its token
+    if (!created && !user) {
+      return NextResponse.json(
+        {
+          error: "Conflict",
+          message:
+            "This email is already signed up. Use the link from your confirmation to manage it.",
+        },
+        { status: 409 }
+      );
+    }
+
+    const rsvps = await getEventRsvps(event.slug);
+    return NextResponse.json(
+      {
+        counts: getRsvpCounts(event, rsvps),
+        rsvp: toRsvpView(rsvps, rsvp),
+      },
+      { status: created ? 201 : 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof RsvpError) {
+      return NextResponse.json(
+        { error: "Conflict", message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error("RSVP error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Could not save the RSVP" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/events/[slug]/rsvp?token=...
+ * Cancels the signed-in visitor's RSVP, or the one the token belongs to.
+ * The first person on the waitlist takes the freed spot.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RsvpRouteContext
+) {
+  const { slug } = await params;
+  const event = await loadEvent(slug);
+  if (!event) {
+    return notFound();
+  }
+
+  const lookup = await getLookup(request.nextUrl.searchParams.get("token"));
+  if (!lookup) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Sign in or pass your RSVP token" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { rsvp } = await cancelRsvp(event, lookup);
+    const rsvps = await getEventRsvps(event.slug);
+    return NextResponse.json({
+      counts: getRsvpCounts(event, rsvps),
+      rsvp: toRsvpView(rsvps, rsvp),
+    });
+  } catch (error) {
+    if (error instanceof RsvpError) {
+      return NextResponse.json(
+        { error: "Not found", message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error("RSVP cancel error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Could not cancel the RSVP" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { loadEvent } from "@/lib/content";
+import { createPaymentProvider, PaymentError } from "@/lib/payments";
+import { loadPaymentConfig } from "@/lib/payments-config";
+import { getEventRsvps, getRsvpCounts, toRsvpView } from "@/lib/rsvp";
+import { getTicket, settleTicket, toTicketView } from "@/lib/tickets";
+
+/**
+ * GET /api/events/[slug]/tickets/[id]
+ * The ticket's payment status. Once the invoice is paid the response
+ * includes the issued RSVP, whose `token` manages it from then on.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string; id: string }> }
+) {
+  const { slug, id } = await params;
+  const event = await loadEvent(slug);
+  const ticket = await getTicket(id);
+  const config = loadPaymentConfig();
+
+  if (!event || !ticket || ticket.eventSlug !== event.slug) {
+    return NextResponse.json(
+      { error: "Not found", message: "Ticket not found" },
+      { status: 404 }
+    );
+  }
+  if (!config) {
+    return NextResponse.json(
+      {
+        error: "Service unavailable",
+        message: "Ticket payments are not configured",
+      },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const settled = await settleTicket(
+      event,
+      ticket,
+      createPaymentProvider(config)
+    );
+    const rsvps = await getEventRsvps(event.slug);
+
+    return NextResponse.json(
+      {
+        ticket: await toTicketView(settled.ticket),
+        counts: getRsvpCounts(event, rsvps),
+        rsvp: settled.rsvp ? toRsvpView(rsvps, settled.rsvp) : null,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Ticket status error:", error);
+    return NextResponse.json(
+      error instanceof PaymentError
+        ? { error: "Bad gateway", message: "Could not check the payment" }
+        : {
+            error: "Internal server error",
+            message: "Could not check the payment",
+          },
+      { status: error instanceof PaymentError ? 502 : 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { z } from "zod";
+
+import { loadEvent } from "@/lib/content";
+import { createPaymentProvider, PaymentError } from "@/lib/payments";
+import { loadPaymentConfig } from "@/lib/payments-config";
+import { RsvpError, RsvpRequestSchema } from "@/lib/rsvp";
+import {
+  createTicket,
+  getPaymentWebhookUrl,
+  toTicketView,
+} from "@/lib/tickets";
+
+/**
+ * POST /api/events/[slug]/tickets
+ * Starts buying a ticket for a paid event. Signed-in visitors buy with their
+ * Clerk account's name and email; everyone else gives both.
+ *
+ * Request body:
+ * {
+ *   name: string,
+ *   email?: string (required when signed out)
+ * }
+ *
+ * Responds with the ticket's Lightning invoice. Poll
+ * /api/events/[slug]/tickets/[id] until it's paid to get the RSVP.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const event = await loadEvent(slug);
+  if (!event) {
+    return NextResponse.json(
+      { error: "Not found", message: "Event not found" },
+      { status: 404 }
+    );
+  }
+
+  const config = loadPaymentConfig();
+  if (!config) {
+    return NextResponse.json(
+      {
+        error: "Service unavailable",
+        message: "Ticket payments are not configured",
+      },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const body = RsvpRequestSchema.parse(await request.json());
+    const { userId } = await auth();
+    const user = userId ? await currentUser() : null;
+    const email = user?.primaryEmailAddress?.emailAddress ?? body.email;
+
+    if (!email) {
+      return NextResponse.json(
+        { error: "Validation error", message: "Email is required" },
+        { status: 400 }
+      );
+    }
+
+    const ticket = await createTicket(
+      event,
+      { name: body.name, email, ...(userId && { userId }) },
+      createPaymentProvider(config),
+      config.provider === "lnd"
+        ? undefined
+        : getPaymentWebhookUrl(config.webhookSecret)
+    );
+
+    return NextResponse.json(
+      { ticket: await toTicketView(ticket) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors.map((err) => ({
+            path: err.path.join("."),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof RsvpError) {
+      return NextResponse.json(
+        { error: "Conflict", message: error.message },
+        { status: 409 }
+      );
+    }
+    if (error instanceof PaymentError) {
+      console.error("Invoice error:", error);
+      return NextResponse.json(
+        {
+          error: "Bad gateway",
+          message: "Could not create the Lightning invoice",
+        },
+        { status: 502 }
+      );
+    }
+
+    console.error("Ticket error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not create the ticket",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { timingSafeEqual } from "crypto";
+
+import { loadEvent } from "@/lib/content";
+import { createPaymentProvider } from "@/lib/payments";
+import { loadPaymentConfig } from "@/lib/payments-config";
+import { findTicketByPaymentHash, settleTicket } from "@/lib/tickets";
+
+function matchesSecret(given: string | null, expected?: string): boolean {
+  if (!expected) return true;
+  if (!given || given.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+}
+
+/**
+ * POST /api/payments/webhook?secret=...
+ * Called by the payment provider when an invoice is paid. The body only
+ * identifies the invoice; the ticket is settled after checking the invoice
+ * status with the provider, so a forged call can't issue one.
+ */
+export async function POST(request: NextRequest) {
+  const config = loadPaymentConfig();
+  if (!config) {
+    return NextResponse.json(
+      {
+        error: "Service unavailable",
+        message: "Ticket payments are not configured",
+      },
+      { status: 503 }
+    );
+  }
+
+  if (
+    !matchesSecret(
+      request.nextUrl.searchParams.get("secret"),
+      config.webhookSecret
+    )
+  ) {
+    return NextResponse.json(
+      { error: "Unauthorized", message: "Invalid webhook secret" },
+      { status: 401 }
+    );
+  }
+
+  const provider = createPaymentProvider(config);
+  const paymentHash = provider.parseWebhook(
+    await request.json().catch(() => undefined)
+  );
+  const ticket = paymentHash
+    ? await findTicketByPaymentHash(paymentHash)
+    : undefined;
+  const event = ticket ? await loadEvent(ticket.eventSlug) : undefined;
+
+  if (!ticket || !event) {
+    return NextResponse.json(
+      { error: "Not found", message: "No ticket for this payment" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const { ticket: settled } = await settleTicket(event, ticket, provider);
+    return NextResponse.json({ status: settled.status });
+  } catch (error) {
+    console.error("Payment webhook error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not settle the ticket",
+      },
+      { status: 500 }
+    );
+  }
+}
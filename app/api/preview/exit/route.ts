@@ -0,0 +1,16 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextRequest } from "next/server";
+
+import { getSafeRedirectPath } from "@/lib/preview";
+
+/**
+ * GET /api/preview/exit?path=/events
+ * Disables draft mode and redirects to `path`
+ */
+export async function GET(request: NextRequest) {
+  const path = getSafeRedirectPath(request.nextUrl.searchParams.get("path"));
+
+  (await draftMode()).disable();
+  redirect(path);
+}
@@ -0,0 +1,34 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@clerk/nextjs/server";
+
+import { isAdmin } from "@/lib/auth";
+import { getSafeRedirectPath } from "@/lib/preview";
+
+/**
+ * GET /api/preview?path=/events/my-draft
+ * Enables draft mode for admins and redirects to `path`
+ */
+export async function GET(request: NextRequest) {
+  const path = getSafeRedirectPath(request.nextUrl.searchParams.get("path"));
+
+  const { userId } = await auth();
+  if (!userId) {
+    redirect("/login");
+  }
+
+  if (!(await isAdmin())) {
+    return NextResponse.json(
+      {
+        error: "Forbidden",
+        message: "Admin access required to preview unpublished content",
+      },
+      { status: 403 }
+    );
+  }
+
+  (await draftMode()).enable();
+  redirect(path);
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { readUpload } from "@/lib/social-media-uploads";
+
+/**
+ * GET /api/social-media/media/[id]
+ * Serves an uploaded image. Nostr posts link here when no media server is
+ * configured, so it's public; IDs are content hashes, so it never changes.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const upload = await readUpload(id);
+
+  if (!upload) {
+    return NextResponse.json(
+      { error: "Not found", message: "No image with that ID" },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(new Uint8Array(upload.data), {
+    headers: {
+      "Content-Type": upload.type,
+      "Content-Length": String(upload.size),
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
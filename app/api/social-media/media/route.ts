@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authorizeAdmin } from "@/lib/auth";
+import { SOCIAL_MEDIA_MAX_IMAGE_BYTES } from "@/lib/constants";
+import { saveUpload, UploadError } from "@/lib/social-media-uploads";
+
+/**
+ * POST /api/social-media/media
+ * Uploads an image for a social media post (multipart form with a `file`
+ * field). Returns the ID to list in the post's `images`.
+ */
+export async function POST(request: NextRequest) {
+  const access = await authorizeAdmin();
+  if ("response" in access) {
+    return access.response;
+  }
+
+  try {
+    const file = (await request.formData()).get("file");
+    if (!(file instanceof Blob)) {
+      throw new UploadError("Attach the image as `file`");
+    }
+    if (file.size > SOCIAL_MEDIA_MAX_IMAGE_BYTES) {
+      throw new UploadError(
+        `Images must be ${SOCIAL_MEDIA_MAX_IMAGE_BYTES / 1024 / 1024} MB or less`
+      );
+    }
+
+    const upload = await saveUpload(Buffer.from(await file.arrayBuffer()));
+    return NextResponse.json(
+      {
+        id: upload.id,
+        type: upload.type,
+        width: upload.width,
+        height: upload.height,
+        size: upload.size,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: "Invalid image", message: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("Social media upload error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Could not store the image" },
+      { status: 500 }
+    );
+  }
+}
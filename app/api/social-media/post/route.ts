@@ -3,12 +3,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { z } from "zod";
 
+import { hasAdminRole } from "@/lib/auth";
 import {
   PlatformsSchema,
   SocialMediaPostSchema,
   SocialMediaService,
 } from "@/lib/social-media";
 import { loadSocialMediaConfig } from "@/lib/social-media-config";
+import { UploadError } from "@/lib/social-media-uploads";
 
 /**
  * POST /api/social-media/post
@@ -17,7 +19,7 @@ import { loadSocialMediaConfig } from "@/lib/social-media-config";
  * Request body:
  * {
  *   content: string (1-280 chars),
- *   images?: string[] (image URLs),
+ *   images?: { id: string, alt?: string }[] (from POST /api/social-media/media),
  *   tags?: string[] (hashtags),
  *   replyTo?: string (post ID to reply to),
  *   platforms?: ("x" | "nostr")[] (defaults to both)
@@ -52,9 +54,8 @@ export async function POST(request: NextRequest) {
     // Check for admin role
     const user = await currentUser();
     const userRole = user?.publicMetadata?.role as string | undefined;
-    const isAdmin = userRole === "admin" || userRole === "super_admin";
 
-    if (!isAdmin) {
+    if (!hasAdminRole(user)) {
       // Log for debugging
       console.log("Access denied - user role check:", {
         userId,
@@ -131,6 +132,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: "Invalid image", message: error.message },
+        { status: 400 }
+      );
+    }
+
     // Log error for debugging (in production, use proper logging service)
     console.error("Social media post error:", {
       error: error instanceof Error ? error.message : String(error),
@@ -0,0 +1,14 @@
+import { loadContentGraph } from "@/lib/content-graph";
+import {
+  calendarResponse,
+  createUpcomingEventsCalendar,
+} from "@/lib/event-calendar";
+
+/**
+ * GET /events.ics
+ * Subscribable iCalendar feed of all upcoming events
+ */
+export async function GET() {
+  const graph = await loadContentGraph();
+  return calendarResponse(createUpcomingEventsCalendar(graph));
+}
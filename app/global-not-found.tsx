@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+
+import { SiteDocument } from "@/components/layout/SiteDocument";
+
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+
+import NotFound from "./(site)/not-found";
+
+export const metadata: Metadata = {
+  title: "Page Not Found | Builder Vancouver",
+};
+
+/**
+ * 404 page for URLs outside both root layouts, e.g. an unknown locale
+ */
+export default function GlobalNotFound() {
+  return (
+    <SiteDocument lang={DEFAULT_LOCALE}>
+      <NotFound />
+    </SiteDocument>
+  );
+}
@@ -1,23 +1,31 @@
 import type { MetadataRoute } from "next";
 
 import {
+  getTranslatedLocales,
   loadCities,
   loadEvents,
+  loadEventSeries,
   loadMembers,
   loadPresentations,
   loadPresenters,
   loadRecaps,
 } from "@/lib/content";
+import { getLanguageAlternates, getSitePath } from "@/lib/i18n";
 import { urls } from "@/lib/utils/urls";
 
 /**
  * Dynamic sitemap generation for Builder Vancouver
- * Automatically includes all routes and content
+ * Automatically includes all routes and content, with hreflang
+ * alternates for translated versions
  */
 
+// Regenerated hourly, like the pages, to pick up scheduled entries
+export const revalidate = 3600;
+
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   // Load dynamic content
   const { events } = await loadEvents();
+  const { series } = await loadEventSeries();
   const { recaps } = await loadRecaps();
   const { cities } = await loadCities();
   const { presentations } = await loadPresentations();
@@ -158,6 +166,18 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: "weekly" as const,
       priority: 0.8,
     },
+    {
+      url: urls.topTalks(),
+      lastModified: new Date(),
+      changeFrequency: "weekly" as const,
+      priority: 0.6,
+    },
+    {
+      url: urls.cfp(),
+      lastModified: new Date(),
+      changeFrequency: "monthly" as const,
+      priority: 0.6,
+    },
     {
       url: urls.presenters.list(),
       lastModified: new Date(),
@@ -175,11 +195,19 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   // Event pages
   const eventPages = events.map((event) => ({
     url: urls.events.detail(event.slug),
-    lastModified: new Date(event.date),
+    lastModified: new Date(event.startDate),
     changeFrequency: "monthly" as const,
     priority: 0.7,
   }));
 
+  // Event series pages
+  const seriesPages = series.map((s) => ({
+    url: urls.series.detail(s.slug),
+    lastModified: new Date(),
+    changeFrequency: "monthly" as const,
+    priority: 0.8,
+  }));
+
   // Recap pages
   const recapPages = recaps.map((recap) => ({
     url: urls.recaps.detail(recap.slug),
@@ -219,13 +247,23 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: 0.6,
   }));
 
-  return [
+  const pages = [
     ...staticPages,
     ...eventPages,
+    ...seriesPages,
     ...recapPages,
     ...cityPages,
     ...presentationPages,
     ...presenterPages,
     ...memberPages,
   ];
+
+  // Point search engines at each page's translations, once there are any
+  const locales = getTranslatedLocales();
+  return pages.map((page) => ({
+    ...page,
+    alternates: {
+      languages: getLanguageAlternates(getSitePath(page.url) ?? "/", locales),
+    },
+  }));
 }
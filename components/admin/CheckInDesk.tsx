@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { AttendanceStats, CheckInEntry } from "@/lib/check-in";
+
+interface CheckInDeskProps {
+  slug: string;
+  /** Token from a QR code opened with a phone camera */
+  token?: string;
+  initial: { attendance: AttendanceStats; recent: CheckInEntry[] };
+}
+
+interface ScanResult {
+  ok: boolean;
+  message: string;
+}
+
+/** How often the headcount is refreshed, for events with several doors */
+const REFRESH_INTERVAL_MS = 10_000;
+
+const resultClass = {
+  ok: "bg-green-950 border-green-800 text-green-300",
+  error: "bg-red-950 border-red-800 text-red-300",
+};
+
+/**
+ * Admin Check-In Desk Component
+ * Checks in attendees from scanned or typed tokens and keeps a running
+ * headcount. Barcode scanners that type the code and press Enter work with
+ * the focused input.
+ */
+export function CheckInDesk({ slug, token, initial }: CheckInDeskProps) {
+  const [desk, setDesk] = useState(initial);
+  const [input, setInput] = useState("");
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [pending, setPending] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const linkTokenSent = useRef(false);
+
+  const submit = useCallback(
+    async (value: string) => {
+      setPending(true);
+      setResult(null);
+
+      try {
+        const response = await fetch(`/api/admin/events/${slug}/check-in`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token: value }),
+        });
+        const data = await response.json();
+
+        if (data.attendance) {
+          setDesk({ attendance: data.attendance, recent: data.recent });
+        }
+        setResult(
+          response.ok
+            ? { ok: true, message: `✅ ${data.attendee.name} checked in` }
+            : {
+                ok: false,
+                message: `❌ ${data.message || data.error || "Check-in failed"}`,
+              }
+        );
+      } catch (err) {
+        setResult({
+          ok: false,
+          message:
+            err instanceof Error ? err.message : "An unexpected error occurred",
+        });
+      } finally {
+        setPending(false);
+        setInput("");
+        inputRef.current?.focus();
+      }
+    },
+    [slug]
+  );
+
+  useEffect(() => {
+    if (token && !linkTokenSent.current) {
+      linkTokenSent.current = true;
+      submit(token);
+    }
+  }, [token, submit]);
+
+  useEffect(() => {
+    const interval = setInterval(async () => {
+      if (document.visibilityState !== "visible") return;
+      const response = await fetch(`/api/admin/events/${slug}/check-in`);
+      if (response.ok) {
+        setDesk(await response.json());
+      }
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [slug]);
+
+  const { attendance, recent } = desk;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-4xl font-bold text-neutral-100" aria-live="polite">
+        {attendance.checkedIn}
+        <span className="text-neutral-500"> / {attendance.confirmed}</span>
+        <span className="block text-base font-normal text-neutral-400 mt-1">
+          checked in of confirmed RSVPs
+        </span>
+      </p>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (input.trim()) submit(input);
+        }}
+        className="flex gap-3"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Scan or type a check-in code"
+          autoFocus
+          autoComplete="off"
+          className="flex-1 p-3 bg-neutral-950 border border-neutral-700 rounded-lg text-neutral-100 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-orange-400 font-mono"
+        />
+        <button
+          type="submit"
+          disabled={pending || !input.trim()}
+          className="px-4 py-2 rounded-lg font-semibold transition-colors bg-orange-400 text-neutral-950 hover:bg-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {pending ? "Checking..." : "Check In"}
+        </button>
+      </form>
+
+      {result && (
+        <div
+          role="status"
+          className={`p-4 border rounded-lg text-lg font-semibold ${resultClass[result.ok ? "ok" : "error"]}`}
+        >
+          {result.message}
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div>
+          <h2 className="text-lg font-semibold text-neutral-100 mb-2">
+            Latest check-ins
+          </h2>
+          <ul className="space-y-1 text-sm">
+            {recent.map((entry) => (
+              <li
+                key={`${entry.name}-${entry.checkedInAt}`}
+                className="flex justify-between text-neutral-300"
+              >
+                <span>{entry.name}</span>
+                <time dateTime={entry.checkedInAt} className="text-neutral-500">
+                  {new Date(entry.checkedInAt).toLocaleTimeString("en-CA")}
+                </time>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { ContentFileDiff } from "@/lib/content-editor";
+
+const lineClass = {
+  context: "text-neutral-400",
+  added: "bg-green-950 text-green-300",
+  removed: "bg-red-950 text-red-300",
+  hunk: "text-orange-400",
+};
+
+const linePrefix = { context: " ", added: "+", removed: "-", hunk: "" };
+
+/**
+ * Unified diff of the content files an edit would change
+ */
+export function ContentDiff({ files }: { files: ContentFileDiff[] }) {
+  return (
+    <div className="space-y-4">
+      {files.map((file) => (
+        <div
+          key={file.file}
+          className="border border-neutral-800 rounded-lg overflow-hidden"
+        >
+          <div className="px-3 py-2 bg-neutral-900 text-sm text-neutral-200 font-mono">
+            content/{file.file}{" "}
+            <span className="text-neutral-500">({file.status})</span>
+          </div>
+          <pre className="text-xs font-mono overflow-x-auto max-h-96">
+            {file.lines.map((line, index) => (
+              <div key={index} className={`px-3 ${lineClass[line.type]}`}>
+                {linePrefix[line.type]}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { ContentDiff } from "@/components/admin/ContentDiff";
+import { ContentIssues } from "@/components/admin/ContentIssues";
+import { SchemaForm } from "@/components/admin/SchemaForm";
+
+import type { ContentEditResult, EntryRef } from "@/lib/content-editor";
+import type { JsonSchema } from "@/lib/json-schema";
+import type { ReferenceOptions } from "@/lib/schema-form";
+import { paths } from "@/lib/utils/urls";
+
+interface ContentEditorProps {
+  contentKey: string;
+  entry?: EntryRef;
+  schema: JsonSchema;
+  references: ReferenceOptions;
+  initialValue: unknown;
+  revision: string;
+}
+
+type Pending = "preview" | "save" | null;
+
+const buttonClass =
+  "px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Admin Content Editor Component
+ * Edits one content entry (or file) with a form generated from its schema.
+ * Changes are validated and shown as a diff on the server before saving.
+ */
+export function ContentEditor({
+  contentKey,
+  entry,
+  schema,
+  references,
+  initialValue,
+  revision: initialRevision,
+}: ContentEditorProps) {
+  const router = useRouter();
+  const [value, setValue] = useState(initialValue);
+  const [revision, setRevision] = useState(initialRevision);
+  const [deleting, setDeleting] = useState(false);
+  const [preview, setPreview] = useState<ContentEditResult | null>(null);
+  const [pending, setPending] = useState<Pending>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const send = async (
+    action: "preview" | "save",
+    remove: boolean
+  ): Promise<ContentEditResult | null> => {
+    setPending(action);
+    setError(null);
+    setSaved(false);
+
+    try {
+      const response = await fetch(`/api/admin/content/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          key: contentKey,
+          entry,
+          value: remove ? undefined : value,
+          revision,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok && !("issues" in data)) {
+        setError(data.message || data.error || `Failed to ${action}`);
+        return null;
+      }
+      return data as ContentEditResult;
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+      return null;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleChange = (next: unknown) => {
+    setValue(next);
+    setPreview(null);
+    setDeleting(false);
+    setSaved(false);
+  };
+
+  const handlePreview = async (remove = false) => {
+    setDeleting(remove);
+    setPreview(await send("preview", remove));
+  };
+
+  const handleSave = async () => {
+    const result = await send("save", deleting);
+    if (!result) return;
+
+    if (!result.ok) {
+      setPreview(result);
+      return;
+    }
+
+    if (deleting) {
+      router.push(paths.admin.contentFile(contentKey));
+    } else if (entry === "new" && result.entry !== undefined) {
+      router.push(paths.admin.contentEntry(contentKey, result.entry));
+    } else {
+      setRevision(result.revision ?? revision);
+      setPreview(null);
+      setSaved(true);
+      router.refresh();
+    }
+  };
+
+  const canSave = preview !== null && preview.ok && preview.files.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="p-6 bg-neutral-900 border border-neutral-800 rounded-lg">
+        <SchemaForm
+          schema={schema}
+          value={value}
+          onChange={handleChange}
+          references={references}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={() => handlePreview()}
+          disabled={pending !== null}
+          className={`${buttonClass} bg-neutral-800 text-neutral-100 hover:bg-neutral-700`}
+        >
+          {pending === "preview" && !deleting
+            ? "Checking..."
+            : "Preview changes"}
+        </button>
+        {typeof entry === "number" && (
+          <button
+            type="button"
+            onClick={() => handlePreview(true)}
+            disabled={pending !== null}
+            className={`${buttonClass} bg-red-950 text-red-300 border border-red-800 hover:bg-red-900`}
+          >
+            Delete entry…
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-950 border border-red-800 rounded-lg">
+          <p className="text-red-400 font-semibold">Error</p>
+          <p className="text-red-300 text-sm mt-1">{error}</p>
+        </div>
+      )}
+
+      {saved && (
+        <p className="text-green-400 font-semibold">Saved to content/</p>
+      )}
+
+      {preview?.error && (
+        <div className="p-4 bg-red-950 border border-red-800 rounded-lg">
+          <p className="text-red-300 text-sm">{preview.error}</p>
+        </div>
+      )}
+
+      {preview && <ContentIssues issues={preview.issues} />}
+
+      {preview && !preview.error && (
+        <div className="space-y-4">
+          {preview.files.length === 0 ? (
+            <p className="text-neutral-400">No changes to save.</p>
+          ) : (
+            <ContentDiff files={preview.files} />
+          )}
+          {canSave && (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={pending !== null}
+              className={`${buttonClass} ${
+                deleting
+                  ? "bg-red-600 text-white hover:bg-red-700"
+                  : "bg-orange-400 text-neutral-950 hover:bg-orange-500"
+              }`}
+            >
+              {pending === "save"
+                ? "Saving..."
+                : deleting
+                  ? "Delete and save"
+                  : "Save changes"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
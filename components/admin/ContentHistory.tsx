@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { ContentDiff } from "@/components/admin/ContentDiff";
+import { ContentIssues } from "@/components/admin/ContentIssues";
+
+import type { ContentVersion } from "@/lib/content-audit";
+import type { ContentEditResult } from "@/lib/content-editor";
+
+interface ContentHistoryProps {
+  contentKey: string;
+  entityId?: string;
+  versions: ContentVersion[];
+  revision: string;
+}
+
+const actionClass = {
+  create: "bg-green-950 text-green-300 border-green-800",
+  update: "bg-neutral-800 text-neutral-300 border-neutral-700",
+  delete: "bg-red-950 text-red-300 border-red-800",
+  restore: "bg-orange-950 text-orange-300 border-orange-800",
+};
+
+const buttonClass =
+  "px-3 py-1.5 text-sm rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Admin Content History Component
+ * Lists the logged changes to one entry and restores earlier versions after
+ * showing what restoring would change
+ */
+export function ContentHistory({
+  contentKey,
+  entityId,
+  versions,
+  revision,
+}: ContentHistoryProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ContentEditResult | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restored, setRestored] = useState(false);
+
+  const send = async (version: string, dryRun: boolean) => {
+    setPending(true);
+    setError(null);
+    setRestored(false);
+
+    try {
+      const response = await fetch("/api/admin/content/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          key: contentKey,
+          entityId,
+          version,
+          revision,
+          dryRun,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok && !("issues" in data)) {
+        setError(data.message || data.error || "Failed to restore");
+        return null;
+      }
+      return data as ContentEditResult;
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+      return null;
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handlePreview = async (version: string) => {
+    setSelected(version);
+    setPreview(await send(version, true));
+  };
+
+  const handleRestore = async (version: string) => {
+    const result = await send(version, false);
+    if (result?.ok) {
+      setSelected(null);
+      setPreview(null);
+      setRestored(true);
+      router.refresh();
+    } else {
+      setPreview(result);
+    }
+  };
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-neutral-400">
+        No changes have been made through the admin editor yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {restored && (
+        <p className="text-green-400 font-semibold">Version restored</p>
+      )}
+      {error && (
+        <div className="p-4 bg-red-950 border border-red-800 rounded-lg">
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      <ol className="space-y-4">
+        {versions.map(({ entry, value, available }, index) => (
+          <li
+            key={entry.id}
+            className="p-4 bg-neutral-900 border border-neutral-800 rounded-lg space-y-3"
+          >
+            <div className="flex flex-wrap items-center gap-3">
+              <span
+                className={`px-2 py-0.5 text-xs font-semibold rounded border ${actionClass[entry.action]}`}
+              >
+                {entry.action}
+              </span>
+              <time dateTime={entry.timestamp} className="text-neutral-200">
+                {new Date(entry.timestamp).toLocaleString()}
+              </time>
+              <span className="text-xs text-neutral-500 font-mono">
+                {entry.userId}
+              </span>
+              {index === 0 && (
+                <span className="text-xs text-orange-400">current</span>
+              )}
+            </div>
+
+            <details>
+              <summary className="text-sm text-neutral-400 cursor-pointer">
+                {entry.patch.filter((op) => op.op !== "test").length} change(s)
+              </summary>
+              <pre className="mt-2 text-xs font-mono text-neutral-300 overflow-x-auto max-h-64">
+                {JSON.stringify(entry.patch, null, 2)}
+              </pre>
+            </details>
+
+            {index > 0 && !available && (
+              <p className="text-xs text-neutral-500">
+                Can&apos;t be restored: the entry was changed outside the admin
+                editor since.
+              </p>
+            )}
+            {index > 0 && available && value !== undefined && (
+              <button
+                type="button"
+                onClick={() => handlePreview(entry.id)}
+                disabled={pending}
+                className={`${buttonClass} bg-neutral-800 text-neutral-100 hover:bg-neutral-700`}
+              >
+                Preview restore
+              </button>
+            )}
+
+            {selected === entry.id && preview && (
+              <div className="space-y-4">
+                {preview.error && (
+                  <p className="text-red-300 text-sm">{preview.error}</p>
+                )}
+                <ContentIssues issues={preview.issues} />
+                {!preview.error &&
+                  (preview.files.length === 0 ? (
+                    <p className="text-neutral-400">
+                      This version matches the current content.
+                    </p>
+                  ) : (
+                    <ContentDiff files={preview.files} />
+                  ))}
+                {preview.ok && preview.files.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(entry.id)}
+                    disabled={pending}
+                    className={`${buttonClass} bg-orange-400 text-neutral-950 hover:bg-orange-500`}
+                  >
+                    {pending ? "Restoring..." : "Restore this version"}
+                  </button>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { formatIssuePath, type IntegrityIssue } from "@/lib/content-integrity";
+
+/**
+ * Validation issues that block saving a content edit
+ */
+export function ContentIssues({ issues }: { issues: IntegrityIssue[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-red-950 border border-red-800 rounded-lg">
+      <p className="text-red-400 font-semibold mb-2">Fix these before saving</p>
+      <ul className="list-disc list-inside text-sm text-red-300 space-y-1">
+        {issues.map((issue, index) => (
+          <li key={index}>
+            {issue.file} → {formatIssuePath(issue.path)}: {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
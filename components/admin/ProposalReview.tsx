@@ -0,0 +1,304 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { ContentIssues } from "@/components/admin/ContentIssues";
+
+import type {
+  Proposal,
+  ProposalComment,
+  ReviewRequest,
+  ScheduleSlot,
+} from "@/lib/cfp";
+import type { ContentEditResult } from "@/lib/content-editor";
+
+interface ProposalReviewProps {
+  proposal: Proposal;
+  /** Existing presenters the talk can be credited to */
+  presenters: { id: string; name: string }[];
+  /** Events in events.json that haven't ended */
+  events: { slug: string; title: string }[];
+}
+
+const inputClass =
+  "w-full p-2 bg-neutral-950 border border-neutral-700 rounded-lg text-neutral-100 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-orange-400";
+
+const buttonClass =
+  "px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Event and start time pickers for slotting a talk into a schedule
+ */
+function SlotFields({
+  events,
+  slot,
+  onChange,
+  optional,
+}: {
+  events: ProposalReviewProps["events"];
+  slot: ScheduleSlot;
+  onChange: (slot: ScheduleSlot) => void;
+  optional?: boolean;
+}) {
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      <label className="text-sm text-neutral-400">
+        Event
+        <select
+          value={slot.eventSlug}
+          onChange={(e) => onChange({ ...slot, eventSlug: e.target.value })}
+          required={!optional}
+          className={inputClass}
+        >
+          <option value="">
+            {optional ? "Don't schedule yet" : "Pick one"}
+          </option>
+          {events.map((event) => (
+            <option key={event.slug} value={event.slug}>
+              {event.title}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-neutral-400">
+        Start time (event&apos;s timezone)
+        <input
+          type="time"
+          value={slot.startTime}
+          onChange={(e) => onChange({ ...slot, startTime: e.target.value })}
+          required={!optional || slot.eventSlug !== ""}
+          className={inputClass}
+        />
+      </label>
+    </div>
+  );
+}
+
+/**
+ * Admin Proposal Review Component
+ * Review actions for a talk proposal (accept with optional scheduling,
+ * schedule, reject, reopen) and the reviewers' comment thread
+ */
+export function ProposalReview({
+  proposal,
+  presenters,
+  events,
+}: ProposalReviewProps) {
+  const router = useRouter();
+  const [presenterId, setPresenterId] = useState("");
+  const [slot, setSlot] = useState<ScheduleSlot>({
+    eventSlug:
+      events.find((event) => event.slug === proposal.eventSlug)?.slug ?? "",
+    startTime: "",
+  });
+  const [comments, setComments] = useState<ProposalComment[]>(
+    proposal.comments
+  );
+  const [comment, setComment] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [content, setContent] = useState<ContentEditResult | null>(null);
+
+  const review = async (request: ReviewRequest) => {
+    setPending(true);
+    setError(null);
+    setContent(null);
+
+    try {
+      const response = await fetch(`/api/admin/cfp/${proposal.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.content) {
+          setContent(data.content);
+          setError(data.content.error ?? null);
+        } else {
+          setError(data.message || data.error || "Something went wrong");
+        }
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const addComment = async () => {
+    setPending(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/cfp/${proposal.id}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: comment }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.message || data.error || "Something went wrong");
+        return;
+      }
+      setComments(data.comments);
+      setComment("");
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-4 bg-red-950 border border-red-800 rounded-lg">
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+      {content && <ContentIssues issues={content.issues} />}
+
+      {proposal.status === "submitted" && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            review({
+              action: "accept",
+              ...(presenterId && { presenterId }),
+              ...(slot.eventSlug && { schedule: slot }),
+            });
+          }}
+          className="p-6 bg-neutral-900 border border-neutral-800 rounded-xl space-y-4"
+        >
+          <p className="text-neutral-100 font-semibold">Accept</p>
+          <p className="text-sm text-neutral-400">
+            Creates a draft presentation, and a draft presenter from the
+            proposal unless you pick an existing one.
+          </p>
+          <label className="block text-sm text-neutral-400">
+            Presenter
+            <select
+              value={presenterId}
+              onChange={(e) => setPresenterId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">New presenter: {proposal.presenter.name}</option>
+              {presenters.map((presenter) => (
+                <option key={presenter.id} value={presenter.id}>
+                  {presenter.name} ({presenter.id})
+                </option>
+              ))}
+            </select>
+          </label>
+          <SlotFields events={events} slot={slot} onChange={setSlot} optional />
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              disabled={pending}
+              className={`${buttonClass} bg-orange-400 text-neutral-950 hover:bg-orange-500`}
+            >
+              {slot.eventSlug ? "Accept & Schedule" : "Accept"}
+            </button>
+            <button
+              type="button"
+              onClick={() => review({ action: "reject" })}
+              disabled={pending}
+              className={`${buttonClass} bg-neutral-800 text-neutral-100 hover:bg-neutral-700`}
+            >
+              Reject
+            </button>
+          </div>
+        </form>
+      )}
+
+      {proposal.status === "accepted" && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            review({ action: "schedule", schedule: slot });
+          }}
+          className="p-6 bg-neutral-900 border border-neutral-800 rounded-xl space-y-4"
+        >
+          <p className="text-neutral-100 font-semibold">Schedule</p>
+          <p className="text-sm text-neutral-400">
+            Adds the talk to the event&apos;s presentations and schedule.
+          </p>
+          <SlotFields events={events} slot={slot} onChange={setSlot} />
+          <button
+            type="submit"
+            disabled={pending}
+            className={`${buttonClass} bg-orange-400 text-neutral-950 hover:bg-orange-500`}
+          >
+            Schedule
+          </button>
+        </form>
+      )}
+
+      {proposal.status === "rejected" && (
+        <button
+          type="button"
+          onClick={() => review({ action: "reopen" })}
+          disabled={pending}
+          className={`${buttonClass} bg-neutral-800 text-neutral-100 hover:bg-neutral-700`}
+        >
+          Reopen for review
+        </button>
+      )}
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold text-neutral-100">
+          Comments ({comments.length})
+        </h2>
+        {comments.map((c) => (
+          <div
+            key={c.id}
+            className="p-4 bg-neutral-900 border border-neutral-800 rounded-lg"
+          >
+            <p className="text-sm text-neutral-400 mb-1">
+              {c.author} ·{" "}
+              <time dateTime={c.createdAt}>
+                {new Date(c.createdAt).toLocaleString("en-CA")}
+              </time>
+            </p>
+            <p className="text-neutral-200 whitespace-pre-line">{c.body}</p>
+          </div>
+        ))}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addComment();
+          }}
+          className="space-y-3"
+        >
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Notes for the other reviewers"
+            required
+            maxLength={2000}
+            rows={3}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={pending || !comment.trim()}
+            className={`${buttonClass} bg-neutral-800 text-neutral-100 hover:bg-neutral-700`}
+          >
+            Add Comment
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
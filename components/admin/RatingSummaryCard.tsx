@@ -0,0 +1,65 @@
+import { formatRating, type RatingSummary } from "@/lib/feedback";
+
+/**
+ * Average, star distribution and comments of a set of feedback ratings
+ */
+export function RatingSummaryCard({
+  title,
+  subtitle,
+  summary,
+}: {
+  title: React.ReactNode;
+  subtitle?: React.ReactNode;
+  summary: RatingSummary;
+}) {
+  const max = Math.max(...summary.distribution, 1);
+
+  return (
+    <div className="p-4 bg-neutral-900 border border-neutral-800 rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-neutral-100 font-semibold">{title}</p>
+          {subtitle && <p className="text-sm text-neutral-400">{subtitle}</p>}
+        </div>
+        <p className="text-right shrink-0">
+          <span className="text-2xl text-orange-400 font-semibold">
+            ★ {formatRating(summary.average)}
+          </span>
+          <span className="block text-xs text-neutral-500">
+            {summary.count} {summary.count === 1 ? "rating" : "ratings"}
+          </span>
+        </p>
+      </div>
+
+      {summary.count > 0 && (
+        <div className="space-y-1">
+          {[5, 4, 3, 2, 1].map((stars) => {
+            const count = summary.distribution[stars - 1];
+            return (
+              <div key={stars} className="flex items-center gap-2 text-xs">
+                <span className="w-6 text-neutral-400">{stars}★</span>
+                <div className="flex-1 h-2 bg-neutral-800 rounded">
+                  <div
+                    className="h-2 bg-orange-400 rounded"
+                    style={{ width: `${(count / max) * 100}%` }}
+                  />
+                </div>
+                <span className="w-6 text-right text-neutral-500">{count}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {summary.comments.length > 0 && (
+        <ul className="space-y-2 text-sm text-neutral-300">
+          {summary.comments.map((comment, index) => (
+            <li key={index} className="border-l-2 border-neutral-700 pl-3">
+              {comment}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,390 @@
+"use client";
+
+import { useState } from "react";
+
+import type { JsonSchema } from "@/lib/json-schema";
+import {
+  createEmptyValue,
+  formatFieldLabel,
+  getReferenceKey,
+  getSchemaReference,
+  type ReferenceOptions,
+} from "@/lib/schema-form";
+
+/** Fields edited in a textarea rather than a single-line input */
+const MULTILINE_KEYS = new Set([
+  "body",
+  "answer",
+  "description",
+  "longDescription",
+  "overview",
+  "summary",
+  "bio",
+  "text",
+  "details",
+  "impactStatement",
+]);
+
+/** Markdown fields get a taller textarea */
+const MARKDOWN_KEYS = new Set(["body", "answer"]);
+
+const inputClass =
+  "w-full px-3 py-2 bg-neutral-950 border border-neutral-700 rounded text-neutral-100 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-orange-400";
+
+const smallButtonClass =
+  "px-2 py-1 text-xs rounded border border-neutral-700 text-neutral-300 hover:border-orange-400 hover:text-orange-400 disabled:opacity-40 disabled:cursor-not-allowed";
+
+type JsonObject = Record<string, unknown>;
+
+interface FieldProps {
+  /** Property name, used for labels and input hints */
+  name: string;
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  references: ReferenceOptions;
+  required?: boolean;
+}
+
+function FieldLabel({
+  name,
+  schema,
+  required,
+}: Pick<FieldProps, "name" | "schema" | "required">) {
+  return (
+    <div className="mb-1">
+      <span className="text-sm font-medium text-neutral-200">
+        {formatFieldLabel(name)}
+        {required && <span className="text-orange-400"> *</span>}
+      </span>
+      {typeof schema.description === "string" && (
+        <span className="ml-2 text-xs text-neutral-500">
+          {schema.description}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function SelectField({
+  value,
+  onChange,
+  options,
+  required,
+}: {
+  value: unknown;
+  onChange: (value: unknown) => void;
+  options: { value: string; label: string }[];
+  required?: boolean;
+}) {
+  const current = typeof value === "string" ? value : "";
+  const known = options.some((option) => option.value === current);
+
+  return (
+    <select
+      value={current}
+      onChange={(e) => onChange(e.target.value)}
+      className={inputClass}
+    >
+      {(!required || current === "") && <option value="">—</option>}
+      {current !== "" && !known && (
+        <option value={current}>{current} (not found)</option>
+      )}
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Raw JSON editor for parts of the schema the form can't render
+ * (unions, records)
+ */
+function JsonField({
+  value,
+  onChange,
+}: Pick<FieldProps, "value" | "onChange">) {
+  const [text, setText] = useState(() => JSON.stringify(value, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        rows={Math.min(12, text.split("\n").length + 1)}
+        onChange={(e) => {
+          setText(e.target.value);
+          try {
+            onChange(JSON.parse(e.target.value));
+            setError(null);
+          } catch {
+            setError("Invalid JSON");
+          }
+        }}
+        className={`${inputClass} font-mono text-sm`}
+      />
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+function ArrayField({ name, schema, value, onChange, references }: FieldProps) {
+  const items = Array.isArray(value) ? value : [];
+  const itemSchema = (schema.items ?? {}) as JsonSchema;
+  const isCompact = itemSchema.type === "string" && !MULTILINE_KEYS.has(name);
+
+  const update = (next: unknown[]) => onChange(next);
+  const move = (from: number, to: number) => {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    update(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className={
+            isCompact
+              ? "flex items-start gap-2"
+              : "p-3 border border-neutral-800 rounded space-y-2"
+          }
+        >
+          {!isCompact && (
+            <div className="text-xs text-neutral-500">#{index + 1}</div>
+          )}
+          <div className="flex-1">
+            <FieldInput
+              name={name}
+              schema={itemSchema}
+              value={item}
+              references={references}
+              required
+              onChange={(itemValue) =>
+                update(items.map((v, i) => (i === index ? itemValue : v)))
+              }
+            />
+          </div>
+          <div className="flex gap-1">
+            <button
+              type="button"
+              className={smallButtonClass}
+              disabled={index === 0}
+              onClick={() => move(index, index - 1)}
+              aria-label="Move up"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className={smallButtonClass}
+              disabled={index === items.length - 1}
+              onClick={() => move(index, index + 1)}
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              className={smallButtonClass}
+              onClick={() => update(items.filter((_, i) => i !== index))}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        className={smallButtonClass}
+        onClick={() => update([...items, createEmptyValue(itemSchema)])}
+      >
+        + Add {formatFieldLabel(name).replace(/s$/, "").toLowerCase()}
+      </button>
+    </div>
+  );
+}
+
+function ObjectField({ schema, value, onChange, references }: FieldProps) {
+  const object = (value ?? {}) as JsonObject;
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required ?? []) as string[]);
+
+  const set = (key: string, next: unknown) =>
+    onChange({ ...object, [key]: next });
+  const remove = (key: string) => {
+    const next = { ...object };
+    delete next[key];
+    onChange(next);
+  };
+
+  const shown = Object.keys(properties).filter(
+    (key) => required.has(key) || object[key] !== undefined
+  );
+  const addable = Object.keys(properties).filter(
+    (key) => !required.has(key) && object[key] === undefined
+  );
+
+  return (
+    <div className="space-y-4">
+      {shown.map((key) => (
+        <div key={key}>
+          <div className="flex items-start justify-between gap-2">
+            <FieldLabel
+              name={key}
+              schema={properties[key]}
+              required={required.has(key)}
+            />
+            {!required.has(key) && (
+              <button
+                type="button"
+                className={smallButtonClass}
+                onClick={() => remove(key)}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <FieldInput
+            name={key}
+            schema={properties[key]}
+            value={object[key]}
+            references={references}
+            required={required.has(key)}
+            onChange={(next) => set(key, next)}
+          />
+        </div>
+      ))}
+      {addable.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {addable.map((key) => (
+            <button
+              key={key}
+              type="button"
+              className={smallButtonClass}
+              onClick={() => set(key, createEmptyValue(properties[key]))}
+            >
+              + {formatFieldLabel(key)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Picks the input for a schema node
+ */
+function FieldInput(props: FieldProps) {
+  const { name, schema, value, onChange, references, required } = props;
+
+  const reference = getSchemaReference(schema);
+  if (reference) {
+    return (
+      <SelectField
+        value={value}
+        onChange={onChange}
+        options={references[getReferenceKey(reference)] ?? []}
+        required={required}
+      />
+    );
+  }
+
+  const enumValues = schema.enum as string[] | undefined;
+  if (enumValues) {
+    return (
+      <SelectField
+        value={value}
+        onChange={onChange}
+        options={enumValues.map((option) => ({ value: option, label: option }))}
+        required={required}
+      />
+    );
+  }
+
+  switch (schema.type) {
+    case "string":
+      return MULTILINE_KEYS.has(name) ? (
+        <textarea
+          value={typeof value === "string" ? value : ""}
+          rows={MARKDOWN_KEYS.has(name) ? 8 : 3}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+        />
+      ) : (
+        <input
+          type="text"
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+        />
+      );
+    case "number":
+    case "integer":
+      return (
+        <input
+          type="number"
+          step={schema.type === "integer" ? 1 : "any"}
+          value={typeof value === "number" ? value : ""}
+          onChange={(e) =>
+            onChange(e.target.value === "" ? 0 : Number(e.target.value))
+          }
+          className={inputClass}
+        />
+      );
+    case "boolean":
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          className="w-4 h-4 text-orange-400 border-neutral-600 rounded focus:ring-orange-400"
+        />
+      );
+    case "array":
+      return <ArrayField {...props} />;
+    case "object":
+      return schema.properties ? (
+        <ObjectField {...props} />
+      ) : (
+        <JsonField value={value} onChange={onChange} />
+      );
+    default:
+      return <JsonField value={value} onChange={onChange} />;
+  }
+}
+
+interface SchemaFormProps {
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  references: ReferenceOptions;
+}
+
+/**
+ * Form generated from a content JSON Schema: enums become selects,
+ * references become pickers and arrays become repeatable groups
+ */
+export function SchemaForm({
+  schema,
+  value,
+  onChange,
+  references,
+}: SchemaFormProps) {
+  return (
+    <FieldInput
+      name=""
+      schema={schema}
+      value={value}
+      onChange={onChange}
+      references={references}
+      required
+    />
+  );
+}
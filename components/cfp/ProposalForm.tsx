@@ -0,0 +1,355 @@
+"use client";
+
+import { useState } from "react";
+
+import { useUser } from "@clerk/nextjs";
+
+interface ProposalFormProps {
+  /** Talk lengths to offer, in minutes */
+  durations: readonly number[];
+  /** Upcoming events the presenter can ask to speak at */
+  events: { slug: string; title: string }[];
+}
+
+interface FieldError {
+  path: string;
+  message: string;
+}
+
+const inputClass =
+  "w-full p-3 bg-neutral-950 border border-neutral-700 rounded-lg text-neutral-100 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-orange-400";
+
+const labelClass = "block text-sm font-medium text-neutral-300 mb-1";
+
+const emptyForm = {
+  title: "",
+  abstract: "",
+  duration: "",
+  eventSlug: "",
+  name: "",
+  email: "",
+  bio: "",
+  role: "",
+  company: "",
+  twitter: "",
+  github: "",
+  website: "",
+  nostr: "",
+};
+
+/**
+ * Talk Proposal Form Component
+ * Public call-for-proposals form. Signed-in visitors get their name and
+ * email filled in.
+ */
+export function ProposalForm({ durations, events }: ProposalFormProps) {
+  const { user } = useUser();
+  const [form, setForm] = useState(emptyForm);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [submitted, setSubmitted] = useState(false);
+
+  const field = (name: keyof typeof emptyForm) => ({
+    value: form[name],
+    onChange: (
+      e: React.ChangeEvent<
+        HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+      >
+    ) => setForm((previous) => ({ ...previous, [name]: e.target.value })),
+  });
+
+  const submit = async () => {
+    setPending(true);
+    setError(null);
+    setFieldErrors([]);
+
+    try {
+      const response = await fetch("/api/cfp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: form.title,
+          abstract: form.abstract,
+          duration: Number(form.duration),
+          eventSlug: form.eventSlug,
+          presenter: {
+            name: form.name || user?.fullName,
+            email: form.email || user?.primaryEmailAddress?.emailAddress,
+            bio: form.bio,
+            title: form.role,
+            company: form.company,
+            links: {
+              twitter: form.twitter,
+              github: form.github,
+              website: form.website,
+              nostr: form.nostr,
+            },
+          },
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.message || data.error || "Something went wrong");
+        setFieldErrors(data.details ?? []);
+        return;
+      }
+      setSubmitted(true);
+      setForm(emptyForm);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="p-6 bg-green-950 border border-green-800 rounded-xl space-y-3">
+        <p className="text-lg font-semibold text-green-300">
+          ✅ Thanks! Your proposal is in.
+        </p>
+        <p className="text-neutral-300">
+          The organizers review proposals before each event and will get in
+          touch by email.
+        </p>
+        <button
+          type="button"
+          onClick={() => setSubmitted(false)}
+          className="text-orange-400 hover:text-orange-300 transition-colors"
+        >
+          Propose another talk
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+      className="space-y-8"
+    >
+      {error && (
+        <div className="p-4 bg-red-950 border border-red-800 rounded-lg">
+          <p className="text-red-300 text-sm">{error}</p>
+          {fieldErrors.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-red-300 mt-2">
+              {fieldErrors.map((fieldError) => (
+                <li key={fieldError.path}>
+                  {fieldError.path}: {fieldError.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <fieldset className="space-y-4">
+        <legend className="text-xl font-semibold text-neutral-100 mb-2">
+          Your Talk
+        </legend>
+        <div>
+          <label htmlFor="cfp-title" className={labelClass}>
+            Title
+          </label>
+          <input
+            id="cfp-title"
+            type="text"
+            required
+            maxLength={150}
+            className={inputClass}
+            {...field("title")}
+          />
+        </div>
+        <div>
+          <label htmlFor="cfp-abstract" className={labelClass}>
+            Abstract
+          </label>
+          <textarea
+            id="cfp-abstract"
+            required
+            maxLength={5000}
+            rows={6}
+            placeholder="What's the talk about, and what will people take away? The first paragraph is used as the short description."
+            className={inputClass}
+            {...field("abstract")}
+          />
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="cfp-duration" className={labelClass}>
+              Length
+            </label>
+            <select
+              id="cfp-duration"
+              required
+              className={inputClass}
+              {...field("duration")}
+            >
+              <option value="">Pick a length</option>
+              {durations.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} minutes
+                </option>
+              ))}
+            </select>
+          </div>
+          {events.length > 0 && (
+            <div>
+              <label htmlFor="cfp-event" className={labelClass}>
+                Preferred event (optional)
+              </label>
+              <select
+                id="cfp-event"
+                className={inputClass}
+                {...field("eventSlug")}
+              >
+                <option value="">Any event</option>
+                {events.map((event) => (
+                  <option key={event.slug} value={event.slug}>
+                    {event.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-4">
+        <legend className="text-xl font-semibold text-neutral-100 mb-2">
+          About You
+        </legend>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="cfp-name" className={labelClass}>
+              Name
+            </label>
+            <input
+              id="cfp-name"
+              type="text"
+              required={!user?.fullName}
+              maxLength={100}
+              placeholder={user?.fullName ?? undefined}
+              className={inputClass}
+              {...field("name")}
+            />
+          </div>
+          <div>
+            <label htmlFor="cfp-email" className={labelClass}>
+              Email (not published)
+            </label>
+            <input
+              id="cfp-email"
+              type="email"
+              required={!user?.primaryEmailAddress}
+              placeholder={user?.primaryEmailAddress?.emailAddress ?? undefined}
+              className={inputClass}
+              {...field("email")}
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="cfp-bio" className={labelClass}>
+            Short bio
+          </label>
+          <textarea
+            id="cfp-bio"
+            required
+            maxLength={2000}
+            rows={3}
+            className={inputClass}
+            {...field("bio")}
+          />
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="cfp-role" className={labelClass}>
+              Job title or role (optional)
+            </label>
+            <input
+              id="cfp-role"
+              type="text"
+              maxLength={100}
+              className={inputClass}
+              {...field("role")}
+            />
+          </div>
+          <div>
+            <label htmlFor="cfp-company" className={labelClass}>
+              Company or project (optional)
+            </label>
+            <input
+              id="cfp-company"
+              type="text"
+              maxLength={100}
+              className={inputClass}
+              {...field("company")}
+            />
+          </div>
+          <div>
+            <label htmlFor="cfp-twitter" className={labelClass}>
+              X / Twitter (optional)
+            </label>
+            <input
+              id="cfp-twitter"
+              type="text"
+              maxLength={200}
+              className={inputClass}
+              {...field("twitter")}
+            />
+          </div>
+          <div>
+            <label htmlFor="cfp-github" className={labelClass}>
+              GitHub (optional)
+            </label>
+            <input
+              id="cfp-github"
+              type="text"
+              maxLength={200}
+              className={inputClass}
+              {...field("github")}
+            />
+          </div>
+          <div>
+            <label htmlFor="cfp-website" className={labelClass}>
+              Website (optional)
+            </label>
+            <input
+              id="cfp-website"
+              type="url"
+              className={inputClass}
+              {...field("website")}
+            />
+          </div>
+          <div>
+            <label htmlFor="cfp-nostr" className={labelClass}>
+              Nostr npub (optional)
+            </label>
+            <input
+              id="cfp-nostr"
+              type="text"
+              maxLength={200}
+              className={inputClass}
+              {...field("nostr")}
+            />
+          </div>
+        </div>
+      </fieldset>
+
+      <button
+        type="submit"
+        disabled={pending}
+        className="px-6 py-3 rounded-lg font-semibold transition-colors bg-orange-400 text-neutral-950 hover:bg-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {pending ? "Sending..." : "Submit Proposal"}
+      </button>
+    </form>
+  );
+}
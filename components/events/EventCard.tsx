@@ -0,0 +1,90 @@
+import { Link } from "@/components/i18n/Link";
+import { Heading } from "@/components/ui/Heading";
+
+import {
+  formatEventDate,
+  formatEventTimeRange,
+  getEventTimezone,
+} from "@/lib/event-time";
+import type { Locale } from "@/lib/i18n";
+import type { City, Event, Recap } from "@/lib/types";
+import { paths } from "@/lib/utils/urls";
+
+interface EventCardProps {
+  event: Event;
+  city?: City;
+  /** Shown as a link for past events */
+  recap?: Recap;
+  locale?: Locale;
+  headingLevel?: "h2" | "h3";
+}
+
+/**
+ * Event summary card with date, time (in the city's timezone), venue and
+ * city, linking to the event page and to its recap when there is one
+ */
+export function EventCard({
+  event,
+  city,
+  recap,
+  locale,
+  headingLevel = "h2",
+}: EventCardProps) {
+  const timeZone = getEventTimezone(city);
+
+  return (
+    <article className="bg-neutral-900 border border-neutral-800 rounded-xl p-6 hover:border-orange-400 transition-colors">
+      <Link href={paths.events.detail(event.slug)}>
+        <Heading
+          level={headingLevel}
+          className="text-neutral-100 mb-2 hover:text-orange-400 transition-colors"
+        >
+          {event.title}
+        </Heading>
+      </Link>
+      <div className="text-sm text-neutral-400 mb-4 space-y-1">
+        <p>
+          📅{" "}
+          <time dateTime={event.startDate}>
+            {formatEventDate(event, timeZone, locale)}
+          </time>
+        </p>
+        <p>🕐 {formatEventTimeRange(event, timeZone, locale)}</p>
+        {event.attendanceMode === "online" ? (
+          <p>💻 Online</p>
+        ) : (
+          <p>📍 {event.location}</p>
+        )}
+        {event.attendanceMode === "mixed" && <p>💻 Also streamed online</p>}
+        {city && (
+          <p>
+            🏙️{" "}
+            <Link
+              href={paths.cities.detail(city.slug)}
+              className="text-orange-400 hover:text-orange-300 transition-colors"
+            >
+              {city.name}
+            </Link>
+          </p>
+        )}
+      </div>
+      <p className="text-neutral-300 mb-4">{event.description}</p>
+      <div className="flex flex-wrap gap-4">
+        <Link
+          href={paths.events.detail(event.slug)}
+          className="inline-block text-orange-400 hover:text-orange-300 font-medium transition-colors"
+        >
+          View Details →
+        </Link>
+        {recap && (
+          <Link
+            href={paths.recaps.detail(recap.slug)}
+            className="inline-block text-orange-400 hover:text-orange-300 font-medium transition-colors"
+          >
+            📝 Read the Recap →
+          </Link>
+        )}
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { useUser } from "@clerk/nextjs";
+
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import type { FeedbackPresentation, Rating } from "@/lib/feedback";
+
+interface EventFeedbackProps {
+  slug: string;
+  /** RSVP token from a confirmation link */
+  token?: string;
+  presentations: FeedbackPresentation[];
+  /** Heading of the section the survey is shown in */
+  heading: string;
+  className?: string;
+}
+
+interface FeedbackState {
+  open: boolean;
+  canRespond: boolean;
+  response: {
+    overall: Rating;
+    presentations: Record<string, Rating>;
+  } | null;
+}
+
+type Draft = { rating?: number; comment: string };
+
+const inputClass =
+  "w-full p-3 bg-neutral-950 border border-neutral-700 rounded-lg text-neutral-100 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-orange-400";
+
+const buttonClass =
+  "px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/** Same key EventRsvp keeps signed-out visitors' RSVP tokens under */
+const storageKey = (slug: string) => `rsvp:${slug}`;
+
+const toDraft = (rating?: Rating): Draft => ({
+  rating: rating?.rating,
+  comment: rating?.comment ?? "",
+});
+
+const toRating = ({ rating, comment }: Draft): Rating | undefined =>
+  rating
+    ? { rating, ...(comment.trim() && { comment: comment.trim() }) }
+    : undefined;
+
+function RatingInput({
+  label,
+  draft,
+  onChange,
+}: {
+  label: string;
+  draft: Draft;
+  onChange: (draft: Draft) => void;
+}) {
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-neutral-100 font-medium mb-2">{label}</legend>
+      <div className="flex gap-1">
+        {[1, 2, 3, 4, 5].map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange({ ...draft, rating: value })}
+            aria-label={`${value} out of 5`}
+            aria-pressed={draft.rating === value}
+            className={`text-2xl transition-colors ${
+              draft.rating && value <= draft.rating
+                ? "text-orange-400"
+                : "text-neutral-600 hover:text-orange-300"
+            }`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+      {draft.rating && (
+        <textarea
+          value={draft.comment}
+          onChange={(e) => onChange({ ...draft, comment: e.target.value })}
+          placeholder="Comments (optional)"
+          maxLength={1000}
+          rows={2}
+          className={inputClass}
+        />
+      )}
+    </fieldset>
+  );
+}
+
+/**
+ * Event Feedback Component
+ * Lets attendees rate the event and each of its talks after it ends.
+ * Signed-out attendees answer with the RSVP token EventRsvp saved in
+ * localStorage; submitting again updates their earlier response. Whether
+ * the survey is open comes from the API, so statically built pages show it
+ * once the event is over and drop it when the window closes.
+ */
+export function EventFeedback({
+  slug,
+  token: linkToken,
+  presentations,
+  heading,
+  className,
+}: EventFeedbackProps) {
+  const { isSignedIn } = useUser();
+  const [token, setToken] = useState<string | null>(linkToken ?? null);
+  const [state, setState] = useState<FeedbackState | null>(null);
+  const [overall, setOverall] = useState<Draft>(toDraft());
+  const [talks, setTalks] = useState<Record<string, Draft>>({});
+  const [pending, setPending] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!linkToken) {
+      setToken(localStorage.getItem(storageKey(slug)));
+    }
+  }, [slug, linkToken]);
+
+  useEffect(() => {
+    const load = async () => {
+      const query = token ? `?token=${encodeURIComponent(token)}` : "";
+      const response = await fetch(`/api/events/${slug}/feedback${query}`);
+      if (!response.ok) return;
+
+      const data: FeedbackState = await response.json();
+      setState(data);
+      if (data.response) {
+        setOverall(toDraft(data.response.overall));
+        setTalks(
+          Object.fromEntries(
+            Object.entries(data.response.presentations).map(([id, rating]) => [
+              id,
+              toDraft(rating),
+            ])
+          )
+        );
+      }
+    };
+    load();
+  }, [slug, token, isSignedIn]);
+
+  const submit = async () => {
+    const rating = toRating(overall);
+    if (!rating) {
+      setError("Rate the event overall before sending");
+      return;
+    }
+
+    setPending(true);
+    setError(null);
+    setSaved(false);
+
+    try {
+      const response = await fetch(`/api/events/${slug}/feedback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(token && { token }),
+          overall: rating,
+          presentations: Object.fromEntries(
+            Object.entries(talks).flatMap(([id, draft]) => {
+              const talkRating = toRating(draft);
+              return talkRating ? [[id, talkRating]] : [];
+            })
+          ),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.message || data.error || "Something went wrong");
+        return;
+      }
+      setState((previous) => previous && { ...previous, ...data });
+      setSaved(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (!state?.open) {
+    return null;
+  }
+
+  return (
+    <Section className={className}>
+      <Heading level="h2" className="text-neutral-100 mb-4">
+        {heading}
+      </Heading>
+      {state.canRespond ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+          className="p-6 bg-neutral-900 border border-neutral-800 rounded-xl space-y-6"
+        >
+          {error && (
+            <div className="p-4 bg-red-950 border border-red-800 rounded-lg">
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          )}
+
+          <RatingInput
+            label="How was the event overall?"
+            draft={overall}
+            onChange={setOverall}
+          />
+
+          {presentations.map((presentation) => (
+            <RatingInput
+              key={presentation.id}
+              label={
+                presentation.presenter
+                  ? `${presentation.title} · ${presentation.presenter}`
+                  : presentation.title
+              }
+              draft={talks[presentation.id] ?? toDraft()}
+              onChange={(draft) =>
+                setTalks((previous) => ({
+                  ...previous,
+                  [presentation.id]: draft,
+                }))
+              }
+            />
+          ))}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              type="submit"
+              disabled={pending}
+              className={`${buttonClass} bg-orange-400 text-neutral-950 hover:bg-orange-500`}
+            >
+              {pending
+                ? "Sending..."
+                : state.response
+                  ? "Update Feedback"
+                  : "Send Feedback"}
+            </button>
+            {saved && (
+              <p className="text-green-300 text-sm" aria-live="polite">
+                Thanks for your feedback!
+              </p>
+            )}
+          </div>
+        </form>
+      ) : (
+        <p className="text-neutral-400">
+          Were you there? Sign in, or use the link from your RSVP confirmation,
+          to tell us how it went.
+        </p>
+      )}
+    </Section>
+  );
+}
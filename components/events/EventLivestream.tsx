@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import { isLiveEvent, isUpcomingEvent } from "@/lib/event-time";
+import { getStreamEmbedUrl } from "@/lib/livestream";
+
+interface EventLivestreamProps {
+  title: string;
+  startDate: string;
+  endDate: string;
+  streamUrl?: string;
+  /** Replays shown once the event is over, full stream first */
+  recordings: { title: string; url: string }[];
+}
+
+/** How often the section checks whether the event has started or ended */
+const TICK_INTERVAL_MS = 30_000;
+
+const linkClass =
+  "inline-block text-orange-400 hover:text-orange-300 font-medium transition-colors";
+
+/**
+ * Event Livestream Component
+ * Links the stream before the event, embeds it while the event is on, and
+ * lists the recordings afterwards. Decided against the visitor's clock, so
+ * statically built event pages switch over on their own.
+ */
+export function EventLivestream({
+  title,
+  startDate,
+  endDate,
+  streamUrl,
+  recordings,
+}: EventLivestreamProps) {
+  const [now, setNow] = useState<Date | null>(null);
+
+  useEffect(() => {
+    const tick = () => setNow(new Date());
+    tick();
+    const interval = setInterval(tick, TICK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (now === null) {
+    return null;
+  }
+
+  const event = { startDate, endDate };
+
+  if (!isUpcomingEvent(event, now)) {
+    if (!streamUrl && recordings.length === 0) {
+      return null;
+    }
+
+    return (
+      <Section>
+        <Heading level="h2" className="text-neutral-100 mb-4">
+          Recordings
+        </Heading>
+        {recordings.length > 0 ? (
+          <ul className="space-y-2">
+            {recordings.map((recording) => (
+              <li key={recording.url}>
+                <a
+                  href={recording.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={linkClass}
+                >
+                  🎥 {recording.title} →
+                </a>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-neutral-400">
+            Recordings of the stream will be posted here.
+          </p>
+        )}
+      </Section>
+    );
+  }
+
+  if (!streamUrl) {
+    return null;
+  }
+
+  const live = isLiveEvent(event, now);
+  const embedUrl = getStreamEmbedUrl(streamUrl, window.location.hostname);
+
+  return (
+    <Section>
+      <Heading level="h2" className="text-neutral-100 mb-4">
+        {live ? "🔴 Live Now" : "Livestream"}
+      </Heading>
+      {live && embedUrl && (
+        <div className="aspect-video mb-4 rounded-xl overflow-hidden border border-neutral-800 bg-neutral-900">
+          <iframe
+            src={embedUrl}
+            title={`${title} livestream`}
+            allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+            allowFullScreen
+            className="w-full h-full"
+          />
+        </div>
+      )}
+      {!live && embedUrl && (
+        <p className="text-neutral-300 mb-4">
+          The stream will play here once the event starts.
+        </p>
+      )}
+      <a
+        href={streamUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={linkClass}
+      >
+        📺 {live ? "Open the stream" : "Stream link"} →
+      </a>
+    </Section>
+  );
+}
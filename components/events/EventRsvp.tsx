@@ -0,0 +1,335 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { useUser } from "@clerk/nextjs";
+
+import {
+  TicketInvoice,
+  type TicketStatus,
+} from "@/components/events/TicketInvoice";
+import { Link } from "@/components/i18n/Link";
+import { Heading } from "@/components/ui/Heading";
+import { Section } from "@/components/ui/Section";
+
+import type { CheckInPass } from "@/lib/check-in";
+import type { RsvpCounts, RsvpView } from "@/lib/rsvp";
+import { paths } from "@/lib/utils/urls";
+
+interface EventRsvpProps {
+  slug: string;
+  /** RSVP token from a confirmation link */
+  token?: string;
+  /** Show the check-in QR code of a confirmed RSVP */
+  showPass?: boolean;
+  /** Ticket price of a paid event, paid by Lightning before the RSVP */
+  priceSats?: number;
+  /** Shows the box as a section with this heading */
+  heading?: string;
+  /** Renders nothing once RSVPs close, e.g. on the event page after the event */
+  hideWhenClosed?: boolean;
+}
+
+interface RsvpState {
+  open: boolean;
+  counts: RsvpCounts;
+  rsvp: RsvpView | null;
+  pass?: CheckInPass | null;
+}
+
+/** How often the counts are refreshed while the page is open */
+const REFRESH_INTERVAL_MS = 30_000;
+
+const inputClass =
+  "w-full p-3 bg-neutral-950 border border-neutral-700 rounded-lg text-neutral-100 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-orange-400";
+
+const buttonClass =
+  "px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const storageKey = (slug: string) => `rsvp:${slug}`;
+
+const ticketStorageKey = (slug: string) => `ticket:${slug}`;
+
+function describeCounts({ confirmed, waitlisted, remaining }: RsvpCounts) {
+  return [
+    `${confirmed} going`,
+    remaining !== undefined &&
+      (remaining > 0 ? `${remaining} spots left` : "full"),
+    waitlisted > 0 && `${waitlisted} on the waitlist`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Event RSVP Component
+ * Shows the live attendee count and lets visitors sign up, or see and cancel
+ * their RSVP. Signed-out visitors' RSVP tokens are kept in localStorage.
+ * For paid events signing up buys a ticket, and the RSVP follows payment.
+ */
+export function EventRsvp({
+  slug,
+  token: linkToken,
+  showPass,
+  priceSats,
+  heading,
+  hideWhenClosed,
+}: EventRsvpProps) {
+  const { isSignedIn, user } = useUser();
+  const [token, setToken] = useState<string | null>(linkToken ?? null);
+  const [state, setState] = useState<RsvpState | null>(null);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ticketId, setTicketId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!linkToken) {
+      setToken(localStorage.getItem(storageKey(slug)));
+    }
+    setTicketId(localStorage.getItem(ticketStorageKey(slug)));
+  }, [slug, linkToken]);
+
+  const refresh = useCallback(async () => {
+    const query = token ? `?token=${encodeURIComponent(token)}` : "";
+    const response = await fetch(`/api/events/${slug}/rsvp${query}`);
+    if (response.ok) {
+      setState(await response.json());
+    }
+  }, [slug, token]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") refresh();
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh, isSignedIn]);
+
+  const clearTicket = useCallback(() => {
+    localStorage.removeItem(ticketStorageKey(slug));
+    setTicketId(null);
+  }, [slug]);
+
+  const onTicketPaid = useCallback(
+    ({ counts, rsvp }: TicketStatus) => {
+      clearTicket();
+      if (rsvp && !isSignedIn) {
+        localStorage.setItem(storageKey(slug), rsvp.token);
+        setToken(rsvp.token);
+      }
+      setState((previous) => ({
+        open: previous?.open ?? true,
+        counts,
+        rsvp,
+      }));
+      if (showPass) refresh();
+    },
+    [slug, isSignedIn, showPass, refresh, clearTicket]
+  );
+
+  const onTicketExpired = useCallback(() => {
+    clearTicket();
+    setError("The invoice expired before it was paid. Try again below.");
+  }, [clearTicket]);
+
+  const send = async (method: "POST" | "DELETE") => {
+    setPending(true);
+    setError(null);
+
+    try {
+      const query =
+        method === "DELETE" && token
+          ? `?token=${encodeURIComponent(token)}`
+          : "";
+      const endpoint =
+        method === "POST" && priceSats ? "tickets" : `rsvp${query}`;
+      const response = await fetch(`/api/events/${slug}/${endpoint}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        ...(method === "POST" && {
+          body: JSON.stringify({
+            name: name || user?.fullName || user?.username,
+            ...(!isSignedIn && { email }),
+          }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.message || data.error || "Something went wrong");
+        return;
+      }
+
+      if (data.ticket) {
+        localStorage.setItem(ticketStorageKey(slug), data.ticket.id);
+        setTicketId(data.ticket.id);
+        return;
+      }
+
+      if (method === "POST" && !isSignedIn) {
+        localStorage.setItem(storageKey(slug), data.rsvp.token);
+        setToken(data.rsvp.token);
+      }
+      setState((previous) => ({
+        open: previous?.open ?? true,
+        counts: data.counts,
+        rsvp: data.rsvp,
+      }));
+      if (showPass) refresh();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (!state || (hideWhenClosed && !state.open)) {
+    return null;
+  }
+
+  const { open, counts, rsvp, pass } = state;
+  const active = rsvp && rsvp.status !== "cancelled" ? rsvp : null;
+
+  const box = (
+    <div className="p-6 bg-neutral-900 border border-neutral-800 rounded-xl space-y-4">
+      <p className="text-neutral-300" aria-live="polite">
+        👥 {describeCounts(counts)}
+      </p>
+
+      {error && (
+        <div className="p-4 bg-red-950 border border-red-800 rounded-lg">
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {active ? (
+        <div className="space-y-3">
+          <p className="text-lg font-semibold text-neutral-100">
+            {active.status === "confirmed"
+              ? "✅ You're going!"
+              : `⏳ You're #${active.position} on the waitlist. We'll confirm you automatically if a spot opens up.`}
+          </p>
+          <p className="text-sm text-neutral-400">
+            Signed up as {active.name} ({active.email})
+          </p>
+          {showPass && active.status === "confirmed" && pass && (
+            <div className="flex flex-col items-start gap-2">
+              {/* eslint-disable-next-line @next/next/no-img-element -- data URL */}
+              <img
+                src={pass.qrCode}
+                alt="Check-in QR code"
+                width={256}
+                height={256}
+                className="rounded-lg"
+              />
+              <p className="text-sm text-neutral-400">
+                Show this code at the door to check in. Code:{" "}
+                <span className="font-mono text-neutral-300 break-all">
+                  {pass.token}
+                </span>
+              </p>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-4">
+            {!linkToken && (
+              <Link
+                href={paths.events.rsvp(slug, active.token)}
+                className="text-orange-400 hover:text-orange-300 transition-colors text-sm"
+              >
+                View your confirmation →
+              </Link>
+            )}
+            <button
+              type="button"
+              onClick={() => send("DELETE")}
+              disabled={pending}
+              className={`${buttonClass} bg-neutral-800 text-neutral-100 hover:bg-neutral-700`}
+            >
+              {pending ? "Cancelling..." : "Cancel RSVP"}
+            </button>
+          </div>
+          {priceSats && (
+            <p className="text-sm text-neutral-500">
+              Tickets aren&apos;t refunded automatically when cancelled. Get in
+              touch with the organizers if you can&apos;t make it.
+            </p>
+          )}
+        </div>
+      ) : ticketId ? (
+        <TicketInvoice
+          slug={slug}
+          ticketId={ticketId}
+          onPaid={onTicketPaid}
+          onExpired={onTicketExpired}
+        />
+      ) : open ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            send("POST");
+          }}
+          className="space-y-3"
+        >
+          {rsvp?.status === "cancelled" && (
+            <p className="text-sm text-neutral-400">
+              Your RSVP was cancelled. Changed your mind? Sign up again below.
+            </p>
+          )}
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={user?.fullName ?? "Your name"}
+            required={!isSignedIn}
+            maxLength={100}
+            className={inputClass}
+          />
+          {!isSignedIn && (
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              required
+              className={inputClass}
+            />
+          )}
+          <button
+            type="submit"
+            disabled={
+              pending || (priceSats !== undefined && counts.remaining === 0)
+            }
+            className={`${buttonClass} bg-orange-400 text-neutral-950 hover:bg-orange-500`}
+          >
+            {pending
+              ? "Saving..."
+              : priceSats
+                ? counts.remaining === 0
+                  ? "Sold Out"
+                  : `Buy Ticket · ${priceSats.toLocaleString("en-CA")} sats`
+                : counts.remaining === 0
+                  ? "Join the Waitlist"
+                  : "RSVP"}
+          </button>
+        </form>
+      ) : (
+        <p className="text-neutral-400">RSVPs are closed for this event.</p>
+      )}
+    </div>
+  );
+
+  return heading ? (
+    <Section>
+      <Heading level="h2" className="text-neutral-100 mb-4">
+        {heading}
+      </Heading>
+      {box}
+    </Section>
+  ) : (
+    box
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Link } from "@/components/i18n/Link";
+
+import { INTL_LOCALES, type Locale } from "@/lib/i18n";
+import type { LiveSlot } from "@/lib/live-agenda";
+import { paths } from "@/lib/utils/urls";
+
+interface LiveAgendaProps {
+  slug: string;
+  eventTitle: string;
+  timeZone: string;
+  locale: Locale;
+  slots: LiveSlot[];
+  initialShift: number;
+  /** Show the admin controls for shifting the schedule */
+  canShift: boolean;
+}
+
+/** How often open screens pick up a new schedule shift */
+const POLL_INTERVAL_MS = 10_000;
+
+/** Minutes added or removed by each press of the shift buttons */
+const SHIFT_STEP = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+const buttonClass =
+  "px-3 py-1.5 text-sm rounded-lg font-semibold transition-colors bg-neutral-800 text-neutral-100 hover:bg-neutral-700 disabled:opacity-50";
+
+/**
+ * The slot running at `time` and the one after it; slots are in start order
+ */
+function findNowNext(slots: LiveSlot[], time: number, shiftMs: number) {
+  const scheduled = time - shiftMs;
+  return {
+    current: slots.find(
+      (slot) =>
+        Date.parse(slot.start) <= scheduled && scheduled < Date.parse(slot.end)
+    ),
+    next: slots.find((slot) => Date.parse(slot.start) > scheduled),
+  };
+}
+
+function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+function Presenter({ presenter }: { presenter: LiveSlot["presenter"] }) {
+  if (!presenter) return null;
+
+  return (
+    <div className="flex items-center gap-4 mt-6">
+      {presenter.avatar && (
+        // eslint-disable-next-line @next/next/no-img-element -- presenter avatars are external URLs
+        <img
+          src={presenter.avatar}
+          alt={presenter.name}
+          className="w-20 h-20 rounded-full object-cover border-2 border-orange-400"
+        />
+      )}
+      <div>
+        <p className="text-2xl font-semibold text-neutral-100">
+          {presenter.name}
+        </p>
+        {(presenter.title || presenter.company) && (
+          <p className="text-lg text-neutral-400">
+            {[presenter.title, presenter.company].filter(Boolean).join(", ")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Live Agenda Component
+ * Full-screen "now/next" view of an event's schedule against the real clock
+ * in the event's timezone, following the schedule shift set by admins
+ */
+export function LiveAgenda({
+  slug,
+  eventTitle,
+  timeZone,
+  locale,
+  slots,
+  initialShift,
+  canShift,
+}: LiveAgendaProps) {
+  const [shift, setShift] = useState(initialShift);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState<number | null>(null);
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now() + clockOffset);
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [clockOffset]);
+
+  useEffect(() => {
+    const poll = async () => {
+      const response = await fetch(`/api/events/${slug}/live`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setShift(data.shiftMinutes);
+      setClockOffset(Date.parse(data.serverTime) - Date.now());
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [slug]);
+
+  const updateShift = async (minutes: number) => {
+    setPending(true);
+    try {
+      const response = await fetch(`/api/admin/events/${slug}/schedule-shift`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ minutes }),
+      });
+      if (response.ok) {
+        setShift((await response.json()).shiftMinutes);
+      }
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen();
+    }
+  };
+
+  if (now === null) {
+    return <div className="fixed inset-0 bg-neutral-950 z-50" />;
+  }
+
+  const shiftMs = shift * MINUTE_MS;
+  const { current, next } = findNowNext(slots, now, shiftMs);
+  const formatTime = (iso: string) =>
+    new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+      timeZone,
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(new Date(Date.parse(iso) + shiftMs));
+  const clock = new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  }).format(new Date(now));
+
+  return (
+    <div className="fixed inset-0 bg-neutral-950 overflow-auto z-50 p-8 md:p-12 flex flex-col">
+      <header className="flex flex-wrap items-center justify-between gap-4 mb-10">
+        <div>
+          <p className="text-orange-400 font-semibold">{eventTitle}</p>
+          {shift !== 0 && (
+            <p className="text-sm text-neutral-400">
+              Running {Math.abs(shift)} min {shift > 0 ? "late" : "early"}
+            </p>
+          )}
+        </div>
+        <p className="text-4xl font-mono text-neutral-100 tabular-nums">
+          {clock}
+        </p>
+      </header>
+
+      <main className="flex-1 grid gap-8 lg:grid-cols-3">
+        <section className="lg:col-span-2 p-8 rounded-2xl border border-orange-400/50 bg-orange-400/10">
+          <p className="text-sm uppercase tracking-widest text-orange-400 mb-4">
+            Now
+          </p>
+          {current ? (
+            <>
+              <h1 className="text-5xl md:text-6xl font-bold text-neutral-100">
+                {current.title}
+              </h1>
+              <p className="text-2xl text-neutral-400 mt-3">
+                {formatTime(current.start)} – {formatTime(current.end)}
+              </p>
+              {current.description && (
+                <p className="text-xl text-neutral-300 mt-4">
+                  {current.description}
+                </p>
+              )}
+              <Presenter presenter={current.presenter} />
+            </>
+          ) : (
+            <h1 className="text-5xl font-bold text-neutral-100">
+              {next ? "Starting soon" : "That's a wrap. Thanks for coming!"}
+            </h1>
+          )}
+        </section>
+
+        <section className="p-8 rounded-2xl border border-neutral-800 bg-neutral-900">
+          <p className="text-sm uppercase tracking-widest text-neutral-400 mb-4">
+            Next
+          </p>
+          {next ? (
+            <>
+              <p
+                className="text-5xl font-mono text-orange-400 tabular-nums mb-4"
+                aria-live="off"
+              >
+                {formatCountdown(Date.parse(next.start) + shiftMs - now)}
+              </p>
+              <h2 className="text-3xl font-semibold text-neutral-100">
+                {next.title}
+              </h2>
+              <p className="text-xl text-neutral-400 mt-2">
+                {formatTime(next.start)}
+              </p>
+              <Presenter presenter={next.presenter} />
+            </>
+          ) : (
+            <p className="text-xl text-neutral-400">Nothing else scheduled</p>
+          )}
+        </section>
+      </main>
+
+      <footer className="flex flex-wrap items-center gap-4 mt-10 text-sm">
+        <Link
+          href={paths.events.detail(slug)}
+          className="text-neutral-500 hover:text-orange-400 transition-colors"
+        >
+          ← Back to event
+        </Link>
+        <button
+          type="button"
+          onClick={toggleFullscreen}
+          className="text-neutral-500 hover:text-orange-400 transition-colors"
+        >
+          ⛶ Full screen
+        </button>
+        {canShift && (
+          <div className="flex items-center gap-2 ml-auto">
+            <span className="text-neutral-500">Shift schedule:</span>
+            <button
+              type="button"
+              onClick={() => updateShift(shift - SHIFT_STEP)}
+              disabled={pending}
+              className={buttonClass}
+            >
+              −{SHIFT_STEP} min
+            </button>
+            <button
+              type="button"
+              onClick={() => updateShift(shift + SHIFT_STEP)}
+              disabled={pending}
+              className={buttonClass}
+            >
+              +{SHIFT_STEP} min
+            </button>
+            <button
+              type="button"
+              onClick={() => updateShift(0)}
+              disabled={pending || shift === 0}
+              className={buttonClass}
+            >
+              Reset
+            </button>
+          </div>
+        )}
+      </footer>
+    </div>
+  );
+}
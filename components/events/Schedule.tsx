@@ -1,5 +1,8 @@
-import Link from "next/link";
+import { Link } from "@/components/i18n/Link";
 
+import { formatMinutes, getScheduleItemMinutes } from "@/lib/event-schedule";
+import { formatScheduleTime } from "@/lib/event-time";
+import type { Locale } from "@/lib/i18n";
 import type { ScheduleItem } from "@/lib/types";
 import type { Presenter } from "@/lib/types";
 import type { Presentation } from "@/lib/types";
@@ -8,6 +11,7 @@ interface ScheduleProps {
   items: ScheduleItem[];
   presentersById?: Map<string, Presenter>;
   presentationsById?: Map<string, Presentation>;
+  locale?: Locale;
 }
 
 /**
@@ -57,36 +61,16 @@ function getTypeColorClasses(type?: ScheduleItem["type"]) {
   }
 }
 
-/**
- * Format time display
- */
-function formatTime(time: string): string {
-  // If already in readable format (contains AM/PM), return as-is
-  if (
-    time.includes("AM") ||
-    time.includes("PM") ||
-    time.includes("am") ||
-    time.includes("pm")
-  ) {
-    return time;
-  }
-
-  // Otherwise, assume 24-hour format and convert
-  const [hours, minutes] = time.split(":");
-  const hour = parseInt(hours, 10);
-  const ampm = hour >= 12 ? "PM" : "AM";
-  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-  return `${displayHour}:${minutes || "00"} ${ampm}`;
-}
-
 /**
  * Schedule component with timeline visualization
- * Displays event schedule items in a vertical timeline format
+ * Displays event schedule items in a vertical timeline format, with each
+ * slot's duration (or its presentation's, for slots without an end time)
  */
 export function Schedule({
   items,
   presentersById = new Map(),
   presentationsById = new Map(),
+  locale,
 }: ScheduleProps) {
   if (items.length === 0) {
     return null;
@@ -101,6 +85,11 @@ export function Schedule({
         const presentation = item.presentationId
           ? presentationsById.get(item.presentationId)
           : undefined;
+        const minutes = getScheduleItemMinutes(item);
+        const duration =
+          minutes !== undefined
+            ? formatMinutes(minutes)
+            : presentation?.duration;
 
         return (
           <div
@@ -113,11 +102,11 @@ export function Schedule({
             <div className="flex-shrink-0 flex flex-col items-center">
               <div className="w-12 text-center">
                 <div className="text-sm font-semibold text-orange-400">
-                  {formatTime(item.startTime)}
+                  {formatScheduleTime(item.startTime, locale)}
                 </div>
                 {item.endTime && (
                   <div className="text-xs text-neutral-400 mt-1">
-                    {formatTime(item.endTime)}
+                    {formatScheduleTime(item.endTime, locale)}
                   </div>
                 )}
               </div>
@@ -165,9 +154,9 @@ export function Schedule({
                       )}
                     </p>
                   )}
-                  {presentation && presentation.duration && (
+                  {duration && (
                     <p className="text-xs text-neutral-500 mt-1">
-                      ⏱️ {presentation.duration}
+                      ⏱️ {duration}
                     </p>
                   )}
                 </div>
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { RsvpCounts, RsvpView } from "@/lib/rsvp";
+import type { TicketView } from "@/lib/tickets";
+
+export interface TicketStatus {
+  ticket: TicketView;
+  counts: RsvpCounts;
+  rsvp: RsvpView | null;
+}
+
+interface TicketInvoiceProps {
+  slug: string;
+  ticketId: string;
+  onPaid: (status: TicketStatus) => void;
+  /** Called when the invoice expired or the ticket no longer exists */
+  onExpired: () => void;
+}
+
+/** How often the payment status is checked while the invoice is shown */
+const POLL_INTERVAL_MS = 3_000;
+
+/**
+ * Ticket Invoice Component
+ * Shows the Lightning invoice for a ticket and waits for it to be paid
+ */
+export function TicketInvoice({
+  slug,
+  ticketId,
+  onPaid,
+  onExpired,
+}: TicketInvoiceProps) {
+  const [ticket, setTicket] = useState<TicketView | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let stopped = false;
+
+    const check = async () => {
+      const response = await fetch(`/api/events/${slug}/tickets/${ticketId}`);
+      if (stopped) return;
+      if (response.status === 404) {
+        onExpired();
+        return;
+      }
+      if (!response.ok) return;
+
+      const status: TicketStatus = await response.json();
+      setTicket(status.ticket);
+      if (status.ticket.status === "paid") onPaid(status);
+      if (status.ticket.status === "expired") onExpired();
+    };
+
+    check();
+    const interval = setInterval(check, POLL_INTERVAL_MS);
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [slug, ticketId, onPaid, onExpired]);
+
+  if (!ticket) {
+    return <p className="text-neutral-400">Loading your invoice...</p>;
+  }
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(ticket.paymentRequest);
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-lg font-semibold text-neutral-100">
+        ⚡ Pay {ticket.amountSats.toLocaleString("en-CA")} sats to get your
+        ticket
+      </p>
+      {/* eslint-disable-next-line @next/next/no-img-element -- data URL */}
+      <img
+        src={ticket.qrCode}
+        alt="Lightning invoice QR code"
+        width={256}
+        height={256}
+        className="rounded-lg"
+      />
+      <p className="text-sm text-neutral-400 font-mono break-all">
+        {ticket.paymentRequest}
+      </p>
+      <div className="flex flex-wrap items-center gap-4">
+        <a
+          href={`lightning:${ticket.paymentRequest}`}
+          className="px-4 py-2 rounded-lg font-semibold transition-colors bg-orange-400 text-neutral-950 hover:bg-orange-500"
+        >
+          Open in Wallet
+        </a>
+        <button
+          type="button"
+          onClick={copy}
+          className="px-4 py-2 rounded-lg font-semibold transition-colors bg-neutral-800 text-neutral-100 hover:bg-neutral-700"
+        >
+          {copied ? "Copied!" : "Copy Invoice"}
+        </button>
+      </div>
+      <p className="text-sm text-neutral-500" aria-live="polite">
+        Waiting for payment. The invoice expires at{" "}
+        {new Date(ticket.expiresAt).toLocaleTimeString("en-CA", {
+          hour: "numeric",
+          minute: "2-digit",
+        })}
+        .
+      </p>
+    </div>
+  );
+}
@@ -1,21 +1,23 @@
 "use client";
 
-import { useState } from "react";
+import { type ReactNode, useState } from "react";
 
-import Link from "next/link";
+import { Link } from "@/components/i18n/Link";
 
 import type { FAQItem as FAQItemType } from "@/lib/types";
 import { paths } from "@/lib/utils/urls";
 
 interface FAQItemProps {
   faq: FAQItemType;
+  /** Answer rendered on the server with <Markdown> */
+  answer: ReactNode;
   defaultOpen?: boolean;
 }
 
 /**
  * Individual FAQ item component with expandable answer
  */
-export function FAQItem({ faq, defaultOpen = false }: FAQItemProps) {
+export function FAQItem({ faq, answer, defaultOpen = false }: FAQItemProps) {
   const [isOpen, setIsOpen] = useState(defaultOpen);
 
   const sourceUrl = faq.sourceContent
@@ -56,7 +58,7 @@ export function FAQItem({ faq, defaultOpen = false }: FAQItemProps) {
           id={`faq-answer-${faq.id}`}
           className="mt-4 text-neutral-300 leading-relaxed"
         >
-          <div className="whitespace-pre-line mb-4">{faq.answer}</div>
+          <div className="mb-4">{answer}</div>
           {sourceUrl && faq.sourceContent && (
             <div className="text-sm">
               <span className="text-neutral-500">Learn more: </span>
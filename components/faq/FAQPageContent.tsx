@@ -1,16 +1,24 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { type ReactNode, useMemo, useState } from "react";
 
-import { FAQItem } from "./FAQItem";
 import { Heading } from "@/components/ui/Heading";
 
 import type { FAQsCollection } from "@/lib/types";
 
+import { FAQItem } from "./FAQItem";
+
 /**
  * Client component for FAQ page with category filtering and search
  */
-export function FAQPageContent({ content }: { content: FAQsCollection }) {
+export function FAQPageContent({
+  content,
+  answers,
+}: {
+  content: FAQsCollection;
+  /** Server-rendered Markdown answers keyed by FAQ id */
+  answers: Record<string, ReactNode>;
+}) {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -115,7 +123,7 @@ export function FAQPageContent({ content }: { content: FAQsCollection }) {
               )}
               <div className="space-y-0">
                 {category.faqs.map((faq) => (
-                  <FAQItem key={faq.id} faq={faq} />
+                  <FAQItem key={faq.id} faq={faq} answer={answers[faq.id]} />
                 ))}
               </div>
             </div>
@@ -1,3 +1,6 @@
+import { Link } from "@/components/i18n/Link";
+import { Markdown } from "@/components/ui/Markdown";
+
 import type { FAQItem as FAQItemType } from "@/lib/types";
 
 import { FAQItem } from "./FAQItem";
@@ -31,17 +34,21 @@ export function FAQSection({
       )}
       <div className="space-y-0">
         {displayFaqs.map((faq) => (
-          <FAQItem key={faq.id} faq={faq} />
+          <FAQItem
+            key={faq.id}
+            faq={faq}
+            answer={<Markdown source={faq.answer} />}
+          />
         ))}
       </div>
       {limit && faqs.length > limit && !showAll && (
         <div className="mt-6 text-center">
-          <a
+          <Link
             href="/faq"
             className="text-orange-400 hover:text-orange-300 underline transition-colors"
           >
             View all FAQs →
-          </a>
+          </Link>
         </div>
       )}
     </section>
@@ -0,0 +1,45 @@
+"use client";
+
+import NextLink from "next/link";
+import { usePathname } from "next/navigation";
+
+import {
+  getLocaleFromPath,
+  LOCALE_LABELS,
+  LOCALES,
+  localizePath,
+} from "@/lib/i18n";
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Links to the current page in each supported locale
+ */
+export function LanguageSwitcher({ className = "" }: LanguageSwitcherProps) {
+  const pathname = usePathname();
+  const current = getLocaleFromPath(pathname);
+
+  return (
+    <div className={`flex items-center gap-1 text-sm ${className}`}>
+      {LOCALES.map((locale) => (
+        <NextLink
+          key={locale}
+          href={localizePath(pathname, locale)}
+          hrefLang={locale}
+          lang={locale}
+          title={LOCALE_LABELS[locale]}
+          aria-current={locale === current ? "true" : undefined}
+          className={`rounded-md px-2 py-1 font-medium uppercase transition-colors ${
+            locale === current
+              ? "text-orange-400"
+              : "text-neutral-400 hover:text-orange-400"
+          }`}
+        >
+          {locale}
+        </NextLink>
+      ))}
+    </div>
+  );
+}
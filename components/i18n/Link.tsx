@@ -0,0 +1,20 @@
+"use client";
+
+import type { ComponentProps } from "react";
+
+import NextLink from "next/link";
+import { usePathname } from "next/navigation";
+
+import { getLocaleFromPath, localizePath } from "@/lib/i18n";
+
+/**
+ * next/link that keeps visitors in the locale they're browsing:
+ * on /fr pages, href="/events" points to /fr/events
+ */
+export function Link({ href, ...props }: ComponentProps<typeof NextLink>) {
+  const locale = getLocaleFromPath(usePathname());
+  const localizedHref =
+    typeof href === "string" ? localizePath(href, locale) : href;
+
+  return <NextLink href={localizedHref} {...props} />;
+}
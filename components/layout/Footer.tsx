@@ -1,4 +1,4 @@
-import Link from "next/link";
+import { Link } from "@/components/i18n/Link";
 
 import { paths } from "@/lib/utils/urls";
 
@@ -29,6 +29,7 @@ export function Footer() {
     content: [
       { href: paths.presentations.list(), label: "Presentations" },
       { href: paths.presenters.list(), label: "Presenters" },
+      { href: paths.topTalks(), label: "Top Talks" },
       { href: paths.resources(), label: "Resources" },
     ],
     learn: [
@@ -43,6 +44,7 @@ export function Footer() {
       { href: paths.cities.list(), label: "Cities" },
       { href: paths.sponsors.list(), label: "Sponsors" },
       { href: paths.members.list(), label: "Members" },
+      { href: paths.cfp(), label: "Give a Talk" },
     ],
   };
 
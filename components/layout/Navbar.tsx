@@ -2,11 +2,15 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 
-import Link from "next/link";
 import { usePathname } from "next/navigation";
 
 import { SignedIn, SignedOut, SignInButton, UserButton } from "@clerk/nextjs";
 
+import { LanguageSwitcher } from "@/components/i18n/LanguageSwitcher";
+import { Link } from "@/components/i18n/Link";
+
+import { stripLocale } from "@/lib/i18n";
+
 /**
  * Navigation item with optional children
  */
@@ -57,7 +61,8 @@ export function Navbar() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
-  const pathname = usePathname();
+  const fullPathname = usePathname();
+  const pathname = stripLocale(fullPathname);
   const dropdownRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
 
   const navItems: NavItem[] = [
@@ -171,7 +176,7 @@ export function Navbar() {
   useEffect(() => {
     closeMenus();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [pathname]);
+  }, [fullPathname]);
 
   // Prevent body scroll when mobile menu is open
   useEffect(() => {
@@ -311,6 +316,7 @@ export function Navbar() {
 
               {/* Auth Section */}
               <div className="flex items-center gap-2">
+                <LanguageSwitcher />
                 <SignedOut>
                   <SignInButton mode="modal">
                     <button className="text-sm font-medium text-neutral-300 hover:text-orange-400 transition-colors">
@@ -395,6 +401,7 @@ export function Navbar() {
         <div className="flex flex-col p-4">
           {/* Mobile Auth Section */}
           <div className="mb-4 pb-4 border-b border-neutral-800">
+            <LanguageSwitcher className="mb-3" />
             <SignedOut>
               <SignInButton mode="modal">
                 <button className="w-full rounded-md px-4 py-3 text-base font-medium transition-colors bg-neutral-800 text-neutral-300 hover:bg-neutral-700 hover:text-orange-400">
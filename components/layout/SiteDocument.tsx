@@ -1,4 +1,5 @@
-import type { Metadata } from "next";
+import type { ReactNode } from "react";
+
 import { Geist, Geist_Mono } from "next/font/google";
 
 import { ClerkProvider } from "@clerk/nextjs";
@@ -7,13 +8,14 @@ import { Footer } from "@/components/layout/Footer";
 import { Navbar } from "@/components/layout/Navbar";
 import { JsonLd } from "@/components/seo/JsonLd";
 
+import type { Locale } from "@/lib/i18n";
 import {
   createOrganizationSchema,
   createSchemaGraph,
   createWebSiteSchema,
 } from "@/lib/seo";
 
-import "./globals.css";
+import "@/app/globals.css";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -25,25 +27,17 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Builder Vancouver | Bitcoin Meetups & Education",
-  description:
-    "Join Builder Vancouver for Bitcoin meetups, Lightning Network education, and Layer 2 exploration. Connect with the local Bitcoin community.",
-  keywords: [
-    "bitcoin",
-    "vancouver",
-    "meetup",
-    "lightning network",
-    "layer 2",
-    "bitcoin education",
-  ],
-};
+interface SiteDocumentProps {
+  lang: Locale;
+  children: ReactNode;
+}
 
-export default function RootLayout({
-  children,
-}: Readonly<{
-  children: React.ReactNode;
-}>) {
+/**
+ * The site's <html> document with navigation and footer
+ * Rendered by each root layout (English and translated routes) so the
+ * document language matches the page
+ */
+export function SiteDocument({ lang, children }: SiteDocumentProps) {
   // Generate site-wide structured data
   const organizationSchema = createOrganizationSchema();
   const websiteSchema = createWebSiteSchema();
@@ -51,7 +45,8 @@ export default function RootLayout({
 
   return (
     <ClerkProvider>
-      <html lang="en">
+      <html lang={lang}>
+        {/* eslint-disable-next-line @next/next/no-head-element -- rendered only by root layouts */}
         <head>
           <JsonLd data={siteSchema} />
           {process.env.NEXT_PUBLIC_GOOGLE_SITE_VERIFICATION && (
@@ -1,7 +1,6 @@
 "use client";
 
-import Link from "next/link";
-
+import { Link } from "@/components/i18n/Link";
 import { Heading } from "@/components/ui/Heading";
 import type { SlideDeck } from "@/lib/types";
 import { paths } from "@/lib/utils/urls";
@@ -1,3 +1,5 @@
+import { Markdown } from "@/components/ui/Markdown";
+
 import type { Slide } from "@/lib/types";
 
 interface SlideRendererProps {
@@ -29,9 +31,10 @@ export function SlideRenderer({ slide }: SlideRendererProps) {
             </h2>
           )}
           {slide.body && (
-            <div className="text-lg sm:text-xl md:text-2xl lg:text-3xl text-neutral-300 whitespace-pre-line leading-relaxed">
-              {slide.body}
-            </div>
+            <Markdown
+              source={slide.body}
+              className="text-lg sm:text-xl md:text-2xl lg:text-3xl text-neutral-300 leading-relaxed"
+            />
           )}
         </div>
       );
@@ -79,9 +82,10 @@ export function SlideRenderer({ slide }: SlideRendererProps) {
             </div>
           )}
           {slide.body && (
-            <div className="text-base sm:text-lg md:text-xl lg:text-2xl text-neutral-300 whitespace-pre-line leading-relaxed">
-              {slide.body}
-            </div>
+            <Markdown
+              source={slide.body}
+              className="text-base sm:text-lg md:text-xl lg:text-2xl text-neutral-300 leading-relaxed"
+            />
           )}
         </div>
       );
@@ -2,20 +2,111 @@
 
 import { useState } from "react";
 
-import { X_MAX_CHARACTERS } from "@/lib/constants";
+import {
+  SOCIAL_MEDIA_IMAGE_TYPES,
+  SOCIAL_MEDIA_MAX_ALT_TEXT,
+  SOCIAL_MEDIA_MAX_IMAGE_BYTES,
+  SOCIAL_MEDIA_MAX_IMAGE_DIMENSION,
+  X_MAX_CHARACTERS,
+  X_MAX_MEDIA_ITEMS,
+} from "@/lib/constants";
 import type { PostResponse } from "@/lib/types";
 
+interface AttachedImage {
+  id: string;
+  alt: string;
+  /** Object URL of the uploaded file */
+  preview: string;
+}
+
+/**
+ * Scales an image down to SOCIAL_MEDIA_MAX_IMAGE_DIMENSION on its longest
+ * side and re-encodes it when it's too large. GIFs are kept as they are so
+ * they stay animated.
+ */
+async function resizeImage(file: File): Promise<Blob> {
+  if (file.type === "image/gif") {
+    return file;
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(
+    1,
+    SOCIAL_MEDIA_MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height)
+  );
+  if (scale === 1 && file.size <= SOCIAL_MEDIA_MAX_IMAGE_BYTES) {
+    bitmap.close();
+    return file;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const encode = (type: string) =>
+    new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.85));
+  const blob =
+    file.type === "image/png" ? await encode("image/png") : undefined;
+  return (
+    (blob && blob.size <= SOCIAL_MEDIA_MAX_IMAGE_BYTES
+      ? blob
+      : await encode("image/jpeg")) ?? file
+  );
+}
+
 /**
  * Social Media Post Form Component
- * Allows users to post content to X and/or Nostr platforms
+ * Allows users to post content, with up to four images, to X and/or Nostr
+ * platforms
  */
 export function PostForm() {
   const [content, setContent] = useState("");
+  const [images, setImages] = useState<AttachedImage[]>([]);
+  const [uploading, setUploading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<PostResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [platforms, setPlatforms] = useState<("x" | "nostr")[]>(["x", "nostr"]);
 
+  const handleFiles = async (files: File[]) => {
+    setUploading(true);
+    setError(null);
+
+    try {
+      for (const file of files.slice(0, X_MAX_MEDIA_ITEMS - images.length)) {
+        const blob = await resizeImage(file);
+        const form = new FormData();
+        form.append("file", blob, file.name);
+
+        const response = await fetch("/api/social-media/media", {
+          method: "POST",
+          body: form,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          setError(`${file.name}: ${data.message || data.error}`);
+          return;
+        }
+
+        setImages((previous) => [
+          ...previous,
+          { id: data.id, alt: "", preview: URL.createObjectURL(blob) },
+        ]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not upload image");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removeImage = (index: number) => {
+    URL.revokeObjectURL(images[index].preview);
+    setImages(images.filter((_, i) => i !== index));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -29,12 +120,16 @@ export function PostForm() {
         body: JSON.stringify({
           content,
           platforms,
+          images: images.map(({ id, alt }) => ({
+            id,
+            ...(alt.trim() && { alt: alt.trim() }),
+          })),
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        setError(errorData.error || "Failed to post");
+        setError(errorData.message || errorData.error || "Failed to post");
         return;
       }
 
@@ -44,6 +139,8 @@ export function PostForm() {
       // Clear form on success
       if (data.allSuccessful) {
         setContent("");
+        images.forEach((image) => URL.revokeObjectURL(image.preview));
+        setImages([]);
       }
     } catch (err) {
       setError(
@@ -121,11 +218,68 @@ export function PostForm() {
           </div>
         </div>
 
+        {/* Images */}
+        <div className="space-y-3">
+          {images.map((image, index) => (
+            <div key={image.id} className="flex items-start gap-3">
+              {/* eslint-disable-next-line @next/next/no-img-element -- local object URL preview */}
+              <img
+                src={image.preview}
+                alt=""
+                className="w-20 h-20 object-cover rounded border border-neutral-700"
+              />
+              <div className="flex-1 space-y-2">
+                <input
+                  type="text"
+                  value={image.alt}
+                  onChange={(e) =>
+                    setImages(
+                      images.map((item, i) =>
+                        i === index ? { ...item, alt: e.target.value } : item
+                      )
+                    )
+                  }
+                  maxLength={SOCIAL_MEDIA_MAX_ALT_TEXT}
+                  placeholder="Describe the image (alt text)"
+                  className="w-full p-2 bg-neutral-950 border border-neutral-700 rounded-lg text-neutral-100 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-orange-400"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeImage(index)}
+                  className="text-sm text-neutral-400 hover:text-red-400 transition-colors"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+          {images.length < X_MAX_MEDIA_ITEMS && (
+            <label className="inline-block text-sm text-orange-400 hover:text-orange-300 cursor-pointer transition-colors">
+              {uploading ? "Uploading..." : "🖼️ Add images"}
+              <input
+                type="file"
+                accept={SOCIAL_MEDIA_IMAGE_TYPES.join(",")}
+                multiple
+                disabled={uploading}
+                onChange={(e) => {
+                  handleFiles(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+                className="sr-only"
+              />
+            </label>
+          )}
+        </div>
+
         {/* Submit Button */}
         <button
           type="submit"
           disabled={
-            loading || !content.trim() || platforms.length === 0 || isOverLimit
+            loading ||
+            uploading ||
+            !content.trim() ||
+            platforms.length === 0 ||
+            isOverLimit
           }
           className="w-full px-6 py-3 bg-orange-400 text-neutral-950 font-semibold rounded-lg hover:bg-orange-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
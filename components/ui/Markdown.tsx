@@ -0,0 +1,118 @@
+import type { ReactNode } from "react";
+
+import { Link } from "@/components/i18n/Link";
+
+import {
+  isInternalHref,
+  isSafeHref,
+  type MarkdownBlock,
+  type MarkdownInline,
+  parseMarkdown,
+} from "@/lib/markdown";
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+const linkStyles =
+  "text-orange-400 hover:text-orange-300 underline transition-colors";
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.value;
+      case "break":
+        return <br key={i} />;
+      case "code":
+        return (
+          <code
+            key={i}
+            className="px-1.5 py-0.5 rounded bg-neutral-800 text-orange-300 text-[0.9em]"
+          >
+            {node.value}
+          </code>
+        );
+      case "strong":
+        return (
+          <strong key={i} className="font-semibold text-neutral-100">
+            {renderInline(node.children)}
+          </strong>
+        );
+      case "emphasis":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "link":
+        if (!isSafeHref(node.href)) {
+          return <span key={i}>{renderInline(node.children)}</span>;
+        }
+        if (isInternalHref(node.href)) {
+          return (
+            <Link key={i} href={node.href} className={linkStyles}>
+              {renderInline(node.children)}
+            </Link>
+          );
+        }
+        return (
+          <a
+            key={i}
+            href={node.href}
+            className={linkStyles}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, key: number): ReactNode {
+  switch (block.type) {
+    case "paragraph":
+      return <p key={key}>{renderInline(block.children)}</p>;
+    case "list":
+      if (block.ordered) {
+        return (
+          <ol
+            key={key}
+            start={block.start}
+            className="list-decimal pl-6 space-y-2"
+          >
+            {block.items.map((item, i) => (
+              <li key={i}>{renderInline(item)}</li>
+            ))}
+          </ol>
+        );
+      }
+      return (
+        <ul key={key} className="list-disc pl-6 space-y-2">
+          {block.items.map((item, i) => (
+            <li key={i}>{renderInline(item)}</li>
+          ))}
+        </ul>
+      );
+    case "code":
+      return (
+        <pre
+          key={key}
+          className="overflow-x-auto rounded-lg bg-neutral-900 border border-neutral-800 p-4 text-sm"
+        >
+          <code>{block.value}</code>
+        </pre>
+      );
+  }
+}
+
+/**
+ * Renders the Markdown subset used in content bodies and FAQ answers
+ * Raw HTML is shown as text; only safe link targets become links
+ */
+export function Markdown({ source, className = "" }: MarkdownProps) {
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {parseMarkdown(source).map(renderBlock)}
+    </div>
+  );
+}
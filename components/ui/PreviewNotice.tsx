@@ -0,0 +1,42 @@
+import { exitPreviewPath } from "@/lib/preview";
+import type { PublishingState } from "@/lib/visibility";
+
+interface PreviewNoticeProps {
+  state: PublishingState;
+  publishAt?: string;
+  path: string;
+}
+
+const stateLabels: Record<Exclude<PublishingState, "published">, string> = {
+  draft: "This is a draft",
+  scheduled: "This entry is scheduled",
+  archived: "This entry is archived",
+};
+
+/**
+ * Banner shown to admins previewing an entry the public can't see
+ */
+export function PreviewNotice({ state, publishAt, path }: PreviewNoticeProps) {
+  if (state === "published") {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-lg border border-orange-400/40 bg-orange-400/10 px-4 py-3 text-sm text-orange-200">
+      <p>
+        <span className="font-semibold">Preview:</span> {stateLabels[state]}
+        {state === "scheduled" && publishAt
+          ? ` and goes live ${new Date(publishAt).toUTCString()}`
+          : ""}{" "}
+        and is hidden from the public, the sitemap and structured data.
+      </p>
+      {/* Route handler redirect, not a page navigation */}
+      <a
+        href={exitPreviewPath(path)}
+        className="text-orange-400 hover:text-orange-300 underline transition-colors whitespace-nowrap"
+      >
+        Exit preview
+      </a>
+    </div>
+  );
+}
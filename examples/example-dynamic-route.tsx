@@ -20,6 +20,11 @@ import { Heading } from "@/components/ui/Heading";
 import { Section } from "@/components/ui/Section";
 
 import { loadEvent, loadEvents } from "@/lib/content";
+import {
+  DEFAULT_TIMEZONE,
+  formatEventDate,
+  formatEventTimeRange,
+} from "@/lib/event-time";
 import {
   createBreadcrumbList,
   createEventSchema,
@@ -100,8 +105,8 @@ export default async function EventPage({ params }: EventPageProps) {
     title: event.title,
     slug: event.slug,
     description: event.description,
-    date: event.date,
-    time: event.time,
+    startDate: event.startDate,
+    endDate: event.endDate,
     location: event.location,
   });
 
@@ -136,8 +141,9 @@ export default async function EventPage({ params }: EventPageProps) {
 
         {/* Event metadata */}
         <div className="text-lg text-neutral-300 mb-8 space-y-2">
-          <p>📅 {event.date}</p>
-          <p>🕐 {event.time}</p>
+          {/* Format in the event city's timezone (getEventTimezone) */}
+          <p>📅 {formatEventDate(event, DEFAULT_TIMEZONE)}</p>
+          <p>🕐 {formatEventTimeRange(event, DEFAULT_TIMEZONE)}</p>
           <p>📍 {event.location}</p>
         </div>
 
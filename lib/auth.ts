@@ -0,0 +1,71 @@
+/**
+ * Admin Authorization Helpers
+ * Admins are Clerk users with role "admin" or "super_admin" in public metadata
+ */
+import { notFound, redirect } from "next/navigation";
+import { NextResponse } from "next/server";
+
+import { auth, currentUser } from "@clerk/nextjs/server";
+
+export const ADMIN_ROLES = ["admin", "super_admin"];
+
+/**
+ * Returns true when the Clerk user's public metadata grants an admin role
+ */
+export function hasAdminRole(
+  user: { publicMetadata?: Record<string, unknown> } | null | undefined
+): boolean {
+  const role = user?.publicMetadata?.role;
+  return typeof role === "string" && ADMIN_ROLES.includes(role);
+}
+
+/**
+ * Returns true when the signed-in user is an admin
+ */
+export async function isAdmin(): Promise<boolean> {
+  return hasAdminRole(await currentUser());
+}
+
+/**
+ * Gate for admin API routes: returns the Clerk user ID of a signed-in admin,
+ * or the 401/403 response to send back
+ */
+export async function authorizeAdmin(): Promise<
+  { userId: string } | { response: NextResponse }
+> {
+  const { userId } = await auth();
+  if (!userId) {
+    return {
+      response: NextResponse.json(
+        { error: "Unauthorized", message: "Authentication required" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!(await isAdmin())) {
+    return {
+      response: NextResponse.json(
+        { error: "Forbidden", message: "Admin access required" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { userId };
+}
+
+/**
+ * Gate for admin pages: sends signed-out visitors to the login page and
+ * shows everyone else who isn't an admin a 404. Returns the Clerk user ID.
+ */
+export async function requireAdmin(): Promise<string> {
+  const { userId } = await auth();
+  if (!userId) {
+    redirect("/login");
+  }
+  if (!(await isAdmin())) {
+    notFound();
+  }
+  return userId;
+}
@@ -0,0 +1,554 @@
+/**
+ * Call for Proposals
+ * Talk proposals sent through the public /cfp form, stored in the local data
+ * directory. Admins review them on /admin/cfp, leave comments for each other,
+ * and accept or reject them.
+ *
+ * Accepting a proposal creates a draft Presentation in content/, and a draft
+ * Presenter unless the talk is by an existing one. An accepted talk can be
+ * slotted into the schedule of an event listed in events.json, which marks
+ * the proposal "scheduled". Content changes go through the admin content
+ * editor, so they are validated and recorded in the content audit log.
+ */
+import { randomUUID } from "crypto";
+import { z } from "zod";
+
+import { SITE_NAME } from "./constants";
+import {
+  type ContentEdit,
+  type ContentEditResult,
+  findEntity,
+  getContentRevision,
+  loadRawContent,
+  saveContentEdits,
+} from "./content-editor";
+import { getDataPath } from "./data-dir";
+import { getScheduleSlots } from "./event-schedule";
+import {
+  formatClockTime,
+  getEventTimezone,
+  isUpcomingEvent,
+  parseClockTime,
+} from "./event-time";
+import { createJsonStore } from "./json-store";
+import type {
+  City,
+  Event,
+  Presentation,
+  Presenter,
+  ScheduleItem,
+} from "./types";
+import { slugify, uniqueSlug } from "./utils/slug";
+
+export const CFP_STORE = getDataPath("cfp.json");
+
+/** Talk lengths the form offers, in minutes */
+export const PROPOSAL_DURATIONS = [5, 10, 15, 20, 30, 45, 60] as const;
+
+export const ProposalStatusSchema = z.enum([
+  "submitted",
+  "accepted",
+  "rejected",
+  "scheduled",
+]);
+
+export type ProposalStatus = z.infer<typeof ProposalStatusSchema>;
+
+const ProposalCommentSchema = z.object({
+  id: z.string(),
+  /** Clerk user ID of the admin */
+  userId: z.string(),
+  author: z.string(),
+  body: z.string(),
+  createdAt: z.string().datetime(),
+});
+
+export type ProposalComment = z.infer<typeof ProposalCommentSchema>;
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .transform((value) => value || undefined);
+
+export const ProposalRequestSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(150),
+  abstract: z.string().trim().min(1, "Abstract is required").max(5000),
+  /** Minutes */
+  duration: z
+    .number()
+    .int()
+    .refine(
+      (minutes) => (PROPOSAL_DURATIONS as readonly number[]).includes(minutes),
+      `Pick one of ${PROPOSAL_DURATIONS.join(", ")} minutes`
+    ),
+  /** Event the presenter would like to speak at */
+  eventSlug: optionalText(200),
+  presenter: z.object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    email: z.string().trim().email(),
+    bio: z.string().trim().min(1, "Bio is required").max(2000),
+    title: optionalText(100),
+    company: optionalText(100),
+    links: z
+      .object({
+        twitter: optionalText(200),
+        github: optionalText(200),
+        website: z
+          .string()
+          .trim()
+          .url()
+          .optional()
+          .or(z.literal("").transform(() => undefined)),
+        nostr: optionalText(200),
+      })
+      .optional(),
+  }),
+});
+
+export type ProposalRequest = z.infer<typeof ProposalRequestSchema>;
+
+export const ProposalSchema = ProposalRequestSchema.extend({
+  id: z.string(),
+  status: ProposalStatusSchema,
+  /** Clerk user ID when submitted while signed in */
+  userId: z.string().optional(),
+  comments: z.array(ProposalCommentSchema),
+  /** Set once accepted */
+  presenterId: z.string().optional(),
+  presentationId: z.string().optional(),
+  /** Slug of the event the talk was scheduled into */
+  scheduledEventSlug: z.string().optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type Proposal = z.infer<typeof ProposalSchema>;
+
+export const CommentRequestSchema = z.object({
+  body: z.string().trim().min(1, "Comment is required").max(2000),
+});
+
+const ScheduleSlotSchema = z.object({
+  /** Event listed in events.json */
+  eventSlug: z.string(),
+  /** HH:MM in the event's timezone; the slot lasts the proposal's duration */
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+});
+
+export type ScheduleSlot = z.infer<typeof ScheduleSlotSchema>;
+
+/**
+ * Body of POST /api/admin/cfp/[id]
+ */
+export const ReviewRequestSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("accept"),
+    /** Existing presenter giving the talk; a draft one is created otherwise */
+    presenterId: z.string().optional(),
+    schedule: ScheduleSlotSchema.optional(),
+  }),
+  z.object({ action: z.literal("schedule"), schedule: ScheduleSlotSchema }),
+  z.object({ action: z.literal("reject") }),
+  /** Back to "submitted", e.g. after rejecting by mistake */
+  z.object({ action: z.literal("reopen") }),
+]);
+
+export type ReviewRequest = z.infer<typeof ReviewRequestSchema>;
+
+/**
+ * Thrown when a proposal can't be found or the review action doesn't fit
+ * its status
+ */
+export class CfpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CfpError";
+  }
+}
+
+/**
+ * What a review action did: the updated proposal, or the content editor's
+ * result when the content changes couldn't be saved
+ */
+export type ReviewResult =
+  | { ok: true; proposal: Proposal; content?: ContentEditResult }
+  | { ok: false; content: ContentEditResult };
+
+const store = createJsonStore(
+  CFP_STORE,
+  z.object({ proposals: z.array(ProposalSchema) }),
+  () => ({ proposals: [] })
+);
+
+/**
+ * Proposals, newest first
+ */
+export async function readProposals(): Promise<Proposal[]> {
+  return [...(await store.read()).proposals].reverse();
+}
+
+export async function getProposal(id: string): Promise<Proposal | undefined> {
+  return (await store.read()).proposals.find((p) => p.id === id);
+}
+
+function updateProposal(
+  id: string,
+  update: (proposal: Proposal) => void
+): Promise<Proposal> {
+  return store.update(({ proposals }) => {
+    const proposal = proposals.find((p) => p.id === id);
+    if (!proposal) {
+      throw new CfpError("Proposal not found");
+    }
+    update(proposal);
+    proposal.updatedAt = new Date().toISOString();
+    return proposal;
+  });
+}
+
+/**
+ * Stores a new proposal. The same presenter can't send the same title twice
+ * while it's under review.
+ */
+export async function submitProposal(
+  request: ProposalRequest,
+  userId?: string
+): Promise<Proposal> {
+  return store.update(({ proposals }) => {
+    const duplicate = proposals.some(
+      (p) =>
+        p.status === "submitted" &&
+        p.presenter.email.toLowerCase() ===
+          request.presenter.email.toLowerCase() &&
+        p.title.toLowerCase() === request.title.toLowerCase()
+    );
+    if (duplicate) {
+      throw new CfpError("This talk has already been submitted");
+    }
+
+    const now = new Date().toISOString();
+    const proposal: Proposal = {
+      ...request,
+      id: randomUUID(),
+      status: "submitted",
+      ...(userId && { userId }),
+      comments: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    proposals.push(proposal);
+    return proposal;
+  });
+}
+
+export async function addProposalComment(
+  id: string,
+  author: { userId: string; name: string },
+  body: string
+): Promise<Proposal> {
+  return updateProposal(id, (proposal) => {
+    proposal.comments.push({
+      id: randomUUID(),
+      userId: author.userId,
+      author: author.name,
+      body,
+      createdAt: new Date().toISOString(),
+    });
+  });
+}
+
+/**
+ * Counts of proposals in each status
+ */
+export function getProposalCounts(
+  proposals: Proposal[]
+): Record<ProposalStatus, number> {
+  const counts = { submitted: 0, accepted: 0, rejected: 0, scheduled: 0 };
+  proposals.forEach((p) => counts[p.status]++);
+  return counts;
+}
+
+type RawItems<T> = (T & Record<string, unknown>)[];
+
+/**
+ * Events in events.json that haven't ended, which accepted talks can be
+ * slotted into. Generated series occurrences need an entry there first.
+ */
+export async function getSchedulableEvents(): Promise<
+  Pick<Event, "slug" | "title" | "startDate" | "endDate">[]
+> {
+  const raw = await loadRawContent("events");
+  return (raw.data.events as RawItems<Event>)
+    .filter((event) => isUpcomingEvent(event))
+    .map(({ slug, title, startDate, endDate }) => ({
+      slug,
+      title,
+      startDate,
+      endDate,
+    }));
+}
+
+/**
+ * "HH:MM" `minutes` after `start`
+ */
+function addMinutes(start: string, minutes: number): string {
+  const { hours, minutes: startMinutes } = parseClockTime(start)!;
+  const total = (hours * 60 + startMinutes + minutes) % (24 * 60);
+  return formatClockTime({
+    hours: Math.floor(total / 60),
+    minutes: total % 60,
+  });
+}
+
+/**
+ * The edit that lists the talk on an event and adds its schedule slot
+ */
+async function createScheduleEdit(
+  proposal: Proposal,
+  presentation: Pick<Presentation, "id" | "title" | "presenterId">,
+  { eventSlug, startTime }: ScheduleSlot
+): Promise<{ edit: ContentEdit; event: Event }> {
+  const raw = await loadRawContent("events");
+  const { ref, value } = findEntity("events", raw, eventSlug);
+  if (typeof ref !== "number") {
+    throw new CfpError(
+      `"${eventSlug}" isn't listed in events.json. Add the event there before scheduling talks into it.`
+    );
+  }
+
+  const event = value as Event;
+  if (!isUpcomingEvent(event)) {
+    throw new CfpError(`"${event.title}" has already ended`);
+  }
+
+  const slot: ScheduleItem = {
+    startTime,
+    endTime: addMinutes(startTime, proposal.duration),
+    title: presentation.title,
+    type: "presentation",
+    presenterId: presentation.presenterId,
+    presentationId: presentation.id,
+  };
+  // Sorted by when the slots happen, so talks after midnight stay last
+  const cities = await loadRawContent("cities");
+  const timeZone = getEventTimezone(
+    (cities.data.cities as RawItems<City>).find(
+      (city) => city.id === event.cityId
+    )
+  );
+  const schedule = getScheduleSlots(
+    { ...event, schedule: [...(event.schedule ?? []), slot] },
+    timeZone
+  )
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ item }) => item);
+  const presentationIds = event.presentationIds?.includes(presentation.id)
+    ? event.presentationIds
+    : [...(event.presentationIds ?? []), presentation.id];
+
+  return {
+    edit: {
+      key: "events",
+      entry: ref,
+      value: { ...event, presentationIds, schedule },
+      revision: getContentRevision(raw),
+    },
+    event,
+  };
+}
+
+/**
+ * Creates the draft content for an accepted proposal, optionally slotting
+ * the talk into an event's schedule
+ */
+async function acceptProposal(
+  proposal: Proposal,
+  userId: string,
+  { presenterId, schedule }: { presenterId?: string; schedule?: ScheduleSlot }
+): Promise<ReviewResult> {
+  if (proposal.status !== "submitted") {
+    throw new CfpError(`Only submitted proposals can be accepted`);
+  }
+
+  const edits: ContentEdit[] = [];
+  const presenters = await loadRawContent("presenters");
+  const presenterItems = presenters.data.presenters as RawItems<Presenter>;
+
+  let presenter = presenterId
+    ? presenterItems.find((p) => p.id === presenterId)
+    : undefined;
+  if (presenterId && !presenter) {
+    throw new CfpError(`Presenter "${presenterId}" doesn't exist`);
+  }
+  if (!presenter) {
+    const { name, bio, title, company, links } = proposal.presenter;
+    const slug = uniqueSlug(presenterItems, slugify(name), "presenter");
+    presenter = {
+      id: `presenter-${slug}`,
+      name,
+      slug,
+      bio,
+      ...(title && { title }),
+      ...(company && { company }),
+      ...(links && Object.values(links).some(Boolean) && { links }),
+      status: "draft",
+    };
+    edits.push({
+      key: "presenters",
+      entry: "new",
+      value: presenter,
+      revision: getContentRevision(presenters),
+    });
+  }
+
+  const presentations = await loadRawContent("presentations");
+  const slug = uniqueSlug(
+    presentations.data.presentations as RawItems<Presentation>,
+    slugify(proposal.title),
+    "presentation"
+  );
+  const [description] = proposal.abstract.split(/\n\s*\n/);
+  const presentation: Presentation = {
+    id: `presentation-${slug}`,
+    title: proposal.title,
+    slug,
+    description,
+    overview: proposal.abstract,
+    presenterId: presenter.id,
+    duration: `${proposal.duration} minutes`,
+    meta: { title: `${proposal.title} | ${SITE_NAME}`, description },
+    status: "draft",
+  };
+
+  if (schedule) {
+    const { edit, event } = await createScheduleEdit(
+      proposal,
+      presentation,
+      schedule
+    );
+    presentation.eventId = event.slug;
+    presentation.date = event.startDate.slice(0, 10);
+    edits.push(edit);
+  }
+  edits.unshift({
+    key: "presentations",
+    entry: "new",
+    value: presentation,
+    revision: getContentRevision(presentations),
+  });
+
+  const content = await saveContentEdits(edits, userId);
+  if (!content.ok) {
+    return { ok: false, content };
+  }
+
+  return {
+    ok: true,
+    content,
+    proposal: await updateProposal(proposal.id, (p) => {
+      p.status = schedule ? "scheduled" : "accepted";
+      p.presenterId = presenter.id;
+      p.presentationId = presentation.id;
+      if (schedule) p.scheduledEventSlug = schedule.eventSlug;
+    }),
+  };
+}
+
+/**
+ * Slots an accepted talk into an event's schedule
+ */
+async function scheduleProposal(
+  proposal: Proposal,
+  userId: string,
+  schedule: ScheduleSlot
+): Promise<ReviewResult> {
+  if (proposal.status !== "accepted" || !proposal.presentationId) {
+    throw new CfpError("Only accepted proposals can be scheduled");
+  }
+
+  const presentations = await loadRawContent("presentations");
+  const { ref, value } = findEntity(
+    "presentations",
+    presentations,
+    proposal.presentationId
+  );
+  if (typeof ref !== "number") {
+    throw new CfpError(
+      `Presentation "${proposal.presentationId}" no longer exists`
+    );
+  }
+
+  const presentation = value as Presentation;
+  const { edit, event } = await createScheduleEdit(
+    proposal,
+    presentation,
+    schedule
+  );
+  const content = await saveContentEdits(
+    [
+      {
+        key: "presentations",
+        entry: ref,
+        value: {
+          ...presentation,
+          eventId: event.slug,
+          date: event.startDate.slice(0, 10),
+        },
+        revision: getContentRevision(presentations),
+      },
+      edit,
+    ],
+    userId
+  );
+  if (!content.ok) {
+    return { ok: false, content };
+  }
+
+  return {
+    ok: true,
+    content,
+    proposal: await updateProposal(proposal.id, (p) => {
+      p.status = "scheduled";
+      p.scheduledEventSlug = event.slug;
+    }),
+  };
+}
+
+/**
+ * Applies an admin's review action to a proposal
+ */
+export async function reviewProposal(
+  id: string,
+  userId: string,
+  request: ReviewRequest
+): Promise<ReviewResult> {
+  const proposal = await getProposal(id);
+  if (!proposal) {
+    throw new CfpError("Proposal not found");
+  }
+
+  switch (request.action) {
+    case "accept":
+      return acceptProposal(proposal, userId, request);
+    case "schedule":
+      return scheduleProposal(proposal, userId, request.schedule);
+    case "reject":
+    case "reopen": {
+      const from = request.action === "reject" ? "submitted" : "rejected";
+      if (proposal.status !== from) {
+        throw new CfpError(
+          `Only ${from} proposals can be ${request.action === "reject" ? "rejected" : "reopened"}`
+        );
+      }
+      return {
+        ok: true,
+        proposal: await updateProposal(id, (p) => {
+          p.status = request.action === "reject" ? "rejected" : "submitted";
+        }),
+      };
+    }
+  }
+}
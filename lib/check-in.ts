@@ -0,0 +1,184 @@
+/**
+ * Event Check-In
+ * Confirmed attendees get a signed check-in token, shown as a QR code on
+ * their RSVP confirmation. Scanning it at the door marks the RSVP as
+ * attended; the counts feed the attendance stats on the event's recap.
+ *
+ * Tokens are signed with CHECKIN_SECRET, or with a secret generated on first
+ * use and kept in the data directory.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import QRCode from "qrcode";
+import { z } from "zod";
+
+import { SITE_URL } from "./constants";
+import { getDataPath } from "./data-dir";
+import { type Rsvp, updateRsvps } from "./rsvp";
+import type { Event } from "./types";
+import { paths } from "./utils/urls";
+
+const SECRET_FILE = getDataPath("check-in-secret");
+
+export interface CheckInPass {
+  token: string;
+  /** PNG data URL of the QR code, which encodes the admin check-in link */
+  qrCode: string;
+}
+
+export type CheckInResult =
+  | { status: "checked-in"; rsvp: Rsvp }
+  | { status: "duplicate"; rsvp: Rsvp }
+  | { status: "not-confirmed"; rsvp: Rsvp }
+  | { status: "invalid" };
+
+export const CheckInRequestSchema = z.object({
+  /** Token, or the whole link scanned from the QR code */
+  token: z.string().trim().min(1, "Token is required"),
+});
+
+/**
+ * What the check-in desk is shown about an attendee
+ */
+export interface CheckInEntry {
+  name: string;
+  checkedInAt: string;
+}
+
+export interface AttendanceStats {
+  confirmed: number;
+  checkedIn: number;
+  /** Checked in as a share of confirmed RSVPs, from 0 to 1 */
+  turnout?: number;
+}
+
+let secret: Promise<string> | undefined;
+
+async function loadSecret(): Promise<string> {
+  if (process.env.CHECKIN_SECRET) return process.env.CHECKIN_SECRET;
+
+  const stored = await readFile(SECRET_FILE, "utf-8").catch(() => undefined);
+  if (stored?.trim()) return stored.trim();
+
+  const generated = randomBytes(32).toString("hex");
+  await mkdir(dirname(SECRET_FILE), { recursive: true });
+  // "wx" keeps a secret another process wrote first
+  await writeFile(SECRET_FILE, generated, { flag: "wx", mode: 0o600 }).catch(
+    () => undefined
+  );
+  return (await readFile(SECRET_FILE, "utf-8")).trim();
+}
+
+function getSecret(): Promise<string> {
+  secret ??= loadSecret();
+  return secret;
+}
+
+function sign(key: string, rsvp: Pick<Rsvp, "id" | "eventSlug">): Buffer {
+  return createHmac("sha256", key)
+    .update(`${rsvp.eventSlug}:${rsvp.id}`)
+    .digest()
+    .subarray(0, 16);
+}
+
+/**
+ * Signed token for an RSVP: `<rsvp id>.<signature>`
+ */
+export async function createCheckInToken(
+  rsvp: Pick<Rsvp, "id" | "eventSlug">
+): Promise<string> {
+  return `${rsvp.id}.${sign(await getSecret(), rsvp).toString("base64url")}`;
+}
+
+/**
+ * The RSVP ID a token was issued for, when it's signed for this event
+ */
+export async function verifyCheckInToken(
+  eventSlug: string,
+  token: string
+): Promise<string | undefined> {
+  const [id, signature] = token.trim().split(".");
+  if (!id || !signature) return undefined;
+
+  const expected = sign(await getSecret(), { id, eventSlug });
+  const actual = Buffer.from(signature, "base64url");
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+    ? id
+    : undefined;
+}
+
+/**
+ * Pulls the token out of a scanned check-in link, or returns typed input as is
+ */
+export function parseCheckInInput(input: string): string {
+  const text = input.trim();
+  try {
+    return new URL(text).searchParams.get("token") ?? text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Check-in token and QR code for a confirmed RSVP
+ */
+export async function getCheckInPass(
+  rsvp: Rsvp
+): Promise<CheckInPass | undefined> {
+  if (rsvp.status !== "confirmed") return undefined;
+
+  const token = await createCheckInToken(rsvp);
+  const url = new URL(paths.admin.eventCheckIn(rsvp.eventSlug), SITE_URL);
+  url.searchParams.set("token", token);
+
+  return {
+    token,
+    qrCode: await QRCode.toDataURL(url.toString(), { margin: 2, width: 256 }),
+  };
+}
+
+/**
+ * Marks the token's RSVP as attended. Each RSVP checks in once; only
+ * confirmed ones are let in.
+ */
+export async function checkIn(
+  event: Pick<Event, "slug">,
+  token: string
+): Promise<CheckInResult> {
+  const id = await verifyCheckInToken(event.slug, parseCheckInInput(token));
+  if (!id) return { status: "invalid" };
+
+  return updateRsvps((rsvps): CheckInResult => {
+    const rsvp = rsvps.find((r) => r.id === id && r.eventSlug === event.slug);
+    if (!rsvp) return { status: "invalid" };
+    if (rsvp.checkedInAt) return { status: "duplicate", rsvp };
+    if (rsvp.status !== "confirmed") return { status: "not-confirmed", rsvp };
+
+    rsvp.checkedInAt = new Date().toISOString();
+    return { status: "checked-in", rsvp };
+  });
+}
+
+/**
+ * The latest check-ins, most recent first
+ */
+export function getRecentCheckIns(rsvps: Rsvp[], limit = 10): CheckInEntry[] {
+  return rsvps
+    .flatMap(({ name, checkedInAt }) =>
+      checkedInAt ? [{ name, checkedInAt }] : []
+    )
+    .sort((a, b) => b.checkedInAt.localeCompare(a.checkedInAt))
+    .slice(0, limit);
+}
+
+export function getAttendanceStats(rsvps: Rsvp[]): AttendanceStats {
+  const confirmed = rsvps.filter((r) => r.status === "confirmed").length;
+  const checkedIn = rsvps.filter((r) => r.checkedInAt).length;
+
+  return {
+    confirmed,
+    checkedIn,
+    turnout: confirmed > 0 ? checkedIn / confirmed : undefined,
+  };
+}
@@ -17,3 +17,12 @@ export const X_MAX_CHARACTERS = 280;
 export const X_MAX_MEDIA_ITEMS = 4;
 export const NOSTR_RELAY_TIMEOUT_MS = 10000; // 10 seconds
 export const DEFAULT_NOSTR_RELAYS = ["wss://relay.damus.io"];
+export const SOCIAL_MEDIA_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+] as const;
+export const SOCIAL_MEDIA_MAX_IMAGE_BYTES = 5 * 1024 * 1024; // X's limit for images
+export const SOCIAL_MEDIA_MAX_IMAGE_DIMENSION = 2048; // Longest side, in pixels
+export const SOCIAL_MEDIA_MAX_ALT_TEXT = 1000;
@@ -0,0 +1,150 @@
+/**
+ * Content Audit Log
+ * Append-only record of every change made through the admin content API:
+ * who made it, which entry it touched and a JSON patch of the change.
+ * Stored as JSON Lines in the local data directory.
+ */
+import { randomUUID } from "crypto";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { dirname } from "path";
+import { z } from "zod";
+
+import { getDataPath } from "./data-dir";
+import {
+  applyJsonPatch,
+  invertJsonPatch,
+  JsonPatchError,
+  type JsonPatchOperation,
+} from "./json-patch";
+
+export const CONTENT_AUDIT_LOG = getDataPath("content-audit.jsonl");
+
+const JsonPatchOperationSchema = z.custom<JsonPatchOperation>(
+  (operation) =>
+    typeof operation === "object" &&
+    operation !== null &&
+    "op" in operation &&
+    "path" in operation,
+  "Invalid JSON patch operation"
+);
+
+export const ContentAuditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string().datetime(),
+  /** Clerk user ID of the admin who made the change */
+  userId: z.string(),
+  /** Content registry key, e.g. "events" */
+  collection: z.string(),
+  /** ID (or slug) of the entry; omitted for a file's top-level fields */
+  entityId: z.string().optional(),
+  /** Set when the change renamed the entry */
+  previousEntityId: z.string().optional(),
+  action: z.enum(["create", "update", "delete", "restore"]),
+  /** Patch from the entry's old value to its new one */
+  patch: z.array(JsonPatchOperationSchema),
+});
+
+export type ContentAuditEntry = z.infer<typeof ContentAuditEntrySchema>;
+
+export type ContentAuditAction = ContentAuditEntry["action"];
+
+/**
+ * One point in an entry's history: its value right after `entry` was
+ * applied. `value` is undefined when the change deleted the entry.
+ */
+export interface ContentVersion {
+  entry: ContentAuditEntry;
+  value: unknown;
+  /**
+   * False when the value can't be rebuilt because the entry was changed
+   * outside the admin editor since
+   */
+  available: boolean;
+}
+
+export async function appendContentAudit(
+  entry: Omit<ContentAuditEntry, "id" | "timestamp">
+): Promise<ContentAuditEntry> {
+  const record: ContentAuditEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  await mkdir(dirname(CONTENT_AUDIT_LOG), { recursive: true });
+  await appendFile(CONTENT_AUDIT_LOG, `${JSON.stringify(record)}\n`, "utf-8");
+  return record;
+}
+
+/**
+ * Every entry in the log, oldest first. Unreadable lines are skipped.
+ */
+export async function readContentAudit(): Promise<ContentAuditEntry[]> {
+  const text = await readFile(CONTENT_AUDIT_LOG, "utf-8").catch(() => "");
+
+  return text.split("\n").flatMap((line, index) => {
+    if (!line.trim()) return [];
+    try {
+      return [ContentAuditEntrySchema.parse(JSON.parse(line))];
+    } catch {
+      console.warn(`Skipping invalid audit log line ${index + 1}`);
+      return [];
+    }
+  });
+}
+
+/**
+ * History of one entry (or of a file's top-level fields when `entityId` is
+ * undefined), newest first. Older values are rebuilt by undoing each change
+ * in turn, starting from `current`, and follow the entry across renames.
+ */
+export async function getContentHistory(
+  collection: string,
+  entityId: string | undefined,
+  current: unknown
+): Promise<ContentVersion[]> {
+  const log = await readContentAudit();
+  const versions: ContentVersion[] = [];
+  let trackedId = entityId;
+  let value = current;
+  let available = true;
+
+  for (const entry of log.reverse()) {
+    if (entry.collection !== collection || entry.entityId !== trackedId) {
+      continue;
+    }
+
+    versions.push({ entry, value: available ? value : undefined, available });
+
+    if (available) {
+      try {
+        value = applyJsonPatch(value, invertJsonPatch(entry.patch));
+      } catch (error) {
+        if (!(error instanceof JsonPatchError)) throw error;
+        available = false;
+      }
+    }
+    if (entry.previousEntityId) {
+      trackedId = entry.previousEntityId;
+    }
+  }
+
+  return versions;
+}
+
+/**
+ * Entries of a collection whose latest logged change deleted them
+ */
+export async function getDeletedEntities(
+  collection: string
+): Promise<ContentAuditEntry[]> {
+  const latest = new Map<string, ContentAuditEntry>();
+  for (const entry of await readContentAudit()) {
+    if (entry.collection !== collection || !entry.entityId) continue;
+    latest.set(entry.entityId, entry);
+    if (entry.previousEntityId) latest.delete(entry.previousEntityId);
+  }
+
+  return [...latest.values()]
+    .filter((entry) => entry.action === "delete")
+    .reverse();
+}
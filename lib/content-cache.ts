@@ -0,0 +1,135 @@
+/**
+ * Process-level Content Cache
+ * Memoizes parsed content files by filename and mtime.
+ *
+ * - Build/production: each file is read and parsed once per process, and
+ *   again after the admin editor writes it (see invalidateContent)
+ * - Development: the source's mtime is checked on every load, so edits to
+ *   content/*.json (or files in split content directories) are picked up
+ *   without restarting the dev server
+ *
+ * Set CONTENT_CACHE_STATS=1 to print hit/miss stats when the process exits.
+ */
+interface CacheEntry {
+  mtimeMs: number;
+  value: Promise<unknown>;
+}
+
+export interface ContentCacheStats {
+  hits: number;
+  misses: number;
+  invalidations: number;
+  files: Record<string, { hits: number; misses: number }>;
+}
+
+interface ContentCache {
+  entries: Map<string, CacheEntry>;
+  stats: ContentCacheStats;
+  reporting: boolean;
+}
+
+// Stored on globalThis so the cache survives module reloads in dev
+const globalForCache = globalThis as unknown as {
+  contentCache?: ContentCache;
+};
+
+const cache: ContentCache = (globalForCache.contentCache ??= {
+  entries: new Map(),
+  stats: { hits: 0, misses: 0, invalidations: 0, files: {} },
+  reporting: false,
+});
+
+const revalidateOnLoad = process.env.NODE_ENV !== "production";
+
+function record(filename: string, result: "hits" | "misses") {
+  cache.stats[result] += 1;
+  const fileStats = (cache.stats.files[filename] ??= { hits: 0, misses: 0 });
+  fileStats[result] += 1;
+}
+
+/**
+ * Returns the cached value for a content file, or runs `load` and caches it.
+ * Failed loads are never cached. Cached values are shared between callers,
+ * so treat them as read-only.
+ */
+export async function getCachedContent<T>(
+  filename: string,
+  getMtime: () => Promise<number>,
+  load: () => Promise<T>
+): Promise<T> {
+  // Build/production: trust the cache without touching the filesystem
+  if (!revalidateOnLoad) {
+    const cached = cache.entries.get(filename);
+    if (cached) {
+      record(filename, "hits");
+      return cached.value as Promise<T>;
+    }
+  }
+
+  const mtimeMs = revalidateOnLoad ? await getMtime() : 0;
+
+  // Read after the stat so concurrent callers share one in-flight load
+  const cached = cache.entries.get(filename);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    record(filename, "hits");
+    return cached.value as Promise<T>;
+  }
+
+  if (cached) {
+    cache.stats.invalidations += 1;
+  }
+  record(filename, "misses");
+
+  const value = load();
+  cache.entries.set(filename, { mtimeMs, value });
+  value.catch(() => {
+    if (cache.entries.get(filename)?.value === value) {
+      cache.entries.delete(filename);
+    }
+  });
+
+  return value;
+}
+
+/**
+ * Drops one cached file, or the whole cache when no filename is given
+ */
+export function invalidateContentCache(filename?: string) {
+  if (filename) {
+    cache.entries.delete(filename);
+  } else {
+    cache.entries.clear();
+  }
+}
+
+/**
+ * Snapshot of cache hit/miss counters for this process
+ */
+export function getContentCacheStats(): ContentCacheStats {
+  return structuredClone(cache.stats);
+}
+
+/**
+ * Formats cache stats as a short multi-line report
+ */
+export function formatContentCacheStats(stats: ContentCacheStats): string {
+  const total = stats.hits + stats.misses;
+  const hitRate = total > 0 ? ((stats.hits / total) * 100).toFixed(1) : "0.0";
+  const lines = [
+    `📦 Content cache: ${stats.hits} hits, ${stats.misses} misses, ${stats.invalidations} invalidations (${hitRate}% hit rate)`,
+    ...Object.entries(stats.files)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([file, counts]) =>
+          `   ${file}: ${counts.hits} hits, ${counts.misses} misses`
+      ),
+  ];
+  return lines.join("\n");
+}
+
+if (process.env.CONTENT_CACHE_STATS === "1" && !cache.reporting) {
+  cache.reporting = true;
+  process.once("exit", () => {
+    console.log(formatContentCacheStats(cache.stats));
+  });
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { cp, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+
+// Edits a copy of content/ with the production content cache, which is only
+// refreshed when the editor invalidates it
+const root = process.cwd();
+let workDir: string;
+let content: typeof import("./content");
+let editor: typeof import("./content-editor");
+
+before(async () => {
+  workDir = await mkdtemp(join(tmpdir(), "content-editor-"));
+  await cp(join(root, "content"), join(workDir, "content"), {
+    recursive: true,
+  });
+  process.chdir(workDir);
+  Object.assign(process.env, {
+    NODE_ENV: "production",
+    DATA_DIR: join(workDir, ".data"),
+  });
+
+  content = await import("./content");
+  editor = await import("./content-editor");
+});
+
+after(async () => {
+  process.chdir(root);
+  await rm(workDir, { recursive: true, force: true });
+});
+
+async function renamePresenter(name: string) {
+  const raw = await editor.loadRawContent("presenters");
+  const [presenter] = raw.data.presenters as { name: string }[];
+  const result = await editor.saveContentEdit(
+    {
+      key: "presenters",
+      entry: 0,
+      value: { ...presenter, name },
+      revision: editor.getContentRevision(raw),
+    },
+    "user-test"
+  );
+  assert.equal(result.ok, true, result.error);
+}
+
+async function loadPresenterName() {
+  const { presenters } = await content.loadRegisteredContent("presenters");
+  return presenters[0].name;
+}
+
+test("loads saved and restored content", async () => {
+  const { presenters } = await content.loadRegisteredContent("presenters");
+  const { id } = presenters[0];
+
+  await renamePresenter("First Name");
+  assert.equal(await loadPresenterName(), "First Name");
+  await renamePresenter("Second Name");
+  assert.equal(await loadPresenterName(), "Second Name");
+
+  const { versions, revision } = await editor.loadContentHistory(
+    "presenters",
+    id
+  );
+  const first = versions.at(-1)!;
+  const result = await editor.restoreContentVersion(
+    { key: "presenters", entityId: id, version: first.entry.id, revision },
+    "user-test"
+  );
+
+  assert.equal(result.ok, true, result.error);
+  assert.equal(await loadPresenterName(), "First Name");
+});
+
+test("rejects concurrent saves made at the same revision", async () => {
+  const raw = await editor.loadRawContent("presenters");
+  const [presenter] = raw.data.presenters as { name: string }[];
+  const save = (name: string) =>
+    editor.saveContentEdit(
+      {
+        key: "presenters",
+        entry: 0,
+        value: { ...presenter, name },
+        revision: editor.getContentRevision(raw),
+      },
+      "user-test"
+    );
+
+  const results = await Promise.all([save("One"), save("Two")]);
+
+  assert.deepEqual(
+    results.map(({ ok }) => ok),
+    [true, false]
+  );
+  assert.equal(await loadPresenterName(), "One");
+});
+
+test("rejects keys that aren't registered content", () => {
+  for (const key of ["constructor", "toString", "missing"]) {
+    assert.equal(
+      editor.ContentEditSchema.safeParse({ key, revision: "x" }).success,
+      false
+    );
+  }
+});
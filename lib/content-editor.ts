@@ -0,0 +1,736 @@
+/**
+ * Admin Content Editing
+ * Backs the /admin/content editor: describes registered content for the
+ * schema-driven forms, and previews and saves edits to content/ through
+ * lib/content-writer.ts. Every edit runs the full content validation and is
+ * rejected when it introduces an issue that wasn't already there. Saved
+ * edits are recorded in the audit log (lib/content-audit.ts), from which
+ * earlier versions can be restored.
+ */
+import { createHash } from "crypto";
+import { join } from "path";
+import { z } from "zod";
+
+import { invalidateContent } from "./content";
+import {
+  appendContentAudit,
+  type ContentAuditAction,
+  type ContentVersion,
+  getContentHistory,
+} from "./content-audit";
+import type { IntegrityIssue } from "./content-integrity";
+import {
+  CONTENT_REGISTRY,
+  type ContentEntry,
+  type ContentKey,
+} from "./content-registry";
+import { collectContentIssues, findNewIssues } from "./content-validation";
+import {
+  applyContentChanges,
+  type ContentFileChange,
+  formatWithPrettier,
+  planContentWrite,
+  type RawContent,
+  readRawContent,
+} from "./content-writer";
+import { createJsonPatch } from "./json-patch";
+import { type JsonSchema, toJsonSchema } from "./json-schema";
+import {
+  createEmptyValue,
+  getReferenceKey,
+  getSchemaReference,
+  type ReferenceOptions,
+} from "./schema-form";
+import type { ReferenceTarget } from "./schemas";
+import { createUnifiedDiff, type DiffLine } from "./text-diff";
+
+const CONTENT_DIR = join(process.cwd(), "content");
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * The part of a content file an edit replaces: one collection entry (by
+ * position), a new entry, the collection's other fields, or (when omitted)
+ * the whole file
+ */
+export const EntryRefSchema = z.union([
+  z.number().int().nonnegative(),
+  z.literal("new"),
+  z.literal("fields"),
+]);
+
+export type EntryRef = z.infer<typeof EntryRefSchema>;
+
+/**
+ * Body of POST /api/admin/content/preview and /api/admin/content/save
+ */
+export const ContentEditSchema = z.object({
+  key: z.string().refine(isContentKey, "Unknown content"),
+  entry: EntryRefSchema.optional(),
+  /** New value of the edited part; omit to delete an entry */
+  value: z.unknown().optional(),
+  /** Revision the editor was opened at, to catch concurrent changes */
+  revision: z.string(),
+});
+
+export type ContentEdit = z.infer<typeof ContentEditSchema>;
+
+/**
+ * Body of POST /api/admin/content/restore
+ */
+export const ContentRestoreSchema = z.object({
+  key: z.string().refine(isContentKey, "Unknown content"),
+  /** Entry ID or slug; omit for the file's top-level fields */
+  entityId: z.string().optional(),
+  /** Audit log entry whose resulting version to restore */
+  version: z.string(),
+  revision: z.string(),
+  /** Only validate and return the diff */
+  dryRun: z.boolean().optional(),
+});
+
+export type ContentRestore = z.infer<typeof ContentRestoreSchema>;
+
+export interface ContentFileDiff {
+  /** Path relative to content/ */
+  file: string;
+  status: "created" | "updated" | "deleted";
+  lines: DiffLine[];
+}
+
+export interface ContentEditResult {
+  ok: boolean;
+  /** Why the edit can't be applied at all (e.g. the file changed meanwhile) */
+  error?: string;
+  /** Validation issues the edit would introduce */
+  issues: IntegrityIssue[];
+  files: ContentFileDiff[];
+  /** Revision after saving */
+  revision?: string;
+  /** Position of the saved entry (useful after creating one) */
+  entry?: number;
+}
+
+export interface ContentSummary {
+  key: ContentKey;
+  filename: string;
+  description: string;
+  category: ContentEntry<unknown>["category"];
+  layout: RawContent["source"]["kind"];
+  /** Number of entries, for collections */
+  count?: number;
+}
+
+export interface EntrySummary {
+  index: number;
+  label: string;
+  /** ID or slug */
+  key?: string;
+  status?: string;
+}
+
+function getEntry(key: ContentKey): ContentEntry<unknown> {
+  return CONTENT_REGISTRY[key] as ContentEntry<unknown>;
+}
+
+function getItems(
+  entry: ContentEntry<unknown>,
+  data: JsonObject
+): JsonObject[] {
+  return (entry.entries ? (data[entry.entries] ?? []) : []) as JsonObject[];
+}
+
+function withoutSchemaPointer(value: unknown): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return value;
+  }
+  const copy = { ...(value as JsonObject) };
+  delete copy.$schema;
+  return copy;
+}
+
+/**
+ * ID (or slug) that identifies a collection entry in the audit log
+ */
+export function getEntityId(item: unknown): string | undefined {
+  if (!item || typeof item !== "object") return undefined;
+  const { id, slug } = item as JsonObject;
+  const entityId = id ?? slug;
+  return typeof entityId === "string" && entityId ? entityId : undefined;
+}
+
+export function isContentKey(key: string): key is ContentKey {
+  return Object.hasOwn(CONTENT_REGISTRY, key);
+}
+
+export async function loadRawContent(key: ContentKey): Promise<RawContent> {
+  return readRawContent(CONTENT_DIR, getEntry(key));
+}
+
+/**
+ * Fingerprint of a content file's current data
+ */
+export function getContentRevision(raw: RawContent): string {
+  return createHash("sha256")
+    .update(JSON.stringify(raw.data))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Every registered content file, in registry order
+ */
+export async function listEditableContent(): Promise<ContentSummary[]> {
+  return Promise.all(
+    (Object.keys(CONTENT_REGISTRY) as ContentKey[]).map(async (key) => {
+      const entry = getEntry(key);
+      const raw = await loadRawContent(key);
+      return {
+        key,
+        filename: entry.filename,
+        description: entry.description,
+        category: entry.category,
+        layout: raw.source.kind,
+        count: entry.entries ? getItems(entry, raw.data).length : undefined,
+      };
+    })
+  );
+}
+
+/**
+ * Display name of a collection entry: its title, name, question or ID
+ */
+export function getEntryLabel(item: unknown, fallback: string): string {
+  if (!item || typeof item !== "object") return fallback;
+  const { title, name, question, id } = item as JsonObject;
+  const label = title ?? name ?? question ?? id;
+  return typeof label === "string" && label ? label : fallback;
+}
+
+/**
+ * One line per entry of a collection, for the entry list
+ */
+export function getEntrySummaries(
+  key: ContentKey,
+  raw: RawContent
+): EntrySummary[] {
+  return getItems(getEntry(key), raw.data).map((item, index) => ({
+    index,
+    label: getEntryLabel(item, `Entry ${index + 1}`),
+    key: getEntityId(item),
+    status: typeof item.status === "string" ? item.status : undefined,
+  }));
+}
+
+/**
+ * Zod schema for the edited part of a content file
+ */
+function getEditSchema(
+  entry: ContentEntry<unknown>,
+  ref: EntryRef | undefined
+): z.ZodTypeAny {
+  if (ref === undefined || !entry.entries) {
+    return entry.schema;
+  }
+  const collection = entry.schema as z.AnyZodObject;
+  if (ref === "fields") {
+    return collection.omit({ [entry.entries]: true });
+  }
+  return (collection.shape[entry.entries] as z.ZodArray<z.ZodTypeAny>).element;
+}
+
+/**
+ * JSON Schema describing the form for the edited part of a content file
+ */
+export function getEditFormSchema(
+  key: ContentKey,
+  ref: EntryRef | undefined
+): JsonSchema {
+  return toJsonSchema(getEditSchema(getEntry(key), ref));
+}
+
+/**
+ * Current value of the edited part, without `$schema` pointers.
+ * Returns undefined for new entries and positions past the end.
+ */
+export function getEditValue(
+  key: ContentKey,
+  raw: RawContent,
+  ref: EntryRef | undefined
+): unknown {
+  const entry = getEntry(key);
+
+  if (ref === undefined || !entry.entries) {
+    return withoutSchemaPointer(raw.data);
+  }
+  if (ref === "fields") {
+    const fields = { ...raw.data };
+    delete fields[entry.entries];
+    return withoutSchemaPointer(fields);
+  }
+  if (ref === "new") {
+    return undefined;
+  }
+  return withoutSchemaPointer(getItems(entry, raw.data)[ref]);
+}
+
+function collectReferenceTargets(
+  schema: unknown,
+  targets: Map<string, ReferenceTarget>
+) {
+  if (Array.isArray(schema)) {
+    schema.forEach((item) => collectReferenceTargets(item, targets));
+    return;
+  }
+  if (!schema || typeof schema !== "object") return;
+
+  const target = getSchemaReference(schema as JsonSchema);
+  if (target) {
+    targets.set(getReferenceKey(target), target);
+  }
+  Object.values(schema).forEach((value) =>
+    collectReferenceTargets(value, targets)
+  );
+}
+
+/**
+ * Entries a reference into `file` can point at. FAQs are nested one level
+ * down, inside their categories.
+ */
+function getReferenceableItems(
+  entry: ContentEntry<unknown>,
+  data: JsonObject
+): JsonObject[] {
+  const items = getItems(entry, data);
+  return entry.filename === "faq.json"
+    ? items.flatMap((category) => (category.faqs ?? []) as JsonObject[])
+    : items;
+}
+
+/**
+ * Picker options for every reference field in a form schema
+ */
+export async function loadReferenceOptions(
+  schema: JsonSchema
+): Promise<ReferenceOptions> {
+  const targets = new Map<string, ReferenceTarget>();
+  collectReferenceTargets(schema, targets);
+
+  const options: ReferenceOptions = {};
+  for (const [referenceKey, target] of targets) {
+    const key = (Object.keys(CONTENT_REGISTRY) as ContentKey[]).find(
+      (key) => CONTENT_REGISTRY[key].filename === target.file
+    );
+    if (!key) continue;
+
+    const entry = getEntry(key);
+    const raw = await loadRawContent(key);
+    options[referenceKey] = getReferenceableItems(entry, raw.data).flatMap(
+      (item) => {
+        const value = item[target.field];
+        return typeof value === "string"
+          ? [{ value, label: `${getEntryLabel(item, value)} (${value})` }]
+          : [];
+      }
+    );
+  }
+  return options;
+}
+
+export interface EditorData {
+  schema: JsonSchema;
+  references: ReferenceOptions;
+  value: unknown;
+  revision: string;
+}
+
+/**
+ * Everything the editor page needs for one part of a content file.
+ * Returns undefined when the entry doesn't exist.
+ */
+export async function loadEditorData(
+  key: ContentKey,
+  ref: EntryRef | undefined
+): Promise<EditorData | undefined> {
+  const entry = getEntry(key);
+  const raw = await loadRawContent(key);
+  if (
+    ref !== undefined &&
+    (!entry.entries ||
+      (typeof ref === "number" && ref >= getItems(entry, raw.data).length))
+  ) {
+    return undefined;
+  }
+
+  const schema = getEditFormSchema(key, ref);
+  return {
+    schema,
+    references: await loadReferenceOptions(schema),
+    value:
+      ref === "new" ? createEmptyValue(schema) : getEditValue(key, raw, ref),
+    revision: getContentRevision(raw),
+  };
+}
+
+/**
+ * Raw data of the whole content file with the edit applied
+ */
+function applyEdit(
+  entry: ContentEntry<unknown>,
+  raw: RawContent,
+  edit: ContentEdit
+): { data: JsonObject; index?: number } {
+  const value = withoutSchemaPointer(edit.value);
+  const { $schema } = raw.data;
+  const pointer = $schema === undefined ? {} : { $schema };
+
+  if (edit.entry === undefined || !entry.entries) {
+    return { data: { ...pointer, ...(value as JsonObject) } };
+  }
+
+  const entriesKey = entry.entries;
+  const items = [...getItems(entry, raw.data)];
+
+  if (edit.entry === "fields") {
+    return {
+      data: {
+        ...pointer,
+        ...(value as JsonObject),
+        [entriesKey]: raw.data[entriesKey] ?? [],
+      },
+    };
+  }
+
+  if (edit.entry === "new") {
+    items.push(value as JsonObject);
+    return {
+      data: { ...raw.data, [entriesKey]: items },
+      index: items.length - 1,
+    };
+  }
+
+  if (value === undefined) {
+    items.splice(edit.entry, 1);
+    return { data: { ...raw.data, [entriesKey]: items } };
+  }
+
+  items[edit.entry] = value as JsonObject;
+  return { data: { ...raw.data, [entriesKey]: items }, index: edit.entry };
+}
+
+/** What an edit changes, for the audit log */
+interface AuditRecord {
+  entityId?: string;
+  previousEntityId?: string;
+  action: ContentAuditAction;
+  before: unknown;
+  after: unknown;
+}
+
+function getAuditRecord(
+  key: ContentKey,
+  raw: RawContent,
+  edit: ContentEdit
+): AuditRecord {
+  const after = withoutSchemaPointer(edit.value);
+
+  if (typeof edit.entry !== "number" && edit.entry !== "new") {
+    return {
+      action: "update",
+      before: getEditValue(key, raw, edit.entry),
+      after,
+    };
+  }
+
+  const before =
+    edit.entry === "new" ? undefined : getEditValue(key, raw, edit.entry);
+  const entityId = getEntityId(after ?? before);
+  const previousEntityId = getEntityId(before);
+
+  return {
+    entityId,
+    previousEntityId:
+      after !== undefined && previousEntityId !== entityId
+        ? previousEntityId
+        : undefined,
+    action:
+      before === undefined
+        ? "create"
+        : after === undefined
+          ? "delete"
+          : "update",
+    before,
+    after,
+  };
+}
+
+function toFileDiff(change: ContentFileChange): ContentFileDiff {
+  return {
+    file: change.path.slice(CONTENT_DIR.length + 1),
+    status:
+      change.after === undefined
+        ? "deleted"
+        : change.before === undefined
+          ? "created"
+          : "updated",
+    lines: createUnifiedDiff(change.before, change.after),
+  };
+}
+
+/**
+ * The whole content file with an edit applied, or why it can't be
+ */
+interface PreparedEdit {
+  edit: ContentEdit;
+  key: ContentKey;
+  entry: ContentEntry<unknown>;
+  raw: RawContent;
+  data: JsonObject;
+  index?: number;
+}
+
+async function prepareEdit(edit: ContentEdit): Promise<PreparedEdit | string> {
+  const key = edit.key as ContentKey;
+  const entry = getEntry(key);
+  const raw = await loadRawContent(key);
+
+  if (getContentRevision(raw) !== edit.revision) {
+    return `${entry.filename} changed since this editor was opened. Reload to get the latest version.`;
+  }
+  if (
+    typeof edit.entry === "number" &&
+    edit.entry >= getItems(entry, raw.data).length
+  ) {
+    return `${entry.filename} has no entry ${edit.entry + 1}`;
+  }
+  if (edit.value === undefined && typeof edit.entry !== "number") {
+    return "Only collection entries can be deleted";
+  }
+  if (edit.entry === undefined && entry.entries) {
+    return `${entry.filename} is edited one entry at a time`;
+  }
+
+  return { edit, key, entry, raw, ...applyEdit(entry, raw, edit) };
+}
+
+// Saves run one at a time per content file, so two saves can't both pass
+// the revision check and the later write silently replace the earlier one
+const saveQueues = new Map<string, Promise<unknown>>();
+
+function queueSave<T>(keys: string[], save: () => Promise<T>): Promise<T> {
+  const run = Promise.all(keys.map((key) => saveQueues.get(key))).then(save);
+  const done = run.catch(() => undefined);
+  keys.forEach((key) => saveQueues.set(key, done));
+  return run;
+}
+
+/**
+ * Validates edits to different content files together and works out the
+ * file changes they make
+ */
+async function planEdits(edits: ContentEdit[]): Promise<{
+  result: ContentEditResult;
+  changes: ContentFileChange[];
+  audits: { key: ContentKey; record: AuditRecord }[];
+}> {
+  const fail = (error: string) => ({
+    result: { ok: false, error, issues: [], files: [] },
+    changes: [],
+    audits: [],
+  });
+
+  if (new Set(edits.map((edit) => edit.key)).size !== edits.length) {
+    return fail("Each content file can only be edited once per save");
+  }
+
+  const prepared: PreparedEdit[] = [];
+  for (const edit of edits) {
+    const result = await prepareEdit(edit);
+    if (typeof result === "string") {
+      return fail(result);
+    }
+    prepared.push(result);
+  }
+
+  const [before, after] = await Promise.all([
+    collectContentIssues(CONTENT_DIR),
+    collectContentIssues(
+      CONTENT_DIR,
+      Object.fromEntries(prepared.map(({ key, data }) => [key, data]))
+    ),
+  ]);
+  const issues = findNewIssues(before, after);
+
+  const changes: ContentFileChange[] = [];
+  for (const { entry, raw, data } of prepared) {
+    changes.push(
+      ...(await planContentWrite(entry, raw, data, {
+        format: formatWithPrettier,
+      }))
+    );
+  }
+
+  return {
+    result: {
+      ok: issues.length === 0,
+      issues,
+      files: changes.map(toFileDiff),
+      entry: prepared[0]?.index,
+    },
+    changes,
+    audits: prepared.map(({ key, raw, edit }) => ({
+      key,
+      record: getAuditRecord(key, raw, edit),
+    })),
+  };
+}
+
+/**
+ * Validates an edit and returns the diff it would write
+ */
+export async function previewContentEdit(
+  edit: ContentEdit
+): Promise<ContentEditResult> {
+  return (await planEdits([edit])).result;
+}
+
+/**
+ * Validates an edit and writes it to content/ when it introduces no issues,
+ * recording the change in the audit log under the admin's Clerk user ID
+ */
+export async function saveContentEdit(
+  edit: ContentEdit,
+  userId: string,
+  action?: ContentAuditAction
+): Promise<ContentEditResult> {
+  return saveContentEdits([edit], userId, action);
+}
+
+/**
+ * Saves edits to several content files at once, e.g. a new presentation
+ * and the event that lists it: all of them are written, or none when
+ * together they introduce an issue. `revision` and `entry` in the result are
+ * those of the first edit.
+ */
+export async function saveContentEdits(
+  edits: ContentEdit[],
+  userId: string,
+  action?: ContentAuditAction
+): Promise<ContentEditResult> {
+  return queueSave(
+    edits.map((edit) => edit.key),
+    async () => {
+      const { result, changes, audits } = await planEdits(edits);
+      if (!result.ok || changes.length === 0) {
+        return result;
+      }
+
+      try {
+        await applyContentChanges(changes);
+      } finally {
+        // The content cache isn't revalidated in production
+        audits.forEach(({ key }) => invalidateContent(getEntry(key).filename));
+      }
+      for (const { key, record } of audits) {
+        await appendContentAudit({
+          userId,
+          collection: key,
+          entityId: record.entityId,
+          previousEntityId: record.previousEntityId,
+          action: action ?? record.action,
+          patch: createJsonPatch(record.before, record.after),
+        });
+      }
+
+      const raw = await loadRawContent(edits[0].key as ContentKey);
+      return { ...result, revision: getContentRevision(raw) };
+    }
+  );
+}
+
+/**
+ * Where an entry currently is and its value (without `$schema`). Without an
+ * entity ID this is the file's top-level fields.
+ */
+export function findEntity(
+  key: ContentKey,
+  raw: RawContent,
+  entityId: string | undefined
+): { ref: EntryRef | undefined; value: unknown } {
+  const entry = getEntry(key);
+  if (entityId === undefined) {
+    const ref = entry.entries ? "fields" : undefined;
+    return { ref, value: getEditValue(key, raw, ref) };
+  }
+
+  const index = getItems(entry, raw.data).findIndex(
+    (item) => getEntityId(item) === entityId
+  );
+  return index === -1
+    ? { ref: "new", value: undefined }
+    : { ref: index, value: getEditValue(key, raw, index) };
+}
+
+/**
+ * Audit history of an entry, newest first
+ */
+export async function loadContentHistory(
+  key: ContentKey,
+  entityId?: string
+): Promise<{ versions: ContentVersion[]; revision: string }> {
+  const raw = await loadRawContent(key);
+  const { value } = findEntity(key, raw, entityId);
+  return {
+    versions: await getContentHistory(key, entityId, value),
+    revision: getContentRevision(raw),
+  };
+}
+
+/**
+ * Turns a restore request into the edit that puts the old version back,
+ * or the reason it can't be restored
+ */
+async function getRestoreEdit(
+  restore: ContentRestore
+): Promise<ContentEdit | string> {
+  const key = restore.key as ContentKey;
+  const raw = await loadRawContent(key);
+  const { ref, value } = findEntity(key, raw, restore.entityId);
+  const versions = await getContentHistory(key, restore.entityId, value);
+  const version = versions.find(({ entry }) => entry.id === restore.version);
+
+  if (!version) {
+    return "That version isn't in this entry's history";
+  }
+  if (!version.available) {
+    return "That version can't be rebuilt because the entry was changed outside the admin editor since";
+  }
+  if (version.value === undefined) {
+    return "That version is a deletion; delete the entry from the editor instead";
+  }
+
+  return {
+    key: restore.key,
+    entry: ref,
+    value: version.value,
+    revision: restore.revision,
+  };
+}
+
+/**
+ * Validates restoring an earlier version against the current schemas and
+ * content, and writes it (logged as a restore) unless `dryRun` is set
+ */
+export async function restoreContentVersion(
+  restore: ContentRestore,
+  userId: string
+): Promise<ContentEditResult> {
+  const edit = await getRestoreEdit(restore);
+  if (typeof edit === "string") {
+    return { ok: false, error: edit, issues: [], files: [] };
+  }
+
+  return restore.dryRun
+    ? previewContentEdit(edit)
+    : saveContentEdit(edit, userId, "restore");
+}
@@ -0,0 +1,313 @@
+/**
+ * Resolved Content Graph
+ * Loads the related collections once and exposes typed relationship lookups,
+ * so route pages don't hand-roll joins between events, event series,
+ * presentations, presenters, sponsors, cities, news topics, slide decks and
+ * recaps
+ */
+import {
+  type ContentOptions,
+  loadCities,
+  loadEvents,
+  loadEventSeries,
+  loadNewsTopics,
+  loadPresentations,
+  loadPresenters,
+  loadRecaps,
+  loadSlides,
+  loadSponsors,
+} from "./content";
+import { DEFAULT_LOCALE } from "./i18n";
+import type {
+  CitiesCollection,
+  City,
+  Event,
+  EventsCollection,
+  EventSeries,
+  EventSeriesCollection,
+  NewsTopic,
+  NewsTopicsCollection,
+  Presentation,
+  PresentationsCollection,
+  Presenter,
+  PresentersCollection,
+  Recap,
+  RecapsCollection,
+  SlideDeck,
+  SlidesCollection,
+  Sponsor,
+  SponsorsCollection,
+} from "./types";
+
+export interface ContentGraphSources {
+  events: EventsCollection;
+  eventSeries: EventSeriesCollection;
+  presentations: PresentationsCollection;
+  presenters: PresentersCollection;
+  cities: CitiesCollection;
+  sponsors: SponsorsCollection;
+  newsTopics: NewsTopicsCollection;
+  slides: SlidesCollection;
+  recaps: RecapsCollection;
+}
+
+export interface ContentGraph {
+  events: Event[];
+  eventSeries: EventSeries[];
+  presentations: Presentation[];
+  presenters: Presenter[];
+  cities: City[];
+  sponsors: Sponsor[];
+  newsTopics: NewsTopic[];
+  slideDecks: SlideDeck[];
+  recaps: Recap[];
+
+  // Lookups
+  getEvent(slug: string): Event | undefined;
+  getSeries(id: string): EventSeries | undefined;
+  getPresentation(id: string): Presentation | undefined;
+  getPresenter(id: string): Presenter | undefined;
+  getCity(id: string): City | undefined;
+  getSponsor(id: string): Sponsor | undefined;
+  getNewsTopic(id: string): NewsTopic | undefined;
+  getSlideDeck(slug: string): SlideDeck | undefined;
+  getRecap(slug: string): Recap | undefined;
+
+  // Event → related content
+  getEventCity(event: Event): City | undefined;
+  getEventSeries(event: Event): EventSeries | undefined;
+  getEventSponsors(event: Event): Sponsor[];
+  /** The sponsor hosting the event (`venueSponsorId`), whose address is the venue's */
+  getEventVenue(event: Event): Sponsor | undefined;
+  /** Presentations listed on the event plus any referenced by its schedule */
+  getEventPresentations(event: Event): Presentation[];
+  /** Presenters of the event's presentations and schedule items */
+  getEventPresenters(event: Event): Presenter[];
+  getEventNewsTopics(event: Event): NewsTopic[];
+  getEventRecap(event: Event): Recap | undefined;
+
+  // Presentation → related content
+  getPresentationPresenter(presentation: Presentation): Presenter | undefined;
+  getPresentationEvent(presentation: Presentation): Event | undefined;
+  getPresentationSlideDeck(presentation: Presentation): SlideDeck | undefined;
+
+  // Recap → related content
+  getRecapEvent(recap: Recap): Event | undefined;
+
+  // Reverse lookups
+  /** Listed and generated events of a series */
+  getSeriesEvents(seriesId: string): Event[];
+  getPresenterPresentations(presenterId: string): Presentation[];
+  getPresenterEvents(presenterId: string): Event[];
+  getSponsorEvents(sponsorId: string): Event[];
+  getCityEvents(cityId: string): Event[];
+  getNewsTopicEvents(newsTopicId: string): Event[];
+  getSlideDeckPresentations(deckSlug: string): Presentation[];
+}
+
+function indexBy<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  return new Map(items.map((item) => [key(item), item]));
+}
+
+function groupBy<T>(
+  items: T[],
+  keys: (item: T) => Iterable<string>
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    for (const key of new Set(keys(item))) {
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+  }
+  return groups;
+}
+
+function resolveAll<T>(ids: Iterable<string>, index: Map<string, T>): T[] {
+  return [...new Set(ids)]
+    .map((id) => index.get(id))
+    .filter((item): item is T => item !== undefined);
+}
+
+/**
+ * Builds the graph from already-loaded collections
+ */
+export function buildContentGraph(sources: ContentGraphSources): ContentGraph {
+  const { events } = sources.events;
+  const { series } = sources.eventSeries;
+  const { presentations } = sources.presentations;
+  const { presenters } = sources.presenters;
+  const { cities } = sources.cities;
+  const { sponsors } = sources.sponsors;
+  const { newsTopics } = sources.newsTopics;
+  const { slideDecks } = sources.slides;
+  const { recaps } = sources.recaps;
+
+  const eventsBySlug = indexBy(events, (e) => e.slug);
+  const seriesById = indexBy(series, (s) => s.id);
+  const presentationsById = indexBy(presentations, (p) => p.id);
+  const presentersById = indexBy(presenters, (p) => p.id);
+  const citiesById = indexBy(cities, (c) => c.id);
+  const sponsorsById = indexBy(sponsors, (s) => s.id);
+  const newsTopicsById = indexBy(newsTopics, (t) => t.id);
+  const slideDecksBySlug = indexBy(slideDecks, (d) => d.slug);
+  const recapsBySlug = indexBy(recaps, (r) => r.slug);
+
+  const eventPresentationIds = (event: Event): string[] => [
+    ...(event.presentationIds ?? []),
+    ...(event.schedule ?? []).flatMap((item) =>
+      item.presentationId ? [item.presentationId] : []
+    ),
+  ];
+
+  const eventPresenterIds = (event: Event): string[] => [
+    ...resolveAll(eventPresentationIds(event), presentationsById).map(
+      (p) => p.presenterId
+    ),
+    ...(event.schedule ?? []).flatMap((item) =>
+      item.presenterId ? [item.presenterId] : []
+    ),
+  ];
+
+  // Reverse indexes
+  const eventsBySeries = groupBy(events, (e) =>
+    e.seriesId ? [e.seriesId] : []
+  );
+  const eventsByPresenter = groupBy(events, eventPresenterIds);
+  const eventsBySponsor = groupBy(events, (e) => e.sponsorIds ?? []);
+  const eventsByCity = groupBy(events, (e) => (e.cityId ? [e.cityId] : []));
+  const eventsByNewsTopic = groupBy(events, (e) => e.newsTopicIds ?? []);
+  const presentationsByPresenter = groupBy(presentations, (p) => [
+    p.presenterId,
+  ]);
+  // Recap.eventId holds the event slug
+  const recapsByEvent = indexBy(recaps, (r) => r.eventId);
+  const presentationsByDeck = groupBy(presentations, (p) =>
+    p.slideDeckSlug ? [p.slideDeckSlug] : []
+  );
+
+  return {
+    events,
+    eventSeries: series,
+    presentations,
+    presenters,
+    cities,
+    sponsors,
+    newsTopics,
+    slideDecks,
+    recaps,
+
+    getEvent: (slug) => eventsBySlug.get(slug),
+    getSeries: (id) => seriesById.get(id),
+    getPresentation: (id) => presentationsById.get(id),
+    getPresenter: (id) => presentersById.get(id),
+    getCity: (id) => citiesById.get(id),
+    getSponsor: (id) => sponsorsById.get(id),
+    getNewsTopic: (id) => newsTopicsById.get(id),
+    getSlideDeck: (slug) => slideDecksBySlug.get(slug),
+    getRecap: (slug) => recapsBySlug.get(slug),
+
+    getEventCity: (event) =>
+      event.cityId ? citiesById.get(event.cityId) : undefined,
+    getEventSeries: (event) =>
+      event.seriesId ? seriesById.get(event.seriesId) : undefined,
+    getEventSponsors: (event) =>
+      resolveAll(event.sponsorIds ?? [], sponsorsById),
+    getEventVenue: (event) =>
+      event.venueSponsorId ? sponsorsById.get(event.venueSponsorId) : undefined,
+    getEventPresentations: (event) =>
+      resolveAll(eventPresentationIds(event), presentationsById),
+    getEventPresenters: (event) =>
+      resolveAll(eventPresenterIds(event), presentersById),
+    getEventNewsTopics: (event) =>
+      resolveAll(event.newsTopicIds ?? [], newsTopicsById),
+    getEventRecap: (event) => recapsByEvent.get(event.slug),
+
+    getPresentationPresenter: (presentation) =>
+      presentersById.get(presentation.presenterId),
+    // Presentation.eventId holds the event slug
+    getPresentationEvent: (presentation) =>
+      presentation.eventId ? eventsBySlug.get(presentation.eventId) : undefined,
+    getPresentationSlideDeck: (presentation) =>
+      presentation.slideDeckSlug
+        ? slideDecksBySlug.get(presentation.slideDeckSlug)
+        : undefined,
+
+    getRecapEvent: (recap) => eventsBySlug.get(recap.eventId),
+
+    getPresenterPresentations: (presenterId) =>
+      presentationsByPresenter.get(presenterId) ?? [],
+    getSeriesEvents: (seriesId) => eventsBySeries.get(seriesId) ?? [],
+    getPresenterEvents: (presenterId) =>
+      eventsByPresenter.get(presenterId) ?? [],
+    getSponsorEvents: (sponsorId) => eventsBySponsor.get(sponsorId) ?? [],
+    getCityEvents: (cityId) => eventsByCity.get(cityId) ?? [],
+    getNewsTopicEvents: (newsTopicId) =>
+      eventsByNewsTopic.get(newsTopicId) ?? [],
+    getSlideDeckPresentations: (deckSlug) =>
+      presentationsByDeck.get(deckSlug) ?? [],
+  };
+}
+
+// Last built graph per locale and visibility mode, reused while the
+// underlying cached collections are unchanged
+const memos = new Map<
+  string,
+  { sources: ContentGraphSources; graph: ContentGraph }
+>();
+
+/**
+ * Loads every related collection and returns the resolved graph.
+ * Unpublished entries are left out unless `includeDrafts` is set.
+ */
+export async function loadContentGraph(
+  options: ContentOptions = {}
+): Promise<ContentGraph> {
+  const [
+    events,
+    eventSeries,
+    presentations,
+    presenters,
+    cities,
+    sponsors,
+    newsTopics,
+    slides,
+    recaps,
+  ] = await Promise.all([
+    loadEvents(options),
+    loadEventSeries(options),
+    loadPresentations(options),
+    loadPresenters(options),
+    loadCities(options),
+    loadSponsors(options),
+    loadNewsTopics(options),
+    loadSlides(options),
+    loadRecaps(options),
+  ]);
+  const sources: ContentGraphSources = {
+    events,
+    eventSeries,
+    presentations,
+    presenters,
+    cities,
+    sponsors,
+    newsTopics,
+    slides,
+    recaps,
+  };
+
+  const mode = `${options.locale ?? DEFAULT_LOCALE}:${options.includeDrafts ?? false}`;
+  const memo = memos.get(mode);
+  const unchanged =
+    memo !== undefined &&
+    (Object.keys(sources) as (keyof ContentGraphSources)[]).every(
+      (key) => memo.sources[key] === sources[key]
+    );
+
+  if (unchanged) {
+    return memo.graph;
+  }
+
+  const graph = buildContentGraph(sources);
+  memos.set(mode, { sources, graph });
+  return graph;
+}
@@ -0,0 +1,777 @@
+/**
+ * Cross-Collection Integrity Checks
+ * Verifies that ID/slug references between content files resolve, that
+ * event times agree with their city's timezone, that event schedules fit
+ * together, that events in a series stand for one of its occurrences and
+ * that online events have a stream.
+ * Also finds content worth a warning, like past events without a recap or
+ * gaps in a schedule.
+ */
+import { analyzeSchedule, type ScheduleIssue } from "./event-schedule";
+import {
+  createSeriesEvent,
+  expandEventSeries,
+  getOccurrenceDate,
+  getSeriesEventSlug,
+  getSeriesOccurrences,
+  MAX_OCCURRENCES,
+} from "./event-series";
+import { getEventTimezone, getUtcOffset, isUpcomingEvent } from "./event-time";
+import type {
+  CitiesCollection,
+  Event,
+  EventsCollection,
+  EventSeriesCollection,
+  FAQsCollection,
+  MembersCollection,
+  NewsTopicsCollection,
+  PresentationsCollection,
+  PresentersCollection,
+  RecapsCollection,
+  SlidesCollection,
+  Sponsor,
+  SponsorsCollection,
+  WalletsCollection,
+} from "./types";
+import { isPublished } from "./visibility";
+
+/**
+ * A single integrity problem, located by file and JSON path
+ */
+export interface IntegrityIssue {
+  file: string;
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Parsed collections required by the integrity pass
+ */
+export interface IntegrityInput {
+  events: EventsCollection;
+  eventSeries: EventSeriesCollection;
+  presentations: PresentationsCollection;
+  presenters: PresentersCollection;
+  cities: CitiesCollection;
+  sponsors: SponsorsCollection;
+  newsTopics: NewsTopicsCollection;
+  slides: SlidesCollection;
+  recaps: RecapsCollection;
+  members: MembersCollection;
+  wallets: WalletsCollection;
+  faqs: FAQsCollection;
+}
+
+/**
+ * Formats an issue path the same way Zod errors are reported
+ */
+export function formatIssuePath(path: IntegrityIssue["path"]): string {
+  return path.length > 0 ? path.join(" → ") : "root";
+}
+
+/**
+ * Reports every value of `field` that appears more than once in `items`
+ */
+function findDuplicates<T>(
+  file: string,
+  basePath: (string | number)[],
+  items: T[],
+  field: keyof T & string
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const firstSeen = new Map<unknown, number>();
+
+  items.forEach((item, index) => {
+    const value = item[field];
+    if (value === undefined) return;
+
+    const first = firstSeen.get(value);
+    if (first === undefined) {
+      firstSeen.set(value, index);
+      return;
+    }
+
+    issues.push({
+      file,
+      path: [...basePath, index, field],
+      message: `Duplicate ${field} "${String(value)}" (first used at ${formatIssuePath([...basePath, first])})`,
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Returns an issue when `value` is not a key of `index`
+ */
+function checkReference(
+  file: string,
+  path: (string | number)[],
+  value: string | undefined,
+  index: Set<string>,
+  target: string
+): IntegrityIssue[] {
+  if (value === undefined || index.has(value)) {
+    return [];
+  }
+
+  return [
+    {
+      file,
+      path,
+      message: `Unknown ${target} "${value}"`,
+    },
+  ];
+}
+
+/**
+ * Checks that an event ends after it starts and that its UTC offsets are
+ * the ones its timezone uses on that date
+ */
+function checkEventTimes(
+  path: (string | number)[],
+  event: { startDate: string; endDate: string },
+  timeZone: string
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const start = new Date(event.startDate);
+  const end = new Date(event.endDate);
+
+  if (end <= start) {
+    issues.push({
+      file: "events.json",
+      path: [...path, "endDate"],
+      message: `endDate ${event.endDate} is not after startDate ${event.startDate}`,
+    });
+  }
+  for (const [field, value, instant] of [
+    ["startDate", event.startDate, start],
+    ["endDate", event.endDate, end],
+  ] as const) {
+    const offset = getUtcOffset(instant, timeZone);
+    const actual = value.endsWith("Z") ? "+00:00" : value.slice(-6);
+    if (actual !== offset) {
+      issues.push({
+        file: "events.json",
+        path: [...path, field],
+        message: `${value} should use the ${timeZone} offset ${offset}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Online and mixed events need a stream to attend through
+ */
+function checkStream(
+  file: string,
+  path: (string | number)[],
+  { attendanceMode, streamUrl }: Pick<Event, "attendanceMode" | "streamUrl">
+): IntegrityIssue[] {
+  if (!attendanceMode || attendanceMode === "offline" || streamUrl) {
+    return [];
+  }
+  return [
+    {
+      file,
+      path: [...path, "attendanceMode"],
+      message: `${attendanceMode === "online" ? "Online" : "Mixed"} events need a streamUrl`,
+    },
+  ];
+}
+
+/**
+ * The venue sponsor has to exist and have the address its events are at
+ */
+function checkVenue(
+  file: string,
+  path: (string | number)[],
+  venueSponsorId: string | undefined,
+  sponsorsById: Map<string, Sponsor>
+): IntegrityIssue[] {
+  if (venueSponsorId === undefined) {
+    return [];
+  }
+  const sponsor = sponsorsById.get(venueSponsorId);
+  const message = !sponsor
+    ? `Unknown sponsor "${venueSponsorId}"`
+    : !sponsor.address
+      ? `Sponsor "${venueSponsorId}" has no address to hold events at`
+      : undefined;
+  return message ? [{ file, path: [...path, "venueSponsorId"], message }] : [];
+}
+
+function toScheduleIssues(
+  path: (string | number)[],
+  issues: ScheduleIssue[],
+  file = "events.json"
+): IntegrityIssue[] {
+  return issues.map(({ index, field, message }) => ({
+    file,
+    path: [...path, "schedule", index, field],
+    message,
+  }));
+}
+
+/**
+ * Finds cycles in the FAQ relatedFaqs graph.
+ * Each cycle is reported once, at the FAQ where it was first detected.
+ */
+function findFaqCycles(
+  faqs: FAQsCollection,
+  pathsById: Map<string, (string | number)[]>
+): IntegrityIssue[] {
+  const edges = new Map<string, string[]>();
+  for (const category of faqs.categories) {
+    for (const faq of category.faqs) {
+      if (!edges.has(faq.id)) edges.set(faq.id, faq.relatedFaqs ?? []);
+    }
+  }
+
+  const issues: IntegrityIssue[] = [];
+  const done = new Set<string>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (id: string) => {
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of edges.get(id) ?? []) {
+      if (!edges.has(next) || done.has(next)) continue;
+
+      if (onStack.has(next)) {
+        const cycle = [...stack.slice(stack.indexOf(next)), next];
+        issues.push({
+          file: "faq.json",
+          path: [...(pathsById.get(id) ?? []), "relatedFaqs"],
+          message: `relatedFaqs cycle: ${cycle.join(" → ")}`,
+        });
+        continue;
+      }
+
+      visit(next);
+    }
+
+    stack.pop();
+    onStack.delete(id);
+    done.add(id);
+  };
+
+  for (const id of edges.keys()) {
+    if (!done.has(id)) visit(id);
+  }
+
+  return issues;
+}
+
+/**
+ * Runs all cross-collection checks and returns every issue found
+ */
+export function checkContentIntegrity(input: IntegrityInput): IntegrityIssue[] {
+  const { events } = input.events;
+  const { presentations } = input.presentations;
+  const { presenters } = input.presenters;
+  const { slideDecks } = input.slides;
+
+  const issues: IntegrityIssue[] = [
+    ...findDuplicates("events.json", ["events"], events, "slug"),
+    ...findDuplicates(
+      "event-series.json",
+      ["series"],
+      input.eventSeries.series,
+      "id"
+    ),
+    ...findDuplicates(
+      "event-series.json",
+      ["series"],
+      input.eventSeries.series,
+      "slug"
+    ),
+    ...findDuplicates(
+      "presentations.json",
+      ["presentations"],
+      presentations,
+      "id"
+    ),
+    ...findDuplicates(
+      "presentations.json",
+      ["presentations"],
+      presentations,
+      "slug"
+    ),
+    ...findDuplicates("presenters.json", ["presenters"], presenters, "id"),
+    ...findDuplicates("presenters.json", ["presenters"], presenters, "slug"),
+    ...findDuplicates("cities.json", ["cities"], input.cities.cities, "id"),
+    ...findDuplicates("cities.json", ["cities"], input.cities.cities, "slug"),
+    ...findDuplicates(
+      "sponsors.json",
+      ["sponsors"],
+      input.sponsors.sponsors,
+      "id"
+    ),
+    ...findDuplicates(
+      "news-topics.json",
+      ["newsTopics"],
+      input.newsTopics.newsTopics,
+      "id"
+    ),
+    ...findDuplicates(
+      "news-topics.json",
+      ["newsTopics"],
+      input.newsTopics.newsTopics,
+      "slug"
+    ),
+    ...findDuplicates("slides.json", ["slideDecks"], slideDecks, "id"),
+    ...findDuplicates("slides.json", ["slideDecks"], slideDecks, "slug"),
+    ...findDuplicates("recaps.json", ["recaps"], input.recaps.recaps, "slug"),
+    // One recap per event
+    ...findDuplicates(
+      "recaps.json",
+      ["recaps"],
+      input.recaps.recaps,
+      "eventId"
+    ),
+    ...findDuplicates("members.json", ["members"], input.members.members, "id"),
+    ...findDuplicates(
+      "members.json",
+      ["members"],
+      input.members.members,
+      "slug"
+    ),
+    ...findDuplicates("wallets.json", ["wallets"], input.wallets.wallets, "id"),
+    ...findDuplicates(
+      "wallets.json",
+      ["wallets"],
+      input.wallets.wallets,
+      "slug"
+    ),
+    ...findDuplicates("faq.json", ["categories"], input.faqs.categories, "id"),
+  ];
+
+  slideDecks.forEach((deck, deckIndex) => {
+    issues.push(
+      ...findDuplicates(
+        "slides.json",
+        ["slideDecks", deckIndex, "slides"],
+        deck.slides,
+        "id"
+      )
+    );
+  });
+
+  // Indexes; references to events may point at generated series events
+  const eventSlugs = new Set(
+    expandEventSeries(
+      events,
+      input.eventSeries.series,
+      input.cities.cities
+    ).map((e) => e.slug)
+  );
+  const presentationsById = new Map(presentations.map((p) => [p.id, p]));
+  const presentationIds = new Set(presentationsById.keys());
+  const presenterIds = new Set(presenters.map((p) => p.id));
+  const citiesById = new Map(input.cities.cities.map((c) => [c.id, c]));
+  const cityIds = new Set(citiesById.keys());
+  const sponsorsById = new Map(input.sponsors.sponsors.map((s) => [s.id, s]));
+  const sponsorIds = new Set(sponsorsById.keys());
+  const newsTopicIds = new Set(input.newsTopics.newsTopics.map((t) => t.id));
+  const slideDeckSlugs = new Set(slideDecks.map((d) => d.slug));
+
+  // Events
+  events.forEach((event, i) => {
+    const base = ["events", i];
+    const timeZone = getEventTimezone(
+      event.cityId ? citiesById.get(event.cityId) : undefined
+    );
+    issues.push(
+      ...checkReference(
+        "events.json",
+        [...base, "cityId"],
+        event.cityId,
+        cityIds,
+        "city"
+      ),
+      ...checkEventTimes(base, event, timeZone),
+      ...toScheduleIssues(
+        base,
+        analyzeSchedule(event, timeZone, presentationsById).issues
+      )
+    );
+    if (event.ticketPriceSats && !event.rsvpOpen) {
+      issues.push({
+        file: "events.json",
+        path: [...base, "ticketPriceSats"],
+        message: "Paid events need rsvpOpen to sell tickets",
+      });
+    }
+    const series = event.seriesId
+      ? input.eventSeries.series.find((s) => s.id === event.seriesId)
+      : undefined;
+    issues.push(
+      ...checkStream("events.json", base, {
+        attendanceMode: event.attendanceMode ?? series?.attendanceMode,
+        streamUrl: event.streamUrl ?? series?.streamUrl,
+      })
+    );
+    event.sponsorIds?.forEach((id, j) => {
+      issues.push(
+        ...checkReference(
+          "events.json",
+          [...base, "sponsorIds", j],
+          id,
+          sponsorIds,
+          "sponsor"
+        )
+      );
+    });
+    issues.push(
+      ...checkVenue("events.json", base, event.venueSponsorId, sponsorsById)
+    );
+    event.presentationIds?.forEach((id, j) => {
+      issues.push(
+        ...checkReference(
+          "events.json",
+          [...base, "presentationIds", j],
+          id,
+          presentationIds,
+          "presentation"
+        )
+      );
+    });
+    event.newsTopicIds?.forEach((id, j) => {
+      issues.push(
+        ...checkReference(
+          "events.json",
+          [...base, "newsTopicIds", j],
+          id,
+          newsTopicIds,
+          "news topic"
+        )
+      );
+    });
+    event.schedule?.forEach((item, j) => {
+      issues.push(
+        ...checkReference(
+          "events.json",
+          [...base, "schedule", j, "presenterId"],
+          item.presenterId,
+          presenterIds,
+          "presenter"
+        ),
+        ...checkReference(
+          "events.json",
+          [...base, "schedule", j, "presentationId"],
+          item.presentationId,
+          presentationIds,
+          "presentation"
+        )
+      );
+    });
+  });
+
+  // Event series
+  const seriesById = new Map(input.eventSeries.series.map((s) => [s.id, s]));
+  const occurrencesBySeries = new Map<string, Set<string>>();
+  const listedSlugs = new Set(events.map((e) => e.slug));
+  input.eventSeries.series.forEach((series, i) => {
+    const base = ["series", i];
+    const timeZone = getEventTimezone(
+      series.cityId ? citiesById.get(series.cityId) : undefined
+    );
+    const occurrences = getSeriesOccurrences(series.recurrence);
+    occurrencesBySeries.set(series.id, new Set(occurrences));
+
+    if (occurrences.length === 0) {
+      issues.push({
+        file: "event-series.json",
+        path: [...base, "recurrence"],
+        message: "The recurrence rule has no occurrences",
+      });
+    } else {
+      // The schedule template is checked against the first occurrence
+      const first = createSeriesEvent(series, occurrences[0], timeZone);
+      issues.push(
+        ...toScheduleIssues(
+          base,
+          analyzeSchedule(
+            {
+              ...first,
+              presentationIds: (series.schedule ?? []).flatMap((item) =>
+                item.presentationId ? [item.presentationId] : []
+              ),
+            },
+            timeZone,
+            presentationsById
+          ).issues,
+          "event-series.json"
+        )
+      );
+    }
+    for (const date of occurrences) {
+      const slug = getSeriesEventSlug(series, date);
+      if (listedSlugs.has(slug)) {
+        issues.push({
+          file: "event-series.json",
+          path: [...base, "slug"],
+          message: `Generated event "${slug}" has the slug of an event in events.json`,
+        });
+      }
+    }
+    if (series.ticketPriceSats && !series.rsvpOpen) {
+      issues.push({
+        file: "event-series.json",
+        path: [...base, "ticketPriceSats"],
+        message: "Paid events need rsvpOpen to sell tickets",
+      });
+    }
+    issues.push(...checkStream("event-series.json", base, series));
+    issues.push(
+      ...checkReference(
+        "event-series.json",
+        [...base, "cityId"],
+        series.cityId,
+        cityIds,
+        "city"
+      )
+    );
+    series.sponsorIds?.forEach((id, j) => {
+      issues.push(
+        ...checkReference(
+          "event-series.json",
+          [...base, "sponsorIds", j],
+          id,
+          sponsorIds,
+          "sponsor"
+        )
+      );
+    });
+    issues.push(
+      ...checkVenue(
+        "event-series.json",
+        base,
+        series.venueSponsorId,
+        sponsorsById
+      )
+    );
+    series.schedule?.forEach((item, j) => {
+      issues.push(
+        ...checkReference(
+          "event-series.json",
+          [...base, "schedule", j, "presenterId"],
+          item.presenterId,
+          presenterIds,
+          "presenter"
+        ),
+        ...checkReference(
+          "event-series.json",
+          [...base, "schedule", j, "presentationId"],
+          item.presentationId,
+          presentationIds,
+          "presentation"
+        )
+      );
+    });
+  });
+
+  // Events standing for a series occurrence, one per occurrence
+  const occurrenceEvents = new Map<string, (string | number)[]>();
+  events.forEach((event, i) => {
+    if (!event.seriesId) return;
+    const base = ["events", i];
+    const series = seriesById.get(event.seriesId);
+    if (!series) {
+      issues.push(
+        ...checkReference(
+          "events.json",
+          [...base, "seriesId"],
+          event.seriesId,
+          new Set(seriesById.keys()),
+          "event series"
+        )
+      );
+      return;
+    }
+
+    const cityId = event.cityId ?? series.cityId;
+    const date = getOccurrenceDate(
+      event,
+      getEventTimezone(cityId ? citiesById.get(cityId) : undefined)
+    );
+    const field = event.seriesOccurrence ? "seriesOccurrence" : "startDate";
+    const first = occurrenceEvents.get(`${series.id}:${date}`);
+    if (!occurrencesBySeries.get(series.id)?.has(date)) {
+      issues.push({
+        file: "events.json",
+        path: [...base, field],
+        message: `${date} isn't an occurrence of series "${series.id}"; set seriesOccurrence when rescheduling`,
+      });
+    } else if (first) {
+      issues.push({
+        file: "events.json",
+        path: [...base, field],
+        message: `The ${date} occurrence of series "${series.id}" is already replaced at ${formatIssuePath(first)}`,
+      });
+    } else {
+      occurrenceEvents.set(`${series.id}:${date}`, base);
+    }
+  });
+
+  // Presentations
+  presentations.forEach((presentation, i) => {
+    const base = ["presentations", i];
+    issues.push(
+      ...checkReference(
+        "presentations.json",
+        [...base, "presenterId"],
+        presentation.presenterId,
+        presenterIds,
+        "presenter"
+      ),
+      // eventId is resolved against event slugs by the route pages
+      ...checkReference(
+        "presentations.json",
+        [...base, "eventId"],
+        presentation.eventId,
+        eventSlugs,
+        "event"
+      ),
+      ...checkReference(
+        "presentations.json",
+        [...base, "slideDeckSlug"],
+        presentation.slideDeckSlug,
+        slideDeckSlugs,
+        "slide deck"
+      )
+    );
+  });
+
+  // Recaps
+  input.recaps.recaps.forEach((recap, i) => {
+    issues.push(
+      ...checkReference(
+        "recaps.json",
+        ["recaps", i, "eventId"],
+        recap.eventId,
+        eventSlugs,
+        "event"
+      )
+    );
+  });
+
+  // FAQs (IDs are unique across all categories)
+  const faqPathsById = new Map<string, (string | number)[]>();
+  input.faqs.categories.forEach((category, i) => {
+    category.faqs.forEach((faq, j) => {
+      const path = ["categories", i, "faqs", j];
+      const first = faqPathsById.get(faq.id);
+      if (first) {
+        issues.push({
+          file: "faq.json",
+          path: [...path, "id"],
+          message: `Duplicate id "${faq.id}" (first used at ${formatIssuePath(first)})`,
+        });
+      } else {
+        faqPathsById.set(faq.id, path);
+      }
+    });
+  });
+
+  const faqIds = new Set(faqPathsById.keys());
+  input.faqs.categories.forEach((category, i) => {
+    category.faqs.forEach((faq, j) => {
+      faq.relatedFaqs?.forEach((id, k) => {
+        issues.push(
+          ...checkReference(
+            "faq.json",
+            ["categories", i, "faqs", j, "relatedFaqs", k],
+            id,
+            faqIds,
+            "FAQ"
+          )
+        );
+      });
+    });
+  });
+
+  issues.push(...findFaqCycles(input.faqs, faqPathsById));
+
+  return issues;
+}
+
+/**
+ * Content that is valid but probably incomplete. Warnings are reported by
+ * the validator without failing it.
+ */
+export function findContentWarnings(
+  input: IntegrityInput,
+  now: Date = new Date()
+): IntegrityIssue[] {
+  const { events } = input.events;
+  const { series } = input.eventSeries;
+  const recapped = new Set(input.recaps.recaps.map((r) => r.eventId));
+  const citiesById = new Map(input.cities.cities.map((c) => [c.id, c]));
+  const seriesIndexes = new Map(series.map((s, i) => [s.id, i]));
+  const presentationsById = new Map(
+    input.presentations.presentations.map((p) => [p.id, p])
+  );
+  const issues: IntegrityIssue[] = [];
+  const reported = new Set<string>();
+  const report = (issue: IntegrityIssue) => {
+    const key = JSON.stringify(issue);
+    if (reported.has(key)) return;
+    reported.add(key);
+    issues.push(issue);
+  };
+
+  series.forEach(({ recurrence }, i) => {
+    const occurrences = getSeriesOccurrences({
+      ...recurrence,
+      exceptions: undefined,
+    });
+    if (occurrences.length === MAX_OCCURRENCES) {
+      report({
+        file: "event-series.json",
+        path: ["series", i, "recurrence"],
+        message: `The recurrence rule stops after ${MAX_OCCURRENCES} occurrences; set an earlier until or a count`,
+      });
+    }
+  });
+
+  // Listed events come first, then the occurrences generated for a series,
+  // which are reported at the series
+  expandEventSeries(events, series, input.cities.cities).forEach((event, i) => {
+    const listed = i < events.length;
+    const file = listed ? "events.json" : "event-series.json";
+    const base = listed
+      ? ["events", i]
+      : ["series", seriesIndexes.get(event.seriesId!)!];
+
+    if (
+      isPublished(event, now) &&
+      !isUpcomingEvent(event, now) &&
+      !recapped.has(event.slug)
+    ) {
+      report({
+        file,
+        path: base,
+        message: `Past event "${event.slug}" has no recap`,
+      });
+    }
+    toScheduleIssues(
+      base,
+      analyzeSchedule(
+        event,
+        getEventTimezone(
+          event.cityId ? citiesById.get(event.cityId) : undefined
+        ),
+        presentationsById
+      ).warnings,
+      file
+    ).forEach(report);
+  });
+
+  return issues;
+}
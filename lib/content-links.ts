@@ -0,0 +1,151 @@
+/**
+ * Markdown Link Checks
+ * Parses the Markdown fields of content files and verifies that internal
+ * links resolve to a route built from `paths` in lib/utils/urls.ts
+ */
+import type { IntegrityInput, IntegrityIssue } from "./content-integrity";
+import { expandEventSeries } from "./event-series";
+import {
+  collectLinks,
+  isInternalHref,
+  isSafeHref,
+  parseMarkdown,
+} from "./markdown";
+import { paths } from "./utils/urls";
+
+/**
+ * Keys whose string values are rendered as Markdown
+ * (Section.body, Slide.body, FAQItem.answer)
+ */
+const MARKDOWN_KEYS = new Set(["body", "answer"]);
+
+const HTML_TAG = /<\/?[a-z][a-z0-9-]*(\s[^>]*)?>/i;
+
+/**
+ * Collects every static route in `paths` (builders that take no arguments)
+ */
+function collectStaticPaths(node: unknown, routes: Set<string>) {
+  if (typeof node === "function") {
+    if (node.length === 0) routes.add((node as () => string)());
+    return;
+  }
+  if (node && typeof node === "object") {
+    Object.values(node).forEach((child) => collectStaticPaths(child, routes));
+  }
+}
+
+/**
+ * Builds the set of site routes that internal Markdown links may target
+ */
+export function buildKnownRoutes(input: IntegrityInput): Set<string> {
+  const routes = new Set<string>();
+  collectStaticPaths(paths, routes);
+
+  const events = expandEventSeries(
+    input.events.events,
+    input.eventSeries.series,
+    input.cities.cities
+  );
+  for (const { slug } of events) {
+    routes.add(paths.events.detail(slug));
+    routes.add(paths.events.present(slug));
+  }
+  for (const { slug } of input.eventSeries.series) {
+    routes.add(paths.series.detail(slug));
+  }
+  for (const { slug } of input.recaps.recaps) {
+    routes.add(paths.recaps.detail(slug));
+  }
+  for (const { slug } of input.newsTopics.newsTopics) {
+    routes.add(paths.newsTopics.detail(slug));
+  }
+  for (const { slug } of input.cities.cities) {
+    routes.add(paths.cities.detail(slug));
+  }
+  for (const { slug } of input.presentations.presentations) {
+    routes.add(paths.presentations.detail(slug));
+  }
+  for (const { slug } of input.presenters.presenters) {
+    routes.add(paths.presenters.detail(slug));
+  }
+  for (const { slug } of input.members.members) {
+    routes.add(paths.members.detail(slug));
+  }
+  for (const { slug } of input.slides.slideDecks) {
+    routes.add(paths.slides.detail(slug));
+    routes.add(paths.slides.present(slug));
+  }
+  for (const { slug } of input.wallets.wallets) {
+    routes.add(paths.wallets.detail(slug));
+  }
+
+  return routes;
+}
+
+/**
+ * Strips the query string, fragment and trailing slash from an internal href
+ */
+function normalizeRoute(href: string): string {
+  const route = href.split(/[?#]/)[0];
+  return route.length > 1 ? route.replace(/\/+$/, "") : route;
+}
+
+/**
+ * Checks a single Markdown string
+ */
+function checkMarkdown(
+  file: string,
+  path: (string | number)[],
+  source: string,
+  routes: Set<string>
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  if (HTML_TAG.test(source)) {
+    issues.push({
+      file,
+      path,
+      message: "Raw HTML is not supported and will be shown as plain text",
+    });
+  }
+
+  for (const href of collectLinks(parseMarkdown(source))) {
+    if (!isSafeHref(href)) {
+      issues.push({
+        file,
+        path,
+        message: `Unsupported link target "${href}" (use a /path, #anchor, http(s): or mailto: link)`,
+      });
+    } else if (isInternalHref(href) && !routes.has(normalizeRoute(href))) {
+      issues.push({ file, path, message: `Broken internal link "${href}"` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Walks parsed content and checks every Markdown field in it
+ */
+export function checkMarkdownLinks(
+  file: string,
+  data: unknown,
+  routes: Set<string>,
+  path: (string | number)[] = []
+): IntegrityIssue[] {
+  if (Array.isArray(data)) {
+    return data.flatMap((item, i) =>
+      checkMarkdownLinks(file, item, routes, [...path, i])
+    );
+  }
+
+  if (data && typeof data === "object") {
+    return Object.entries(data).flatMap(([key, value]) =>
+      MARKDOWN_KEYS.has(key) && typeof value === "string"
+        ? checkMarkdown(file, [...path, key], value, routes)
+        : checkMarkdownLinks(file, value, routes, [...path, key])
+    );
+  }
+
+  return [];
+}
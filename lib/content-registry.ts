@@ -0,0 +1,266 @@
+/**
+ * Central Content Registry
+ * Single mapping of every content file to its schema, shared by the
+ * content loaders in lib/content.ts and scripts/validate-content.ts
+ */
+import { z } from "zod";
+
+import {
+  CharterSchema,
+  CitiesCollectionSchema,
+  EducationalContentSchema,
+  EventsCollectionSchema,
+  EventSeriesCollectionSchema,
+  FAQsCollectionSchema,
+  GetInvolvedSchema,
+  HomeSchema,
+  MembersCollectionSchema,
+  MissionSchema,
+  NewsTopicsCollectionSchema,
+  OnboardingSchema,
+  PhilosophySchema,
+  PresentationsCollectionSchema,
+  PresentersCollectionSchema,
+  ProjectsCollectionSchema,
+  RecapsCollectionSchema,
+  ResourcesCollectionSchema,
+  SlidesCollectionSchema,
+  SponsorsCollectionSchema,
+  TechnicalRoadmapSchema,
+  VibeAppsCollectionSchema,
+  VibeCodingSchema,
+  VisionSchema,
+  WalletsCollectionSchema,
+  WhatToExpectSchema,
+} from "./schemas";
+
+export type ContentCategory =
+  | "pages" // Single page content (home, onboarding)
+  | "collections" // Multiple items (events, recaps)
+  | "education" // Educational content (bitcoin101, lightning101)
+  | "foundation"; // Organization content (mission, vision)
+
+export interface ContentEntry<T> {
+  filename: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  description: string;
+  category: ContentCategory;
+  /**
+   * Key of the collection array. Collections with one may also be stored as
+   * a directory with one file per entry (see lib/content-source.ts).
+   */
+  entries?: string;
+}
+
+function defineContent<T>(entry: ContentEntry<T>): ContentEntry<T> {
+  return entry;
+}
+
+export const CONTENT_REGISTRY = {
+  home: defineContent({
+    filename: "home.json",
+    schema: HomeSchema,
+    description: "Home page hero and sections",
+    category: "pages",
+  }),
+  onboarding: defineContent({
+    filename: "onboarding.json",
+    schema: OnboardingSchema,
+    description: "Newcomer onboarding guide",
+    category: "pages",
+  }),
+  getInvolved: defineContent({
+    filename: "get-involved.json",
+    schema: GetInvolvedSchema,
+    description: "Contribution tracks and contact info",
+    category: "pages",
+  }),
+  whatToExpect: defineContent({
+    filename: "what-to-expect.json",
+    schema: WhatToExpectSchema,
+    description: "What to expect at a meetup",
+    category: "pages",
+  }),
+  vibeCoding: defineContent({
+    filename: "vibe-coding.json",
+    schema: VibeCodingSchema,
+    description: "Vibe coding overview and resources",
+    category: "pages",
+  }),
+  technicalRoadmap: defineContent({
+    filename: "technical-roadmap.json",
+    schema: TechnicalRoadmapSchema,
+    description: "Technical roadmap milestones",
+    category: "pages",
+  }),
+
+  bitcoin101: defineContent({
+    filename: "bitcoin101.json",
+    schema: EducationalContentSchema,
+    description: "Bitcoin 101 guide",
+    category: "education",
+  }),
+  lightning101: defineContent({
+    filename: "lightning101.json",
+    schema: EducationalContentSchema,
+    description: "Lightning 101 guide",
+    category: "education",
+  }),
+  lightningGettingStarted: defineContent({
+    filename: "lightning-getting-started.json",
+    schema: EducationalContentSchema,
+    description: "Getting started with Lightning",
+    category: "education",
+  }),
+  layer2: defineContent({
+    filename: "layer2.json",
+    schema: EducationalContentSchema,
+    description: "Layer 2 overview",
+    category: "education",
+  }),
+  openSource: defineContent({
+    filename: "open-source.json",
+    schema: EducationalContentSchema,
+    description: "Open source contribution guide",
+    category: "education",
+  }),
+
+  mission: defineContent({
+    filename: "mission.json",
+    schema: MissionSchema,
+    description: "Organization mission",
+    category: "foundation",
+  }),
+  vision: defineContent({
+    filename: "vision.json",
+    schema: VisionSchema,
+    description: "Organization vision",
+    category: "foundation",
+  }),
+  charter: defineContent({
+    filename: "charter.json",
+    schema: CharterSchema,
+    description: "Community charter",
+    category: "foundation",
+  }),
+  philosophy: defineContent({
+    filename: "philosophy.json",
+    schema: PhilosophySchema,
+    description: "Community philosophy",
+    category: "foundation",
+  }),
+
+  events: defineContent({
+    filename: "events.json",
+    schema: EventsCollectionSchema,
+    description: "Meetups and workshops",
+    category: "collections",
+    entries: "events",
+  }),
+  eventSeries: defineContent({
+    filename: "event-series.json",
+    schema: EventSeriesCollectionSchema,
+    description: "Recurring event series",
+    category: "collections",
+    entries: "series",
+  }),
+  recaps: defineContent({
+    filename: "recaps.json",
+    schema: RecapsCollectionSchema,
+    description: "Past event summaries",
+    category: "collections",
+    entries: "recaps",
+  }),
+  presentations: defineContent({
+    filename: "presentations.json",
+    schema: PresentationsCollectionSchema,
+    description: "Talks given at events",
+    category: "collections",
+    entries: "presentations",
+  }),
+  presenters: defineContent({
+    filename: "presenters.json",
+    schema: PresentersCollectionSchema,
+    description: "Speaker and presenter profiles",
+    category: "collections",
+    entries: "presenters",
+  }),
+  slides: defineContent({
+    filename: "slides.json",
+    schema: SlidesCollectionSchema,
+    description: "Internal slide decks",
+    category: "collections",
+    entries: "slideDecks",
+  }),
+  cities: defineContent({
+    filename: "cities.json",
+    schema: CitiesCollectionSchema,
+    description: "Bitcoin city guides",
+    category: "collections",
+    entries: "cities",
+  }),
+  sponsors: defineContent({
+    filename: "sponsors.json",
+    schema: SponsorsCollectionSchema,
+    description: "Event sponsors",
+    category: "collections",
+    entries: "sponsors",
+  }),
+  newsTopics: defineContent({
+    filename: "news-topics.json",
+    schema: NewsTopicsCollectionSchema,
+    description: "News discussion topics",
+    category: "collections",
+    entries: "newsTopics",
+  }),
+  members: defineContent({
+    filename: "members.json",
+    schema: MembersCollectionSchema,
+    description: "Member personas",
+    category: "collections",
+    entries: "members",
+  }),
+  resources: defineContent({
+    filename: "resources.json",
+    schema: ResourcesCollectionSchema,
+    description: "Curated learning resources",
+    category: "collections",
+    entries: "resources",
+  }),
+  projects: defineContent({
+    filename: "projects.json",
+    schema: ProjectsCollectionSchema,
+    description: "Community projects",
+    category: "collections",
+    entries: "projects",
+  }),
+  vibeApps: defineContent({
+    filename: "vibeapps.json",
+    schema: VibeAppsCollectionSchema,
+    description: "Vibe-coded apps",
+    category: "collections",
+    entries: "apps",
+  }),
+  wallets: defineContent({
+    filename: "wallets.json",
+    schema: WalletsCollectionSchema,
+    description: "Bitcoin wallet directory",
+    category: "collections",
+    entries: "wallets",
+  }),
+  faqs: defineContent({
+    filename: "faq.json",
+    schema: FAQsCollectionSchema,
+    description: "Frequently asked questions",
+    category: "collections",
+    entries: "categories",
+  }),
+} as const;
+
+export type ContentKey = keyof typeof CONTENT_REGISTRY;
+
+/**
+ * Parsed content type for a registry key
+ */
+export type ContentOf<K extends ContentKey> =
+  (typeof CONTENT_REGISTRY)[K] extends ContentEntry<infer T> ? T : never;
@@ -0,0 +1,290 @@
+/**
+ * Content Sources
+ * A registered content file is read either from `content/<name>.json` or,
+ * for collections, from a `content/<name>/` directory holding one JSON file
+ * per entry plus an optional `_index.json` with the collection's other fields.
+ * Entry files are assembled in filename order.
+ *
+ * Either layout can have translation overlays beside it, e.g.
+ * `content/events.fr.json` (see lib/content-translation.ts).
+ */
+import { readdirSync } from "fs";
+import { readdir, readFile, stat } from "fs/promises";
+import { basename, join } from "path";
+import { z } from "zod";
+
+import type { ContentEntry } from "./content-registry";
+import { applyTranslation } from "./content-translation";
+
+export const INDEX_FILENAME = "_index.json";
+
+export type ContentSource =
+  | { kind: "file"; path: string }
+  | { kind: "directory"; path: string };
+
+/**
+ * A problem with one file of a content source. `file` is relative to the
+ * content directory, e.g. "presentations/03-intro-to-lightning.json".
+ */
+export interface ContentSourceIssue {
+  file: string;
+  error: unknown;
+}
+
+export type ContentSourceResult<T> =
+  | { valid: true; data: T; files: string[] }
+  | { valid: false; issues: ContentSourceIssue[] };
+
+/**
+ * Directory name used when a content file is split into one file per entry
+ */
+export function getContentDirectoryName(filename: string): string {
+  return basename(filename, ".json");
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  return stat(path).then(
+    (s) => s.isDirectory(),
+    () => false
+  );
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  return stat(path).then(
+    (s) => s.isFile(),
+    () => false
+  );
+}
+
+/**
+ * Works out whether a registered file is stored as a single file or a directory
+ */
+export async function resolveContentSource(
+  contentDir: string,
+  filename: string
+): Promise<ContentSource> {
+  const directory = join(contentDir, getContentDirectoryName(filename));
+  if (await isDirectory(directory)) {
+    return { kind: "directory", path: directory };
+  }
+  return { kind: "file", path: join(contentDir, filename) };
+}
+
+/**
+ * Lists a directory source's entry files (without `_index.json`), in load order
+ */
+export async function listEntryFiles(directory: string): Promise<string[]> {
+  const files = await readdir(directory);
+  return files
+    .filter((file) => file.endsWith(".json") && file !== INDEX_FILENAME)
+    .sort((a, b) => a.localeCompare(b, "en", { numeric: true }));
+}
+
+/**
+ * Latest modification time of a source (-1 when it doesn't exist).
+ * For directories this covers added, removed and edited entry files.
+ */
+export async function getContentSourceMtime(
+  source: ContentSource
+): Promise<number> {
+  const mtime = (path: string) =>
+    stat(path).then(
+      (s) => s.mtimeMs,
+      () => -1
+    );
+
+  if (source.kind === "file") {
+    return mtime(source.path);
+  }
+
+  const files = await readdir(source.path).catch(() => [] as string[]);
+  const times = await Promise.all([
+    mtime(source.path),
+    ...files.map((file) => mtime(join(source.path, file))),
+  ]);
+  return Math.max(...times);
+}
+
+async function readJson(path: string): Promise<unknown> {
+  return JSON.parse(await readFile(path, "utf-8"));
+}
+
+/**
+ * Splits a Zod error on an assembled collection into one error per source
+ * file, with paths relative to that file
+ */
+function splitZodError(
+  error: z.ZodError,
+  entriesKey: string,
+  entryFiles: string[],
+  indexFile: string
+): ContentSourceIssue[] {
+  const byFile = new Map<string, z.ZodIssue[]>();
+
+  for (const issue of error.issues) {
+    const [key, index, ...rest] = issue.path;
+    const entryFile =
+      key === entriesKey && typeof index === "number"
+        ? entryFiles[index]
+        : undefined;
+    const file = entryFile ?? indexFile;
+    const path = entryFile ? rest : issue.path;
+    byFile.set(file, [...(byFile.get(file) ?? []), { ...issue, path }]);
+  }
+
+  return [...byFile].map(([file, issues]) => ({
+    file,
+    error: new z.ZodError(issues),
+  }));
+}
+
+async function loadDirectory<T>(
+  directory: string,
+  { filename, schema, entries }: ContentEntry<T>
+): Promise<ContentSourceResult<T>> {
+  const name = getContentDirectoryName(filename);
+
+  if (await fileExists(join(directory, "..", filename))) {
+    return {
+      valid: false,
+      issues: [
+        {
+          file: filename,
+          error: new Error(
+            `Both ${filename} and ${name}/ exist; remove one of them`
+          ),
+        },
+      ],
+    };
+  }
+
+  if (!entries) {
+    return {
+      valid: false,
+      issues: [
+        {
+          file: `${name}/`,
+          error: new Error(
+            `${filename} is not a collection and can't be split into a directory`
+          ),
+        },
+      ],
+    };
+  }
+
+  const entryFiles = await listEntryFiles(directory);
+  const indexPath = join(directory, INDEX_FILENAME);
+  const issues: ContentSourceIssue[] = [];
+
+  let index: unknown = {};
+  if (await fileExists(indexPath)) {
+    try {
+      index = await readJson(indexPath);
+    } catch (error) {
+      issues.push({ file: `${name}/${INDEX_FILENAME}`, error });
+    }
+  }
+
+  const items: unknown[] = [];
+  for (const file of entryFiles) {
+    try {
+      items.push(await readJson(join(directory, file)));
+    } catch (error) {
+      issues.push({ file: `${name}/${file}`, error });
+    }
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  const files = entryFiles.map((file) => `${name}/${file}`);
+  const result = schema.safeParse({
+    ...(index as Record<string, unknown>),
+    [entries]: items,
+  });
+
+  if (!result.success) {
+    return {
+      valid: false,
+      issues: splitZodError(
+        result.error,
+        entries,
+        files,
+        `${name}/${INDEX_FILENAME}`
+      ),
+    };
+  }
+
+  return { valid: true, data: result.data, files };
+}
+
+/**
+ * Reads, assembles and validates a registered content file from either layout
+ */
+export async function loadContentSource<T>(
+  contentDir: string,
+  entry: ContentEntry<T>,
+  source?: ContentSource
+): Promise<ContentSourceResult<T>> {
+  const resolved =
+    source ?? (await resolveContentSource(contentDir, entry.filename));
+
+  if (resolved.kind === "directory") {
+    return loadDirectory(resolved.path, entry);
+  }
+
+  try {
+    const data = entry.schema.parse(await readJson(resolved.path));
+    return { valid: true, data, files: [entry.filename] };
+  } catch (error) {
+    return { valid: false, issues: [{ file: entry.filename, error }] };
+  }
+}
+
+/**
+ * Translation overlay file for a locale, e.g. "events.fr.json"
+ */
+export function getTranslationFilename(filename: string, locale: string) {
+  return `${getContentDirectoryName(filename)}.${locale}.json`;
+}
+
+/**
+ * Whether any content file has a translation overlay for the locale.
+ * Synchronous so page metadata can ask without awaiting.
+ */
+export function hasTranslations(contentDir: string, locale: string): boolean {
+  const suffix = `.${locale}.json`;
+  return readdirSync(contentDir).some((file) => file.endsWith(suffix));
+}
+
+/**
+ * Applies the locale's translation overlay (if any) to already-loaded
+ * English content and validates the result.
+ * Returns the English data unchanged when there is no translation file.
+ */
+export async function loadTranslationSource<T>(
+  contentDir: string,
+  entry: ContentEntry<T>,
+  locale: string,
+  english: T
+): Promise<ContentSourceResult<T>> {
+  const file = getTranslationFilename(entry.filename, locale);
+
+  let overlay: unknown;
+  try {
+    overlay = await readJson(join(contentDir, file));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { valid: true, data: english, files: [] };
+    }
+    return { valid: false, issues: [{ file, error }] };
+  }
+
+  const result = entry.schema.safeParse(applyTranslation(english, overlay));
+  if (!result.success) {
+    return { valid: false, issues: [{ file, error: result.error }] };
+  }
+
+  return { valid: true, data: result.data, files: [file] };
+}
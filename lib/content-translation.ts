@@ -0,0 +1,202 @@
+/**
+ * Content Translations
+ * A translation is an overlay file next to the English content, e.g.
+ * content/events.fr.json, with the same shape but only the fields that
+ * have been translated. Anything it leaves out falls back to English.
+ *
+ * Array items are matched by `id` or `slug` when they have one (so a
+ * translation only lists the entries it translates), otherwise by position.
+ */
+
+/**
+ * Fields that hold prose and should be translated. Strings (or string arrays)
+ * under any other key — IDs, slugs, URLs, dates — are never reported as
+ * untranslated.
+ */
+export const TRANSLATABLE_KEYS = new Set([
+  "title",
+  "subtitle",
+  "description",
+  "shortDescription",
+  "longDescription",
+  "summary",
+  "overview",
+  "body",
+  "text",
+  "question",
+  "answer",
+  "bio",
+  "tagline",
+  "heading",
+  "subheading",
+  "location",
+  "caption",
+  "alt",
+  "label",
+  "details",
+  "ctaText",
+  "impactStatement",
+  "safetyNotes",
+  "useCase",
+  "keywords",
+  "features",
+  "questions",
+  "statements",
+  "paragraphs",
+  "principles",
+  "localTips",
+  "instructions",
+  "sampleContributions",
+  "supportOffered",
+]);
+
+export interface TranslationIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Key used to match array items between English and a translation
+ */
+function itemKey(item: unknown): string | undefined {
+  if (!isObject(item)) return undefined;
+  if (typeof item.id === "string") return `id:${item.id}`;
+  if (typeof item.slug === "string") return `slug:${item.slug}`;
+  return undefined;
+}
+
+function mergeArray(base: unknown[], overlay: unknown[]): unknown[] {
+  const keyed = base.some((item) => itemKey(item) !== undefined);
+  if (!keyed) {
+    return base.map((item, i) =>
+      i < overlay.length ? applyTranslation(item, overlay[i]) : item
+    );
+  }
+
+  const overlayByKey = new Map<string, unknown>();
+  for (const item of overlay) {
+    const key = itemKey(item);
+    if (key) overlayByKey.set(key, item);
+  }
+
+  return base.map((item) => {
+    const key = itemKey(item);
+    const translated = key ? overlayByKey.get(key) : undefined;
+    return translated === undefined ? item : applyTranslation(item, translated);
+  });
+}
+
+/**
+ * Deep-merges a translation overlay onto English content.
+ * The English structure wins: entries only present in the overlay are dropped.
+ */
+export function applyTranslation(base: unknown, overlay: unknown): unknown {
+  if (overlay === undefined || overlay === null) {
+    return base;
+  }
+
+  if (Array.isArray(base)) {
+    return Array.isArray(overlay) ? mergeArray(base, overlay) : base;
+  }
+
+  if (isObject(base)) {
+    if (!isObject(overlay)) return base;
+    const merged: JsonObject = { ...base };
+    for (const [key, value] of Object.entries(overlay)) {
+      merged[key] = key in base ? applyTranslation(base[key], value) : value;
+    }
+    return merged;
+  }
+
+  // Primitives: take the translation when it has the same type
+  return typeof overlay === typeof base ? overlay : base;
+}
+
+/**
+ * Reports overlay array items that don't match any English entry
+ */
+export function findOrphanedTranslations(
+  base: unknown,
+  overlay: unknown,
+  path: (string | number)[] = []
+): TranslationIssue[] {
+  if (Array.isArray(base) && Array.isArray(overlay)) {
+    const keyed = base.some((item) => itemKey(item) !== undefined);
+    if (!keyed) {
+      return overlay.flatMap((item, i) =>
+        findOrphanedTranslations(base[i], item, [...path, i])
+      );
+    }
+
+    const baseByKey = new Map(base.map((item) => [itemKey(item), item]));
+    return overlay.flatMap((item, i) => {
+      const key = itemKey(item);
+      if (!key || !baseByKey.has(key)) {
+        return [
+          {
+            path: [...path, i],
+            message: key
+              ? `No English entry with ${key.replace(":", " ")}`
+              : "Translated entries must include the id or slug of the English entry",
+          },
+        ];
+      }
+      return findOrphanedTranslations(baseByKey.get(key), item, [...path, i]);
+    });
+  }
+
+  if (isObject(base) && isObject(overlay)) {
+    return Object.entries(overlay).flatMap(([key, value]) =>
+      findOrphanedTranslations(base[key], value, [...path, key])
+    );
+  }
+
+  return [];
+}
+
+function isUntranslated(english: unknown, localized: unknown): boolean {
+  if (typeof english === "string") {
+    return english.trim() !== "" && english === localized;
+  }
+  if (Array.isArray(english) && english.every((v) => typeof v === "string")) {
+    return (
+      english.length > 0 &&
+      Array.isArray(localized) &&
+      english.every((value, i) => value === localized[i])
+    );
+  }
+  return false;
+}
+
+/**
+ * Lists translatable fields whose localized value is still the English text
+ */
+export function findUntranslatedFields(
+  english: unknown,
+  localized: unknown,
+  path: (string | number)[] = []
+): (string | number)[][] {
+  if (Array.isArray(english)) {
+    const items = Array.isArray(localized) ? localized : [];
+    return english.flatMap((item, i) =>
+      findUntranslatedFields(item, items[i], [...path, i])
+    );
+  }
+
+  if (isObject(english)) {
+    const fields = isObject(localized) ? localized : {};
+    return Object.entries(english).flatMap(([key, value]) =>
+      TRANSLATABLE_KEYS.has(key) && isUntranslated(value, fields[key])
+        ? [[...path, key]]
+        : findUntranslatedFields(value, fields[key], [...path, key])
+    );
+  }
+
+  return [];
+}
@@ -0,0 +1,145 @@
+/**
+ * Content Validation
+ * The checks behind scripts/validate-content.ts as a single call: every
+ * registered file against its schema, references between collections,
+ * Markdown links and translation overlays. Proposed content can be passed
+ * in place of what is on disk, so tools can validate before they write.
+ */
+import { z } from "zod";
+
+import {
+  checkContentIntegrity,
+  formatIssuePath,
+  type IntegrityInput,
+  type IntegrityIssue,
+} from "./content-integrity";
+import { buildKnownRoutes, checkMarkdownLinks } from "./content-links";
+import {
+  CONTENT_REGISTRY,
+  type ContentEntry,
+  type ContentKey,
+} from "./content-registry";
+import {
+  type ContentSourceIssue,
+  loadContentSource,
+  loadTranslationSource,
+} from "./content-source";
+import { createContentError } from "./errors";
+import { PREFIXED_LOCALES } from "./i18n";
+
+/**
+ * Registry keys of the collections checked by the referential integrity pass
+ */
+export const INTEGRITY_KEYS = [
+  "events",
+  "eventSeries",
+  "presentations",
+  "presenters",
+  "cities",
+  "sponsors",
+  "newsTopics",
+  "slides",
+  "recaps",
+  "members",
+  "wallets",
+  "faqs",
+] as const satisfies readonly (keyof IntegrityInput & ContentKey)[];
+
+/**
+ * Raw content to validate instead of the files on disk, by registry key
+ */
+export type ContentOverrides = Partial<Record<ContentKey, unknown>>;
+
+function toIssues({ file, error }: ContentSourceIssue): IntegrityIssue[] {
+  if (error instanceof z.ZodError) {
+    return error.issues.map((issue) => ({
+      file,
+      path: issue.path,
+      message: issue.message,
+    }));
+  }
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    return [{ file, path: [], message: "File not found" }];
+  }
+  return [{ file, path: [], message: createContentError(file, error).message }];
+}
+
+/**
+ * Validates all content (with `overrides` applied) and returns every issue.
+ * An empty list means `pnpm validate:content` would pass.
+ */
+export async function collectContentIssues(
+  contentDir: string,
+  overrides: ContentOverrides = {}
+): Promise<IntegrityIssue[]> {
+  const issues: IntegrityIssue[] = [];
+  const data = new Map<ContentKey, unknown>();
+
+  for (const [key, entry] of Object.entries(CONTENT_REGISTRY) as [
+    ContentKey,
+    ContentEntry<unknown>,
+  ][]) {
+    if (key in overrides) {
+      const result = entry.schema.safeParse(overrides[key]);
+      if (result.success) {
+        data.set(key, result.data);
+      } else {
+        issues.push(...toIssues({ file: entry.filename, error: result.error }));
+      }
+      continue;
+    }
+
+    const result = await loadContentSource(contentDir, entry);
+    if (result.valid) {
+      data.set(key, result.data);
+    } else {
+      issues.push(...result.issues.flatMap(toIssues));
+    }
+  }
+
+  if (INTEGRITY_KEYS.every((key) => data.has(key))) {
+    const input = Object.fromEntries(
+      INTEGRITY_KEYS.map((key) => [key, data.get(key)])
+    ) as unknown as IntegrityInput;
+    const routes = buildKnownRoutes(input);
+
+    issues.push(...checkContentIntegrity(input));
+    for (const [key, value] of data) {
+      issues.push(
+        ...checkMarkdownLinks(CONTENT_REGISTRY[key].filename, value, routes)
+      );
+    }
+  }
+
+  for (const [key, english] of data) {
+    const entry = CONTENT_REGISTRY[key] as ContentEntry<unknown>;
+    for (const locale of PREFIXED_LOCALES) {
+      const result = await loadTranslationSource(
+        contentDir,
+        entry,
+        locale,
+        english
+      );
+      if (!result.valid) {
+        issues.push(...result.issues.flatMap(toIssues));
+      }
+    }
+  }
+
+  return issues;
+}
+
+function issueKey(issue: IntegrityIssue): string {
+  return `${issue.file}|${formatIssuePath(issue.path)}|${issue.message}`;
+}
+
+/**
+ * Issues in `after` that weren't already in `before`
+ */
+export function findNewIssues(
+  before: IntegrityIssue[],
+  after: IntegrityIssue[]
+): IntegrityIssue[] {
+  const existing = new Set(before.map(issueKey));
+  return after.filter((issue) => !existing.has(issueKey(issue)));
+}
@@ -0,0 +1,243 @@
+/**
+ * Content Writer
+ * Reads registered content as raw JSON (without schema defaults filled in)
+ * and plans writes back to whichever layout it is stored in. For split
+ * content directories, entries keep their existing file, new entries get a
+ * new numbered file and removed entries have their file deleted.
+ *
+ * Planning is separate from writing so callers can validate or preview
+ * the changes first.
+ */
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+
+import type { ContentEntry } from "./content-registry";
+import {
+  type ContentSource,
+  INDEX_FILENAME,
+  listEntryFiles,
+  resolveContentSource,
+} from "./content-source";
+import { getSchemaPointer } from "./json-schema";
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Raw content of one registered file, as it is stored on disk
+ */
+export interface RawContent {
+  source: ContentSource;
+  data: JsonObject;
+  /** Entry file of each collection item, for split content directories */
+  entryFiles?: string[];
+}
+
+/**
+ * One file to create, update or (when `after` is undefined) delete
+ */
+export interface ContentFileChange {
+  path: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Formats JSON before it is written. Defaults to 2-space JSON.
+ */
+export type JsonFormatter = (path: string, text: string) => Promise<string>;
+
+/**
+ * Formats JSON with the project's Prettier config, like `pnpm format` does.
+ * Prettier is a dev dependency, so this leaves the text as is without it.
+ */
+export const formatWithPrettier: JsonFormatter = async (path, text) => {
+  try {
+    const prettier = await import("prettier");
+    const options = await prettier.resolveConfig(path);
+    return await prettier.format(text, { ...options, filepath: path });
+  } catch {
+    return text;
+  }
+};
+
+export interface ContentWriteOptions {
+  format?: JsonFormatter;
+}
+
+async function readJsonObject(path: string): Promise<JsonObject> {
+  return JSON.parse(await readFile(path, "utf-8")) as JsonObject;
+}
+
+async function readIfExists(path: string): Promise<string | undefined> {
+  return readFile(path, "utf-8").catch(() => undefined);
+}
+
+/**
+ * Key used to keep an entry in its file, e.g. "id:presenter-mat-balez"
+ */
+function itemKey(item: unknown): string | undefined {
+  const record = (item ?? {}) as JsonObject;
+  if (typeof record.id === "string") return `id:${record.id}`;
+  if (typeof record.slug === "string") return `slug:${record.slug}`;
+  return undefined;
+}
+
+/**
+ * File name for an entry at `position` (1-based), e.g.
+ * "03-intro-to-lightning.json"
+ */
+export function getEntryFilename(
+  item: unknown,
+  position: number,
+  total: number
+): string {
+  const record = (item ?? {}) as JsonObject;
+  const name = String(record.slug ?? record.id ?? "entry")
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const prefix = String(position).padStart(
+    Math.max(2, String(total).length),
+    "0"
+  );
+  return `${prefix}-${name || "entry"}.json`;
+}
+
+/**
+ * Reads a registered content file (or directory) without validating it
+ */
+export async function readRawContent(
+  contentDir: string,
+  entry: ContentEntry<unknown>
+): Promise<RawContent> {
+  const source = await resolveContentSource(contentDir, entry.filename);
+
+  if (source.kind === "file") {
+    return { source, data: await readJsonObject(source.path) };
+  }
+
+  const entryFiles = await listEntryFiles(source.path);
+  const index = await readJsonObject(join(source.path, INDEX_FILENAME)).catch(
+    () => ({}) as JsonObject
+  );
+  const items = await Promise.all(
+    entryFiles.map((file) => readJsonObject(join(source.path, file)))
+  );
+
+  return {
+    source,
+    data: { ...index, [entry.entries ?? "entries"]: items },
+    entryFiles,
+  };
+}
+
+function withSchemaPointer(pointer: string, value: JsonObject): JsonObject {
+  const { $schema, ...rest } = value;
+  return { $schema: $schema ?? pointer, ...rest };
+}
+
+async function toChange(
+  path: string,
+  value: JsonObject | undefined,
+  format: JsonFormatter
+): Promise<ContentFileChange | undefined> {
+  const before = await readIfExists(path);
+  const after =
+    value === undefined
+      ? undefined
+      : await format(path, `${JSON.stringify(value, null, 2)}\n`);
+  return before === after ? undefined : { path, before, after };
+}
+
+/**
+ * Works out the file changes needed to store `data` in place of `raw`
+ */
+export async function planContentWrite(
+  entry: ContentEntry<unknown>,
+  raw: RawContent,
+  data: JsonObject,
+  { format = async (_path, text) => text }: ContentWriteOptions = {}
+): Promise<ContentFileChange[]> {
+  const { source } = raw;
+
+  if (source.kind === "file") {
+    const change = await toChange(source.path, data, format);
+    return change ? [change] : [];
+  }
+
+  const entriesKey = entry.entries ?? "entries";
+  const { [entriesKey]: items = [], ...index } = data;
+  const oldItems = (raw.data[entriesKey] ?? []) as unknown[];
+  const oldFiles = raw.entryFiles ?? [];
+
+  // Existing entries stay in their file; new ones are numbered after the last
+  const fileByKey = new Map<string, string>();
+  oldItems.forEach((item, i) => {
+    const key = itemKey(item);
+    if (key && oldFiles[i]) fileByKey.set(key, oldFiles[i]);
+  });
+  let lastPosition = Math.max(
+    0,
+    ...oldFiles.map((file) => parseInt(file, 10) || 0)
+  );
+
+  const newItems = items as JsonObject[];
+  const used = new Set<string>();
+  const targets = newItems.map((item, i) => {
+    const key = itemKey(item);
+    const existing = key ? fileByKey.get(key) : oldFiles[i];
+    const file =
+      existing && !used.has(existing)
+        ? existing
+        : getEntryFilename(item, ++lastPosition, newItems.length);
+    used.add(file);
+    return file;
+  });
+
+  const changes: (ContentFileChange | undefined)[] = [];
+  const entryPointer = getSchemaPointer(entry.filename, "entry");
+  for (const [i, item] of newItems.entries()) {
+    changes.push(
+      await toChange(
+        join(source.path, targets[i]),
+        withSchemaPointer(entryPointer, item),
+        format
+      )
+    );
+  }
+
+  const kept = new Set(targets);
+  for (const file of oldFiles.filter((file) => !kept.has(file))) {
+    changes.push(await toChange(join(source.path, file), undefined, format));
+  }
+
+  const indexPath = join(source.path, INDEX_FILENAME);
+  const indexFields = Object.keys(index).filter((key) => key !== "$schema");
+  changes.push(
+    await toChange(
+      indexPath,
+      indexFields.length > 0 || (await readIfExists(indexPath)) !== undefined
+        ? withSchemaPointer(getSchemaPointer(entry.filename, "index"), index)
+        : undefined,
+      format
+    )
+  );
+
+  return changes.filter((change) => change !== undefined);
+}
+
+/**
+ * Writes (or deletes) every planned file
+ */
+export async function applyContentChanges(
+  changes: ContentFileChange[]
+): Promise<void> {
+  for (const { path, after } of changes) {
+    if (after === undefined) {
+      await rm(path, { force: true });
+    } else {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, after);
+    }
+  }
+}
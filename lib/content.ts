@@ -1,41 +1,29 @@
-import { readFile } from "fs/promises";
 import { join } from "path";
-import { z } from "zod";
 
+import { getCachedContent, invalidateContentCache } from "./content-cache";
+import {
+  CONTENT_REGISTRY,
+  type ContentEntry,
+  type ContentKey,
+  type ContentOf,
+} from "./content-registry";
+import {
+  type ContentSourceIssue,
+  getContentSourceMtime,
+  getTranslationFilename,
+  hasTranslations,
+  loadContentSource,
+  loadTranslationSource,
+  resolveContentSource,
+} from "./content-source";
 import { createContentError, formatContentError } from "./errors";
+import { expandEventSeries } from "./event-series";
 import {
-  CharterSchema,
-  CitiesCollectionSchema,
-  EducationalContentSchema,
-  EventsCollectionSchema,
-  FAQsCollectionSchema,
-  GetInvolvedSchema,
-  HomeSchema,
-  MembersCollectionSchema,
-  MissionSchema,
-  NewsTopicsCollectionSchema,
-  OnboardingSchema,
-  PhilosophySchema,
-  PresentationSchema,
-  PresentationsCollectionSchema,
-  PresenterSchema,
-  PresentersCollectionSchema,
-  ProjectsCollectionSchema,
-  RecapsCollectionSchema,
-  ResourcesCollectionSchema,
-  RoadmapItemSchema,
-  RoadmapMilestoneSchema,
-  SlideDeckSchema,
-  SlidesCollectionSchema,
-  SponsorsCollectionSchema,
-  TechnicalRoadmapSchema,
-  VibeAppsCollectionSchema,
-  VibeCodingSchema,
-  VisionSchema,
-  WalletSchema,
-  WalletsCollectionSchema,
-  WhatToExpectSchema,
-} from "./schemas";
+  DEFAULT_LOCALE,
+  type Locale,
+  type LocaleOptions,
+  LOCALES,
+} from "./i18n";
 import type {
   Charter,
   CitiesCollection,
@@ -43,6 +31,8 @@ import type {
   EducationalContent,
   Event,
   EventsCollection,
+  EventSeries,
+  EventSeriesCollection,
   FAQCategory,
   FAQItem,
   FAQsCollection,
@@ -77,271 +67,499 @@ import type {
   WalletsCollection,
   WhatToExpect,
 } from "./types";
+import { selectPublished, type VisibilityOptions } from "./visibility";
 
 const CONTENT_DIR = join(process.cwd(), "content");
 
+/**
+ * Options accepted by collection loaders: which locale to read and whether
+ * to include unpublished entries
+ */
+export interface ContentOptions extends VisibilityOptions, LocaleOptions {}
+
+/**
+ * Reports every broken file, then fails on the first one
+ */
+function failOnIssues(issues: ContentSourceIssue[]): never {
+  const errors = issues.map(({ file, error }) =>
+    createContentError(file, error)
+  );
+  errors.forEach((error) => console.error(formatContentError(error)));
+  throw errors[0];
+}
+
+async function getSourceMtime(filename: string): Promise<number> {
+  return getContentSourceMtime(
+    await resolveContentSource(CONTENT_DIR, filename)
+  );
+}
+
 /**
  * Generic async content loader with Zod validation
+ * Reads content/<file>.json or a split content/<file>/ directory
+ * (see lib/content-source.ts). Parsed results are memoized per file
+ * (see lib/content-cache.ts).
+ *
+ * Other locales layer their translation file over the English content,
+ * so untranslated fields and entries fall back to English.
  */
 async function loadContent<T>(
-  filename: string,
-  schema: z.ZodSchema<T>
+  entry: ContentEntry<T>,
+  { locale = DEFAULT_LOCALE }: LocaleOptions = {}
 ): Promise<T> {
-  try {
-    const filePath = join(CONTENT_DIR, filename);
-    const fileContent = await readFile(filePath, "utf-8");
-    const parsed = JSON.parse(fileContent);
-    return schema.parse(parsed);
-  } catch (error) {
-    const contentError = createContentError(filename, error);
-    console.error(formatContentError(contentError));
-    throw contentError;
+  if (locale !== DEFAULT_LOCALE) {
+    return loadTranslatedContent(entry, locale);
   }
+
+  return getCachedContent(
+    entry.filename,
+    () => getSourceMtime(entry.filename),
+    async () => {
+      const result = await loadContentSource(CONTENT_DIR, entry);
+      return result.valid ? result.data : failOnIssues(result.issues);
+    }
+  );
+}
+
+async function loadTranslatedContent<T>(
+  entry: ContentEntry<T>,
+  locale: Locale
+): Promise<T> {
+  const filename = getTranslationFilename(entry.filename, locale);
+
+  return getCachedContent(
+    filename,
+    async () =>
+      Math.max(
+        await getSourceMtime(entry.filename),
+        await getSourceMtime(filename)
+      ),
+    async () => {
+      const english = await loadContent(entry);
+      const result = await loadTranslationSource(
+        CONTENT_DIR,
+        entry,
+        locale,
+        english
+      );
+      return result.valid ? result.data : failOnIssues(result.issues);
+    }
+  );
+}
+
+/**
+ * Loads any registered content file by its registry key
+ */
+export async function loadRegisteredContent<K extends ContentKey>(
+  key: K,
+  options?: LocaleOptions
+): Promise<ContentOf<K>> {
+  return loadContent(
+    CONTENT_REGISTRY[key] as ContentEntry<ContentOf<K>>,
+    options
+  );
+}
+
+/**
+ * Drops a content file's cached data, and the translations layered over
+ * it, so the next load reads what was just written
+ */
+export function invalidateContent(filename: string) {
+  invalidateContentCache(filename);
+  for (const locale of LOCALES) {
+    if (locale !== DEFAULT_LOCALE) {
+      invalidateContentCache(getTranslationFilename(filename, locale));
+    }
+  }
+}
+
+/**
+ * Locales with translated content, English included. Only these are
+ * advertised to search engines as alternates.
+ */
+export function getTranslatedLocales(): Locale[] {
+  return LOCALES.filter(
+    (locale) =>
+      locale === DEFAULT_LOCALE || hasTranslations(CONTENT_DIR, locale)
+  );
 }
 
 // Content loaders
-export async function loadHome(): Promise<Home> {
-  return loadContent("home.json", HomeSchema);
+export async function loadHome(options?: LocaleOptions): Promise<Home> {
+  return loadContent(CONTENT_REGISTRY.home, options);
 }
 
-export async function loadMembers(): Promise<MembersCollection> {
-  return loadContent("members.json", MembersCollectionSchema);
+export async function loadMembers(
+  options?: LocaleOptions
+): Promise<MembersCollection> {
+  return loadContent(CONTENT_REGISTRY.members, options);
 }
 
 export async function loadMember(
-  slug: string
+  slug: string,
+  options?: LocaleOptions
 ): Promise<MemberPersona | undefined> {
-  const { members } = await loadMembers();
+  const { members } = await loadMembers(options);
   return members.find((m) => m.slug === slug);
 }
 
-export async function loadEvents(): Promise<EventsCollection> {
-  return loadContent("events.json", EventsCollectionSchema);
+// Expanded collection per events.json array, reused while the series and
+// cities it was expanded with are unchanged
+const expandedEvents = new WeakMap<
+  Event[],
+  {
+    series: EventSeries[];
+    cities: City[];
+    collection: EventsCollection;
+  }
+>();
+
+function withSeriesEvents(
+  collection: EventsCollection,
+  series: EventSeries[],
+  cities: City[],
+  locale?: Locale
+): EventsCollection {
+  const memo = expandedEvents.get(collection.events);
+  if (memo && memo.series === series && memo.cities === cities) {
+    return memo.collection;
+  }
+
+  const expanded = {
+    ...collection,
+    events: expandEventSeries(collection.events, series, cities, locale),
+  };
+  expandedEvents.set(collection.events, {
+    series,
+    cities,
+    collection: expanded,
+  });
+  return expanded;
+}
+
+/**
+ * Loads events visible to the public, including the occurrences of every
+ * event series (see lib/event-series.ts); pass `includeDrafts` for admin
+ * preview and `locale` for translated content
+ */
+export async function loadEvents(
+  options?: ContentOptions
+): Promise<EventsCollection> {
+  const [collection, { series }, { cities }] = await Promise.all([
+    loadContent(CONTENT_REGISTRY.events, options),
+    loadEventSeries(options),
+    loadCities(options),
+  ]);
+  return selectPublished(
+    withSeriesEvents(collection, series, cities, options?.locale),
+    "events",
+    options
+  );
 }
 
-export async function loadEvent(slug: string): Promise<Event | undefined> {
-  const { events } = await loadEvents();
+export async function loadEvent(
+  slug: string,
+  options?: ContentOptions
+): Promise<Event | undefined> {
+  const { events } = await loadEvents(options);
   return events.find((e) => e.slug === slug);
 }
 
-export async function loadOnboarding(): Promise<Onboarding> {
-  return loadContent("onboarding.json", OnboardingSchema);
+export async function loadEventSeries(
+  options?: ContentOptions
+): Promise<EventSeriesCollection> {
+  const collection = await loadContent(CONTENT_REGISTRY.eventSeries, options);
+  return selectPublished(collection, "series", options);
 }
 
-export async function loadGetInvolved(): Promise<GetInvolved> {
-  return loadContent("get-involved.json", GetInvolvedSchema);
+export async function loadEventSeriesBySlug(
+  slug: string,
+  options?: ContentOptions
+): Promise<EventSeries | undefined> {
+  const { series } = await loadEventSeries(options);
+  return series.find((s) => s.slug === slug);
 }
 
-export async function loadBitcoin101(): Promise<EducationalContent> {
-  return loadContent("bitcoin101.json", EducationalContentSchema);
+export async function loadOnboarding(
+  options?: LocaleOptions
+): Promise<Onboarding> {
+  return loadContent(CONTENT_REGISTRY.onboarding, options);
 }
 
-export async function loadLightning101(): Promise<EducationalContent> {
-  return loadContent("lightning101.json", EducationalContentSchema);
+export async function loadGetInvolved(
+  options?: LocaleOptions
+): Promise<GetInvolved> {
+  return loadContent(CONTENT_REGISTRY.getInvolved, options);
 }
 
-export async function loadLightningGettingStarted(): Promise<EducationalContent> {
-  return loadContent(
-    "lightning-getting-started.json",
-    EducationalContentSchema
-  );
+export async function loadBitcoin101(
+  options?: LocaleOptions
+): Promise<EducationalContent> {
+  return loadContent(CONTENT_REGISTRY.bitcoin101, options);
+}
+
+export async function loadLightning101(
+  options?: LocaleOptions
+): Promise<EducationalContent> {
+  return loadContent(CONTENT_REGISTRY.lightning101, options);
 }
 
-export async function loadLayer2(): Promise<EducationalContent> {
-  return loadContent("layer2.json", EducationalContentSchema);
+export async function loadLightningGettingStarted(
+  options?: LocaleOptions
+): Promise<EducationalContent> {
+  return loadContent(CONTENT_REGISTRY.lightningGettingStarted, options);
 }
 
-export async function loadOpenSource(): Promise<EducationalContent> {
-  return loadContent("open-source.json", EducationalContentSchema);
+export async function loadLayer2(
+  options?: LocaleOptions
+): Promise<EducationalContent> {
+  return loadContent(CONTENT_REGISTRY.layer2, options);
 }
 
-export async function loadVibeCoding(): Promise<VibeCoding> {
-  return loadContent("vibe-coding.json", VibeCodingSchema);
+export async function loadOpenSource(
+  options?: LocaleOptions
+): Promise<EducationalContent> {
+  return loadContent(CONTENT_REGISTRY.openSource, options);
 }
 
-export async function loadResources(): Promise<ResourcesCollection> {
-  return loadContent("resources.json", ResourcesCollectionSchema);
+export async function loadVibeCoding(
+  options?: LocaleOptions
+): Promise<VibeCoding> {
+  return loadContent(CONTENT_REGISTRY.vibeCoding, options);
 }
 
-export async function loadRecaps(): Promise<RecapsCollection> {
-  return loadContent("recaps.json", RecapsCollectionSchema);
+export async function loadResources(
+  options?: LocaleOptions
+): Promise<ResourcesCollection> {
+  return loadContent(CONTENT_REGISTRY.resources, options);
 }
 
-export async function loadRecap(slug: string): Promise<Recap | undefined> {
-  const { recaps } = await loadRecaps();
+export async function loadRecaps(
+  options?: ContentOptions
+): Promise<RecapsCollection> {
+  const collection = await loadContent(CONTENT_REGISTRY.recaps, options);
+  return selectPublished(collection, "recaps", options);
+}
+
+export async function loadRecap(
+  slug: string,
+  options?: ContentOptions
+): Promise<Recap | undefined> {
+  const { recaps } = await loadRecaps(options);
   return recaps.find((r) => r.slug === slug);
 }
 
-export async function loadProjects(): Promise<ProjectsCollection> {
-  return loadContent("projects.json", ProjectsCollectionSchema);
+export async function loadProjects(
+  options?: LocaleOptions
+): Promise<ProjectsCollection> {
+  return loadContent(CONTENT_REGISTRY.projects, options);
 }
 
-export async function loadVibeApps(): Promise<VibeAppsCollection> {
-  return loadContent("vibeapps.json", VibeAppsCollectionSchema);
+export async function loadVibeApps(
+  options?: LocaleOptions
+): Promise<VibeAppsCollection> {
+  return loadContent(CONTENT_REGISTRY.vibeApps, options);
 }
 
-export async function loadWhatToExpect(): Promise<WhatToExpect> {
-  return loadContent("what-to-expect.json", WhatToExpectSchema);
+export async function loadWhatToExpect(
+  options?: LocaleOptions
+): Promise<WhatToExpect> {
+  return loadContent(CONTENT_REGISTRY.whatToExpect, options);
 }
 
-export async function loadNewsTopics(): Promise<NewsTopicsCollection> {
-  return loadContent("news-topics.json", NewsTopicsCollectionSchema);
+export async function loadNewsTopics(
+  options?: LocaleOptions
+): Promise<NewsTopicsCollection> {
+  return loadContent(CONTENT_REGISTRY.newsTopics, options);
 }
 
 export async function loadNewsTopic(
-  id: string
+  id: string,
+  options?: LocaleOptions
 ): Promise<NewsTopic | undefined> {
-  const { newsTopics } = await loadNewsTopics();
+  const { newsTopics } = await loadNewsTopics(options);
   return newsTopics.find((t) => t.id === id);
 }
 
 export async function loadNewsTopicBySlug(
-  slug: string
+  slug: string,
+  options?: LocaleOptions
 ): Promise<NewsTopic | undefined> {
-  const { newsTopics } = await loadNewsTopics();
+  const { newsTopics } = await loadNewsTopics(options);
   return newsTopics.find((t) => t.slug === slug);
 }
 
-export async function loadMission(): Promise<Mission> {
-  return loadContent("mission.json", MissionSchema);
+export async function loadMission(options?: LocaleOptions): Promise<Mission> {
+  return loadContent(CONTENT_REGISTRY.mission, options);
 }
 
-export async function loadVision(): Promise<Vision> {
-  return loadContent("vision.json", VisionSchema);
+export async function loadVision(options?: LocaleOptions): Promise<Vision> {
+  return loadContent(CONTENT_REGISTRY.vision, options);
 }
 
-export async function loadCharter(): Promise<Charter> {
-  return loadContent("charter.json", CharterSchema);
+export async function loadCharter(options?: LocaleOptions): Promise<Charter> {
+  return loadContent(CONTENT_REGISTRY.charter, options);
 }
 
-export async function loadPhilosophy(): Promise<Philosophy> {
-  return loadContent("philosophy.json", PhilosophySchema);
+export async function loadPhilosophy(
+  options?: LocaleOptions
+): Promise<Philosophy> {
+  return loadContent(CONTENT_REGISTRY.philosophy, options);
 }
 
-export async function loadCities(): Promise<CitiesCollection> {
-  return loadContent("cities.json", CitiesCollectionSchema);
+export async function loadCities(
+  options?: LocaleOptions
+): Promise<CitiesCollection> {
+  return loadContent(CONTENT_REGISTRY.cities, options);
 }
 
-export async function loadCity(slug: string): Promise<City | undefined> {
-  const { cities } = await loadCities();
+export async function loadCity(
+  slug: string,
+  options?: LocaleOptions
+): Promise<City | undefined> {
+  const { cities } = await loadCities(options);
   return cities.find((c) => c.slug === slug);
 }
 
-export async function loadCityById(id: string): Promise<City | undefined> {
-  const { cities } = await loadCities();
+export async function loadCityById(
+  id: string,
+  options?: LocaleOptions
+): Promise<City | undefined> {
+  const { cities } = await loadCities(options);
   return cities.find((c) => c.id === id);
 }
 
-export async function loadSponsors(): Promise<SponsorsCollection> {
-  return loadContent("sponsors.json", SponsorsCollectionSchema);
+export async function loadSponsors(
+  options?: LocaleOptions
+): Promise<SponsorsCollection> {
+  return loadContent(CONTENT_REGISTRY.sponsors, options);
 }
 
 export async function loadSponsorById(
-  id: string
+  id: string,
+  options?: LocaleOptions
 ): Promise<Sponsor | undefined> {
-  const { sponsors } = await loadSponsors();
+  const { sponsors } = await loadSponsors(options);
   return sponsors.find((s) => s.id === id);
 }
 
-export async function loadPresenters(): Promise<PresentersCollection> {
-  return loadContent("presenters.json", PresentersCollectionSchema);
+export async function loadPresenters(
+  options?: ContentOptions
+): Promise<PresentersCollection> {
+  const collection = await loadContent(CONTENT_REGISTRY.presenters, options);
+  return selectPublished(collection, "presenters", options);
 }
 
 export async function loadPresenterById(
-  id: string
+  id: string,
+  options?: ContentOptions
 ): Promise<Presenter | undefined> {
-  const { presenters } = await loadPresenters();
+  const { presenters } = await loadPresenters(options);
   return presenters.find((p) => p.id === id);
 }
 
 export async function loadPresenterBySlug(
-  slug: string
+  slug: string,
+  options?: ContentOptions
 ): Promise<Presenter | undefined> {
-  const { presenters } = await loadPresenters();
+  const { presenters } = await loadPresenters(options);
   return presenters.find((p) => p.slug === slug);
 }
 
-export async function loadPresentations(): Promise<PresentationsCollection> {
-  return loadContent("presentations.json", PresentationsCollectionSchema);
+export async function loadPresentations(
+  options?: ContentOptions
+): Promise<PresentationsCollection> {
+  const collection = await loadContent(CONTENT_REGISTRY.presentations, options);
+  return selectPublished(collection, "presentations", options);
 }
 
 export async function loadPresentation(
-  slug: string
+  slug: string,
+  options?: ContentOptions
 ): Promise<Presentation | undefined> {
-  const { presentations } = await loadPresentations();
+  const { presentations } = await loadPresentations(options);
   return presentations.find((p) => p.slug === slug);
 }
 
 export async function loadPresentationById(
-  id: string
+  id: string,
+  options?: ContentOptions
 ): Promise<Presentation | undefined> {
-  const { presentations } = await loadPresentations();
+  const { presentations } = await loadPresentations(options);
   return presentations.find((p) => p.id === id);
 }
 
-export async function loadTechnicalRoadmap(): Promise<TechnicalRoadmap> {
-  return loadContent("technical-roadmap.json", TechnicalRoadmapSchema);
-}
-
-// Relationship helpers - simplified inline resolvers
-export async function getCityEvents(cityId: string): Promise<Event[]> {
-  const { events } = await loadEvents();
-  return events.filter((e) => e.cityId === cityId);
-}
-
-export async function getPresentationsByPresenter(
-  presenterId: string
-): Promise<Presentation[]> {
-  const { presentations } = await loadPresentations();
-  return presentations.filter((p) => p.presenterId === presenterId);
+export async function loadTechnicalRoadmap(
+  options?: LocaleOptions
+): Promise<TechnicalRoadmap> {
+  return loadContent(CONTENT_REGISTRY.technicalRoadmap, options);
 }
 
-export async function loadSlides(): Promise<SlidesCollection> {
-  return loadContent("slides.json", SlidesCollectionSchema);
+export async function loadSlides(
+  options?: ContentOptions
+): Promise<SlidesCollection> {
+  const collection = await loadContent(CONTENT_REGISTRY.slides, options);
+  return selectPublished(collection, "slideDecks", options);
 }
 
 export async function loadSlideDeck(
-  slug: string
+  slug: string,
+  options?: ContentOptions
 ): Promise<SlideDeck | undefined> {
-  const { slideDecks } = await loadSlides();
+  const { slideDecks } = await loadSlides(options);
   return slideDecks.find((d) => d.slug === slug);
 }
 
 export async function loadSlideDeckById(
-  id: string
+  id: string,
+  options?: ContentOptions
 ): Promise<SlideDeck | undefined> {
-  const { slideDecks } = await loadSlides();
+  const { slideDecks } = await loadSlides(options);
   return slideDecks.find((d) => d.id === id);
 }
 
-export async function loadWallets(): Promise<WalletsCollection> {
-  return loadContent("wallets.json", WalletsCollectionSchema);
+export async function loadWallets(
+  options?: LocaleOptions
+): Promise<WalletsCollection> {
+  return loadContent(CONTENT_REGISTRY.wallets, options);
 }
 
-export async function loadWallet(slug: string): Promise<Wallet | undefined> {
-  const { wallets } = await loadWallets();
+export async function loadWallet(
+  slug: string,
+  options?: LocaleOptions
+): Promise<Wallet | undefined> {
+  const { wallets } = await loadWallets(options);
   return wallets.find((w) => w.slug === slug);
 }
 
-export async function loadFAQs(): Promise<FAQsCollection> {
-  return loadContent("faq.json", FAQsCollectionSchema);
+export async function loadFAQs(
+  options?: LocaleOptions
+): Promise<FAQsCollection> {
+  return loadContent(CONTENT_REGISTRY.faqs, options);
 }
 
 export async function getFAQsByCategory(
-  categoryId: string
+  categoryId: string,
+  options?: LocaleOptions
 ): Promise<FAQCategory | undefined> {
-  const { categories } = await loadFAQs();
+  const { categories } = await loadFAQs(options);
   return categories.find((c) => c.id === categoryId);
 }
 
-export async function getFAQsByTags(tags: string[]): Promise<FAQItem[]> {
-  const { categories } = await loadFAQs();
+export async function getFAQsByTags(
+  tags: string[],
+  options?: LocaleOptions
+): Promise<FAQItem[]> {
+  const { categories } = await loadFAQs(options);
   const allFaqs = categories.flatMap((c) => c.faqs);
   return allFaqs.filter((faq) => faq.tags?.some((tag) => tags.includes(tag)));
 }
 
-export async function getFAQById(id: string): Promise<FAQItem | undefined> {
-  const { categories } = await loadFAQs();
+export async function getFAQById(
+  id: string,
+  options?: LocaleOptions
+): Promise<FAQItem | undefined> {
+  const { categories } = await loadFAQs(options);
   const allFaqs = categories.flatMap((c) => c.faqs);
   return allFaqs.find((faq) => faq.id === id);
 }
@@ -0,0 +1,12 @@
+/**
+ * Local Data Directory
+ * Runtime data the app writes itself (audit logs and the like), kept out of
+ * content/ and out of git. Override the location with DATA_DIR.
+ */
+import { join } from "path";
+
+export const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), ".data");
+
+export function getDataPath(filename: string): string {
+  return join(DATA_DIR, filename);
+}
@@ -0,0 +1,151 @@
+/**
+ * Event Calendars
+ * Builds the .ics feeds (/events.ics, /cities/[slug]/events.ics,
+ * /series/[slug]/events.ics) and per-event downloads
+ * (/events/[slug]/event.ics) from the content graph. Events in a series
+ * point at it with RELATED-TO.
+ */
+import { SITE_NAME, SITE_URL } from "./constants";
+import type { ContentGraph } from "./content-graph";
+import {
+  formatScheduleTime,
+  getEventTimes,
+  getEventTimezone,
+  isUpcomingEvent,
+} from "./event-time";
+import { type CalendarEvent, createCalendar } from "./icalendar";
+import type { Event, EventSeries } from "./types";
+import { urls } from "./utils/urls";
+
+function describeSchedule(event: Event, graph: ContentGraph): string[] {
+  return (event.schedule ?? []).map((item) => {
+    const time = item.endTime
+      ? `${formatScheduleTime(item.startTime)} - ${formatScheduleTime(item.endTime)}`
+      : formatScheduleTime(item.startTime);
+    const presenter = item.presenterId
+      ? graph.getPresenter(item.presenterId)
+      : undefined;
+    return `${time}  ${item.title}${presenter ? ` (${presenter.name})` : ""}`;
+  });
+}
+
+function getUid(kind: "event" | "series", slug: string): string {
+  const host = new URL(SITE_URL).host;
+  return kind === "event" ? `${slug}@${host}` : `series-${slug}@${host}`;
+}
+
+/**
+ * Venue name, the hosting sponsor's street address and the city, or the
+ * stream for online events
+ */
+function describeLocation(event: Event, graph: ContentGraph): string {
+  if (event.attendanceMode === "online" && event.streamUrl) {
+    return event.streamUrl;
+  }
+
+  const city = graph.getEventCity(event);
+  const address = graph.getEventVenue(event)?.address;
+  return [
+    event.location,
+    address && !event.location.includes(address.streetAddress)
+      ? address.streetAddress
+      : undefined,
+    city && !event.location.includes(city.name) ? city.name : undefined,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function toCalendarEvent(event: Event, graph: ContentGraph): CalendarEvent {
+  const series = graph.getEventSeries(event);
+  const { start, end } = getEventTimes(event);
+  const schedule = describeSchedule(event, graph);
+  const url = urls.events.detail(event.slug);
+
+  return {
+    uid: getUid("event", event.slug),
+    title: event.title,
+    start,
+    end,
+    description: [
+      event.description,
+      ...(event.streamUrl ? ["", `Livestream: ${event.streamUrl}`] : []),
+      ...(schedule.length > 0 ? ["", "Schedule:", ...schedule] : []),
+      "",
+      url,
+    ].join("\n"),
+    location: describeLocation(event, graph),
+    url,
+    ...(series && { parentUid: getUid("series", series.slug) }),
+  };
+}
+
+/**
+ * .ics document for a list of events
+ */
+export function createEventsCalendar(
+  events: Event[],
+  graph: ContentGraph,
+  options: { name: string; description?: string; timezone?: string }
+): string {
+  return createCalendar({
+    ...options,
+    events: [...events]
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+      .map((event) => toCalendarEvent(event, graph)),
+  });
+}
+
+/**
+ * Feed of the upcoming events, optionally in one city
+ */
+export function createUpcomingEventsCalendar(
+  graph: ContentGraph,
+  cityId?: string
+): string {
+  const city = cityId ? graph.getCity(cityId) : undefined;
+  const events = (city ? graph.getCityEvents(city.id) : graph.events).filter(
+    (event) => isUpcomingEvent(event)
+  );
+
+  return createEventsCalendar(events, graph, {
+    name: city ? `${SITE_NAME} – ${city.name}` : SITE_NAME,
+    description: city
+      ? `Upcoming ${SITE_NAME} events in ${city.name}`
+      : `Upcoming ${SITE_NAME} events`,
+    timezone: getEventTimezone(city),
+  });
+}
+
+/**
+ * Feed of a series' upcoming events
+ */
+export function createSeriesCalendar(
+  graph: ContentGraph,
+  series: EventSeries
+): string {
+  const city = series.cityId ? graph.getCity(series.cityId) : undefined;
+  const events = graph
+    .getSeriesEvents(series.id)
+    .filter((event) => isUpcomingEvent(event));
+
+  return createEventsCalendar(events, graph, {
+    name: series.title,
+    description: series.description,
+    timezone: getEventTimezone(city),
+  });
+}
+
+/**
+ * HTTP response for an .ics document; with a filename it downloads
+ */
+export function calendarResponse(ics: string, filename?: string): Response {
+  return new Response(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      ...(filename && {
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      }),
+    },
+  });
+}
@@ -0,0 +1,220 @@
+/**
+ * Event Schedule Analysis
+ * Places schedule items' "HH:MM" times on the event's day in its timezone
+ * and checks the agenda: slots that run backwards, overlap, leave gaps or
+ * fall outside the event, and slots whose presenter doesn't match their
+ * presentation.
+ */
+import { formatZonedIso, parseClockTime, zonedTimeToUtc } from "./event-time";
+import type { Event, Presentation, ScheduleItem } from "./types";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * A schedule item placed in time. Slots without an `endTime` run until the
+ * next slot starts, or until the event ends for the last one.
+ */
+export interface ScheduleSlot {
+  /** Position in `Event.schedule` */
+  index: number;
+  item: ScheduleItem;
+  start: Date;
+  end: Date;
+  /** False when the end comes from the next slot or the event */
+  hasEndTime: boolean;
+}
+
+/**
+ * A schedule problem, at an index of `Event.schedule`
+ */
+export interface ScheduleIssue {
+  index: number;
+  field: keyof ScheduleItem;
+  message: string;
+}
+
+export interface ScheduleAnalysis {
+  slots: ScheduleSlot[];
+  /** Problems that make the agenda wrong */
+  issues: ScheduleIssue[];
+  /** Gaps between slots: worth a look, but sometimes intended */
+  warnings: ScheduleIssue[];
+  /** From the first slot's start to the last slot's end */
+  totalMinutes: number;
+}
+
+/**
+ * Minutes between a slot's start and end times, or undefined without an
+ * end. An end before the start runs past midnight.
+ */
+export function getScheduleItemMinutes(item: ScheduleItem): number | undefined {
+  const start = parseClockTime(item.startTime);
+  const end = item.endTime ? parseClockTime(item.endTime) : undefined;
+  if (!start || !end) return undefined;
+
+  const minutes =
+    end.hours * 60 + end.minutes - (start.hours * 60 + start.minutes);
+  return minutes > 0 ? minutes : minutes + 24 * 60;
+}
+
+/**
+ * "1h 30m", "45m" or "2h"
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function formatClock(instant: Date, timeZone: string): string {
+  return formatZonedIso(instant, timeZone).slice(11, 16);
+}
+
+/**
+ * Places the event's schedule items in time. Start times earlier than the
+ * event's start are read as the next day when the event runs past midnight.
+ * End times before their slot's start are read as the next day when that
+ * makes the slot less than half a day long, and as running backwards
+ * otherwise.
+ */
+export function getScheduleSlots(
+  event: Pick<Event, "startDate" | "endDate" | "schedule">,
+  timeZone: string
+): ScheduleSlot[] {
+  const eventStart = new Date(event.startDate);
+  const eventEnd = new Date(event.endDate);
+  const date = formatZonedIso(eventStart, timeZone).slice(0, 10);
+
+  const place = (
+    time: string,
+    notBefore: Date,
+    latest: Date
+  ): Date | undefined => {
+    const clock = parseClockTime(time);
+    if (!clock) return undefined;
+    const instant = zonedTimeToUtc(date, clock, timeZone);
+    const nextDay = new Date(instant.getTime() + DAY_MS);
+    return instant < notBefore && nextDay <= latest ? nextDay : instant;
+  };
+
+  const placed = (event.schedule ?? []).flatMap((item, index) => {
+    const start = place(item.startTime, eventStart, eventEnd);
+    if (!start) return [];
+    const end = item.endTime
+      ? place(item.endTime, start, new Date(start.getTime() + DAY_MS / 2))
+      : undefined;
+    return [{ index, item, start, end }];
+  });
+
+  const byStart = [...placed].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+  return placed.map((slot) => {
+    const next = byStart.find((other) => other.start > slot.start);
+    return {
+      ...slot,
+      end: slot.end ?? next?.start ?? eventEnd,
+      hasEndTime: slot.end !== undefined,
+    };
+  });
+}
+
+/**
+ * Checks an event's schedule against its time window and presentations
+ */
+export function analyzeSchedule(
+  event: Pick<Event, "startDate" | "endDate" | "schedule" | "presentationIds">,
+  timeZone: string,
+  presentationsById: Map<string, Pick<Presentation, "presenterId">>
+): ScheduleAnalysis {
+  const slots = getScheduleSlots(event, timeZone);
+  const issues: ScheduleIssue[] = [];
+  const warnings: ScheduleIssue[] = [];
+  const eventStart = new Date(event.startDate);
+  const eventEnd = new Date(event.endDate);
+  const clock = (instant: Date) => formatClock(instant, timeZone);
+
+  for (const { index, item, start, end, hasEndTime } of slots) {
+    if (hasEndTime && end <= start) {
+      issues.push({
+        index,
+        field: "endTime",
+        message: `"${item.title}" ends at ${item.endTime}, not after it starts at ${item.startTime}`,
+      });
+    }
+    if (start < eventStart || start >= eventEnd) {
+      issues.push({
+        index,
+        field: "startTime",
+        message: `"${item.title}" starts at ${item.startTime}, outside the event (${clock(eventStart)}–${clock(eventEnd)})`,
+      });
+    } else if (hasEndTime && end > eventEnd) {
+      issues.push({
+        index,
+        field: "endTime",
+        message: `"${item.title}" ends at ${item.endTime}, after the event ends at ${clock(eventEnd)}`,
+      });
+    }
+
+    const presentation = item.presentationId
+      ? presentationsById.get(item.presentationId)
+      : undefined;
+    if (
+      item.presentationId &&
+      !event.presentationIds?.includes(item.presentationId)
+    ) {
+      issues.push({
+        index,
+        field: "presentationId",
+        message: `Presentation "${item.presentationId}" isn't in the event's presentationIds`,
+      });
+    }
+    if (
+      presentation &&
+      item.presenterId &&
+      item.presenterId !== presentation.presenterId
+    ) {
+      issues.push({
+        index,
+        field: "presenterId",
+        message: `Presenter "${item.presenterId}" doesn't match presentation "${item.presentationId}", presented by "${presentation.presenterId}"`,
+      });
+    }
+  }
+
+  // Overlaps and gaps, in start order; backwards slots were reported above
+  const ordered = slots
+    .filter((slot) => slot.end > slot.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  let previous = ordered[0];
+  for (const slot of ordered.slice(1)) {
+    if (slot.start < previous.end) {
+      issues.push({
+        index: slot.index,
+        field: "startTime",
+        message: `"${slot.item.title}" starts at ${slot.item.startTime}, before "${previous.item.title}" ends at ${clock(previous.end)}`,
+      });
+    } else if (slot.start > previous.end) {
+      warnings.push({
+        index: slot.index,
+        field: "startTime",
+        message: `${formatMinutes((slot.start.getTime() - previous.end.getTime()) / MINUTE_MS)} gap before "${slot.item.title}" (${clock(previous.end)}–${slot.item.startTime})`,
+      });
+    }
+    // Compare later slots with whichever has run the longest so far
+    if (slot.end > previous.end) previous = slot;
+  }
+
+  return {
+    slots,
+    issues,
+    warnings,
+    totalMinutes: previous
+      ? Math.round(
+          (previous.end.getTime() - ordered[0].start.getTime()) / MINUTE_MS
+        )
+      : 0,
+  };
+}
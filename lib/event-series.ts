@@ -0,0 +1,254 @@
+/**
+ * Event Series
+ * A series (content/event-series.json) is expanded into one event per
+ * occurrence of its recurrence rule, with the series' location, city,
+ * sponsors and schedule template. An event in events.json with the series'
+ * `seriesId` replaces the generated event for its date (or for its
+ * `seriesOccurrence` when rescheduled) and takes any of those defaults it
+ * leaves out.
+ */
+import { SITE_NAME } from "./constants";
+import {
+  formatZonedIso,
+  getEventTimezone,
+  parseClockTime,
+  zonedRangeToUtc,
+} from "./event-time";
+import { DEFAULT_LOCALE, INTL_LOCALES, type Locale } from "./i18n";
+import type { City, Event, EventSeries, Recurrence } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Stops runaway rules, e.g. a weekly series with an `until` decades away */
+export const MAX_OCCURRENCES = 520;
+
+const WEEKDAYS: Recurrence["weekday"][] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const WEEKS: Record<NonNullable<Recurrence["week"]>, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  last: -1,
+};
+
+/** Fields an occurrence takes from its series unless the event sets them */
+const SERIES_DEFAULTS = [
+  "cityId",
+  "sponsorIds",
+  "venueSponsorId",
+  "schedule",
+  "rsvpOpen",
+  "capacity",
+  "ticketPriceSats",
+  "attendanceMode",
+  "streamUrl",
+] as const satisfies readonly (keyof Event & keyof EventSeries)[];
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The `week`-th `weekday` of a month (or its last one), as a UTC date
+ */
+function getMonthlyDate(
+  year: number,
+  month: number,
+  weekday: number,
+  week: number
+): Date {
+  if (week === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    const back = (last.getUTCDay() - weekday + 7) % 7;
+    return new Date(last.getTime() - back * DAY_MS);
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  const ahead = (weekday - first.getUTCDay() + 7) % 7;
+  return new Date(first.getTime() + (ahead + (week - 1) * 7) * DAY_MS);
+}
+
+/**
+ * Occurrence dates (YYYY-MM-DD) of a recurrence rule in order, without the
+ * skipped ones. `count` counts skipped occurrences too, as in iCalendar.
+ */
+export function getSeriesOccurrences(recurrence: Recurrence): string[] {
+  const interval = recurrence.interval ?? 1;
+  const weekday = WEEKDAYS.indexOf(recurrence.weekday);
+  const start = parseDate(recurrence.startDate);
+  const until = recurrence.until ? parseDate(recurrence.until) : undefined;
+  const limit = Math.min(recurrence.count ?? Infinity, MAX_OCCURRENCES);
+
+  const dates: Date[] = [];
+  const next =
+    recurrence.frequency === "weekly"
+      ? (n: number) =>
+          new Date(
+            start.getTime() +
+              (((weekday - start.getUTCDay() + 7) % 7) + n * interval * 7) *
+                DAY_MS
+          )
+      : (n: number) =>
+          getMonthlyDate(
+            start.getUTCFullYear(),
+            start.getUTCMonth() + n * interval,
+            weekday,
+            WEEKS[recurrence.week ?? "first"]
+          );
+
+  for (let n = 0; dates.length < limit; n++) {
+    const date = next(n);
+    if (until && date > until) break;
+    // The first month's occurrence can fall before the start date
+    if (date >= start) dates.push(date);
+  }
+
+  const skipped = new Set(recurrence.exceptions);
+  return dates.map(formatDate).filter((date) => !skipped.has(date));
+}
+
+/**
+ * "Every third Tuesday of the month" or "Every 2 weeks on Tuesday"
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+  const interval = recurrence.interval ?? 1;
+  const weekday =
+    recurrence.weekday.charAt(0).toUpperCase() + recurrence.weekday.slice(1);
+
+  if (recurrence.frequency === "weekly") {
+    return interval === 1
+      ? `Every ${weekday}`
+      : `Every ${interval} weeks on ${weekday}`;
+  }
+  const day = `${recurrence.week ?? "first"} ${weekday}`;
+  return interval === 1
+    ? `Every ${day} of the month`
+    : `Every ${interval} months on the ${day}`;
+}
+
+/**
+ * Date (YYYY-MM-DD) of the series occurrence an event stands for
+ */
+export function getOccurrenceDate(
+  event: Pick<Event, "startDate" | "seriesOccurrence">,
+  timeZone: string
+): string {
+  return (
+    event.seriesOccurrence ??
+    formatZonedIso(new Date(event.startDate), timeZone).slice(0, 10)
+  );
+}
+
+export function getSeriesEventSlug(
+  series: Pick<EventSeries, "slug">,
+  date: string
+): string {
+  return `${series.slug}-${date}`;
+}
+
+/**
+ * The event generated for one occurrence of a series
+ */
+export function createSeriesEvent(
+  series: EventSeries,
+  date: string,
+  timeZone: string,
+  locale: Locale = DEFAULT_LOCALE
+): Event {
+  const { recurrence } = series;
+  const { start, end } = zonedRangeToUtc(
+    date,
+    {
+      start: parseClockTime(recurrence.startTime)!,
+      end: parseClockTime(recurrence.endTime),
+    },
+    timeZone
+  );
+  const label = new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    timeZone: "UTC",
+    ...(recurrence.frequency === "monthly"
+      ? { month: "long", year: "numeric" }
+      : { dateStyle: "long" }),
+  }).format(parseDate(date));
+  const title = `${series.title} – ${label}`;
+
+  return {
+    title,
+    slug: getSeriesEventSlug(series, date),
+    startDate: formatZonedIso(start, timeZone),
+    endDate: formatZonedIso(end, timeZone),
+    location: series.location,
+    description: series.description,
+    ...applySeriesDefaults({}, series),
+    seriesId: series.id,
+    seriesOccurrence: date,
+    sections: [],
+    meta: { ...series.meta, title: `${title} | ${SITE_NAME}` },
+    ...(series.status && { status: series.status }),
+    ...(series.publishAt && { publishAt: series.publishAt }),
+  };
+}
+
+function applySeriesDefaults<T extends Partial<Event>>(
+  event: T,
+  series: EventSeries
+): T {
+  const defaults = Object.fromEntries(
+    SERIES_DEFAULTS.filter(
+      (field) => series[field] !== undefined && event[field] === undefined
+    ).map((field) => [field, series[field]])
+  );
+  return { ...event, ...defaults };
+}
+
+/**
+ * Events with every series expanded: the listed events (with their series'
+ * defaults filled in) followed by the generated occurrences they don't
+ * replace. Events pointing at a series that isn't given are kept as is.
+ */
+export function expandEventSeries(
+  events: Event[],
+  series: EventSeries[],
+  cities: City[],
+  locale: Locale = DEFAULT_LOCALE
+): Event[] {
+  if (series.length === 0) return events;
+
+  const seriesById = new Map(series.map((s) => [s.id, s]));
+  const citiesById = new Map(cities.map((c) => [c.id, c]));
+  const timeZoneOf = (cityId?: string) =>
+    getEventTimezone(cityId ? citiesById.get(cityId) : undefined);
+
+  const replaced = new Set<string>();
+  const listed = events.map((event) => {
+    const parent = event.seriesId ? seriesById.get(event.seriesId) : undefined;
+    if (!parent) return event;
+
+    const date = getOccurrenceDate(
+      event,
+      timeZoneOf(event.cityId ?? parent.cityId)
+    );
+    replaced.add(`${parent.id}:${date}`);
+    return applySeriesDefaults(event, parent);
+  });
+
+  const generated = series.flatMap((s) =>
+    getSeriesOccurrences(s.recurrence)
+      .filter((date) => !replaced.has(`${s.id}:${date}`))
+      .map((date) => createSeriesEvent(s, date, timeZoneOf(s.cityId), locale))
+  );
+
+  return [...listed, ...generated];
+}
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { formatZonedIso, getUtcOffset, zonedTimeToUtc } from "./event-time";
+
+test("formats instants with milliseconds at whole-minute offsets", () => {
+  const instant = new Date("2025-11-19T02:00:00.008Z");
+
+  assert.equal(
+    formatZonedIso(instant, "America/Vancouver"),
+    "2025-11-18T18:00:00-08:00"
+  );
+  assert.equal(getUtcOffset(instant, "America/Vancouver"), "-08:00");
+  assert.equal(
+    getUtcOffset(new Date("2025-07-01T12:00:00.999Z"), "Asia/Kolkata"),
+    "+05:30"
+  );
+});
+
+test("converts wall-clock times across a DST change", () => {
+  assert.equal(
+    zonedTimeToUtc(
+      "2025-03-09",
+      { hours: 18, minutes: 0 },
+      "America/Vancouver"
+    ).toISOString(),
+    "2025-03-10T01:00:00.000Z"
+  );
+});
@@ -0,0 +1,268 @@
+/**
+ * Event Times
+ * Events store ISO 8601 `startDate`/`endDate` with the UTC offset of the
+ * hosting city's timezone (`cityId` → City.timezone). Schedule items store
+ * 24-hour "HH:MM" wall-clock times in that same timezone. These helpers
+ * convert, compare and format them.
+ */
+import { DEFAULT_LOCALE, INTL_LOCALES, type Locale } from "./i18n";
+import type { City, Event } from "./types";
+
+/** Timezone for events without a city */
+export const DEFAULT_TIMEZONE = "America/Vancouver";
+
+/** Length of an event with no end time */
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ClockTime {
+  hours: number;
+  minutes: number;
+}
+
+export interface TimeRange {
+  start: ClockTime;
+  end?: ClockTime;
+}
+
+export interface EventTimes {
+  start: Date;
+  end: Date;
+}
+
+export function getEventTimezone(city?: Pick<City, "timezone">): string {
+  return city?.timezone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Reads "18:00", "6:00 PM", "6pm" or "6:30pm"
+ */
+export function parseClockTime(text: string): ClockTime | undefined {
+  const match = text
+    .trim()
+    .match(/^(\d{1,2})(?::(\d{2}))?\s*([AaPp]\.?[Mm]\.?)?$/);
+  if (!match) return undefined;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.[0].toUpperCase();
+  if (!match[2] && !meridiem) return undefined;
+
+  if (meridiem === "P" && hours !== 12) hours += 12;
+  if (meridiem === "A" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return undefined;
+
+  return { hours, minutes };
+}
+
+/**
+ * Reads a time range like "6:00 PM - 8:00 PM", "18:00–20:00" or "6 to 8 PM".
+ * A meridiem given only at the end applies to the start too.
+ */
+export function parseTimeRange(text: string): TimeRange | undefined {
+  const [startText, endText] = text.split(/\s*(?:-|–|—|\bto\b)\s*/i);
+  const endMeridiem = endText?.match(/[AaPp]\.?[Mm]\.?\s*$/)?.[0];
+
+  const start =
+    parseClockTime(startText) ??
+    (endMeridiem ? parseClockTime(`${startText} ${endMeridiem}`) : undefined);
+  if (!start) return undefined;
+
+  const end = endText ? parseClockTime(endText) : undefined;
+  return end ? { start, end } : { start };
+}
+
+/**
+ * Offset of `timeZone` from UTC at `instant`, in milliseconds. Intl leaves
+ * out milliseconds, so the instant is compared at whole seconds.
+ */
+function getTimezoneOffset(instant: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+  const wallTime = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return wallTime - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant when clocks in `timeZone` show `time` on `date` (YYYY-MM-DD)
+ */
+export function zonedTimeToUtc(
+  date: string,
+  time: ClockTime,
+  timeZone: string
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallTime = Date.UTC(year, month - 1, day, time.hours, time.minutes);
+
+  // Guess with the offset at the wall time, then correct once for DST changes
+  const guess = wallTime - getTimezoneOffset(new Date(wallTime), timeZone);
+  return new Date(wallTime - getTimezoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Start and end instants of a time range on `date` (YYYY-MM-DD) in
+ * `timeZone`. Without an end the event lasts two hours; an end before the
+ * start runs past midnight.
+ */
+export function zonedRangeToUtc(
+  date: string,
+  range: TimeRange,
+  timeZone: string
+): EventTimes {
+  const start = zonedTimeToUtc(date, range.start, timeZone);
+  let end = range.end
+    ? zonedTimeToUtc(date, range.end, timeZone)
+    : new Date(start.getTime() + DEFAULT_DURATION_MS);
+  if (end.getTime() === start.getTime()) {
+    end = new Date(start.getTime() + DEFAULT_DURATION_MS);
+  } else if (end < start) {
+    end = new Date(end.getTime() + DAY_MS);
+  }
+  return { start, end };
+}
+
+/**
+ * "HH:MM", as stored in schedule items
+ */
+export function formatClockTime({ hours, minutes }: ClockTime): string {
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * ISO 8601 timestamp of `instant` in `timeZone`, with its UTC offset,
+ * e.g. "2025-11-18T18:00:00-08:00"
+ */
+export function formatZonedIso(instant: Date, timeZone: string): string {
+  const offset = getTimezoneOffset(instant, timeZone);
+  const local = new Date(instant.getTime() + offset).toISOString();
+  const sign = offset < 0 ? "-" : "+";
+  const minutes = Math.abs(offset) / 60000;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${local.slice(0, 19)}${sign}${hh}:${mm}`;
+}
+
+/**
+ * UTC offset in `timeZone` at `instant`, formatted like "-08:00"
+ */
+export function getUtcOffset(instant: Date, timeZone: string): string {
+  return formatZonedIso(instant, timeZone).slice(19);
+}
+
+export function getEventTimes(
+  event: Pick<Event, "startDate" | "endDate">
+): EventTimes {
+  return { start: new Date(event.startDate), end: new Date(event.endDate) };
+}
+
+/**
+ * True until the event has ended
+ */
+export function isUpcomingEvent(
+  event: Pick<Event, "endDate">,
+  now = new Date()
+): boolean {
+  return new Date(event.endDate) >= now;
+}
+
+/**
+ * True from the event's start until it ends
+ */
+export function isLiveEvent(
+  event: Pick<Event, "startDate" | "endDate">,
+  now = new Date()
+): boolean {
+  return new Date(event.startDate) <= now && isUpcomingEvent(event, now);
+}
+
+/**
+ * Upcoming events soonest first, past events most recent first
+ */
+export function splitEventsByTime<
+  T extends Pick<Event, "startDate" | "endDate">,
+>(events: T[], now = new Date()): { upcoming: T[]; past: T[] } {
+  const byStart = [...events].sort(
+    (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+  );
+  return {
+    upcoming: byStart.filter((event) => isUpcomingEvent(event, now)),
+    past: byStart.filter((event) => !isUpcomingEvent(event, now)).reverse(),
+  };
+}
+
+/**
+ * "Tuesday, November 18, 2025" in the event's timezone
+ */
+export function formatEventDate(
+  event: Pick<Event, "startDate">,
+  timeZone: string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    timeZone,
+    dateStyle: "full",
+  }).format(new Date(event.startDate));
+}
+
+/**
+ * "6:00 PM – 8:00 PM PST" in the event's timezone
+ */
+export function formatEventTimeRange(
+  event: Pick<Event, "startDate" | "endDate">,
+  timeZone: string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const format = new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const zone = new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    timeZone,
+    timeZoneName: "short",
+  })
+    .formatToParts(new Date(event.startDate))
+    .find((part) => part.type === "timeZoneName")?.value;
+
+  const range = format.formatRange(
+    new Date(event.startDate),
+    new Date(event.endDate)
+  );
+  return zone ? `${range} ${zone}` : range;
+}
+
+/**
+ * A schedule item's "HH:MM" time for display, e.g. "6:30 PM"
+ */
+export function formatScheduleTime(
+  time: string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const clock = parseClockTime(time);
+  if (!clock) return time;
+
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    timeZone: "UTC",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(Date.UTC(1970, 0, 1, clock.hours, clock.minutes)));
+}
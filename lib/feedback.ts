@@ -0,0 +1,299 @@
+/**
+ * Event Feedback
+ * Surveys attendees fill in after an event: a 1–5 rating of the event and
+ * of each talk in its `presentationIds`, each with an optional comment.
+ * Responses are stored in the local data directory, one per attendee and
+ * event; answering again replaces the earlier response.
+ *
+ * Attendees with an RSVP are matched by it, whether they come back signed
+ * in or with their RSVP token. Signed-in visitors without an RSVP are
+ * matched by Clerk user ID.
+ */
+import { randomUUID } from "crypto";
+import { z } from "zod";
+
+import type { ContentGraph } from "./content-graph";
+import { getDataPath } from "./data-dir";
+import { isUpcomingEvent } from "./event-time";
+import { createJsonStore } from "./json-store";
+import { findRsvp, type Rsvp, type RsvpLookup } from "./rsvp";
+import type { Event, Presentation } from "./types";
+
+export const FEEDBACK_STORE = getDataPath("feedback.json");
+
+/** Days after an event ends that feedback is still taken */
+export const FEEDBACK_WINDOW_DAYS = 30;
+
+/** Ratings a talk needs before it's ranked on the public top talks page */
+export const MIN_PUBLIC_RATINGS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RatingSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export type Rating = z.infer<typeof RatingSchema>;
+
+export const FeedbackSchema = z.object({
+  id: z.string(),
+  /** Slug of the event */
+  eventSlug: z.string(),
+  /** "rsvp:<RSVP ID>" or "user:<Clerk user ID>" */
+  respondent: z.string(),
+  overall: RatingSchema,
+  /** Ratings by presentation ID; talks the attendee skipped are left out */
+  presentations: z.record(z.string(), RatingSchema),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type Feedback = z.infer<typeof FeedbackSchema>;
+
+export const FeedbackRequestSchema = z.object({
+  /** RSVP token, for attendees who aren't signed in */
+  token: z.string().optional(),
+  overall: RatingSchema,
+  presentations: z.record(z.string(), RatingSchema).default({}),
+});
+
+export type FeedbackRequest = z.infer<typeof FeedbackRequestSchema>;
+
+/**
+ * Thrown when feedback isn't taken for the event or the request doesn't fit it
+ */
+export class FeedbackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedbackError";
+  }
+}
+
+/**
+ * A talk as shown on the feedback form
+ */
+export interface FeedbackPresentation {
+  id: string;
+  title: string;
+  presenter?: string;
+}
+
+export interface RatingSummary {
+  count: number;
+  /** Undefined without ratings */
+  average?: number;
+  /** Number of 1- to 5-star ratings */
+  distribution: [number, number, number, number, number];
+  comments: string[];
+}
+
+export interface FeedbackSummary {
+  responses: number;
+  overall: RatingSummary;
+  /** By presentation ID */
+  presentations: Record<string, RatingSummary>;
+}
+
+const store = createJsonStore(
+  FEEDBACK_STORE,
+  z.object({ responses: z.array(FeedbackSchema) }),
+  () => ({ responses: [] })
+);
+
+export async function readFeedback(): Promise<Feedback[]> {
+  return (await store.read()).responses;
+}
+
+export async function getEventFeedback(eventSlug: string): Promise<Feedback[]> {
+  return (await readFeedback()).filter((f) => f.eventSlug === eventSlug);
+}
+
+/**
+ * Feedback opens once the event has ended and closes FEEDBACK_WINDOW_DAYS
+ * later
+ */
+export function isFeedbackOpen(
+  event: Pick<Event, "endDate">,
+  now = new Date()
+): boolean {
+  return (
+    !isUpcomingEvent(event, now) &&
+    now.getTime() <=
+      new Date(event.endDate).getTime() + FEEDBACK_WINDOW_DAYS * DAY_MS
+  );
+}
+
+/**
+ * Who is answering, given the event's RSVPs: the attendee's RSVP when there
+ * is one (looked up by token, or by account when signed in), else their
+ * account. Undefined when the token matches no active RSVP, or for anonymous
+ * visitors without one.
+ */
+export function getRespondent(
+  rsvps: Rsvp[],
+  { token, userId }: { token?: string; userId?: string | null }
+): string | undefined {
+  const lookup: RsvpLookup | undefined = token
+    ? { token }
+    : userId
+      ? { userId }
+      : undefined;
+  const rsvp = lookup ? findRsvp(rsvps, lookup) : undefined;
+
+  if (rsvp && rsvp.status !== "cancelled") return `rsvp:${rsvp.id}`;
+  if (token) return undefined;
+  return userId ? `user:${userId}` : undefined;
+}
+
+/**
+ * The event's talks attendees can rate: its `presentationIds`
+ */
+export function getFeedbackPresentations(
+  graph: ContentGraph,
+  event: Pick<Event, "presentationIds">
+): FeedbackPresentation[] {
+  return (event.presentationIds ?? []).flatMap((id) => {
+    const presentation = graph.getPresentation(id);
+    return presentation
+      ? [
+          {
+            id,
+            title: presentation.title,
+            presenter: graph.getPresentationPresenter(presentation)?.name,
+          },
+        ]
+      : [];
+  });
+}
+
+export function findFeedback(
+  responses: Feedback[],
+  eventSlug: string,
+  respondent: string
+): Feedback | undefined {
+  return responses.find(
+    (f) => f.eventSlug === eventSlug && f.respondent === respondent
+  );
+}
+
+/**
+ * Saves a respondent's feedback for an event, replacing any earlier
+ * response. Only the event's own presentations can be rated.
+ */
+export async function submitFeedback(
+  event: Pick<Event, "slug" | "endDate" | "presentationIds">,
+  respondent: string,
+  request: Omit<FeedbackRequest, "token">
+): Promise<{ feedback: Feedback; created: boolean }> {
+  if (!isFeedbackOpen(event)) {
+    throw new FeedbackError("Feedback isn't open for this event");
+  }
+  const unknown = Object.keys(request.presentations).find(
+    (id) => !event.presentationIds?.includes(id)
+  );
+  if (unknown) {
+    throw new FeedbackError(`"${unknown}" isn't a talk at this event`);
+  }
+
+  return store.update(({ responses }) => {
+    const now = new Date().toISOString();
+    const existing = findFeedback(responses, event.slug, respondent);
+    if (existing) {
+      existing.overall = request.overall;
+      existing.presentations = request.presentations;
+      existing.updatedAt = now;
+      return { feedback: existing, created: false };
+    }
+
+    const feedback: Feedback = {
+      id: randomUUID(),
+      eventSlug: event.slug,
+      respondent,
+      overall: request.overall,
+      presentations: request.presentations,
+      createdAt: now,
+      updatedAt: now,
+    };
+    responses.push(feedback);
+    return { feedback, created: true };
+  });
+}
+
+export function summarizeRatings(ratings: Rating[]): RatingSummary {
+  const distribution: RatingSummary["distribution"] = [0, 0, 0, 0, 0];
+  ratings.forEach(({ rating }) => distribution[rating - 1]++);
+  const total = ratings.reduce((sum, { rating }) => sum + rating, 0);
+
+  return {
+    count: ratings.length,
+    average: ratings.length > 0 ? total / ratings.length : undefined,
+    distribution,
+    comments: ratings.flatMap(({ comment }) => (comment ? [comment] : [])),
+  };
+}
+
+/**
+ * Ratings of one presentation across all responses
+ */
+export function getPresentationRatings(
+  responses: Feedback[],
+  presentationId: string
+): Rating[] {
+  return responses.flatMap((f) => {
+    const rating = f.presentations[presentationId];
+    return rating ? [rating] : [];
+  });
+}
+
+/**
+ * Aggregated results of an event's responses
+ */
+export function summarizeFeedback(
+  responses: Feedback[],
+  presentationIds: string[]
+): FeedbackSummary {
+  return {
+    responses: responses.length,
+    overall: summarizeRatings(responses.map((f) => f.overall)),
+    presentations: Object.fromEntries(
+      presentationIds.map((id) => [
+        id,
+        summarizeRatings(getPresentationRatings(responses, id)),
+      ])
+    ),
+  };
+}
+
+/**
+ * Talks whose presenters opted in with `publicRatings` and that have at
+ * least MIN_PUBLIC_RATINGS ratings, best rated first. Comments are left out.
+ */
+export function getTopTalks<
+  T extends Pick<Presentation, "id" | "publicRatings">,
+>(
+  responses: Feedback[],
+  presentations: T[]
+): { presentation: T; summary: Omit<RatingSummary, "comments"> }[] {
+  return presentations
+    .filter((presentation) => presentation.publicRatings)
+    .map((presentation) => {
+      const { count, average, distribution } = summarizeRatings(
+        getPresentationRatings(responses, presentation.id)
+      );
+      return { presentation, summary: { count, average, distribution } };
+    })
+    .filter(({ summary }) => summary.count >= MIN_PUBLIC_RATINGS)
+    .sort(
+      (a, b) =>
+        b.summary.average! - a.summary.average! ||
+        b.summary.count - a.summary.count
+    );
+}
+
+/**
+ * "4.3" for an average rating
+ */
+export function formatRating(average: number | undefined): string {
+  return average === undefined ? "–" : average.toFixed(1);
+}
@@ -0,0 +1,145 @@
+/**
+ * Locale Utilities
+ * English is served without a prefix (/events); other locales live under
+ * their own segment (/fr/events)
+ */
+import { notFound } from "next/navigation";
+
+import { SITE_URL } from "./constants";
+
+export const LOCALES = ["en", "fr"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Locales served under a /<locale> prefix */
+export const PREFIXED_LOCALES = LOCALES.filter(
+  (locale) => locale !== DEFAULT_LOCALE
+);
+
+/** Open Graph locale per site locale */
+export const OPEN_GRAPH_LOCALES: Record<Locale, string> = {
+  en: "en_CA",
+  fr: "fr_CA",
+};
+
+/** BCP 47 locale for Intl date and number formatting */
+export const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-CA",
+  fr: "fr-CA",
+};
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  fr: "Français",
+};
+
+/** Routes that only exist in English (admin tools, sign-in, API) */
+const UNLOCALIZED_PATHS = ["/api", "/admin", "/login", "/social-media"];
+
+export interface LocaleOptions {
+  locale?: Locale;
+}
+
+/**
+ * Props of a page that is also served under app/[locale]
+ */
+export interface LocalePageProps {
+  params: Promise<{ locale?: string }>;
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Reads the locale from route params; routes outside app/[locale] are English.
+ * Unknown locales, and the unprefixed default (/en/events), are a 404.
+ */
+export async function getPageLocale(
+  params: Promise<{ locale?: string }>
+): Promise<Locale> {
+  const { locale } = await params;
+  if (locale === undefined) {
+    return DEFAULT_LOCALE;
+  }
+  if (!isLocale(locale) || locale === DEFAULT_LOCALE) {
+    notFound();
+  }
+  return locale;
+}
+
+/**
+ * Returns the locale a pathname is served in
+ */
+export function getLocaleFromPath(pathname: string): Locale {
+  const segment = pathname.split("/")[1];
+  return isLocale(segment) ? segment : DEFAULT_LOCALE;
+}
+
+/**
+ * Removes a locale prefix: "/fr/events" → "/events"
+ */
+export function stripLocale(pathname: string): string {
+  const segment = pathname.split("/")[1];
+  if (!isLocale(segment)) {
+    return pathname;
+  }
+  return pathname.slice(segment.length + 1) || "/";
+}
+
+/**
+ * Prefixes a site path for a locale: ("/events", "fr") → "/fr/events".
+ * Anything that isn't a translated page (external URLs, anchors, API and
+ * admin routes) is returned unchanged.
+ */
+export function localizePath(path: string, locale: Locale): string {
+  if (!path.startsWith("/") || path.startsWith("//")) {
+    return path;
+  }
+
+  const unprefixed = stripLocale(path);
+  if (
+    UNLOCALIZED_PATHS.some(
+      (route) => unprefixed === route || unprefixed.startsWith(`${route}/`)
+    )
+  ) {
+    return unprefixed;
+  }
+  if (locale === DEFAULT_LOCALE) {
+    return unprefixed;
+  }
+  return unprefixed === "/" ? `/${locale}` : `/${locale}${unprefixed}`;
+}
+
+/**
+ * Absolute URL of a site path in a locale
+ */
+export function localizeUrl(path: string, locale: Locale): string {
+  return `${SITE_URL}${localizePath(path, locale)}`;
+}
+
+/**
+ * Site path of an absolute site URL, or undefined for external URLs
+ */
+export function getSitePath(url: string): string | undefined {
+  return url.startsWith(SITE_URL)
+    ? url.slice(SITE_URL.length) || "/"
+    : undefined;
+}
+
+/**
+ * hreflang alternates for a site path in the given locales, including
+ * x-default
+ */
+export function getLanguageAlternates(
+  path: string,
+  locales: readonly Locale[] = LOCALES
+): Record<string, string> {
+  return {
+    ...Object.fromEntries(
+      locales.map((locale) => [locale, localizeUrl(path, locale)])
+    ),
+    "x-default": localizeUrl(path, DEFAULT_LOCALE),
+  };
+}
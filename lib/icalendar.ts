@@ -0,0 +1,123 @@
+/**
+ * iCalendar Output
+ * Minimal RFC 5545 writer for calendar feeds and single-event downloads.
+ * Times are written in UTC; the calendar's own timezone is only a display
+ * hint for clients (X-WR-TIMEZONE).
+ */
+
+export interface CalendarEvent {
+  /** Globally unique and stable across updates */
+  uid: string;
+  title: string;
+  start: Date;
+  end: Date;
+  /** Write `start`/`end` as dates (their UTC calendar day) */
+  allDay?: boolean;
+  description?: string;
+  location?: string;
+  url?: string;
+  /** UID of the parent, e.g. of the series the event belongs to */
+  parentUid?: string;
+}
+
+export interface Calendar {
+  name: string;
+  description?: string;
+  /** IANA timezone clients should display the feed in */
+  timezone?: string;
+  events: CalendarEvent[];
+}
+
+const PRODUCT_ID = "-//Builder Vancouver//Events//EN";
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Splits lines longer than 75 octets, continuing with a leading space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatEvent(event: CalendarEvent, stamp: Date): string[] {
+  const times = event.allDay
+    ? [
+        `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+        `DTEND;VALUE=DATE:${formatDate(event.end)}`,
+      ]
+    : [
+        `DTSTART:${formatDateTime(event.start)}`,
+        `DTEND:${formatDateTime(event.end)}`,
+      ];
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    ...times,
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(event.description
+      ? [`DESCRIPTION:${escapeText(event.description)}`]
+      : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    ...(event.parentUid
+      ? [`RELATED-TO;RELTYPE=PARENT:${event.parentUid}`]
+      : []),
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Serializes a calendar as an .ics document
+ */
+export function createCalendar(calendar: Calendar, now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    ...(calendar.description
+      ? [`X-WR-CALDESC:${escapeText(calendar.description)}`]
+      : []),
+    ...(calendar.timezone ? [`X-WR-TIMEZONE:${calendar.timezone}`] : []),
+    ...calendar.events.flatMap((event) => formatEvent(event, now)),
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,224 @@
+/**
+ * JSON Patch
+ * RFC 6902 patches between two JSON values. Every replaced or removed value
+ * is preceded by a `test` operation holding the old value, which makes the
+ * patches reversible and lets them fail loudly when applied to a document
+ * that has changed in the meantime.
+ */
+
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "test"; path: string; value: unknown };
+
+export class JsonPatchError extends Error {
+  constructor(
+    public path: string,
+    message: string
+  ) {
+    super(`${message} at "${path || "/"}"`);
+    this.name = "JsonPatchError";
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(path: string): string[] {
+  if (path === "") return [];
+  if (!path.startsWith("/")) {
+    throw new JsonPatchError(path, "Invalid JSON pointer");
+  }
+  return path
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+    );
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Patch turning `before` into `after`. Objects are compared key by key;
+ * arrays and other values are replaced whole. `undefined` stands for a
+ * missing document, so creating or deleting one is an add or remove at "".
+ */
+export function createJsonPatch(
+  before: unknown,
+  after: unknown,
+  path = ""
+): JsonPatchOperation[] {
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ op: "add", path, value: after }];
+  if (after === undefined) {
+    return [
+      { op: "test", path, value: before },
+      { op: "remove", path },
+    ];
+  }
+  if (isDeepEqual(before, after)) return [];
+
+  if (isObject(before) && isObject(after)) {
+    const keys = [
+      ...Object.keys(before),
+      ...Object.keys(after).filter((key) => !(key in before)),
+    ];
+    return keys.flatMap((key) =>
+      createJsonPatch(before[key], after[key], `${path}/${escapeToken(key)}`)
+    );
+  }
+
+  return [
+    { op: "test", path, value: before },
+    { op: "replace", path, value: after },
+  ];
+}
+
+/**
+ * Patch that undoes `patch`. Only works on patches from createJsonPatch,
+ * whose `test` operations record the values being replaced or removed.
+ */
+export function invertJsonPatch(
+  patch: JsonPatchOperation[]
+): JsonPatchOperation[] {
+  const inverse: JsonPatchOperation[][] = [];
+  let tested: { path: string; value: unknown } | undefined;
+
+  for (const operation of patch) {
+    switch (operation.op) {
+      case "test":
+        tested = operation;
+        continue;
+      case "add":
+        inverse.push([
+          { op: "test", path: operation.path, value: operation.value },
+          { op: "remove", path: operation.path },
+        ]);
+        break;
+      case "remove":
+      case "replace":
+        if (!tested || tested.path !== operation.path) {
+          throw new JsonPatchError(
+            operation.path,
+            `Can't invert "${operation.op}" without the old value`
+          );
+        }
+        inverse.push(
+          operation.op === "remove"
+            ? [{ op: "add", path: operation.path, value: tested.value }]
+            : [
+                { op: "test", path: operation.path, value: operation.value },
+                { op: "replace", path: operation.path, value: tested.value },
+              ]
+        );
+        break;
+    }
+    tested = undefined;
+  }
+
+  return inverse.reverse().flat();
+}
+
+/**
+ * Applies a patch without modifying `document`. Throws JsonPatchError when
+ * a path doesn't exist or a `test` operation doesn't match.
+ */
+export function applyJsonPatch(
+  document: unknown,
+  patch: JsonPatchOperation[]
+): unknown {
+  let result = structuredClone(document);
+
+  for (const operation of patch) {
+    const tokens = parsePointer(operation.path);
+
+    if (tokens.length === 0) {
+      if (operation.op === "test") {
+        if (!isDeepEqual(result, operation.value)) {
+          throw new JsonPatchError(operation.path, "Test failed");
+        }
+      } else if (operation.op === "remove") {
+        result = undefined;
+      } else {
+        result = structuredClone(operation.value);
+      }
+      continue;
+    }
+
+    let parent = result;
+    for (const token of tokens.slice(0, -1)) {
+      parent = Array.isArray(parent)
+        ? parent[Number(token)]
+        : isObject(parent)
+          ? parent[token]
+          : undefined;
+      if (parent === undefined) {
+        throw new JsonPatchError(operation.path, "Path not found");
+      }
+    }
+
+    const key = tokens[tokens.length - 1];
+    if (Array.isArray(parent)) {
+      const index = key === "-" ? parent.length : Number(key);
+      const exists = index < parent.length;
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new JsonPatchError(operation.path, "Invalid array index");
+      }
+      if (operation.op === "add") {
+        parent.splice(index, 0, structuredClone(operation.value));
+        continue;
+      }
+      if (!exists) {
+        throw new JsonPatchError(operation.path, "Path not found");
+      }
+      if (operation.op === "remove") {
+        parent.splice(index, 1);
+      } else if (operation.op === "replace") {
+        parent[index] = structuredClone(operation.value);
+      } else if (!isDeepEqual(parent[index], operation.value)) {
+        throw new JsonPatchError(operation.path, "Test failed");
+      }
+    } else if (isObject(parent)) {
+      if (operation.op === "add") {
+        parent[key] = structuredClone(operation.value);
+        continue;
+      }
+      if (!(key in parent)) {
+        throw new JsonPatchError(operation.path, "Path not found");
+      }
+      if (operation.op === "remove") {
+        delete parent[key];
+      } else if (operation.op === "replace") {
+        parent[key] = structuredClone(operation.value);
+      } else if (!isDeepEqual(parent[key], operation.value)) {
+        throw new JsonPatchError(operation.path, "Test failed");
+      }
+    } else {
+      throw new JsonPatchError(operation.path, "Path not found");
+    }
+  }
+
+  return result;
+}
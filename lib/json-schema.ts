@@ -0,0 +1,228 @@
+/**
+ * JSON Schema Conversion
+ * Turns the Zod content schemas into JSON Schema (draft-07) so editors can
+ * validate and autocomplete content files. Only the Zod features used in
+ * lib/schemas.ts are supported; anything else becomes an unconstrained `{}`.
+ *
+ * Reference fields (see `reference()` in lib/schemas.ts) carry an
+ * `x-reference` keyword naming the target file and field.
+ */
+import { z } from "zod";
+
+import { getReferenceTarget } from "./schemas";
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+export const JSON_SCHEMA_DRAFT = "http://json-schema.org/draft-07/schema#";
+
+function withDescription(
+  schema: z.ZodTypeAny,
+  jsonSchema: JsonSchema
+): JsonSchema {
+  const description = schema.description;
+  return description ? { ...jsonSchema, description } : jsonSchema;
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const jsonSchema: JsonSchema = { type: "string" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "min":
+        jsonSchema.minLength = check.value;
+        break;
+      case "max":
+        jsonSchema.maxLength = check.value;
+        break;
+      case "url":
+        jsonSchema.format = "uri";
+        break;
+      case "email":
+        jsonSchema.format = "email";
+        break;
+      case "datetime":
+        jsonSchema.format = "date-time";
+        break;
+      case "regex":
+        jsonSchema.pattern = check.regex.source;
+        break;
+    }
+  }
+
+  return jsonSchema;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const jsonSchema: JsonSchema = { type: "number" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "int":
+        jsonSchema.type = "integer";
+        break;
+      case "min":
+        jsonSchema[check.inclusive ? "minimum" : "exclusiveMinimum"] =
+          check.value;
+        break;
+      case "max":
+        jsonSchema[check.inclusive ? "maximum" : "exclusiveMaximum"] =
+          check.value;
+        break;
+    }
+  }
+
+  return jsonSchema;
+}
+
+function isOptional(schema: z.ZodTypeAny): boolean {
+  return (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodDefault ||
+    (schema instanceof z.ZodEffects && isOptional(schema.innerType()))
+  );
+}
+
+function convertObject(schema: z.ZodObject<z.ZodRawShape>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape)) {
+    properties[key] = toJsonSchema(value);
+    if (!isOptional(value)) {
+      required.push(key);
+    }
+  }
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 && { required }),
+    // Zod drops unknown keys; flag them in the editor as likely typos
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Converts a Zod schema into a JSON Schema fragment
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const target = getReferenceTarget(schema);
+  if (target) {
+    return withDescription(schema, {
+      type: "string",
+      "x-reference": target,
+    });
+  }
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    const inner = toJsonSchema(schema.unwrap());
+    return schema instanceof z.ZodNullable
+      ? { anyOf: [inner, { type: "null" }] }
+      : withDescription(schema, inner);
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return withDescription(schema, {
+      ...toJsonSchema(schema._def.innerType),
+      default: schema._def.defaultValue(),
+    });
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(schema, toJsonSchema(schema.innerType()));
+  }
+
+  if (schema instanceof z.ZodString) {
+    return withDescription(schema, convertString(schema));
+  }
+  if (schema instanceof z.ZodNumber) {
+    return withDescription(schema, convertNumber(schema));
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return withDescription(schema, { type: "boolean" });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription(schema, {
+      type: "string",
+      enum: [...schema.options],
+    });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return withDescription(schema, { const: schema.value });
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return withDescription(schema, {
+      type: "array",
+      items: toJsonSchema(schema.element),
+      ...(minLength && { minItems: minLength.value }),
+      ...(maxLength && { maxItems: maxLength.value }),
+    });
+  }
+  if (schema instanceof z.ZodObject) {
+    return withDescription(schema, convertObject(schema));
+  }
+  if (schema instanceof z.ZodUnion) {
+    return withDescription(schema, {
+      anyOf: (schema.options as z.ZodTypeAny[]).map(toJsonSchema),
+    });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return withDescription(schema, {
+      type: "object",
+      additionalProperties: toJsonSchema(schema.valueSchema),
+    });
+  }
+
+  return withDescription(schema, {});
+}
+
+/**
+ * Standalone JSON Schema document for a content file. Root objects also
+ * accept the `$schema` pointer that links a file to its schema.
+ */
+export function toJsonSchemaDocument(
+  schema: z.ZodTypeAny,
+  title: string
+): JsonSchema {
+  const root = toJsonSchema(schema);
+  const properties = root.properties as Record<string, JsonSchema> | undefined;
+
+  return {
+    $schema: JSON_SCHEMA_DRAFT,
+    title,
+    ...root,
+    ...(properties && {
+      properties: { $schema: { type: "string" }, ...properties },
+    }),
+  };
+}
+
+/** Generated schemas live in schemas/ at the project root */
+export const SCHEMA_DIR = "schemas";
+
+/**
+ * Which part of a content file a schema describes: the whole file, one entry
+ * file of a split content directory, or that directory's `_index.json`
+ */
+export type SchemaKind = "file" | "entry" | "index";
+
+/**
+ * Schema filename for a content file, e.g. "events.schema.json" or
+ * "presentations.entry.schema.json"
+ */
+export function getSchemaFilename(filename: string, kind: SchemaKind): string {
+  const name = filename.replace(/\.json$/, "");
+  return kind === "file"
+    ? `${name}.schema.json`
+    : `${name}.${kind}.schema.json`;
+}
+
+/**
+ * `$schema` value for a content file, relative to where that file lives
+ * (content/ for whole files, content/<name>/ for entry and index files)
+ */
+export function getSchemaPointer(filename: string, kind: SchemaKind): string {
+  const up = kind === "file" ? "../" : "../../";
+  return `${up}${SCHEMA_DIR}/${getSchemaFilename(filename, kind)}`;
+}
@@ -0,0 +1,51 @@
+/**
+ * JSON File Stores
+ * Small runtime stores (RSVPs, tickets) kept as one JSON file each in the
+ * local data directory, with writes serialized and replaced atomically.
+ */
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { z } from "zod";
+
+export interface JsonStore<T> {
+  path: string;
+  read(): Promise<T>;
+  /**
+   * Reads the store, lets `update` change it in place and writes it back.
+   * Nothing is written when `update` throws.
+   */
+  update<R>(update: (data: T) => R): Promise<R>;
+}
+
+export function createJsonStore<S extends z.ZodTypeAny>(
+  path: string,
+  schema: S,
+  empty: () => z.infer<S>
+): JsonStore<z.infer<S>> {
+  // Writes run one at a time so concurrent requests can't overwrite each other
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<z.infer<S>> => {
+    const text = await readFile(path, "utf-8").catch(() => undefined);
+    return text ? schema.parse(JSON.parse(text)) : empty();
+  };
+
+  return {
+    path,
+    read,
+    update(update) {
+      const run = writeQueue.then(async () => {
+        const data = await read();
+        const result = update(data);
+
+        await mkdir(dirname(path), { recursive: true });
+        const temp = `${path}.${process.pid}.tmp`;
+        await writeFile(temp, `${JSON.stringify(data, null, 2)}\n`, "utf-8");
+        await rename(temp, path);
+        return result;
+      });
+      writeQueue = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Live Agenda
+ * The "now/next" view of an event's schedule for projecting during the
+ * event. When the event runs late, admins shift the whole schedule by a
+ * number of minutes; the shift is kept in the data directory and picked up
+ * by every open live screen.
+ */
+import { z } from "zod";
+
+import type { ContentGraph } from "./content-graph";
+import { getDataPath } from "./data-dir";
+import type { ScheduleSlot } from "./event-schedule";
+import { createJsonStore } from "./json-store";
+import type { ScheduleItem } from "./types";
+
+/** Largest shift either way, in minutes */
+export const MAX_SCHEDULE_SHIFT = 240;
+
+export const ScheduleShiftSchema = z.object({
+  eventSlug: z.string(),
+  minutes: z.number().int(),
+  updatedAt: z.string().datetime(),
+  /** Clerk user ID of the admin who set it */
+  updatedBy: z.string(),
+});
+
+export type ScheduleShift = z.infer<typeof ScheduleShiftSchema>;
+
+export const ScheduleShiftRequestSchema = z.object({
+  minutes: z.number().int().min(-MAX_SCHEDULE_SHIFT).max(MAX_SCHEDULE_SHIFT),
+});
+
+/**
+ * A schedule slot as sent to the live screen
+ */
+export interface LiveSlot {
+  title: string;
+  type?: ScheduleItem["type"];
+  description?: string;
+  /** ISO instants, before any shift */
+  start: string;
+  end: string;
+  presenter?: {
+    name: string;
+    title?: string;
+    company?: string;
+    avatar?: string;
+  };
+}
+
+const store = createJsonStore(
+  getDataPath("schedule-shifts.json"),
+  z.object({ shifts: z.array(ScheduleShiftSchema) }),
+  () => ({ shifts: [] })
+);
+
+/**
+ * Minutes the event's schedule is running late (negative when early)
+ */
+export async function getScheduleShift(eventSlug: string): Promise<number> {
+  const { shifts } = await store.read();
+  return shifts.find((shift) => shift.eventSlug === eventSlug)?.minutes ?? 0;
+}
+
+export async function setScheduleShift(
+  eventSlug: string,
+  minutes: number,
+  userId: string
+): Promise<ScheduleShift> {
+  return store.update(({ shifts }) => {
+    const shift = {
+      eventSlug,
+      minutes,
+      updatedAt: new Date().toISOString(),
+      updatedBy: userId,
+    };
+    const index = shifts.findIndex((s) => s.eventSlug === eventSlug);
+    if (index === -1) shifts.push(shift);
+    else shifts[index] = shift;
+    return shift;
+  });
+}
+
+/**
+ * Slots in start order with their presenter, taken from the slot or else
+ * from its presentation
+ */
+export function toLiveSlots(
+  slots: ScheduleSlot[],
+  graph: Pick<ContentGraph, "getPresenter" | "getPresentation">
+): LiveSlot[] {
+  return [...slots]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ item, start, end }) => {
+      const presenterId =
+        item.presenterId ??
+        (item.presentationId
+          ? graph.getPresentation(item.presentationId)?.presenterId
+          : undefined);
+      const presenter = presenterId
+        ? graph.getPresenter(presenterId)
+        : undefined;
+
+      return {
+        title: item.title,
+        type: item.type,
+        description: item.description,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        ...(presenter && {
+          presenter: {
+            name: presenter.name,
+            title: presenter.title,
+            company: presenter.company,
+            avatar: presenter.avatar,
+          },
+        }),
+      };
+    });
+}
@@ -0,0 +1,45 @@
+/**
+ * Livestreams
+ * Events with a `streamUrl` embed the stream on their page while they're on.
+ * YouTube, Twitch and Vimeo links are turned into their players' embed URLs;
+ * other streams are linked instead.
+ */
+
+/**
+ * Embeddable player URL for a stream link, or undefined when the host isn't
+ * known. Twitch only plays on the `parentHost` domains it's told about.
+ */
+export function getStreamEmbedUrl(
+  streamUrl: string,
+  parentHost: string
+): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(streamUrl);
+  } catch {
+    return undefined;
+  }
+  const host = url.hostname.replace(/^(www|m)\./, "");
+  const [first, second] = url.pathname.split("/").filter(Boolean);
+
+  if (host === "youtu.be" && first) {
+    return `https://www.youtube.com/embed/${first}`;
+  }
+  if (host === "youtube.com") {
+    const id =
+      url.searchParams.get("v") ??
+      (first === "live" || first === "embed" ? second : undefined);
+    return id ? `https://www.youtube.com/embed/${id}` : undefined;
+  }
+  if (host === "twitch.tv" && first) {
+    const target =
+      first === "videos" && second ? `video=v${second}` : `channel=${first}`;
+    return `https://player.twitch.tv/?${target}&parent=${parentHost}`;
+  }
+  if (host === "vimeo.com" && first) {
+    return first === "event" && second
+      ? `https://vimeo.com/event/${second}/embed`
+      : `https://player.vimeo.com/video/${first}`;
+  }
+  return undefined;
+}
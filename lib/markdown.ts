@@ -0,0 +1,347 @@
+/**
+ * Markdown Subset Parser
+ * Parses the Markdown allowed in content bodies (Section.body, Slide.body,
+ * FAQItem.answer) into a small AST that components/ui/Markdown.tsx renders.
+ *
+ * Supported: paragraphs (single newlines become line breaks), bullet and
+ * numbered lists, fenced code blocks, `inline code`, **strong**, *emphasis*,
+ * _emphasis_ and [links](/path). Raw HTML is never interpreted; it is kept
+ * as plain text.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; value: string }
+  | { type: "code"; value: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | {
+      type: "list";
+      ordered: boolean;
+      start: number;
+      items: MarkdownInline[][];
+    }
+  | { type: "code"; value: string };
+
+const FENCE = /^\s{0,3}```/;
+const LIST_ITEM = /^\s{0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const ESCAPABLE = /[\\`*_[\]()#+\-.!>]/;
+
+/**
+ * Only these link targets are rendered as links; anything else
+ * (e.g. javascript: URLs) is rendered as plain text
+ */
+export function isSafeHref(href: string): boolean {
+  return /^(\/|#|https?:\/\/|mailto:)/i.test(href);
+}
+
+/**
+ * Returns true for hrefs that point at a route on this site
+ */
+export function isInternalHref(href: string): boolean {
+  return href.startsWith("/") && !href.startsWith("//");
+}
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+function matchListItem(line: string) {
+  const match = line.match(LIST_ITEM);
+  if (!match) return null;
+
+  const marker = match[1];
+  const ordered = /\d/.test(marker);
+  return {
+    ordered,
+    start: ordered ? parseInt(marker, 10) : 1,
+    text: match[2],
+  };
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Finds the closing delimiter for emphasis opened at `from`
+ */
+function findEmphasisClose(text: string, delimiter: string, from: number) {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i)) continue;
+    if (/\s/.test(text[i - 1] ?? " ")) continue;
+    // Single-character delimiters must not be part of a longer run
+    if (delimiter.length === 1 && text[i + 1] === delimiter) {
+      i++;
+      continue;
+    }
+    // Intraword underscores (snake_case, @handle_name) are not emphasis
+    if (delimiter === "_" && isWordChar(text[i + 1])) continue;
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Parses inline Markdown into nodes
+ */
+export function parseInline(
+  text: string,
+  options: { allowLinks?: boolean } = {}
+): MarkdownInline[] {
+  const allowLinks = options.allowLinks ?? true;
+  const nodes: MarkdownInline[] = [];
+  let buffer = "";
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: "text", value: buffer });
+      buffer = "";
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\\" && ESCAPABLE.test(text[i + 1] ?? "")) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const close = text.indexOf("`", i + 1);
+      if (close > i + 1) {
+        flush();
+        nodes.push({ type: "code", value: text.slice(i + 1, close) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (char === "[" && allowLinks) {
+      const closeText = text.indexOf("](", i + 1);
+      const closeHref = closeText === -1 ? -1 : text.indexOf(")", closeText);
+      if (closeText !== -1 && closeHref !== -1) {
+        const href = text.slice(closeText + 2, closeHref).trim();
+        if (href && !/\s/.test(href)) {
+          flush();
+          nodes.push({
+            type: "link",
+            href,
+            children: parseInline(text.slice(i + 1, closeText), {
+              allowLinks: false,
+            }),
+          });
+          i = closeHref + 1;
+          continue;
+        }
+      }
+    }
+
+    if (text.startsWith("**", i) && !/\s/.test(text[i + 2] ?? " ")) {
+      const close = findEmphasisClose(text, "**", i + 2);
+      if (close !== -1) {
+        flush();
+        nodes.push({
+          type: "strong",
+          children: parseInline(text.slice(i + 2, close), { allowLinks }),
+        });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (
+      (char === "*" || char === "_") &&
+      text[i + 1] !== char &&
+      !/\s/.test(text[i + 1] ?? " ") &&
+      !(char === "_" && isWordChar(text[i - 1]))
+    ) {
+      const close = findEmphasisClose(text, char, i + 1);
+      if (close !== -1) {
+        flush();
+        nodes.push({
+          type: "emphasis",
+          children: parseInline(text.slice(i + 1, close), { allowLinks }),
+        });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parses a Markdown string into block nodes
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({ type: "code", value: code.join("\n") });
+      continue;
+    }
+
+    // List: items of the same kind, optionally separated by blank lines
+    const first = matchListItem(line);
+    if (first) {
+      const items: string[][] = [[first.text]];
+      i++;
+
+      while (i < lines.length) {
+        const current = lines[i];
+        const item = matchListItem(current);
+
+        if (item && item.ordered === first.ordered) {
+          items.push([item.text]);
+          i++;
+        } else if (item) {
+          break;
+        } else if (isBlank(current)) {
+          let next = i + 1;
+          while (next < lines.length && isBlank(lines[next])) next++;
+          const nextItem = next < lines.length && matchListItem(lines[next]);
+          if (!nextItem || nextItem.ordered !== first.ordered) break;
+          i = next;
+        } else if (/^\s{2,}/.test(current)) {
+          // Indented continuation of the current item
+          items[items.length - 1].push(current.trim());
+          i++;
+        } else {
+          break;
+        }
+      }
+
+      blocks.push({
+        type: "list",
+        ordered: first.ordered,
+        start: first.start,
+        items: items.map((itemLines) => parseInline(itemLines.join("\n"))),
+      });
+      continue;
+    }
+
+    // Paragraph: runs until a blank line, list or code fence
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      !isBlank(lines[i]) &&
+      !FENCE.test(lines[i]) &&
+      (paragraph.length === 0 || !matchListItem(lines[i]))
+    ) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+}
+
+function collectInlineLinks(nodes: MarkdownInline[], hrefs: string[]) {
+  for (const node of nodes) {
+    if (node.type === "link") {
+      hrefs.push(node.href);
+    } else if (node.type === "strong" || node.type === "emphasis") {
+      collectInlineLinks(node.children, hrefs);
+    }
+  }
+}
+
+/**
+ * Returns every link target in a parsed document, in order
+ */
+export function collectLinks(blocks: MarkdownBlock[]): string[] {
+  const hrefs: string[] = [];
+  for (const block of blocks) {
+    if (block.type === "paragraph") {
+      collectInlineLinks(block.children, hrefs);
+    } else if (block.type === "list") {
+      block.items.forEach((item) => collectInlineLinks(item, hrefs));
+    }
+  }
+  return hrefs;
+}
+
+function inlineToPlainText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code":
+          return node.value;
+        case "break":
+          return "\n";
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join("");
+}
+
+/**
+ * Strips Markdown syntax, e.g. for structured data and meta descriptions
+ */
+export function markdownToPlainText(source: string): string {
+  return parseMarkdown(source)
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return inlineToPlainText(block.children);
+        case "list":
+          return block.items
+            .map(
+              (item, i) =>
+                `${block.ordered ? `${block.start + i}.` : "•"} ${inlineToPlainText(item)}`
+            )
+            .join("\n");
+        case "code":
+          return block.value;
+      }
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,51 @@
+/**
+ * Payment Configuration Loader
+ * Picks the Lightning payment provider from environment variables
+ */
+import type { PaymentConfig } from "./payments";
+
+/** Seconds until a mock invoice is paid, unless MOCK_PAYMENT_SETTLE_SECONDS is set */
+const DEFAULT_MOCK_SETTLE_SECONDS = 10;
+
+/**
+ * Load payment configuration from environment variables
+ * Returns undefined when no provider is configured. Outside production the
+ * mock provider is used by default.
+ */
+export function loadPaymentConfig(): PaymentConfig | undefined {
+  const webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET;
+  const provider =
+    process.env.PAYMENT_PROVIDER ??
+    (process.env.NODE_ENV === "production" ? undefined : "mock");
+
+  switch (provider) {
+    case "lnd":
+      return process.env.LND_REST_URL && process.env.LND_INVOICE_MACAROON
+        ? {
+            provider,
+            url: process.env.LND_REST_URL,
+            macaroon: process.env.LND_INVOICE_MACAROON,
+            webhookSecret,
+          }
+        : undefined;
+    case "lnbits":
+      return process.env.LNBITS_URL && process.env.LNBITS_INVOICE_KEY
+        ? {
+            provider,
+            url: process.env.LNBITS_URL,
+            apiKey: process.env.LNBITS_INVOICE_KEY,
+            webhookSecret,
+          }
+        : undefined;
+    case "mock":
+      return {
+        provider,
+        settleAfterSeconds: Number(
+          process.env.MOCK_PAYMENT_SETTLE_SECONDS ?? DEFAULT_MOCK_SETTLE_SECONDS
+        ),
+        webhookSecret,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Lightning Payments
+ * A small provider interface for taking Lightning payments, with adapters
+ * for an LND node's REST API, an LNbits wallet, and a mock for development.
+ *
+ * Webhooks only say which invoice to look at: the settlement itself is
+ * always confirmed by asking the provider for the invoice status.
+ */
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+
+import { getDataPath } from "./data-dir";
+import { createJsonStore } from "./json-store";
+
+export type InvoiceStatus = "pending" | "paid" | "expired";
+
+export interface Invoice {
+  /** Hex payment hash, the invoice's ID at the provider */
+  paymentHash: string;
+  /** BOLT 11 invoice for the payer's wallet */
+  paymentRequest: string;
+  amountSats: number;
+  expiresAt: string;
+}
+
+export interface InvoiceRequest {
+  amountSats: number;
+  memo: string;
+  expirySeconds: number;
+  /** Where the provider should POST when the invoice is paid */
+  webhookUrl?: string;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  createInvoice(request: InvoiceRequest): Promise<Invoice>;
+  getInvoiceStatus(paymentHash: string): Promise<InvoiceStatus>;
+  /**
+   * Payment hash of the invoice a webhook call is about, if any. Callers
+   * still check the status before trusting it.
+   */
+  parseWebhook(body: unknown): string | undefined;
+}
+
+export type PaymentProviderName = "lnd" | "lnbits" | "mock";
+
+/**
+ * Payment configuration
+ */
+export type PaymentConfig =
+  | {
+      provider: "lnd";
+      /** REST endpoint, e.g. https://localhost:8080 */
+      url: string;
+      /** Hex-encoded invoice macaroon */
+      macaroon: string;
+      webhookSecret?: string;
+    }
+  | {
+      provider: "lnbits";
+      url: string;
+      /** Invoice/read key of the wallet */
+      apiKey: string;
+      webhookSecret?: string;
+    }
+  | {
+      provider: "mock";
+      /** Seconds until a mock invoice counts as paid */
+      settleAfterSeconds: number;
+      webhookSecret?: string;
+    };
+
+/**
+ * Thrown when the provider can't be reached or rejects a request
+ */
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+async function requestJson(url: string, init: RequestInit): Promise<unknown> {
+  const response = await fetch(url, { ...init, cache: "no-store" });
+  if (!response.ok) {
+    throw new PaymentError(
+      `Payment provider responded ${response.status}: ${await response.text()}`
+    );
+  }
+  return response.json();
+}
+
+function expiryDate(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+const LndInvoiceSchema = z.object({
+  r_hash: z.string(),
+  payment_request: z.string(),
+});
+
+const LndInvoiceStateSchema = z.object({
+  state: z.enum(["OPEN", "SETTLED", "CANCELED", "ACCEPTED"]),
+});
+
+/**
+ * LND REST API Client
+ * Needs an invoice macaroon. LND has no webhooks, so payments are picked up
+ * by status checks.
+ */
+class LndProvider implements PaymentProvider {
+  readonly name = "lnd";
+
+  constructor(private config: Extract<PaymentConfig, { provider: "lnd" }>) {}
+
+  private request(path: string, init: RequestInit = {}) {
+    return requestJson(`${this.config.url.replace(/\/$/, "")}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        "Grpc-Metadata-macaroon": this.config.macaroon,
+      },
+    });
+  }
+
+  async createInvoice(request: InvoiceRequest): Promise<Invoice> {
+    const invoice = LndInvoiceSchema.parse(
+      await this.request("/v1/invoices", {
+        method: "POST",
+        body: JSON.stringify({
+          value: String(request.amountSats),
+          memo: request.memo,
+          expiry: String(request.expirySeconds),
+        }),
+      })
+    );
+
+    return {
+      paymentHash: Buffer.from(invoice.r_hash, "base64").toString("hex"),
+      paymentRequest: invoice.payment_request,
+      amountSats: request.amountSats,
+      expiresAt: expiryDate(request.expirySeconds),
+    };
+  }
+
+  async getInvoiceStatus(paymentHash: string): Promise<InvoiceStatus> {
+    const { state } = LndInvoiceStateSchema.parse(
+      await this.request(`/v1/invoice/${paymentHash}`)
+    );
+    // LND cancels invoices once they expire
+    return state === "SETTLED"
+      ? "paid"
+      : state === "CANCELED"
+        ? "expired"
+        : "pending";
+  }
+
+  parseWebhook(): string | undefined {
+    return undefined;
+  }
+}
+
+const LnbitsInvoiceSchema = z.object({
+  payment_hash: z.string(),
+  payment_request: z.string().optional(),
+  bolt11: z.string().optional(),
+});
+
+const LnbitsPaymentSchema = z.object({
+  paid: z.boolean(),
+  status: z.string().optional(),
+});
+
+/**
+ * LNbits Wallet API Client
+ * Uses the wallet's invoice key; LNbits calls the webhook when an invoice is
+ * paid.
+ */
+class LnbitsProvider implements PaymentProvider {
+  readonly name = "lnbits";
+
+  constructor(private config: Extract<PaymentConfig, { provider: "lnbits" }>) {}
+
+  private request(path: string, init: RequestInit = {}) {
+    return requestJson(`${this.config.url.replace(/\/$/, "")}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        "X-Api-Key": this.config.apiKey,
+      },
+    });
+  }
+
+  async createInvoice(request: InvoiceRequest): Promise<Invoice> {
+    const invoice = LnbitsInvoiceSchema.parse(
+      await this.request("/api/v1/payments", {
+        method: "POST",
+        body: JSON.stringify({
+          out: false,
+          amount: request.amountSats,
+          memo: request.memo,
+          expiry: request.expirySeconds,
+          ...(request.webhookUrl && { webhook: request.webhookUrl }),
+        }),
+      })
+    );
+    const paymentRequest = invoice.payment_request ?? invoice.bolt11;
+    if (!paymentRequest) {
+      throw new PaymentError("LNbits returned no payment request");
+    }
+
+    return {
+      paymentHash: invoice.payment_hash,
+      paymentRequest,
+      amountSats: request.amountSats,
+      expiresAt: expiryDate(request.expirySeconds),
+    };
+  }
+
+  async getInvoiceStatus(paymentHash: string): Promise<InvoiceStatus> {
+    const payment = LnbitsPaymentSchema.parse(
+      await this.request(`/api/v1/payments/${paymentHash}`)
+    );
+    if (payment.paid) return "paid";
+    return payment.status === "expired" || payment.status === "failed"
+      ? "expired"
+      : "pending";
+  }
+
+  parseWebhook(body: unknown): string | undefined {
+    return LnbitsInvoiceSchema.pick({ payment_hash: true }).safeParse(body).data
+      ?.payment_hash;
+  }
+}
+
+const MockInvoiceSchema = z.object({
+  paymentHash: z.string(),
+  amountSats: z.number(),
+  createdAt: z.string().datetime(),
+  expiresAt: z.string().datetime(),
+});
+
+const mockInvoices = createJsonStore(
+  getDataPath("mock-invoices.json"),
+  z.object({ invoices: z.array(MockInvoiceSchema) }),
+  () => ({ invoices: [] })
+);
+
+/**
+ * Mock Provider
+ * For development: invoices are kept in the data directory and count as
+ * paid `settleAfterSeconds` after they're created. The webhook takes
+ * `{ "paymentHash": "..." }`.
+ */
+class MockProvider implements PaymentProvider {
+  readonly name = "mock";
+
+  constructor(private config: Extract<PaymentConfig, { provider: "mock" }>) {}
+
+  async createInvoice(request: InvoiceRequest): Promise<Invoice> {
+    const preimage = randomBytes(32);
+    const invoice = {
+      paymentHash: createHash("sha256").update(preimage).digest("hex"),
+      amountSats: request.amountSats,
+      createdAt: new Date().toISOString(),
+      expiresAt: expiryDate(request.expirySeconds),
+    };
+    await mockInvoices.update(({ invoices }) => invoices.push(invoice));
+
+    return {
+      paymentHash: invoice.paymentHash,
+      paymentRequest: `lnbcrt${request.amountSats * 10}n1mock${invoice.paymentHash.slice(0, 40)}`,
+      amountSats: request.amountSats,
+      expiresAt: invoice.expiresAt,
+    };
+  }
+
+  async getInvoiceStatus(paymentHash: string): Promise<InvoiceStatus> {
+    const { invoices } = await mockInvoices.read();
+    const invoice = invoices.find((i) => i.paymentHash === paymentHash);
+    if (!invoice) {
+      throw new PaymentError(`Unknown mock invoice ${paymentHash}`);
+    }
+
+    const settlesAt =
+      Date.parse(invoice.createdAt) + this.config.settleAfterSeconds * 1000;
+    if (Date.now() >= settlesAt) return "paid";
+    return Date.now() >= Date.parse(invoice.expiresAt) ? "expired" : "pending";
+  }
+
+  parseWebhook(body: unknown): string | undefined {
+    return z.object({ paymentHash: z.string() }).safeParse(body).data
+      ?.paymentHash;
+  }
+}
+
+export function createPaymentProvider(config: PaymentConfig): PaymentProvider {
+  switch (config.provider) {
+    case "lnd":
+      return new LndProvider(config);
+    case "lnbits":
+      return new LnbitsProvider(config);
+    case "mock":
+      return new MockProvider(config);
+  }
+}
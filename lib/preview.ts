@@ -0,0 +1,40 @@
+/**
+ * Draft Preview
+ * Admins enable Next.js draft mode through /api/preview; while it is on,
+ * detail pages also load drafts, scheduled and archived entries
+ */
+import { draftMode } from "next/headers";
+
+import { SITE_URL } from "./constants";
+import type { VisibilityOptions } from "./visibility";
+
+/**
+ * Visibility options for the current request
+ */
+export async function getPreviewOptions(): Promise<VisibilityOptions> {
+  const { isEnabled } = await draftMode();
+  return { includeDrafts: isEnabled };
+}
+
+/**
+ * Returns `path` when it is a same-site path, so preview redirects can't
+ * be used to send users to another origin. Paths are resolved the way
+ * browsers do, which read "/\evil.com" as "//evil.com".
+ */
+export function getSafeRedirectPath(path: string | null): string {
+  if (!path?.startsWith("/")) {
+    return "/";
+  }
+
+  const origin = new URL(SITE_URL).origin;
+  const url = new URL(path, origin);
+  return url.origin === origin ? url.pathname + url.search + url.hash : "/";
+}
+
+export function previewPath(path: string): string {
+  return `/api/preview?path=${encodeURIComponent(path)}`;
+}
+
+export function exitPreviewPath(path: string): string {
+  return `/api/preview/exit?path=${encodeURIComponent(path)}`;
+}
@@ -0,0 +1,309 @@
+/**
+ * Event RSVPs
+ * Sign-ups for events with `rsvpOpen`, stored in the local data directory.
+ * Once an event's `capacity` is reached new sign-ups join the waitlist, and
+ * the longest-waiting one is confirmed whenever a spot frees up.
+ *
+ * Signed-in visitors are matched by Clerk user ID; anonymous ones get a
+ * secret `token` to look up or cancel their RSVP.
+ *
+ * Events with a `ticketPriceSats` only take RSVPs issued for a settled
+ * Lightning ticket (see lib/tickets.ts).
+ */
+import { randomUUID } from "crypto";
+import { z } from "zod";
+
+import { getDataPath } from "./data-dir";
+import { isUpcomingEvent } from "./event-time";
+import { createJsonStore } from "./json-store";
+import type { Event } from "./types";
+
+export const RSVP_STORE = getDataPath("rsvps.json");
+
+export const RsvpSchema = z.object({
+  id: z.string(),
+  /** Slug of the event */
+  eventSlug: z.string(),
+  name: z.string(),
+  email: z.string().email(),
+  /** Clerk user ID when signed up while signed in */
+  userId: z.string().optional(),
+  status: z.enum(["confirmed", "waitlisted", "cancelled"]),
+  /** Secret for looking up and cancelling the RSVP without an account */
+  token: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  /** The paid ticket the RSVP was issued for */
+  ticketId: z.string().optional(),
+  /** Set when the attendee was checked in at the door */
+  checkedInAt: z.string().datetime().optional(),
+});
+
+export type Rsvp = z.infer<typeof RsvpSchema>;
+
+export type RsvpStatus = Rsvp["status"];
+
+const store = createJsonStore(
+  RSVP_STORE,
+  z.object({ rsvps: z.array(RsvpSchema) }),
+  () => ({ rsvps: [] })
+);
+
+export const RsvpRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  /** Required unless signed in */
+  email: z.string().trim().email().optional(),
+});
+
+export interface RsvpCounts {
+  confirmed: number;
+  waitlisted: number;
+  capacity?: number;
+  /** Confirmed spots left; undefined without a capacity */
+  remaining?: number;
+}
+
+/** Finds one RSVP: by token for anonymous visitors, by user for Clerk ones */
+export type RsvpLookup = { token: string } | { userId: string };
+
+/**
+ * Thrown when a sign-up or cancellation isn't allowed
+ */
+export class RsvpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RsvpError";
+  }
+}
+
+/**
+ * What the attendee is shown about their own RSVP
+ */
+export interface RsvpView {
+  name: string;
+  email: string;
+  status: RsvpStatus;
+  /** Place on the waitlist, from 1 */
+  position?: number;
+  token: string;
+}
+
+export async function readRsvps(): Promise<Rsvp[]> {
+  return (await store.read()).rsvps;
+}
+
+/**
+ * Reads the store, lets `update` change it and writes it back atomically.
+ * Writes run one at a time so concurrent sign-ups can't oversell spots.
+ */
+export function updateRsvps<T>(update: (rsvps: Rsvp[]) => T): Promise<T> {
+  return store.update(({ rsvps }) => update(rsvps));
+}
+
+/**
+ * The event's RSVPs in sign-up order, cancelled ones included
+ */
+export async function getEventRsvps(eventSlug: string): Promise<Rsvp[]> {
+  return (await readRsvps()).filter((rsvp) => rsvp.eventSlug === eventSlug);
+}
+
+function matches(rsvp: Rsvp, lookup: RsvpLookup): boolean {
+  return "token" in lookup
+    ? rsvp.token === lookup.token
+    : rsvp.userId === lookup.userId;
+}
+
+/**
+ * The active (not cancelled) RSVP matching `lookup`, or the most recent
+ * cancelled one
+ */
+export function findRsvp(rsvps: Rsvp[], lookup: RsvpLookup): Rsvp | undefined {
+  const found = rsvps.filter((rsvp) => matches(rsvp, lookup));
+  return (
+    found.find((rsvp) => rsvp.status !== "cancelled") ?? found[found.length - 1]
+  );
+}
+
+export function getRsvpCounts(
+  event: Pick<Event, "capacity">,
+  rsvps: Rsvp[]
+): RsvpCounts {
+  const confirmed = rsvps.filter((r) => r.status === "confirmed").length;
+  const waitlisted = rsvps.filter((r) => r.status === "waitlisted").length;
+
+  return {
+    confirmed,
+    waitlisted,
+    capacity: event.capacity,
+    remaining:
+      event.capacity === undefined
+        ? undefined
+        : Math.max(event.capacity - confirmed, 0),
+  };
+}
+
+/**
+ * 1-based place of a waitlisted RSVP in the queue
+ */
+export function getWaitlistPosition(
+  rsvps: Rsvp[],
+  rsvp: Rsvp
+): number | undefined {
+  if (rsvp.status !== "waitlisted") return undefined;
+  const queue = rsvps.filter((r) => r.status === "waitlisted");
+  return queue.findIndex((r) => r.id === rsvp.id) + 1;
+}
+
+export function toRsvpView(rsvps: Rsvp[], rsvp: Rsvp): RsvpView {
+  return {
+    name: rsvp.name,
+    email: rsvp.email,
+    status: rsvp.status,
+    position: getWaitlistPosition(rsvps, rsvp),
+    token: rsvp.token,
+  };
+}
+
+export function isRsvpOpen(
+  event: Pick<Event, "rsvpOpen" | "endDate">,
+  now = new Date()
+): boolean {
+  return event.rsvpOpen === true && isUpcomingEvent(event, now);
+}
+
+/**
+ * Confirms waitlisted RSVPs, oldest first, while the event has spots left.
+ * Changes `rsvps` in place and returns the promoted ones.
+ */
+function promoteWaitlist(
+  event: Pick<Event, "slug" | "capacity">,
+  rsvps: Rsvp[],
+  now: string
+): Rsvp[] {
+  const eventRsvps = rsvps.filter((r) => r.eventSlug === event.slug);
+  let { remaining = Infinity } = getRsvpCounts(event, eventRsvps);
+  const promoted: Rsvp[] = [];
+
+  for (const rsvp of eventRsvps) {
+    if (remaining <= 0) break;
+    if (rsvp.status !== "waitlisted") continue;
+    rsvp.status = "confirmed";
+    rsvp.updatedAt = now;
+    promoted.push(rsvp);
+    remaining--;
+  }
+  return promoted;
+}
+
+/**
+ * Signs someone up for an event, confirmed while spots are left and
+ * waitlisted after. Signing up again with the same account or email returns
+ * the existing RSVP.
+ *
+ * A `ticketId` marks the RSVP as paid for: its spot was held when the
+ * invoice was created, so it's confirmed even if RSVPs closed meanwhile.
+ */
+export async function createRsvp(
+  event: Event,
+  attendee: { name: string; email: string; userId?: string; ticketId?: string }
+): Promise<{ rsvp: Rsvp; created: boolean }> {
+  if (event.ticketPriceSats && !attendee.ticketId) {
+    throw new RsvpError("This event needs a ticket");
+  }
+  if (!attendee.ticketId && !isRsvpOpen(event)) {
+    throw new RsvpError("RSVPs are closed for this event");
+  }
+
+  return updateRsvps((rsvps) => {
+    const now = new Date().toISOString();
+    promoteWaitlist(event, rsvps, now);
+
+    const email = attendee.email.toLowerCase();
+    const existing = rsvps.find(
+      (rsvp) =>
+        rsvp.eventSlug === event.slug &&
+        rsvp.status !== "cancelled" &&
+        (rsvp.email === email ||
+          (attendee.userId !== undefined && rsvp.userId === attendee.userId))
+    );
+    if (existing) {
+      return { rsvp: existing, created: false };
+    }
+
+    const { remaining = Infinity } = getRsvpCounts(
+      event,
+      rsvps.filter((r) => r.eventSlug === event.slug)
+    );
+    const rsvp: Rsvp = {
+      id: randomUUID(),
+      eventSlug: event.slug,
+      name: attendee.name,
+      email,
+      ...(attendee.userId && { userId: attendee.userId }),
+      ...(attendee.ticketId && { ticketId: attendee.ticketId }),
+      status: remaining > 0 || attendee.ticketId ? "confirmed" : "waitlisted",
+      token: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    rsvps.push(rsvp);
+    return { rsvp, created: true };
+  });
+}
+
+/**
+ * Cancels an RSVP and confirms the next people on the waitlist
+ */
+export async function cancelRsvp(
+  event: Event,
+  lookup: RsvpLookup
+): Promise<{ rsvp: Rsvp; promoted: Rsvp[] }> {
+  return updateRsvps((rsvps) => {
+    const rsvp = findRsvp(
+      rsvps.filter((r) => r.eventSlug === event.slug),
+      lookup
+    );
+    if (!rsvp || rsvp.status === "cancelled") {
+      throw new RsvpError("No RSVP to cancel");
+    }
+
+    const now = new Date().toISOString();
+    rsvp.status = "cancelled";
+    rsvp.updatedAt = now;
+    return { rsvp, promoted: promoteWaitlist(event, rsvps, now) };
+  });
+}
+
+function csvField(value: string): string {
+  // Keep spreadsheets from running names like "=HYPERLINK(...)" as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Attendee list as CSV, one row per RSVP in sign-up order
+ */
+export function toAttendeeCsv(rsvps: Rsvp[]): string {
+  const header = [
+    "name",
+    "email",
+    "status",
+    "signed_up_at",
+    "account",
+    "checked_in_at",
+    "ticket_id",
+  ];
+  const rows = rsvps.map((rsvp) => [
+    rsvp.name,
+    rsvp.email,
+    rsvp.status,
+    rsvp.createdAt,
+    rsvp.userId ? "clerk" : "email",
+    rsvp.checkedInAt ?? "",
+    rsvp.ticketId ?? "",
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
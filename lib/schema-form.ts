@@ -0,0 +1,80 @@
+/**
+ * Schema-Driven Forms
+ * Helpers shared by the admin content editor's server pages and its client
+ * form, which renders fields from the JSON Schema of lib/json-schema.ts
+ */
+import type { JsonSchema } from "./json-schema";
+import type { ReferenceTarget } from "./schemas";
+
+export interface ReferenceOption {
+  value: string;
+  label: string;
+}
+
+/** Picker options per reference target, keyed by getReferenceKey() */
+export type ReferenceOptions = Record<string, ReferenceOption[]>;
+
+export function getReferenceKey({ file, field }: ReferenceTarget): string {
+  return `${file}#${field}`;
+}
+
+export function getSchemaReference(
+  schema: JsonSchema
+): ReferenceTarget | undefined {
+  return schema["x-reference"] as ReferenceTarget | undefined;
+}
+
+/**
+ * Readable label for a property name, e.g. "presentationIds" → "Presentation IDs"
+ */
+export function formatFieldLabel(key: string): string {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[-_]+/g, " ")
+    .split(" ")
+    .map((word) =>
+      /^(id|ids|url|faq|faqs)$/i.test(word)
+        ? word.toUpperCase().replace(/S$/, "s")
+        : word
+    );
+  const label = words.join(" ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Starting value for a new entry or array item: required object properties
+ * are filled in, everything optional is left out
+ */
+export function createEmptyValue(schema: JsonSchema): unknown {
+  if ("default" in schema) return schema.default;
+  if ("const" in schema) return schema.const;
+
+  const enumValues = schema.enum as unknown[] | undefined;
+  if (enumValues) return enumValues[0];
+
+  switch (schema.type) {
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return (schema.minimum as number | undefined) ?? 0;
+    case "boolean":
+      return false;
+    case "array":
+      return [];
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<
+        string,
+        JsonSchema
+      >;
+      const required = (schema.required ?? []) as string[];
+      return Object.fromEntries(
+        required
+          .filter((key) => properties[key])
+          .map((key) => [key, createEmptyValue(properties[key])])
+      );
+    }
+    default:
+      return null;
+  }
+}
@@ -5,6 +5,34 @@ import { z } from "zod";
  * Single source of truth for all content structure validation
  */
 
+/**
+ * Where a reference field points: the content file holding the target entry
+ * and the field on that entry that the reference matches
+ */
+export interface ReferenceTarget {
+  file: string;
+  field: "id" | "slug";
+}
+
+const referenceTargets = new WeakMap<z.ZodTypeAny, ReferenceTarget>();
+
+/**
+ * String field holding the ID (or slug) of an entry in another content file.
+ * Tooling such as the JSON Schema export reads the target back with
+ * getReferenceTarget(); the content integrity check resolves the values.
+ */
+function reference(file: string, field: ReferenceTarget["field"] = "id") {
+  const schema = z.string().describe(`${field} of an entry in ${file}`);
+  referenceTargets.set(schema, { file, field });
+  return schema;
+}
+
+export function getReferenceTarget(
+  schema: z.ZodTypeAny
+): ReferenceTarget | undefined {
+  return referenceTargets.get(schema);
+}
+
 // Common schemas
 export const MetaSchema = z.object({
   title: z.string(),
@@ -12,6 +40,15 @@ export const MetaSchema = z.object({
   keywords: z.array(z.string()).optional(),
 });
 
+// Publishing state for events, event series, recaps, presentations, presenters
+// and slide decks
+export const ContentStatusSchema = z.enum(["draft", "published", "archived"]);
+
+const PublishingFields = {
+  status: ContentStatusSchema.optional(), // Defaults to "published"
+  publishAt: z.string().datetime({ offset: true }).optional(), // ISO datetime; hidden until then
+};
+
 const LinkSchema = z.object({
   text: z.string(),
   url: z.string(),
@@ -107,6 +144,12 @@ export const SponsorSchema = z.object({
   logo: z.string().optional(), // URL to logo image
   twitter: z.string().optional(),
   nostr: z.string().optional(),
+  address: z
+    .object({
+      streetAddress: z.string(),
+      postalCode: z.string().optional(),
+    })
+    .optional(), // Street address when the sponsor hosts events; the city fills in the rest
 });
 
 export const SponsorsCollectionSchema = z.object({
@@ -130,6 +173,7 @@ export const PresenterSchema = z.object({
       nostr: z.string().optional(),
     })
     .optional(),
+  ...PublishingFields,
 });
 
 export const PresentersCollectionSchema = z.object({
@@ -143,17 +187,19 @@ export const PresentationSchema = z.object({
   slug: z.string(),
   description: z.string(), // Brief description for listings
   overview: z.string(), // Detailed overview of the presentation
-  presenterId: z.string(), // Reference to Presenter by ID
-  eventId: z.string().optional(), // Reference to Event by ID (if presented at an event)
+  presenterId: reference("presenters.json"), // Reference to Presenter by ID
+  eventId: reference("events.json", "slug").optional(), // Reference to Event by slug (if presented at an event)
   date: z.string().optional(), // ISO date format - when presentation was given
   duration: z.string().optional(), // e.g., "45 minutes", "1 hour"
   links: z.array(LinkSchema).optional(), // Useful links related to the presentation
   slidesUrl: z.string().url().optional(), // URL to slides (e.g., Google Slides, PDF)
-  slideDeckSlug: z.string().optional(), // Reference to SlideDeck by slug (for internal slides)
+  slideDeckSlug: reference("slides.json", "slug").optional(), // Reference to SlideDeck by slug (for internal slides)
   videoUrl: z.string().url().optional(), // URL to video recording
   recordingUrl: z.string().url().optional(), // Alternative recording URL
   sections: z.array(SectionSchema).optional(), // Detailed content sections
+  publicRatings: z.boolean().optional(), // Presenter opted in to listing the talk's feedback ratings on /top-talks
   meta: MetaSchema,
+  ...PublishingFields,
 });
 
 export const PresentationsCollectionSchema = z.object({
@@ -161,9 +207,28 @@ export const PresentationsCollectionSchema = z.object({
 });
 
 // Schedule Schema
+// 24-hour wall-clock time in the event's timezone, e.g. "18:30"
+const ClockTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour HH:MM, e.g. 18:30");
+
+// Calendar date in the event's timezone, e.g. "2025-11-18"
+const CalendarDateSchema = z
+  .string()
+  .regex(
+    /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/,
+    "Use YYYY-MM-DD, e.g. 2025-11-18"
+  );
+
+// ISO 8601 with the UTC offset of the event's city, e.g. "2025-11-18T18:00:00-08:00"
+const EventDateTimeSchema = z.string().datetime({
+  offset: true,
+  message: "Use ISO 8601 with a UTC offset, e.g. 2025-11-18T18:00:00-08:00",
+});
+
 export const ScheduleItemSchema = z.object({
-  startTime: z.string(), // e.g., "18:00" (24-hour format) or "6:00 PM"
-  endTime: z.string().optional(), // e.g., "18:30" or "6:30 PM"
+  startTime: ClockTimeSchema,
+  endTime: ClockTimeSchema.optional(),
   title: z.string(),
   description: z.string().optional(),
   type: z
@@ -178,31 +243,100 @@ export const ScheduleItemSchema = z.object({
       "other",
     ])
     .optional(),
-  presenterId: z.string().optional(), // Reference to Presenter by ID
-  presentationId: z.string().optional(), // Reference to Presentation by ID
+  presenterId: reference("presenters.json").optional(), // Reference to Presenter by ID
+  presentationId: reference("presentations.json").optional(), // Reference to Presentation by ID
 });
 
 // Events Schema
+// Whether people attend in person, through the livestream, or either
+export const AttendanceModeSchema = z.enum(["offline", "online", "mixed"]);
+
 export const EventSchema = z.object({
   title: z.string(),
   slug: z.string(),
-  date: z.string(),
-  time: z.string(),
+  startDate: EventDateTimeSchema,
+  endDate: EventDateTimeSchema,
   location: z.string(),
   description: z.string(),
-  cityId: z.string().optional(), // Reference to City by ID
-  sponsorIds: z.array(z.string()).optional(), // References to Sponsors by ID
-  presentationIds: z.array(z.string()).optional(), // References to Presentations by ID
-  newsTopicIds: z.array(z.string()).optional(), // References to NewsTopics by ID
+  cityId: reference("cities.json").optional(), // Reference to City by ID
+  sponsorIds: z.array(reference("sponsors.json")).optional(), // References to Sponsors by ID
+  venueSponsorId: reference("sponsors.json").optional(), // Sponsor hosting the event; its address is the venue's
+  presentationIds: z.array(reference("presentations.json")).optional(), // References to Presentations by ID
+  newsTopicIds: z.array(reference("news-topics.json")).optional(), // References to NewsTopics by ID
   schedule: z.array(ScheduleItemSchema).optional(), // Structured schedule items
+  rsvpOpen: z.boolean().optional(), // Accept RSVPs on the event page
+  capacity: z.number().int().positive().optional(), // Confirmed spots before the waitlist starts
+  ticketPriceSats: z.number().int().positive().optional(), // Paid in Lightning before the RSVP is confirmed
+  attendanceMode: AttendanceModeSchema.optional(), // Defaults to offline
+  streamUrl: z.string().url().optional(), // Livestream (YouTube, Twitch, Vimeo or any page) for online and mixed events
+  recordingUrl: z.string().url().optional(), // Replay of the whole stream once the event is over
+  seriesId: reference("event-series.json").optional(), // Replaces this series' generated event for the date
+  seriesOccurrence: CalendarDateSchema.optional(), // Date of the replaced occurrence when rescheduled; defaults to startDate's
   sections: z.array(SectionSchema),
   meta: MetaSchema,
+  ...PublishingFields,
 });
 
 export const EventsCollectionSchema = z.object({
   events: z.array(EventSchema),
 });
 
+// Event Series Schema
+// Occurrences fall on a weekday every `interval` weeks, or on the `week`-th
+// such weekday every `interval` months, in the series city's timezone
+export const RecurrenceSchema = z
+  .object({
+    frequency: z.enum(["weekly", "monthly"]),
+    interval: z.number().int().positive().optional(), // Every n weeks or months; defaults to 1
+    weekday: z.enum([
+      "monday",
+      "tuesday",
+      "wednesday",
+      "thursday",
+      "friday",
+      "saturday",
+      "sunday",
+    ]),
+    week: z.enum(["first", "second", "third", "fourth", "last"]).optional(), // Monthly only; defaults to "first"
+    startDate: CalendarDateSchema, // The first occurrence is on or after this date
+    until: CalendarDateSchema.optional(), // No occurrences after this date
+    count: z.number().int().positive().optional(), // Number of occurrences, skipped ones included
+    exceptions: z.array(CalendarDateSchema).optional(), // Skipped occurrence dates
+    startTime: ClockTimeSchema,
+    endTime: ClockTimeSchema, // Before startTime runs past midnight
+  })
+  .refine((rule) => rule.until !== undefined || rule.count !== undefined, {
+    message: "Set until or count so the series ends",
+    path: ["until"],
+  });
+
+export const EventSeriesSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  title: z.string(),
+  description: z.string(),
+  recurrence: RecurrenceSchema,
+  // Defaults for every occurrence
+  location: z.string(),
+  cityId: reference("cities.json").optional(), // Reference to City by ID
+  sponsorIds: z.array(reference("sponsors.json")).optional(), // References to Sponsors by ID
+  venueSponsorId: reference("sponsors.json").optional(), // Sponsor hosting the events; its address is the venue's
+  schedule: z.array(ScheduleItemSchema).optional(), // Schedule template
+  rsvpOpen: z.boolean().optional(),
+  capacity: z.number().int().positive().optional(),
+  ticketPriceSats: z.number().int().positive().optional(),
+  attendanceMode: AttendanceModeSchema.optional(),
+  streamUrl: z.string().url().optional(),
+  // Series landing page
+  sections: z.array(SectionSchema),
+  meta: MetaSchema,
+  ...PublishingFields,
+});
+
+export const EventSeriesCollectionSchema = z.object({
+  series: z.array(EventSeriesSchema),
+});
+
 // Onboarding Schema
 export const OnboardingSchema = z.object({
   title: z.string(),
@@ -319,10 +453,11 @@ export const RecapSchema = z.object({
   title: z.string(),
   slug: z.string(),
   date: z.string(),
-  eventTitle: z.string(),
+  eventId: reference("events.json", "slug"), // Reference to the recapped Event by slug
   summary: z.string(),
   sections: z.array(SectionSchema),
   meta: MetaSchema,
+  ...PublishingFields,
 });
 
 export const RecapsCollectionSchema = z.object({
@@ -635,6 +770,7 @@ export const SlideDeckSchema = z.object({
   updatedAt: z.string(), // ISO date format
   slides: z.array(SlideSchema),
   meta: MetaSchema,
+  ...PublishingFields,
 });
 
 export const SlidesCollectionSchema = z.object({
@@ -690,7 +826,7 @@ export const FAQItemSchema = z.object({
       anchor: z.string().optional(), // Optional anchor link to specific section
     })
     .optional(),
-  relatedFaqs: z.array(z.string()).optional(), // Array of FAQ IDs
+  relatedFaqs: z.array(reference("faq.json")).optional(), // Array of FAQ IDs
   tags: z.array(z.string()).optional(),
 });
 
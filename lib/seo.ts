@@ -1,6 +1,15 @@
 import type { Metadata } from "next";
 
 import { DEFAULT_IMAGE, SITE_NAME, SITE_URL } from "./constants";
+import { getTranslatedLocales } from "./content";
+import {
+  DEFAULT_LOCALE,
+  getLanguageAlternates,
+  getSitePath,
+  type Locale,
+  localizeUrl,
+  OPEN_GRAPH_LOCALES,
+} from "./i18n";
 import type { Meta } from "./types";
 
 /**
@@ -15,6 +24,7 @@ export {
   createWebPageSchema,
   createBreadcrumbList,
   createEventSchema,
+  createEventSeriesSchema,
   createArticleSchema,
   createCourseSchema,
   createHowToSchema,
@@ -27,26 +37,53 @@ export {
   createSchemaGraph,
 } from "./structured-data";
 
+export interface MetadataOptions {
+  /** English URL of the page; localized for `locale` and used for hreflang */
+  canonicalUrl?: string;
+  locale?: Locale;
+  type?: "website" | "article";
+  publishedTime?: string;
+  modifiedTime?: string;
+  authors?: string[];
+  images?: Array<{
+    url: string;
+    width?: number;
+    height?: number;
+    alt?: string;
+  }>;
+}
+
+/**
+ * Canonical URL and hreflang alternates for a page in a locale
+ */
+function localizedAlternates(canonicalUrl: string, locale: Locale) {
+  const path = getSitePath(canonicalUrl);
+  if (!path) {
+    return { canonical: canonicalUrl };
+  }
+
+  // Untranslated locales show the English content, so they point at it
+  const locales = getTranslatedLocales();
+  return {
+    canonical: localizeUrl(
+      path,
+      locales.includes(locale) ? locale : DEFAULT_LOCALE
+    ),
+    languages: getLanguageAlternates(path, locales),
+  };
+}
+
 /**
  * Generate metadata from content meta object
  */
 export function generateMetadata(
   meta: Meta,
-  options?: {
-    canonicalUrl?: string;
-    type?: "website" | "article";
-    publishedTime?: string;
-    modifiedTime?: string;
-    authors?: string[];
-    images?: Array<{
-      url: string;
-      width?: number;
-      height?: number;
-      alt?: string;
-    }>;
-  }
+  options?: MetadataOptions
 ): Metadata {
-  const canonicalUrl = options?.canonicalUrl;
+  const locale = options?.locale ?? DEFAULT_LOCALE;
+  const alternates =
+    options?.canonicalUrl && localizedAlternates(options.canonicalUrl, locale);
+  const canonicalUrl = alternates ? alternates.canonical : undefined;
   const ogType = options?.type || "website";
   const images = options?.images || [
     {
@@ -61,16 +98,13 @@ export function generateMetadata(
     title: meta.title,
     description: meta.description,
     keywords: meta.keywords,
-    ...(canonicalUrl && {
-      alternates: {
-        canonical: canonicalUrl,
-      },
-    }),
+    ...(alternates && { alternates }),
     openGraph: {
       title: meta.title,
       description: meta.description,
       siteName: SITE_NAME,
       type: ogType,
+      locale: OPEN_GRAPH_LOCALES[locale],
       images,
       ...(ogType === "article" && {
         publishedTime: options?.publishedTime,
@@ -95,19 +129,7 @@ export function generatePageMetadata(
   title: string,
   description: string,
   keywords?: string[],
-  options?: {
-    canonicalUrl?: string;
-    type?: "website" | "article";
-    publishedTime?: string;
-    modifiedTime?: string;
-    authors?: string[];
-    images?: Array<{
-      url: string;
-      width?: number;
-      height?: number;
-      alt?: string;
-    }>;
-  }
+  options?: MetadataOptions
 ): Metadata {
   return generateMetadata({ title, description, keywords }, options);
 }
@@ -115,8 +137,11 @@ export function generatePageMetadata(
 /**
  * Generate metadata for home page
  */
-export function generateHomeMetadata(): Metadata {
-  const canonicalUrl = SITE_URL;
+export function generateHomeMetadata(
+  locale: Locale = DEFAULT_LOCALE
+): Metadata {
+  const alternates = localizedAlternates(SITE_URL, locale);
+  const canonicalUrl = alternates.canonical;
   return {
     title: "Builder Vancouver | Bitcoin Meetups & Education",
     description:
@@ -130,14 +155,13 @@ export function generateHomeMetadata(): Metadata {
       "cryptocurrency",
       "builder",
     ],
-    alternates: {
-      canonical: canonicalUrl,
-    },
+    alternates,
     openGraph: {
       title: "Builder Vancouver",
       description: "Bitcoin meetups, education, and community in Vancouver",
       siteName: SITE_NAME,
       type: "website",
+      locale: OPEN_GRAPH_LOCALES[locale],
       url: canonicalUrl,
       images: [
         {
@@ -49,6 +49,15 @@ export function loadSocialMediaConfig(): PlatformConfig {
       ? {
           privateKey: process.env.NOSTR_PRIVATE_KEY,
           relays: parseNostrRelays(process.env.NOSTR_RELAYS),
+          ...(process.env.NOSTR_MEDIA_SERVER && {
+            mediaServer: {
+              url: process.env.NOSTR_MEDIA_SERVER,
+              protocol:
+                process.env.NOSTR_MEDIA_PROTOCOL === "nip96"
+                  ? ("nip96" as const)
+                  : ("blossom" as const),
+            },
+          }),
         }
       : undefined,
   };
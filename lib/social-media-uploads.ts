@@ -0,0 +1,222 @@
+/**
+ * Social Media Uploads
+ * Images attached to social media posts. PostForm resizes them in the
+ * browser and uploads them to /api/social-media/media, which checks what the
+ * file really is and keeps it in the local data directory under its SHA-256
+ * hash. Posts refer to uploads by ID: X receives the bytes through its media
+ * upload, and Nostr links to a copy on a media server, or to the one served
+ * from /api/social-media/media/[id] when none is configured.
+ */
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import { z } from "zod";
+
+import {
+  SITE_URL,
+  SOCIAL_MEDIA_IMAGE_TYPES,
+  SOCIAL_MEDIA_MAX_IMAGE_BYTES,
+  SOCIAL_MEDIA_MAX_IMAGE_DIMENSION,
+} from "./constants";
+import { getDataPath } from "./data-dir";
+
+export const UPLOADS_DIR = getDataPath("social-media");
+
+export type ImageType = (typeof SOCIAL_MEDIA_IMAGE_TYPES)[number];
+
+const EXTENSIONS: Record<ImageType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/**
+ * Upload IDs are the file's SHA-256 hash and extension, like Blossom blob
+ * URLs
+ */
+export const UploadIdSchema = z
+  .string()
+  .regex(/^[0-9a-f]{64}\.(jpg|png|gif|webp)$/, "Unknown upload");
+
+export interface ImageInfo {
+  type: ImageType;
+  width: number;
+  height: number;
+}
+
+export interface Upload extends ImageInfo {
+  id: string;
+  sha256: string;
+  size: number;
+  data: Buffer;
+}
+
+/**
+ * Thrown when an upload isn't an image the platforms accept, or is missing
+ */
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+/** JPEG start-of-frame markers, which carry the image size */
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+function readJpegSize(data: Buffer): Pick<ImageInfo, "width" | "height"> {
+  let offset = 2;
+  while (offset < data.length) {
+    if (data[offset] !== 0xff) break;
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+    } else if (JPEG_SOF_MARKERS.has(marker)) {
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    } else if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+    } else {
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  throw new RangeError("No JPEG frame header");
+}
+
+function readWebpSize(data: Buffer): Pick<ImageInfo, "width" | "height"> {
+  switch (data.toString("ascii", 12, 16)) {
+    case "VP8 ":
+      return {
+        width: data.readUInt16LE(26) & 0x3fff,
+        height: data.readUInt16LE(28) & 0x3fff,
+      };
+    case "VP8L": {
+      const bits = data.readUInt32LE(21);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+    case "VP8X":
+      return {
+        width: data.readUIntLE(24, 3) + 1,
+        height: data.readUIntLE(27, 3) + 1,
+      };
+    default:
+      throw new RangeError("Unknown WebP chunk");
+  }
+}
+
+/**
+ * Type and size of an image, read from its header rather than trusted from
+ * the upload's file name or Content-Type. Undefined for anything else.
+ */
+export function readImageInfo(data: Buffer): ImageInfo | undefined {
+  try {
+    if (data.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+      return {
+        type: "image/png",
+        width: data.readUInt32BE(16),
+        height: data.readUInt32BE(20),
+      };
+    }
+    if (/^GIF8[79]a$/.test(data.toString("ascii", 0, 6))) {
+      return {
+        type: "image/gif",
+        width: data.readUInt16LE(6),
+        height: data.readUInt16LE(8),
+      };
+    }
+    if (
+      data.toString("ascii", 0, 4) === "RIFF" &&
+      data.toString("ascii", 8, 12) === "WEBP"
+    ) {
+      return { type: "image/webp", ...readWebpSize(data) };
+    }
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      return { type: "image/jpeg", ...readJpegSize(data) };
+    }
+  } catch {
+    // Truncated or corrupt header
+  }
+  return undefined;
+}
+
+function getUploadPath(id: string): string {
+  return join(UPLOADS_DIR, id);
+}
+
+/**
+ * Checks an uploaded image and stores it. Uploading the same file again
+ * returns the stored one.
+ */
+export async function saveUpload(data: Buffer): Promise<Upload> {
+  const info = readImageInfo(data);
+  if (!info) {
+    throw new UploadError("Upload a JPEG, PNG, GIF or WebP image");
+  }
+  if (data.length > SOCIAL_MEDIA_MAX_IMAGE_BYTES) {
+    throw new UploadError(
+      `Images must be ${SOCIAL_MEDIA_MAX_IMAGE_BYTES / 1024 / 1024} MB or less`
+    );
+  }
+  if (Math.max(info.width, info.height) > SOCIAL_MEDIA_MAX_IMAGE_DIMENSION) {
+    throw new UploadError(
+      `Images must be ${SOCIAL_MEDIA_MAX_IMAGE_DIMENSION} pixels or less on their longest side`
+    );
+  }
+
+  const sha256 = createHash("sha256").update(data).digest("hex");
+  const id = `${sha256}.${EXTENSIONS[info.type]}`;
+  const path = getUploadPath(id);
+  const temp = `${path}.${process.pid}.tmp`;
+
+  await mkdir(UPLOADS_DIR, { recursive: true });
+  await writeFile(temp, data);
+  await rename(temp, path);
+
+  return { ...info, id, sha256, size: data.length, data };
+}
+
+/**
+ * A stored upload, or undefined when there's none with that ID
+ */
+export async function readUpload(id: string): Promise<Upload | undefined> {
+  if (!UploadIdSchema.safeParse(id).success) {
+    return undefined;
+  }
+
+  const data = await readFile(getUploadPath(id)).catch(() => undefined);
+  const info = data && readImageInfo(data);
+  if (!data || !info) {
+    return undefined;
+  }
+  return { ...info, id, sha256: id.split(".")[0], size: data.length, data };
+}
+
+/**
+ * Stored uploads for a post's images, in order
+ */
+export async function loadUploads(ids: string[]): Promise<Upload[]> {
+  return Promise.all(
+    ids.map(async (id) => {
+      const upload = await readUpload(id);
+      if (!upload) {
+        throw new UploadError(`Image ${id} hasn't been uploaded`);
+      }
+      return upload;
+    })
+  );
+}
+
+/**
+ * Public URL of a stored upload on this site
+ */
+export function getUploadUrl(id: string): string {
+  return `${SITE_URL}/api/social-media/media/${id}`;
+}
@@ -1,9 +1,30 @@
+import type { EventTemplate, VerifiedEvent } from "nostr-tools";
 import { TwitterApi } from "twitter-api-v2";
 import { z } from "zod";
 
-import { X_MAX_CHARACTERS, X_MAX_MEDIA_ITEMS } from "./constants";
+import {
+  SOCIAL_MEDIA_MAX_ALT_TEXT,
+  X_MAX_CHARACTERS,
+  X_MAX_MEDIA_ITEMS,
+} from "./constants";
+import {
+  getUploadUrl,
+  loadUploads,
+  type Upload,
+  UploadIdSchema,
+} from "./social-media-uploads";
 import { sanitizeContent } from "./social-media-utils";
 
+/**
+ * An uploaded image attached to a post
+ */
+export const PostImageSchema = z.object({
+  id: UploadIdSchema, // From POST /api/social-media/media
+  alt: z.string().trim().max(SOCIAL_MEDIA_MAX_ALT_TEXT).optional(),
+});
+
+export type PostImage = z.infer<typeof PostImageSchema>;
+
 /**
  * Social Media Post Schema
  * Validates content before posting to platforms
@@ -17,7 +38,7 @@ export const SocialMediaPostSchema = z.object({
       `Content must be ${X_MAX_CHARACTERS} characters or less`
     ),
   images: z
-    .array(z.string().url())
+    .array(PostImageSchema)
     .max(X_MAX_MEDIA_ITEMS, `Maximum ${X_MAX_MEDIA_ITEMS} images allowed`)
     .optional(),
   tags: z.array(z.string().min(1).max(50)).optional(), // Hashtags or Nostr tags
@@ -67,9 +88,18 @@ export type PlatformConfig = {
   nostr?: {
     privateKey: string; // Hex-encoded private key
     relays: string[]; // Array of relay URLs
+    // Where images are hosted; served from this site when not set
+    mediaServer?: { url: string; protocol: "blossom" | "nip96" };
   };
 };
 
+/**
+ * An uploaded image and its alt text
+ */
+type PostMedia = Upload & Pick<PostImage, "alt">;
+
+type NostrSigner = (event: EventTemplate) => VerifiedEvent;
+
 /**
  * X (Twitter) API Client
  * Uses twitter-api-v2 library for OAuth 1.0a authentication
@@ -90,7 +120,10 @@ class XClient {
     }
   }
 
-  async post(content: SocialMediaPost): Promise<PostResult> {
+  async post(
+    content: SocialMediaPost,
+    media: PostMedia[] = []
+  ): Promise<PostResult> {
     if (!this.config) {
       return {
         platform: "x",
@@ -118,15 +151,20 @@ class XClient {
     }
 
     try {
-      // Prepare tweet options for Twitter API v2
-      // Twitter API v2 supports up to X_MAX_MEDIA_ITEMS media items
-      const mediaIds = content.images
-        ? (content.images.slice(0, X_MAX_MEDIA_ITEMS) as
-            | [string]
-            | [string, string]
-            | [string, string, string]
-            | [string, string, string, string])
-        : undefined;
+      // Tweets only take media IDs from X's v1.1 media upload, up to
+      // X_MAX_MEDIA_ITEMS of them
+      const uploaded = await this.uploadMedia(
+        this.client,
+        media.slice(0, X_MAX_MEDIA_ITEMS)
+      );
+      const mediaIds =
+        uploaded.length > 0
+          ? (uploaded as
+              | [string]
+              | [string, string]
+              | [string, string, string]
+              | [string, string, string, string])
+          : undefined;
 
       // Sanitize content before posting
       const sanitizedContent = sanitizeContent(content.content);
@@ -166,6 +204,29 @@ class XClient {
       };
     }
   }
+
+  /**
+   * Uploads images through the v1.1 media endpoint, with their alt text
+   */
+  private async uploadMedia(
+    client: TwitterApi,
+    media: PostMedia[]
+  ): Promise<string[]> {
+    const mediaIds: string[] = [];
+
+    for (const item of media) {
+      const mediaId = await client.v1.uploadMedia(item.data, {
+        mimeType: item.type,
+      });
+      if (item.alt) {
+        await client.v1.createMediaMetadata(mediaId, {
+          alt_text: { text: item.alt },
+        });
+      }
+      mediaIds.push(mediaId);
+    }
+    return mediaIds;
+  }
 }
 
 /**
@@ -174,7 +235,10 @@ class XClient {
 class NostrClient {
   constructor(private config: PlatformConfig["nostr"]) {}
 
-  async post(content: SocialMediaPost): Promise<PostResult> {
+  async post(
+    content: SocialMediaPost,
+    media: PostMedia[] = []
+  ): Promise<PostResult> {
     if (!this.config) {
       return {
         platform: "nostr",
@@ -205,6 +269,16 @@ class NostrClient {
       }
 
       const publicKey = getPublicKey(privateKeyBytes);
+      const sign: NostrSigner = (event) =>
+        finalizeEvent(event, privateKeyBytes);
+
+      // Images are linked from the note, described by NIP-92 imeta tags
+      const images = await Promise.all(
+        media.map(async (item) => ({
+          ...item,
+          url: await this.hostImage(item, sign),
+        }))
+      );
 
       // Create event
       // Nostr kind 1 = text note (standard post)
@@ -216,8 +290,19 @@ class NostrClient {
           ...(content.tags
             ?.map((tag) => ["t", tag.trim()])
             .filter(([, tag]) => tag.length > 0) || []),
+          ...images.map((image) => [
+            "imeta",
+            `url ${image.url}`,
+            `m ${image.type}`,
+            `x ${image.sha256}`,
+            `dim ${image.width}x${image.height}`,
+            ...(image.alt ? [`alt ${image.alt}`] : []),
+          ]),
         ],
-        content: sanitizeContent(content.content),
+        content: [
+          sanitizeContent(content.content),
+          ...images.map((image) => image.url),
+        ].join("\n"),
         pubkey: publicKey,
       };
 
@@ -277,6 +362,84 @@ class NostrClient {
     }
   }
 
+  /**
+   * Public URL for an image: uploaded to the configured Blossom or NIP-96
+   * server, or this site's copy when there's none
+   */
+  private async hostImage(media: PostMedia, sign: NostrSigner) {
+    const server = this.config?.mediaServer;
+    if (!server) {
+      return getUploadUrl(media.id);
+    }
+
+    const base = server.url.replace(/\/+$/, "");
+    const now = Math.floor(Date.now() / 1000);
+
+    if (server.protocol === "blossom") {
+      // BUD-02 upload, authorized by a kind 24242 event
+      const authorization = sign({
+        kind: 24242,
+        created_at: now,
+        tags: [
+          ["t", "upload"],
+          ["x", media.sha256],
+          ["expiration", String(now + 300)],
+        ],
+        content: `Upload ${media.id}`,
+      });
+      const response = await fetch(`${base}/upload`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": media.type,
+          Authorization: `Nostr ${Buffer.from(JSON.stringify(authorization)).toString("base64")}`,
+        },
+        body: new Uint8Array(media.data),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Media server rejected the image (${response.status}): ${response.headers.get("X-Reason") ?? response.statusText}`
+        );
+      }
+      return ((await response.json()) as { url: string }).url;
+    }
+
+    // NIP-96: find the upload endpoint, then post the file with NIP-98 auth
+    const { nip98 } = await import("nostr-tools");
+    const info = await fetch(`${base}/.well-known/nostr/nip96.json`);
+    if (!info.ok) {
+      throw new Error(`${base} isn't a NIP-96 media server`);
+    }
+    const { api_url: apiUrl } = (await info.json()) as { api_url: string };
+
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([new Uint8Array(media.data)], { type: media.type }),
+      media.id
+    );
+    form.append("content_type", media.type);
+    if (media.alt) form.append("alt", media.alt);
+
+    const response = await fetch(apiUrl, {
+      method: "POST",
+      headers: {
+        Authorization: await nip98.getToken(apiUrl, "POST", sign, true),
+      },
+      body: form,
+    });
+    const result = (await response.json().catch(() => ({}))) as {
+      message?: string;
+      nip94_event?: { tags: string[][] };
+    };
+    const url = result.nip94_event?.tags.find(([name]) => name === "url")?.[1];
+    if (!response.ok || !url) {
+      throw new Error(
+        `Media server rejected the image: ${result.message ?? response.statusText}`
+      );
+    }
+    return url;
+  }
+
   /**
    * Parse Nostr private key from various formats
    * Supports:
@@ -412,16 +575,17 @@ export class SocialMediaService {
    * This improves performance by posting to multiple platforms simultaneously
    */
   async postToAll(content: SocialMediaPost): Promise<PostResponse> {
+    const media = await this.loadMedia(content);
     const promises: Promise<PostResult>[] = [];
 
     // Post to X
     if (this.xClient) {
-      promises.push(this.xClient.post(content));
+      promises.push(this.xClient.post(content, media));
     }
 
     // Post to Nostr
     if (this.nostrClient) {
-      promises.push(this.nostrClient.post(content));
+      promises.push(this.nostrClient.post(content, media));
     }
 
     // Execute all posts in parallel
@@ -441,10 +605,10 @@ export class SocialMediaService {
     content: SocialMediaPost
   ): Promise<PostResult> {
     if (platform === "x" && this.xClient) {
-      return this.xClient.post(content);
+      return this.xClient.post(content, await this.loadMedia(content));
     }
     if (platform === "nostr" && this.nostrClient) {
-      return this.nostrClient.post(content);
+      return this.nostrClient.post(content, await this.loadMedia(content));
     }
 
     return {
@@ -453,4 +617,17 @@ export class SocialMediaService {
       error: `${platform} client not configured`,
     };
   }
+
+  /**
+   * The stored uploads for the post's images; throws UploadError when one
+   * is missing
+   */
+  private async loadMedia(content: SocialMediaPost): Promise<PostMedia[]> {
+    const images = content.images ?? [];
+    const uploads = await loadUploads(images.map((image) => image.id));
+    return uploads.map((upload, index) => ({
+      ...upload,
+      alt: images[index].alt,
+    }));
+  }
 }
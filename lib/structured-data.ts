@@ -105,33 +105,45 @@ export function createEventSchema(event: {
   title: string;
   slug: string;
   description: string;
-  date: string;
-  time: string;
+  /** ISO 8601 with the event timezone's UTC offset */
+  startDate: string;
+  endDate: string;
   location: string;
-  endDate?: string;
   imageUrl?: string;
   imageWidth?: number;
   imageHeight?: number;
+  ticketPriceSats?: number;
+  /** Series the event is an occurrence of */
+  series?: { title: string; slug: string };
+  attendanceMode?: "offline" | "online" | "mixed";
+  streamUrl?: string;
+  /** City the event is in */
+  city?: { name: string; region: string; country: string };
+  /** Street address of the sponsor hosting the event */
+  venueAddress?: { streetAddress: string; postalCode?: string };
 }) {
   const url = `${SITE_URL}/events/${event.slug}`;
-  const startDate = new Date(event.date);
-
-  // Parse time if provided (format: "HH:MM" or "HH:MM AM/PM")
-  let startDateTime = startDate;
-  if (event.time) {
-    const timeMatch = event.time.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
-    if (timeMatch) {
-      let hours = parseInt(timeMatch[1], 10);
-      const minutes = parseInt(timeMatch[2], 10);
-      const ampm = timeMatch[3]?.toUpperCase();
-
-      if (ampm === "PM" && hours !== 12) hours += 12;
-      if (ampm === "AM" && hours === 12) hours = 0;
+  const attendanceMode = event.attendanceMode ?? "offline";
 
-      startDateTime = new Date(startDate);
-      startDateTime.setHours(hours, minutes, 0, 0);
-    }
-  }
+  const place = {
+    "@type": "Place",
+    name: event.location,
+    ...((event.city || event.venueAddress) && {
+      address: {
+        "@type": "PostalAddress",
+        ...event.venueAddress,
+        ...(event.city && {
+          addressLocality: event.city.name,
+          addressRegion: event.city.region,
+          addressCountry: event.city.country,
+        }),
+      },
+    }),
+  };
+  const virtualLocation = {
+    "@type": "VirtualLocation",
+    url: event.streamUrl ?? url,
+  };
 
   return {
     "@context": "https://schema.org",
@@ -139,22 +151,30 @@ export function createEventSchema(event: {
     "@id": url,
     name: event.title,
     description: event.description,
-    startDate: startDateTime.toISOString(),
-    ...(event.endDate && { endDate: new Date(event.endDate).toISOString() }),
+    startDate: event.startDate,
+    endDate: event.endDate,
     location: {
-      "@type": "Place",
-      name: event.location,
-      address: {
-        "@type": "PostalAddress",
-        addressLocality: "Vancouver",
-        addressRegion: "BC",
-        addressCountry: "CA",
-      },
-    },
+      offline: place,
+      online: virtualLocation,
+      mixed: [place, virtualLocation],
+    }[attendanceMode],
     organizer: organizationRef(),
     eventStatus: "EventScheduled",
-    eventAttendanceMode: "OfflineEventAttendanceMode",
-    isAccessibleForFree: true,
+    eventAttendanceMode: {
+      offline: "OfflineEventAttendanceMode",
+      online: "OnlineEventAttendanceMode",
+      mixed: "MixedEventAttendanceMode",
+    }[attendanceMode],
+    isAccessibleForFree: !event.ticketPriceSats,
+    ...(event.ticketPriceSats && {
+      offers: {
+        "@type": "Offer",
+        url,
+        price: (event.ticketPriceSats / 100_000_000).toFixed(8),
+        priceCurrency: "BTC",
+        availability: "https://schema.org/InStock",
+      },
+    }),
     ...(event.imageUrl && {
       image: {
         "@type": "ImageObject",
@@ -163,6 +183,39 @@ export function createEventSchema(event: {
         height: event.imageHeight || 630,
       },
     }),
+    ...(event.series && {
+      superEvent: {
+        "@type": "EventSeries",
+        "@id": `${SITE_URL}/series/${event.series.slug}`,
+        name: event.series.title,
+      },
+    }),
+    url,
+  };
+}
+
+/**
+ * Creates an EventSeries schema listing its events as subEvents
+ */
+export function createEventSeriesSchema(series: {
+  title: string;
+  slug: string;
+  description: string;
+  /** Slugs of the series' events */
+  eventSlugs: string[];
+}) {
+  const url = `${SITE_URL}/series/${series.slug}`;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "EventSeries",
+    "@id": url,
+    name: series.title,
+    description: series.description,
+    organizer: organizationRef(),
+    subEvent: series.eventSlugs.map((slug) => ({
+      "@id": `${SITE_URL}/events/${slug}`,
+    })),
     url,
   };
 }
@@ -175,7 +228,8 @@ export function createArticleSchema(article: {
   slug: string;
   summary: string;
   date: string;
-  eventTitle?: string;
+  /** Slug of the event the article is about */
+  eventSlug?: string;
   authorId?: string;
   authorName?: string;
   authorUrl?: string;
@@ -208,6 +262,9 @@ export function createArticleSchema(article: {
       "@type": "WebPage",
       "@id": url,
     },
+    ...(article.eventSlug && {
+      about: { "@id": `${SITE_URL}/events/${article.eventSlug}` },
+    }),
     ...(article.imageUrl && {
       image: {
         "@type": "ImageObject",
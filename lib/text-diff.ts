@@ -0,0 +1,107 @@
+/**
+ * Line Diff
+ * Minimal unified diff (longest common subsequence over lines) for previewing
+ * content file changes before they are written
+ */
+
+export type DiffLineType = "context" | "added" | "removed" | "hunk";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+function splitLines(text: string | undefined): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  return lines[lines.length - 1] === "" ? lines.slice(0, -1) : lines;
+}
+
+/**
+ * Every line of both texts, marked as kept, added or removed
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  // lcs[i][j] = length of the LCS of before[i..] and after[j..]
+  const lcs = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ type: "context", text: before[i] });
+      i++;
+      j++;
+    } else if (
+      i < before.length &&
+      (j === after.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      lines.push({ type: "removed", text: before[i] });
+      i++;
+    } else {
+      lines.push({ type: "added", text: after[j] });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Unified diff of two texts with `context` unchanged lines around each change.
+ * Returns an empty list when the texts are the same.
+ */
+export function createUnifiedDiff(
+  before: string | undefined,
+  after: string | undefined,
+  context = 3
+): DiffLine[] {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const changed = lines
+    .map((line, index) => (line.type === "context" ? -1 : index))
+    .filter((index) => index >= 0);
+  if (changed.length === 0) return [];
+
+  // Group changes whose context windows touch into hunks
+  const hunks: [number, number][] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  for (const [start, end] of hunks) {
+    let oldLine = 1;
+    let newLine = 1;
+    for (const line of lines.slice(0, start)) {
+      if (line.type !== "added") oldLine++;
+      if (line.type !== "removed") newLine++;
+    }
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.type !== "added").length;
+    const newCount = hunk.filter((line) => line.type !== "removed").length;
+    result.push(
+      {
+        type: "hunk",
+        text: `@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`,
+      },
+      ...hunk
+    );
+  }
+  return result;
+}
@@ -0,0 +1,262 @@
+/**
+ * Event Tickets
+ * Paid sign-ups for events with a `ticketPriceSats`. Buying a ticket holds
+ * a spot and creates a Lightning invoice; once it settles the ticket
+ * is issued as a confirmed RSVP, which then goes through check-in like any
+ * other.
+ */
+import { randomUUID } from "crypto";
+import QRCode from "qrcode";
+import { z } from "zod";
+
+import { SITE_URL } from "./constants";
+import { getDataPath } from "./data-dir";
+import { createJsonStore } from "./json-store";
+import type { Invoice, PaymentProvider } from "./payments";
+import {
+  createRsvp,
+  getEventRsvps,
+  getRsvpCounts,
+  isRsvpOpen,
+  type Rsvp,
+  RsvpError,
+} from "./rsvp";
+import type { Event } from "./types";
+
+export const TICKET_STORE = getDataPath("tickets.json");
+
+/** How long an invoice, and the spot it holds, stays valid */
+export const TICKET_INVOICE_EXPIRY_SECONDS = 15 * 60;
+
+export const TicketSchema = z.object({
+  id: z.string(),
+  eventSlug: z.string(),
+  name: z.string(),
+  email: z.string().email(),
+  userId: z.string().optional(),
+  amountSats: z.number().int().positive(),
+  /** Provider the invoice was created with */
+  provider: z.string(),
+  paymentHash: z.string(),
+  paymentRequest: z.string(),
+  status: z.enum(["pending", "paid", "expired"]),
+  expiresAt: z.string().datetime(),
+  /** The RSVP issued once paid */
+  rsvpId: z.string().optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type Ticket = z.infer<typeof TicketSchema>;
+
+/**
+ * What the buyer is shown while paying
+ */
+export interface TicketView {
+  id: string;
+  status: Ticket["status"];
+  amountSats: number;
+  paymentRequest: string;
+  /** PNG data URL of the `lightning:` payment link */
+  qrCode: string;
+  expiresAt: string;
+}
+
+const store = createJsonStore(
+  TICKET_STORE,
+  z.object({ tickets: z.array(TicketSchema) }),
+  () => ({ tickets: [] })
+);
+
+function isHolding(ticket: Ticket, now: Date): boolean {
+  return (
+    ticket.status === "pending" && Date.parse(ticket.expiresAt) > now.getTime()
+  );
+}
+
+export async function getTicket(id: string): Promise<Ticket | undefined> {
+  return (await store.read()).tickets.find((ticket) => ticket.id === id);
+}
+
+export async function findTicketByPaymentHash(
+  paymentHash: string
+): Promise<Ticket | undefined> {
+  return (await store.read()).tickets.find(
+    (ticket) => ticket.paymentHash === paymentHash
+  );
+}
+
+export async function toTicketView(ticket: Ticket): Promise<TicketView> {
+  return {
+    id: ticket.id,
+    status: ticket.status,
+    amountSats: ticket.amountSats,
+    paymentRequest: ticket.paymentRequest,
+    qrCode: await QRCode.toDataURL(
+      `lightning:${ticket.paymentRequest}`.toUpperCase(),
+      { margin: 2, width: 256 }
+    ),
+    expiresAt: ticket.expiresAt,
+  };
+}
+
+/**
+ * Starts buying a ticket: holds a free spot, then creates the invoice. The
+ * spot stays held until the invoice expires, or is released when the
+ * invoice can't be created.
+ */
+export async function createTicket(
+  event: Event,
+  buyer: { name: string; email: string; userId?: string },
+  provider: PaymentProvider,
+  webhookUrl?: string
+): Promise<Ticket> {
+  if (!event.ticketPriceSats) {
+    throw new RsvpError("This event doesn't sell tickets");
+  }
+  if (!isRsvpOpen(event)) {
+    throw new RsvpError("Ticket sales are closed for this event");
+  }
+
+  const email = buyer.email.toLowerCase();
+  const rsvps = await getEventRsvps(event.slug);
+  const signedUp = rsvps.some(
+    (rsvp) =>
+      rsvp.status !== "cancelled" &&
+      (rsvp.email === email ||
+        (buyer.userId !== undefined && rsvp.userId === buyer.userId))
+  );
+  if (signedUp) {
+    throw new RsvpError("This email already has a ticket");
+  }
+
+  const now = new Date();
+  const { remaining = Infinity } = getRsvpCounts(event, rsvps);
+  const rsvpIds = new Set(rsvps.map((rsvp) => rsvp.id));
+  const createdAt = now.toISOString();
+  const reserved: Ticket = {
+    id: randomUUID(),
+    eventSlug: event.slug,
+    name: buyer.name,
+    email,
+    ...(buyer.userId && { userId: buyer.userId }),
+    amountSats: event.ticketPriceSats,
+    provider: provider.name,
+    paymentHash: "",
+    paymentRequest: "",
+    status: "pending",
+    expiresAt: new Date(
+      now.getTime() + TICKET_INVOICE_EXPIRY_SECONDS * 1000
+    ).toISOString(),
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  // Capacity is checked and the spot held in one write, so two buyers can't
+  // both take the last spot while their invoices are being created
+  await store.update(({ tickets }) => {
+    // Unpaid, unexpired invoices each hold a spot, as do tickets paid since
+    // the RSVPs were read
+    const held = tickets.filter(
+      (ticket) =>
+        ticket.eventSlug === event.slug &&
+        (isHolding(ticket, now) ||
+          (ticket.status === "paid" && !rsvpIds.has(ticket.rsvpId ?? "")))
+    );
+    if (
+      held.some((ticket) => ticket.email === email && isHolding(ticket, now))
+    ) {
+      throw new RsvpError(
+        "A ticket for this email is waiting for payment. Pay its invoice or try again once it expires."
+      );
+    }
+    if (remaining - held.length <= 0) {
+      throw new RsvpError("Sold out");
+    }
+    tickets.push(reserved);
+  });
+
+  let invoice: Invoice;
+  try {
+    invoice = await provider.createInvoice({
+      amountSats: event.ticketPriceSats,
+      memo: `Ticket: ${event.title}`,
+      expirySeconds: TICKET_INVOICE_EXPIRY_SECONDS,
+      webhookUrl,
+    });
+  } catch (error) {
+    // Release the spot
+    await store.update(({ tickets }) => {
+      const index = tickets.findIndex((t) => t.id === reserved.id);
+      if (index !== -1) tickets.splice(index, 1);
+    });
+    throw error;
+  }
+
+  return store.update(({ tickets }) => {
+    const stored = tickets.find((t) => t.id === reserved.id);
+    if (!stored) throw new Error(`Ticket ${reserved.id} not found`);
+    stored.amountSats = invoice.amountSats;
+    stored.paymentHash = invoice.paymentHash;
+    stored.paymentRequest = invoice.paymentRequest;
+    stored.expiresAt = invoice.expiresAt;
+    stored.updatedAt = new Date().toISOString();
+    return stored;
+  });
+}
+
+/**
+ * Checks a ticket's invoice and, once it's paid, issues the RSVP. Expired
+ * tickets are checked too, in case the payment landed just in time.
+ * Safe to call repeatedly, e.g. from status polling and the webhook at once.
+ */
+export async function settleTicket(
+  event: Event,
+  ticket: Ticket,
+  provider: PaymentProvider
+): Promise<{ ticket: Ticket; rsvp?: Rsvp }> {
+  if (ticket.status === "paid") {
+    const rsvps = await getEventRsvps(event.slug);
+    return { ticket, rsvp: rsvps.find((r) => r.id === ticket.rsvpId) };
+  }
+
+  const status = await provider.getInvoiceStatus(ticket.paymentHash);
+  if (status === "pending" && isHolding(ticket, new Date())) {
+    return { ticket };
+  }
+  if (status !== "paid" && ticket.status === "expired") {
+    return { ticket };
+  }
+
+  // createRsvp returns the existing RSVP when this races another settlement
+  const rsvp =
+    status === "paid"
+      ? (
+          await createRsvp(event, {
+            name: ticket.name,
+            email: ticket.email,
+            ...(ticket.userId && { userId: ticket.userId }),
+            ticketId: ticket.id,
+          })
+        ).rsvp
+      : undefined;
+
+  const updated = await store.update(({ tickets }) => {
+    const stored = tickets.find((t) => t.id === ticket.id);
+    if (!stored) throw new Error(`Ticket ${ticket.id} not found`);
+    stored.status = rsvp ? "paid" : "expired";
+    if (rsvp) stored.rsvpId = rsvp.id;
+    stored.updatedAt = new Date().toISOString();
+    return stored;
+  });
+  return { ticket: updated, rsvp };
+}
+
+/**
+ * Where the provider reports payments, with the webhook secret when set
+ */
+export function getPaymentWebhookUrl(secret?: string): string {
+  const url = new URL("/api/payments/webhook", SITE_URL);
+  if (secret) url.searchParams.set("secret", secret);
+  return url.toString();
+}
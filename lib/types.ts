@@ -1,12 +1,16 @@
 import { z } from "zod";
 
 import {
+  AttendanceModeSchema,
   CharterSchema,
   CitiesCollectionSchema,
   CitySchema,
+  ContentStatusSchema,
   EducationalContentSchema,
   EventSchema,
   EventsCollectionSchema,
+  EventSeriesCollectionSchema,
+  EventSeriesSchema,
   FAQCategorySchema,
   FAQItemSchema,
   FAQsCollectionSchema,
@@ -32,6 +36,7 @@ import {
   ProjectsCollectionSchema,
   RecapSchema,
   RecapsCollectionSchema,
+  RecurrenceSchema,
   ResourceSchema,
   ResourcesCollectionSchema,
   RoadmapItemSchema,
@@ -59,8 +64,12 @@ import {
  */
 
 export type ScheduleItem = z.infer<typeof ScheduleItemSchema>;
+export type AttendanceMode = z.infer<typeof AttendanceModeSchema>;
 export type Event = z.infer<typeof EventSchema>;
 export type EventsCollection = z.infer<typeof EventsCollectionSchema>;
+export type Recurrence = z.infer<typeof RecurrenceSchema>;
+export type EventSeries = z.infer<typeof EventSeriesSchema>;
+export type EventSeriesCollection = z.infer<typeof EventSeriesCollectionSchema>;
 
 export type Onboarding = z.infer<typeof OnboardingSchema>;
 export type GetInvolved = z.infer<typeof GetInvolvedSchema>;
@@ -105,6 +114,7 @@ export type Philosophy = z.infer<typeof PhilosophySchema>;
 
 // Helper types for sections and common elements
 export type Section = z.infer<typeof SectionSchema>;
+export type ContentStatus = z.infer<typeof ContentStatusSchema>;
 export type Meta = z.infer<typeof MetaSchema>;
 
 // Cities types
@@ -145,6 +155,7 @@ export type FAQsCollection = z.infer<typeof FAQsCollectionSchema>;
 // Social Media types
 export type {
   SocialMediaPost,
+  PostImage,
   PostResult,
   PostResponse,
   PlatformConfig,
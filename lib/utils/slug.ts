@@ -0,0 +1,47 @@
+/**
+ * Slug Helpers
+ * URL slugs and IDs for new content entries
+ */
+
+/**
+ * Turns a title or name into a URL slug, e.g. "Intro to LDK!" → "intro-to-ldk"
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * True when `slug` (or its `<idPrefix>-<slug>` ID) is used in `items`
+ */
+export function isSlugTaken(
+  items: { id?: string; slug: string }[],
+  slug: string,
+  idPrefix?: string
+): boolean {
+  return items.some(
+    (item) =>
+      item.slug === slug ||
+      (idPrefix !== undefined && item.id === `${idPrefix}-${slug}`)
+  );
+}
+
+/**
+ * `base`, or `base-2`, `base-3`… whichever is free in `items`
+ */
+export function uniqueSlug(
+  items: { id?: string; slug: string }[],
+  base: string,
+  idPrefix?: string
+): string {
+  const root = base || "untitled";
+  let slug = root;
+  for (let n = 2; isSlugTaken(items, slug, idPrefix); n++) {
+    slug = `${root}-${n}`;
+  }
+  return slug;
+}
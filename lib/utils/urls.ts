@@ -22,6 +22,18 @@ export const urls = {
     list: () => buildUrl("/events"),
     detail: (slug: string) => buildUrl(`/events/${slug}`),
     present: (slug: string) => buildUrl(`/events/${slug}/present`),
+    live: (slug: string) => buildUrl(`/events/${slug}/live`),
+    calendar: () => buildUrl("/events.ics"),
+    calendarFile: (slug: string) => buildUrl(`/events/${slug}/event.ics`),
+    rsvp: (slug: string, token?: string) =>
+      buildUrl(
+        `/events/${slug}/rsvp${token ? `?token=${encodeURIComponent(token)}` : ""}`
+      ),
+  },
+
+  series: {
+    detail: (slug: string) => buildUrl(`/series/${slug}`),
+    calendar: (slug: string) => buildUrl(`/series/${slug}/events.ics`),
   },
 
   recaps: {
@@ -52,6 +64,8 @@ export const urls = {
 
   resources: () => buildUrl("/resources"),
   projects: () => buildUrl("/projects"),
+  openSource: () => buildUrl("/open-source"),
+  technicalRoadmap: () => buildUrl("/technical-roadmap"),
   getInvolved: () => buildUrl("/get-involved"),
   vibeApps: () => buildUrl("/vibe-apps"),
   vibeCoding: () => buildUrl("/vibe-coding"),
@@ -61,6 +75,7 @@ export const urls = {
   cities: {
     list: () => buildUrl("/cities"),
     detail: (slug: string) => buildUrl(`/cities/${slug}`),
+    calendar: (slug: string) => buildUrl(`/cities/${slug}/events.ics`),
   },
 
   sponsors: {
@@ -93,10 +108,34 @@ export const urls = {
     detail: (slug: string) => buildUrl(`/wallets/${slug}`),
   },
 
+  topTalks: () => buildUrl("/top-talks"),
+
+  cfp: () => buildUrl("/cfp"),
+
   faq: () => buildUrl("/faq"),
 
   socialMedia: () => buildUrl("/social-media"),
 
+  admin: {
+    content: () => buildUrl("/admin/content"),
+    contentFile: (key: string) => buildUrl(`/admin/content/${key}`),
+    contentEntry: (key: string, entry: number | string) =>
+      buildUrl(`/admin/content/${key}/${entry}`),
+    contentHistory: (key: string, entityId?: string) =>
+      buildUrl(
+        `/admin/content/${key}/history${entityId ? `?entity=${encodeURIComponent(entityId)}` : ""}`
+      ),
+    events: () => buildUrl("/admin/events"),
+    eventAttendees: (slug: string) =>
+      buildUrl(`/admin/events/${slug}/attendees`),
+    eventCheckIn: (slug: string) => buildUrl(`/admin/events/${slug}/check-in`),
+    eventFeedback: (slug: string) => buildUrl(`/admin/events/${slug}/feedback`),
+    presenterFeedback: (slug: string) =>
+      buildUrl(`/admin/presenters/${slug}/feedback`),
+    cfp: () => buildUrl("/admin/cfp"),
+    proposal: (id: string) => buildUrl(`/admin/cfp/${id}`),
+  },
+
   page: (slug: string) => buildUrl(`/${slug}`),
 } as const;
 
@@ -109,6 +148,15 @@ export const paths = {
     list: () => "/events",
     detail: (slug: string) => `/events/${slug}`,
     present: (slug: string) => `/events/${slug}/present`,
+    live: (slug: string) => `/events/${slug}/live`,
+    calendar: () => "/events.ics",
+    calendarFile: (slug: string) => `/events/${slug}/event.ics`,
+    rsvp: (slug: string, token?: string) =>
+      `/events/${slug}/rsvp${token ? `?token=${encodeURIComponent(token)}` : ""}`,
+  },
+  series: {
+    detail: (slug: string) => `/series/${slug}`,
+    calendar: (slug: string) => `/series/${slug}/events.ics`,
   },
   recaps: {
     list: () => "/recaps",
@@ -134,6 +182,8 @@ export const paths = {
   },
   resources: () => "/resources",
   projects: () => "/projects",
+  openSource: () => "/open-source",
+  technicalRoadmap: () => "/technical-roadmap",
   getInvolved: () => "/get-involved",
   vibeApps: () => "/vibe-apps",
   vibeCoding: () => "/vibe-coding",
@@ -142,6 +192,7 @@ export const paths = {
   cities: {
     list: () => "/cities",
     detail: (slug: string) => `/cities/${slug}`,
+    calendar: (slug: string) => `/cities/${slug}/events.ics`,
   },
   sponsors: {
     list: () => "/sponsors",
@@ -170,9 +221,29 @@ export const paths = {
     detail: (slug: string) => `/wallets/${slug}`,
   },
 
+  topTalks: () => "/top-talks",
+
+  cfp: () => "/cfp",
+
   faq: () => "/faq",
 
   socialMedia: () => "/social-media",
 
+  admin: {
+    content: () => "/admin/content",
+    contentFile: (key: string) => `/admin/content/${key}`,
+    contentEntry: (key: string, entry: number | string) =>
+      `/admin/content/${key}/${entry}`,
+    contentHistory: (key: string, entityId?: string) =>
+      `/admin/content/${key}/history${entityId ? `?entity=${encodeURIComponent(entityId)}` : ""}`,
+    events: () => "/admin/events",
+    eventAttendees: (slug: string) => `/admin/events/${slug}/attendees`,
+    eventCheckIn: (slug: string) => `/admin/events/${slug}/check-in`,
+    eventFeedback: (slug: string) => `/admin/events/${slug}/feedback`,
+    presenterFeedback: (slug: string) => `/admin/presenters/${slug}/feedback`,
+    cfp: () => "/admin/cfp",
+    proposal: (id: string) => `/admin/cfp/${id}`,
+  },
+
   page: (slug: string) => `/${slug}`,
 } as const;
@@ -0,0 +1,112 @@
+/**
+ * Content Visibility
+ * Decides which events, recaps, presentations, presenters and slide decks
+ * are public, based on their optional `status` and `publishAt` fields
+ */
+import type { ContentStatus } from "./types";
+
+export interface Publishable {
+  status?: ContentStatus;
+  publishAt?: string;
+}
+
+/**
+ * Effective state of an entry at a point in time.
+ * "scheduled" is a published entry whose publishAt is still in the future.
+ */
+export type PublishingState = ContentStatus | "scheduled";
+
+export interface VisibilityOptions {
+  /** Include drafts, scheduled and archived entries (admin preview) */
+  includeDrafts?: boolean;
+}
+
+export function getPublishingState(
+  entry: Publishable,
+  now: Date = new Date()
+): PublishingState {
+  const status = entry.status ?? "published";
+  if (
+    status === "published" &&
+    entry.publishAt &&
+    new Date(entry.publishAt) > now
+  ) {
+    return "scheduled";
+  }
+  return status;
+}
+
+/**
+ * Returns true when the entry should be shown to the public
+ */
+export function isPublished(
+  entry: Publishable,
+  now: Date = new Date()
+): boolean {
+  return getPublishingState(entry, now) === "published";
+}
+
+interface VisibleMemo {
+  items: unknown[];
+  // Earliest future publishAt; the filtered list is stale after this time
+  expiresAt: number;
+}
+
+const visibleMemo = new WeakMap<unknown[], VisibleMemo>();
+
+/**
+ * Filters out unpublished entries. The result is memoized per source array
+ * until the next scheduled entry goes live, so callers that compare
+ * collections by identity (e.g. the content graph) keep hitting their caches.
+ */
+export function filterPublished<T extends Publishable>(
+  items: T[],
+  options: VisibilityOptions = {}
+): T[] {
+  if (options.includeDrafts) {
+    return items;
+  }
+
+  const now = Date.now();
+  const cached = visibleMemo.get(items);
+  if (cached && now < cached.expiresAt) {
+    return cached.items as T[];
+  }
+
+  const visible = items.filter((item) => isPublished(item, new Date(now)));
+  const expiresAt = Math.min(
+    ...items
+      .filter((item) => getPublishingState(item, new Date(now)) === "scheduled")
+      .map((item) => new Date(item.publishAt!).getTime()),
+    Infinity
+  );
+
+  // Keep the source array when nothing was hidden
+  const result = visible.length === items.length ? items : visible;
+  visibleMemo.set(items, { items: result, expiresAt });
+  return result;
+}
+
+const publishedCollections = new WeakMap<unknown[], object>();
+
+/**
+ * Returns `collection` with unpublished entries removed from `collection[key]`,
+ * reusing the same object for as long as the filtered list is unchanged
+ */
+export function selectPublished<
+  C extends { [P in K]: Publishable[] },
+  K extends keyof C,
+>(collection: C, key: K, options: VisibilityOptions = {}): C {
+  const items = collection[key];
+  const visible = filterPublished(items, options);
+  if (visible === items) {
+    return collection;
+  }
+
+  let filtered = publishedCollections.get(visible) as C | undefined;
+  if (!filtered) {
+    filtered = { ...collection, [key]: visible };
+    publishedCollections.set(visible, filtered);
+  }
+  return filtered;
+}
@@ -4,6 +4,13 @@ import path from "path";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // The admin content editor formats saved JSON with Prettier at runtime
+  serverExternalPackages: ["prettier"],
+  experimental: {
+    // Unknown URLs match app/[locale], whose root layout turns them away;
+    // app/global-not-found.tsx renders the 404 outside either root layout
+    globalNotFound: true,
+  },
   turbopack: {
     root: path.join(__dirname, ".."),
   },
@@ -1,7 +1,11 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 
-// Protect API routes
-const isProtectedRoute = createRouteMatcher(["/api/social-media/post(.*)"]);
+// Protect API routes and the admin area
+const isProtectedRoute = createRouteMatcher([
+  "/api/social-media/post(.*)",
+  "/api/admin(.*)",
+  "/admin(.*)",
+]);
 
 export const proxy = clerkMiddleware(async (auth, req) => {
   if (isProtectedRoute(req)) {
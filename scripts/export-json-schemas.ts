@@ -0,0 +1,218 @@
+#!/usr/bin/env tsx
+
+/**
+ * JSON Schema Export
+ * Generates a JSON Schema for every registered content file from the Zod
+ * schemas in lib/schemas.ts, and points each content file at its schema
+ * with a `$schema` key so editors (e.g. VS Code) validate and autocomplete
+ * while you type.
+ *
+ * Output (schemas/):
+ *   <name>.schema.json        whole content file
+ *   <name>.entry.schema.json  one entry file of a split content/<name>/ directory
+ *   <name>.index.schema.json  content/<name>/_index.json
+ *
+ * Enums become `enum` lists and reference fields carry
+ * `"x-reference": { "file": "presenters.json", "field": "id" }`.
+ *
+ * Usage:
+ *   pnpm content:schemas           Write schemas and `$schema` pointers
+ *   pnpm content:schemas --check   Fail if anything is out of date
+ */
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { format, resolveConfig } from "prettier";
+import { z } from "zod";
+
+import { CONTENT_REGISTRY, type ContentEntry } from "../lib/content-registry";
+import {
+  INDEX_FILENAME,
+  listEntryFiles,
+  resolveContentSource,
+} from "../lib/content-source";
+import {
+  getSchemaFilename,
+  getSchemaPointer,
+  SCHEMA_DIR,
+  type SchemaKind,
+  toJsonSchemaDocument,
+} from "../lib/json-schema";
+
+const ROOT_DIR = process.cwd();
+const CONTENT_DIR = join(ROOT_DIR, "content");
+const OUTPUT_DIR = join(ROOT_DIR, SCHEMA_DIR);
+
+/**
+ * A file the export wants to exist with exactly this content
+ */
+interface OutputFile {
+  path: string;
+  content: string;
+}
+
+async function toJson(path: string, value: unknown): Promise<string> {
+  const options = await resolveConfig(path);
+  return format(JSON.stringify(value), { ...options, filepath: path });
+}
+
+/**
+ * Schemas for one content file: the whole file, plus entry and index schemas
+ * for collections that can be split into a directory
+ */
+function buildSchemas(
+  entry: ContentEntry<unknown>
+): [SchemaKind, z.ZodTypeAny][] {
+  const schemas: [SchemaKind, z.ZodTypeAny][] = [["file", entry.schema]];
+
+  if (entry.entries && entry.schema instanceof z.ZodObject) {
+    const collection = entry.schema as z.AnyZodObject;
+    const items = collection.shape[entry.entries] as z.ZodArray<z.ZodTypeAny>;
+    schemas.push(
+      ["entry", items.element],
+      ["index", collection.omit({ [entry.entries]: true })]
+    );
+  }
+
+  return schemas;
+}
+
+/**
+ * Returns the text of a content file with its `$schema` set to `pointer`.
+ * Edits the text in place so the rest of the file keeps its formatting.
+ */
+function setSchemaPointer(text: string, pointer: string): string {
+  const data = JSON.parse(text) as Record<string, unknown>;
+  const line = `"$schema": ${JSON.stringify(pointer)}`;
+
+  if (data.$schema === pointer) {
+    return text;
+  }
+  if ("$schema" in data) {
+    return text.replace(/"\$schema"\s*:\s*"[^"]*"/, line);
+  }
+  if (Object.keys(data).length === 0) {
+    return `{\n  ${line}\n}\n`;
+  }
+  return text.replace(/^\s*\{/, `{\n  ${line},`);
+}
+
+async function pointerUpdate(
+  path: string,
+  pointer: string
+): Promise<OutputFile | undefined> {
+  const text = await readFile(path, "utf-8");
+  const content = setSchemaPointer(text, pointer);
+  return content === text ? undefined : { path, content };
+}
+
+/**
+ * Content files whose `$schema` pointer needs adding or updating
+ */
+async function collectPointerUpdates(
+  entry: ContentEntry<unknown>
+): Promise<OutputFile[]> {
+  const source = await resolveContentSource(CONTENT_DIR, entry.filename);
+  const updates: (OutputFile | undefined)[] = [];
+
+  if (source.kind === "file") {
+    updates.push(
+      await pointerUpdate(source.path, getSchemaPointer(entry.filename, "file"))
+    );
+  } else {
+    const files = await readdir(source.path);
+    if (files.includes(INDEX_FILENAME)) {
+      updates.push(
+        await pointerUpdate(
+          join(source.path, INDEX_FILENAME),
+          getSchemaPointer(entry.filename, "index")
+        )
+      );
+    }
+    for (const file of await listEntryFiles(source.path)) {
+      updates.push(
+        await pointerUpdate(
+          join(source.path, file),
+          getSchemaPointer(entry.filename, "entry")
+        )
+      );
+    }
+  }
+
+  return updates.filter((update) => update !== undefined);
+}
+
+async function readIfExists(path: string): Promise<string | undefined> {
+  return readFile(path, "utf-8").catch(() => undefined);
+}
+
+async function main() {
+  const check = process.argv.includes("--check");
+
+  const schemaFiles: OutputFile[] = [];
+  const pointerUpdates: OutputFile[] = [];
+
+  for (const entry of Object.values(CONTENT_REGISTRY)) {
+    for (const [kind, schema] of buildSchemas(entry)) {
+      const path = join(OUTPUT_DIR, getSchemaFilename(entry.filename, kind));
+      const title =
+        kind === "file" ? entry.filename : `${entry.filename} (${kind})`;
+      schemaFiles.push({
+        path,
+        content: await toJson(path, toJsonSchemaDocument(schema, title)),
+      });
+    }
+
+    try {
+      pointerUpdates.push(...(await collectPointerUpdates(entry)));
+    } catch (error) {
+      console.log(`✗ ${entry.filename}: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  const changedSchemas: OutputFile[] = [];
+  for (const file of schemaFiles) {
+    if ((await readIfExists(file.path)) !== file.content) {
+      changedSchemas.push(file);
+    }
+  }
+
+  const expected = new Set(schemaFiles.map((file) => file.path));
+  const staleSchemas = (await readdir(OUTPUT_DIR).catch(() => [] as string[]))
+    .filter((file) => file.endsWith(".schema.json"))
+    .map((file) => join(OUTPUT_DIR, file))
+    .filter((path) => !expected.has(path));
+
+  const relative = (path: string) => path.slice(ROOT_DIR.length + 1);
+  const changes = [
+    ...changedSchemas.map((file) => `schema   ${relative(file.path)}`),
+    ...staleSchemas.map((path) => `stale    ${relative(path)}`),
+    ...pointerUpdates.map((file) => `$schema  ${relative(file.path)}`),
+  ];
+
+  if (check) {
+    if (changes.length === 0) {
+      console.log("✅ JSON Schemas are up to date");
+      process.exit(0);
+    }
+    console.log("❌ JSON Schemas are out of date:\n");
+    changes.forEach((change) => console.log(`  ${change}`));
+    console.log("\nRun `pnpm content:schemas` to update them.");
+    process.exit(1);
+  }
+
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  await Promise.all([
+    ...[...changedSchemas, ...pointerUpdates].map((file) =>
+      writeFile(file.path, file.content)
+    ),
+    ...staleSchemas.map((path) => rm(path)),
+  ]);
+
+  changes.forEach((change) => console.log(`✓ ${change}`));
+  console.log(
+    `\n✅ ${schemaFiles.length} schemas in ${SCHEMA_DIR}/ (${changes.length} file(s) updated)`
+  );
+}
+
+main();
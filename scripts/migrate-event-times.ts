@@ -0,0 +1,174 @@
+#!/usr/bin/env tsx
+
+/**
+ * Event Times Migration
+ * One-off migration from the free-text event `date` ("2025-11-18") and
+ * `time` ("6:00 PM - 8:00 PM") to ISO 8601 `startDate`/`endDate` with the
+ * UTC offset of the event city's timezone. Schedule item times are
+ * rewritten as 24-hour "HH:MM".
+ *
+ * An event without an end time ends with its last schedule item, or two
+ * hours after it starts. Events whose time can't be read are reported and
+ * nothing is written.
+ *
+ * Usage:
+ *   pnpm content:migrate-event-times
+ *   pnpm content:migrate-event-times --dry-run
+ */
+import { join, relative } from "path";
+
+import { CONTENT_REGISTRY, type ContentEntry } from "../lib/content-registry";
+import {
+  applyContentChanges,
+  formatWithPrettier,
+  planContentWrite,
+  readRawContent,
+} from "../lib/content-writer";
+import {
+  type ClockTime,
+  DEFAULT_TIMEZONE,
+  formatClockTime,
+  formatZonedIso,
+  parseClockTime,
+  parseTimeRange,
+  zonedRangeToUtc,
+} from "../lib/event-time";
+
+const CONTENT_DIR = join(process.cwd(), "content");
+
+type JsonObject = Record<string, unknown>;
+
+class MigrationError extends Error {}
+
+function toClockTime(value: unknown, label: string): ClockTime {
+  const time = typeof value === "string" ? parseClockTime(value) : undefined;
+  if (!time) {
+    throw new MigrationError(`can't read ${label} "${String(value)}"`);
+  }
+  return time;
+}
+
+function migrateSchedule(schedule: JsonObject[]): JsonObject[] {
+  return schedule.map((item, i) => ({
+    ...item,
+    startTime: formatClockTime(
+      toClockTime(item.startTime, `schedule[${i}].startTime`)
+    ),
+    ...(item.endTime !== undefined && {
+      endTime: formatClockTime(
+        toClockTime(item.endTime, `schedule[${i}].endTime`)
+      ),
+    }),
+  }));
+}
+
+function migrateEvent(event: JsonObject, timeZone: string): JsonObject {
+  const { date, time } = event;
+  if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new MigrationError(`can't read date "${String(date)}"`);
+  }
+  const range = typeof time === "string" ? parseTimeRange(time) : undefined;
+  if (!range) {
+    throw new MigrationError(`can't read time "${String(time)}"`);
+  }
+
+  const schedule = Array.isArray(event.schedule)
+    ? migrateSchedule(event.schedule as JsonObject[])
+    : undefined;
+  const lastItem = schedule?.[schedule.length - 1];
+  const endTime =
+    range.end ??
+    (lastItem &&
+      parseClockTime(String(lastItem.endTime ?? lastItem.startTime)));
+
+  const { start, end } = zonedRangeToUtc(
+    date,
+    endTime ? { start: range.start, end: endTime } : range,
+    timeZone
+  );
+
+  // Rebuild the object so startDate/endDate take date's place in the file
+  const migrated: JsonObject = {};
+  for (const [key, value] of Object.entries(event)) {
+    if (key === "date") {
+      migrated.startDate = formatZonedIso(start, timeZone);
+      migrated.endDate = formatZonedIso(end, timeZone);
+    } else if (key === "schedule") {
+      migrated.schedule = schedule;
+    } else if (key !== "time") {
+      migrated[key] = value;
+    }
+  }
+  return migrated;
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const eventsEntry = CONTENT_REGISTRY.events as ContentEntry<unknown>;
+  const citiesEntry = CONTENT_REGISTRY.cities as ContentEntry<unknown>;
+
+  const [events, cities] = await Promise.all([
+    readRawContent(CONTENT_DIR, eventsEntry),
+    readRawContent(CONTENT_DIR, citiesEntry),
+  ]);
+  const timezones = new Map(
+    ((cities.data.cities ?? []) as JsonObject[]).map((city) => [
+      city.id,
+      city.timezone as string,
+    ])
+  );
+
+  const errors: string[] = [];
+  let migratedCount = 0;
+  const items = ((events.data.events ?? []) as JsonObject[]).map((event, i) => {
+    if (event.date === undefined && event.time === undefined) {
+      return event;
+    }
+    const timeZone = timezones.get(event.cityId as string) ?? DEFAULT_TIMEZONE;
+    try {
+      const migrated = migrateEvent(event, timeZone);
+      migratedCount++;
+      console.log(
+        `• ${String(event.slug)}: ${migrated.startDate} → ${migrated.endDate} (${timeZone})`
+      );
+      return migrated;
+    } catch (error) {
+      if (!(error instanceof MigrationError)) throw error;
+      errors.push(`events[${i}] (${String(event.slug)}): ${error.message}`);
+      return event;
+    }
+  });
+
+  if (errors.length > 0) {
+    errors.forEach((error) => console.log(`✗ ${error}`));
+    console.log(
+      "\nSet startDate/endDate on these events by hand, then run this again."
+    );
+    process.exit(1);
+  }
+  if (migratedCount === 0) {
+    console.log("✓ All events already use startDate/endDate");
+    return;
+  }
+
+  const changes = await planContentWrite(
+    eventsEntry,
+    events,
+    { ...events.data, events: items },
+    { format: formatWithPrettier }
+  );
+  changes.forEach((change) =>
+    console.log(
+      `  ${dryRun ? "would update" : "update"} ${relative(process.cwd(), change.path)}`
+    )
+  );
+
+  if (!dryRun) {
+    await applyContentChanges(changes);
+    console.log(
+      `\n✓ Migrated ${migratedCount} event(s). Run \`pnpm validate:content\` to check the result.`
+    );
+  }
+}
+
+main();
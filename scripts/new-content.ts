@@ -0,0 +1,491 @@
+#!/usr/bin/env tsx
+
+/**
+ * Content Scaffolding
+ * Creates new events, presenters, presentations, recaps and slide decks with
+ * unique IDs and slugs, and wires up the references between them (e.g. a new
+ * presentation is appended to its event's `presentationIds`).
+ *
+ * Anything not given as a flag is asked for interactively; without a
+ * terminal, missing required flags are an error. New entries are drafts
+ * unless `--published` is passed.
+ *
+ * Before writing, the full content validation runs against the result, and
+ * nothing is written if the new entries would introduce any issue.
+ *
+ * Usage:
+ *   pnpm content:new event --title "Lightning Workshop" --date 2025-12-15 \
+ *     --time "6:00 PM - 8:30 PM" --city city-vancouver --location "Funk Cafe, Vancouver"
+ *   (--date and --time are wall-clock times in the city's timezone)
+ *   pnpm content:new presenter --name "Ada Lovelace" --bio "..."
+ *   pnpm content:new presentation --title "Intro to LDK" \
+ *     --presenter ada-lovelace --event lightning-workshop
+ *   pnpm content:new recap --event lightning-workshop
+ *   pnpm content:new deck --title "Intro to LDK" --presentation intro-to-ldk
+ *
+ * Options:
+ *   --slug <slug>   Use this slug instead of one derived from the title/name
+ *   --published     Publish right away instead of creating a draft
+ *   --dry-run       Validate and list the files that would change
+ */
+import { join } from "path";
+import { createInterface } from "readline/promises";
+import { parseArgs } from "util";
+
+import { SITE_NAME } from "../lib/constants";
+import { formatIssuePath } from "../lib/content-integrity";
+import {
+  CONTENT_REGISTRY,
+  type ContentEntry,
+  type ContentKey,
+} from "../lib/content-registry";
+import { collectContentIssues, findNewIssues } from "../lib/content-validation";
+import {
+  applyContentChanges,
+  type ContentFileChange,
+  formatWithPrettier,
+  planContentWrite,
+  type RawContent,
+  readRawContent,
+} from "../lib/content-writer";
+import {
+  formatZonedIso,
+  getEventTimezone,
+  parseTimeRange,
+  type TimeRange,
+  zonedRangeToUtc,
+} from "../lib/event-time";
+import type {
+  City,
+  Event,
+  Presentation,
+  Presenter,
+  Recap,
+  SlideDeck,
+} from "../lib/types";
+import { isSlugTaken, slugify, uniqueSlug } from "../lib/utils/slug";
+
+const CONTENT_DIR = join(process.cwd(), "content");
+
+const COMMANDS = ["event", "presenter", "presentation", "recap", "deck"];
+
+const USAGE = `Usage: pnpm content:new <${COMMANDS.join("|")}> [--flags] [--slug <slug>] [--published] [--dry-run]`;
+
+const { values: flags, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    title: { type: "string" },
+    name: { type: "string" },
+    slug: { type: "string" },
+    date: { type: "string" },
+    time: { type: "string" },
+    city: { type: "string" },
+    location: { type: "string" },
+    description: { type: "string" },
+    bio: { type: "string" },
+    role: { type: "string" },
+    company: { type: "string" },
+    presenter: { type: "string" },
+    event: { type: "string" },
+    presentation: { type: "string" },
+    duration: { type: "string" },
+    summary: { type: "string" },
+    published: { type: "boolean" },
+    "dry-run": { type: "boolean" },
+  },
+});
+
+type Flag = Exclude<keyof typeof flags, "published" | "dry-run">;
+
+/**
+ * Thrown for bad input; reported without a stack trace
+ */
+class ScaffoldError extends Error {}
+
+const prompt = process.stdin.isTTY
+  ? createInterface({ input: process.stdin, output: process.stdout })
+  : undefined;
+
+interface FieldOptions {
+  required?: boolean;
+  defaultValue?: string;
+  /** Returns an error message for invalid input */
+  check?: (value: string) => string | undefined;
+}
+
+/**
+ * Value of a flag, asking for it when missing and running interactively
+ */
+async function field(
+  flag: Flag,
+  label: string,
+  { required = false, defaultValue, check }: FieldOptions = {}
+): Promise<string | undefined> {
+  const given = flags[flag]?.trim();
+  if (given) {
+    const error = check?.(given);
+    if (error) throw new ScaffoldError(`--${flag}: ${error}`);
+    return given;
+  }
+
+  if (!prompt) {
+    if (required && defaultValue === undefined) {
+      throw new ScaffoldError(`Missing --${flag} (${label})`);
+    }
+    return defaultValue;
+  }
+
+  for (;;) {
+    const hint = defaultValue
+      ? ` [${defaultValue}]`
+      : required
+        ? ""
+        : " (optional)";
+    const answer = (await prompt.question(`${label}${hint}: `)).trim();
+    const value = answer || defaultValue;
+    if (!value) {
+      if (!required) return undefined;
+      console.log("  A value is required");
+      continue;
+    }
+    const error = check?.(value);
+    if (!error) return value;
+    console.log(`  ${error}`);
+  }
+}
+
+async function requiredField(
+  flag: Flag,
+  label: string,
+  options: Omit<FieldOptions, "required"> = {}
+): Promise<string> {
+  return (await field(flag, label, { ...options, required: true })) as string;
+}
+
+function checkDate(value: string): string | undefined {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+    ? undefined
+    : "Use YYYY-MM-DD";
+}
+
+/**
+ * Raw collections loaded for this run, and the keys that were modified
+ */
+const workspace = new Map<ContentKey, RawContent>();
+const modified = new Set<ContentKey>();
+
+async function collection<T>(key: ContentKey): Promise<T[]> {
+  if (!workspace.has(key)) {
+    workspace.set(
+      key,
+      await readRawContent(
+        CONTENT_DIR,
+        CONTENT_REGISTRY[key] as ContentEntry<unknown>
+      )
+    );
+  }
+  const { data } = workspace.get(key) as RawContent;
+  const entriesKey = CONTENT_REGISTRY[key].entries as string;
+  data[entriesKey] ??= [];
+  return data[entriesKey] as T[];
+}
+
+/**
+ * Slug that is free in `items` (and whose `<idPrefix>-<slug>` ID is free too),
+ * or the `--slug` flag's when it is free
+ */
+function pickSlug(
+  items: { id?: string; slug: string }[],
+  base: string,
+  idPrefix?: string
+): string {
+  if (flags.slug) {
+    const slug = slugify(flags.slug);
+    if (!slug || isSlugTaken(items, slug, idPrefix)) {
+      throw new ScaffoldError(`--slug: "${flags.slug}" is already in use`);
+    }
+    return slug;
+  }
+  return uniqueSlug(items, base, idPrefix);
+}
+
+/**
+ * Finds an entry by ID or slug, asking for one when the flag is missing
+ */
+async function pick<T extends { id?: string; slug: string }>(
+  items: T[],
+  flag: Flag,
+  label: string,
+  required: boolean
+): Promise<T | undefined> {
+  const keys = items.map((item) => item.id ?? item.slug);
+  const find = (value: string) =>
+    items.find((item) => item.id === value || item.slug === value);
+
+  const value = await field(flag, label, {
+    required,
+    check: (value) =>
+      find(value)
+        ? undefined
+        : `Unknown ${flag} "${value}". Choose one of: ${keys.join(", ")}`,
+  });
+  return value === undefined ? undefined : find(value);
+}
+
+function publishing(): { status?: "draft" } {
+  return flags.published ? {} : { status: "draft" };
+}
+
+function metaTitle(title: string, section?: string): string {
+  return [title, section, SITE_NAME].filter(Boolean).join(" | ");
+}
+
+async function newEvent(): Promise<string> {
+  const events = await collection<Event>("events");
+  const cities = await collection<City>("cities");
+
+  const title = await requiredField("title", "Event title");
+  const slug = pickSlug(events, slugify(title));
+  const date = await requiredField("date", "Date (YYYY-MM-DD)", {
+    check: checkDate,
+  });
+  const time = await requiredField("time", "Time", {
+    defaultValue: "6:00 PM - 8:00 PM",
+    check: (value) =>
+      parseTimeRange(value) ? undefined : 'Use e.g. "6:00 PM - 8:00 PM"',
+  });
+  const city = await pick(cities, "city", "City ID or slug", false);
+  const timeZone = getEventTimezone(city);
+  const { start, end } = zonedRangeToUtc(
+    date,
+    parseTimeRange(time) as TimeRange,
+    timeZone
+  );
+  const location = await requiredField("location", "Venue", {
+    defaultValue: city ? `TBA, ${city.name}` : "TBA",
+  });
+  const description = (await field("description", "Short description")) ?? "";
+
+  events.push({
+    title,
+    slug,
+    startDate: formatZonedIso(start, timeZone),
+    endDate: formatZonedIso(end, timeZone),
+    location,
+    description,
+    ...(city && { cityId: city.id }),
+    presentationIds: [],
+    sections: [],
+    meta: { title: metaTitle(title), description },
+    ...publishing(),
+  });
+  modified.add("events");
+
+  return `event "${slug}"`;
+}
+
+async function newPresenter(): Promise<string> {
+  const presenters = await collection<Presenter>("presenters");
+
+  const name = await requiredField("name", "Presenter name");
+  const slug = pickSlug(presenters, slugify(name), "presenter");
+  const bio = (await field("bio", "Short bio")) ?? "";
+  const role = await field("role", "Job title or role");
+  const company = await field("company", "Company or organization");
+
+  presenters.push({
+    id: `presenter-${slug}`,
+    name,
+    slug,
+    bio,
+    ...(role && { title: role }),
+    ...(company && { company }),
+    ...publishing(),
+  });
+  modified.add("presenters");
+
+  return `presenter "presenter-${slug}"`;
+}
+
+async function newPresentation(): Promise<string> {
+  const presentations = await collection<Presentation>("presentations");
+  const presenters = await collection<Presenter>("presenters");
+  const events = await collection<Event>("events");
+
+  const title = await requiredField("title", "Presentation title");
+  const slug = pickSlug(presentations, slugify(title), "presentation");
+  const presenter = await pick(
+    presenters,
+    "presenter",
+    "Presenter ID or slug",
+    true
+  );
+  const event = await pick(events, "event", "Event slug", false);
+  const description = (await field("description", "Short description")) ?? "";
+  const duration = await field("duration", "Duration, e.g. 30 minutes");
+  const id = `presentation-${slug}`;
+
+  presentations.push({
+    id,
+    title,
+    slug,
+    description,
+    overview: description,
+    presenterId: (presenter as Presenter).id,
+    ...(event && { eventId: event.slug, date: event.startDate.slice(0, 10) }),
+    ...(duration && { duration }),
+    meta: { title: metaTitle(title), description },
+    ...publishing(),
+  });
+  modified.add("presentations");
+
+  if (event) {
+    event.presentationIds = [...(event.presentationIds ?? []), id];
+    modified.add("events");
+  }
+
+  return `presentation "${id}"${event ? ` for event "${event.slug}"` : ""}`;
+}
+
+async function newRecap(): Promise<string> {
+  const recaps = await collection<Recap>("recaps");
+  const events = await collection<Event>("events");
+
+  const event = (await pick(events, "event", "Event slug", true)) as Event;
+  const title = await requiredField("title", "Recap title", {
+    defaultValue: `${event.title} Recap`,
+  });
+  const slug = pickSlug(recaps, slugify(`${event.slug}-recap`));
+  const summary = (await field("summary", "Summary")) ?? "";
+
+  recaps.push({
+    title,
+    slug,
+    date: event.startDate.slice(0, 10),
+    eventId: event.slug,
+    summary,
+    sections: [],
+    meta: { title: metaTitle(title), description: summary },
+    ...publishing(),
+  });
+  modified.add("recaps");
+
+  return `recap "${slug}" for event "${event.slug}"`;
+}
+
+async function newDeck(): Promise<string> {
+  const decks = await collection<SlideDeck>("slides");
+  const presentations = await collection<Presentation>("presentations");
+
+  const title = await requiredField("title", "Deck title");
+  const slug = pickSlug(decks, slugify(title), "deck");
+  const description = (await field("description", "Short description")) ?? "";
+  const presentation = await pick(
+    presentations,
+    "presentation",
+    "Presentation ID or slug",
+    false
+  );
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  decks.push({
+    id: `deck-${slug}`,
+    title,
+    slug,
+    description,
+    createdAt: now,
+    updatedAt: now,
+    slides: [{ id: "slide-1", type: "title", title, order: 1 }],
+    meta: { title: metaTitle(title, "Slides"), description },
+    ...publishing(),
+  });
+  modified.add("slides");
+
+  if (presentation) {
+    presentation.slideDeckSlug = slug;
+    modified.add("presentations");
+  }
+
+  return `deck "${slug}"${presentation ? ` for presentation "${presentation.id}"` : ""}`;
+}
+
+const SCAFFOLDS: Record<string, () => Promise<string>> = {
+  event: newEvent,
+  presenter: newPresenter,
+  presentation: newPresentation,
+  recap: newRecap,
+  deck: newDeck,
+};
+
+function describeChange(change: ContentFileChange): string {
+  const path = change.path.slice(process.cwd().length + 1);
+  if (change.after === undefined) return `delete  ${path}`;
+  return change.before === undefined ? `create  ${path}` : `update  ${path}`;
+}
+
+async function main() {
+  const [command] = positionals;
+  const scaffold = command ? SCAFFOLDS[command] : undefined;
+  if (!scaffold || positionals.length > 1) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const created = await scaffold();
+  prompt?.close();
+
+  // Validate the result against everything else before touching any file
+  const overrides = Object.fromEntries(
+    [...modified].map((key) => [key, workspace.get(key)?.data])
+  );
+  const before = await collectContentIssues(CONTENT_DIR);
+  const after = await collectContentIssues(CONTENT_DIR, overrides);
+  const introduced = findNewIssues(before, after);
+
+  if (introduced.length > 0) {
+    console.log(`\n✗ Not written: the new ${created} fails validation\n`);
+    introduced.forEach((issue) =>
+      console.log(
+        `  • ${issue.file} → ${formatIssuePath(issue.path)}: ${issue.message}`
+      )
+    );
+    process.exit(1);
+  }
+
+  const changes: ContentFileChange[] = [];
+  for (const key of modified) {
+    changes.push(
+      ...(await planContentWrite(
+        CONTENT_REGISTRY[key] as ContentEntry<unknown>,
+        workspace.get(key) as RawContent,
+        workspace.get(key)?.data ?? {},
+        { format: formatWithPrettier }
+      ))
+    );
+  }
+
+  const dryRun = flags["dry-run"];
+  if (!dryRun) {
+    await applyContentChanges(changes);
+  }
+
+  console.log(
+    `\n${dryRun ? "•" : "✓"} New ${created}${dryRun ? " (dry run)" : ""}`
+  );
+  changes.forEach((change) => console.log(`    ${describeChange(change)}`));
+
+  if (before.length > 0) {
+    console.log(
+      `\n⚠ ${before.length} existing validation issue(s) elsewhere in content/ are unchanged; run \`pnpm validate:content\` to see them`
+    );
+  }
+}
+
+main().catch((error) => {
+  prompt?.close();
+  if (error instanceof ScaffoldError) {
+    console.log(`✗ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+});
@@ -0,0 +1,158 @@
+#!/usr/bin/env tsx
+
+/**
+ * Content Split Migration
+ * One-off migration that moves a collection from content/<name>.json into a
+ * content/<name>/ directory with one JSON file per entry, plus `_index.json`
+ * for the collection's other fields (title, meta, ...).
+ *
+ * Entry files are named "<position>-<slug or id>.json" so the directory
+ * loads in the same order as the original array. Every file gets a `$schema`
+ * pointer to its generated JSON Schema (see scripts/export-json-schemas.ts).
+ *
+ * Usage:
+ *   pnpm content:split presentations cities wallets faqs
+ *   pnpm content:split --all
+ *   pnpm content:split presentations --dry-run
+ *
+ * Arguments are content registry keys (see lib/content-registry.ts).
+ */
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { isDeepStrictEqual } from "util";
+
+import {
+  CONTENT_REGISTRY,
+  type ContentEntry,
+  type ContentKey,
+} from "../lib/content-registry";
+import {
+  getContentDirectoryName,
+  INDEX_FILENAME,
+  loadContentSource,
+  resolveContentSource,
+} from "../lib/content-source";
+import { getEntryFilename } from "../lib/content-writer";
+import { createContentError, formatContentError } from "../lib/errors";
+import { getSchemaPointer } from "../lib/json-schema";
+
+const CONTENT_DIR = join(process.cwd(), "content");
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+async function splitCollection(
+  key: ContentKey,
+  dryRun: boolean
+): Promise<boolean> {
+  const entry = CONTENT_REGISTRY[key] as ContentEntry<unknown>;
+  const { filename, entries } = entry;
+  const name = getContentDirectoryName(filename);
+
+  if (!entries) {
+    console.log(`✗ ${filename}: not a collection, nothing to split`);
+    return false;
+  }
+
+  const source = await resolveContentSource(CONTENT_DIR, filename);
+  if (source.kind === "directory") {
+    console.log(`• ${filename}: already split into ${name}/`);
+    return true;
+  }
+
+  const original = await loadContentSource(CONTENT_DIR, entry, source);
+  if (!original.valid) {
+    original.issues.forEach(({ file, error }) =>
+      console.error(formatContentError(createContentError(file, error)))
+    );
+    console.log(`✗ ${filename}: fix validation errors before splitting`);
+    return false;
+  }
+
+  // Split the raw data so fields filled in by schema defaults aren't written
+  const rawText = await readFile(source.path, "utf-8");
+  const raw = JSON.parse(rawText) as Record<string, unknown>;
+  const { [entries]: items, ...index } = raw;
+  delete index.$schema;
+
+  const files = new Map<string, unknown>();
+  if (Object.keys(index).length > 0) {
+    files.set(INDEX_FILENAME, {
+      $schema: getSchemaPointer(filename, "index"),
+      ...index,
+    });
+  }
+  (items as unknown[]).forEach((item, i, all) => {
+    files.set(getEntryFilename(item, i + 1, all.length), {
+      $schema: getSchemaPointer(filename, "entry"),
+      ...(item as Record<string, unknown>),
+    });
+  });
+
+  if (dryRun) {
+    console.log(`• ${filename} → ${name}/ (dry run)`);
+    [...files.keys()].forEach((file) => console.log(`    ${name}/${file}`));
+    return true;
+  }
+
+  // Both layouts can't exist at once, so the original file goes first
+  const directory = join(CONTENT_DIR, name);
+  await rm(source.path);
+  await mkdir(directory);
+  for (const [file, value] of files) {
+    await writeFile(join(directory, file), toJson(value));
+  }
+
+  // The directory must load back to exactly the same collection
+  const split = await loadContentSource(CONTENT_DIR, entry);
+  if (!split.valid || !isDeepStrictEqual(split.data, original.data)) {
+    await rm(directory, { recursive: true });
+    await writeFile(source.path, rawText);
+    console.log(`✗ ${filename}: split content didn't round-trip, left as is`);
+    return false;
+  }
+
+  console.log(
+    `✓ ${filename} → ${name}/ (${(items as unknown[]).length} entries)`
+  );
+  return true;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const all = args.includes("--all");
+  const requested = args.filter((arg) => !arg.startsWith("--"));
+
+  const keys = all
+    ? (Object.keys(CONTENT_REGISTRY) as ContentKey[]).filter(
+        (key) => CONTENT_REGISTRY[key].category === "collections"
+      )
+    : requested;
+
+  if (keys.length === 0) {
+    console.log(
+      "Usage: pnpm content:split <registry key...> [--dry-run] | --all"
+    );
+    process.exit(1);
+  }
+
+  const unknown = keys.filter((key) => !(key in CONTENT_REGISTRY));
+  if (unknown.length > 0) {
+    console.log(`✗ Unknown content keys: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  let ok = true;
+  for (const key of keys as ContentKey[]) {
+    ok = (await splitCollection(key, dryRun)) && ok;
+  }
+
+  if (ok && !dryRun) {
+    console.log("\nRun `pnpm validate:content` to check the result.");
+  }
+  process.exit(ok ? 0 : 1);
+}
+
+main();
@@ -2,7 +2,12 @@
 
 /**
  * Content Validation Script
- * Validates all JSON files in the content directory against their Zod schemas
+ * Validates all JSON files in the content directory against their Zod schemas,
+ * then checks that ID/slug references between collections resolve, that
+ * internal links in Markdown fields point at existing routes, and that
+ * translation files (e.g. events.fr.json) apply cleanly. Untranslated fields
+ * and incomplete content (e.g. a past event without a recap) are reported as
+ * warnings and don't fail validation.
  *
  * Usage:
  *   npm run validate:content
@@ -12,105 +17,110 @@
  *   0 - All content valid
  *   1 - Validation errors found
  */
-import { readFileSync } from "fs";
+import { existsSync, readdirSync, readFileSync } from "fs";
 import { join } from "path";
 import { z } from "zod";
 
 import {
-  CharterSchema,
-  CitiesCollectionSchema,
-  EducationalContentSchema,
-  EventsCollectionSchema,
-  HomeSchema,
-  MembersCollectionSchema,
-  MissionSchema,
-  NewsTopicsCollectionSchema,
-  OnboardingSchema,
-  PhilosophySchema,
-  PresentationsCollectionSchema,
-  PresentersCollectionSchema,
-  ProjectsCollectionSchema,
-  RecapsCollectionSchema,
-  ResourcesCollectionSchema,
-  SlidesCollectionSchema,
-  SponsorsCollectionSchema,
-  TechnicalRoadmapSchema,
-  VibeAppsCollectionSchema,
-  VisionSchema,
-  WhatToExpectSchema,
-} from "../lib/schemas";
+  checkContentIntegrity,
+  findContentWarnings,
+  formatIssuePath,
+  type IntegrityInput,
+  type IntegrityIssue,
+} from "../lib/content-integrity";
+import { buildKnownRoutes, checkMarkdownLinks } from "../lib/content-links";
+import {
+  CONTENT_REGISTRY,
+  type ContentEntry,
+  type ContentKey,
+} from "../lib/content-registry";
+import {
+  type ContentSourceIssue,
+  getContentDirectoryName,
+  getTranslationFilename,
+  loadContentSource,
+  loadTranslationSource,
+  resolveContentSource,
+} from "../lib/content-source";
+import {
+  findOrphanedTranslations,
+  findUntranslatedFields,
+} from "../lib/content-translation";
+import { INTEGRITY_KEYS } from "../lib/content-validation";
+import { createContentError } from "../lib/errors";
+import { analyzeSchedule, formatMinutes } from "../lib/event-schedule";
+import { getEventTimezone } from "../lib/event-time";
+import { PREFIXED_LOCALES } from "../lib/i18n";
 
-/**
- * Mapping of content files to their schemas
- */
-const CONTENT_SCHEMAS: Record<string, z.ZodSchema<unknown>> = {
-  "events.json": EventsCollectionSchema,
-  "onboarding.json": OnboardingSchema,
-  "bitcoin101.json": EducationalContentSchema,
-  "lightning101.json": EducationalContentSchema,
-  "layer2.json": EducationalContentSchema,
-  "open-source.json": EducationalContentSchema,
-  "resources.json": ResourcesCollectionSchema,
-  "recaps.json": RecapsCollectionSchema,
-  "projects.json": ProjectsCollectionSchema,
-  "vibeapps.json": VibeAppsCollectionSchema,
-  "news-topics.json": NewsTopicsCollectionSchema,
-  "what-to-expect.json": WhatToExpectSchema,
-  "home.json": HomeSchema,
-  "members.json": MembersCollectionSchema,
-  "mission.json": MissionSchema,
-  "vision.json": VisionSchema,
-  "charter.json": CharterSchema,
-  "philosophy.json": PhilosophySchema,
-  "cities.json": CitiesCollectionSchema,
-  "sponsors.json": SponsorsCollectionSchema,
-  "presenters.json": PresentersCollectionSchema,
-  "presentations.json": PresentationsCollectionSchema,
-  "technical-roadmap.json": TechnicalRoadmapSchema,
-  "slides.json": SlidesCollectionSchema,
-};
+/** Untranslated field paths listed per translation file before truncating */
+const MAX_UNTRANSLATED_LISTED = 10;
 
 interface ValidationResult {
+  /** Content file, or "<name>/" for a split content directory */
   file: string;
   valid: boolean;
-  errors?: z.ZodError;
+  data?: unknown;
+  /** Number of entry files in a split content directory */
+  entryFiles?: number;
+  issues?: ContentSourceIssue[];
 }
 
 /**
- * Validates a single content file against its schema
+ * Validates a single content file or content directory against its schema
  */
-function validateFile(
-  filename: string,
-  schema: z.ZodSchema<unknown>,
+async function validateFile(
+  entry: ContentEntry<unknown>,
   contentDir: string
-): ValidationResult {
-  try {
-    const filePath = join(contentDir, filename);
-    const fileContent = readFileSync(filePath, "utf-8");
-    const parsed = JSON.parse(fileContent);
-
-    schema.parse(parsed);
-
-    return {
-      file: filename,
-      valid: true,
-    };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return {
-        file: filename,
-        valid: false,
-        errors: error,
-      };
-    }
+): Promise<ValidationResult> {
+  const source = await resolveContentSource(contentDir, entry.filename);
+  const file =
+    source.kind === "directory"
+      ? `${getContentDirectoryName(entry.filename)}/`
+      : entry.filename;
 
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      console.error(`❌ File not found: ${filename}`);
-      process.exit(1);
-    }
+  const result = await loadContentSource(contentDir, entry, source);
+  if (!result.valid) {
+    return { file, valid: false, issues: result.issues };
+  }
 
-    console.error(`❌ Error reading ${filename}:`, error);
-    process.exit(1);
+  return {
+    file,
+    valid: true,
+    data: result.data,
+    entryFiles: source.kind === "directory" ? result.files.length : undefined,
+  };
+}
+
+/**
+ * Prints one problem with a content file
+ */
+function printSourceIssue(
+  { file, error }: ContentSourceIssue,
+  showFile: boolean
+) {
+  if (showFile) {
+    console.log(`  ${file}`);
+  }
+
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    console.log(
+      "  File not found: registered in lib/content-registry.ts but missing from content/"
+    );
+    return;
+  }
+
+  if (!(error instanceof z.ZodError)) {
+    console.log(`  ${createContentError(file, error).message}`);
+    return;
+  }
+
+  console.log("  Validation errors:");
+  console.log(formatZodError(error));
+
+  const suggestions = getSuggestions(error);
+  if (suggestions.length > 0) {
+    console.log("\n  Suggestions:");
+    suggestions.forEach((suggestion) => console.log(`  💡 ${suggestion}`));
   }
 }
 
@@ -161,52 +171,348 @@ function getSuggestions(error: z.ZodError): string[] {
   return suggestions;
 }
 
+/**
+ * Lists content files and directories that have no entry in the content registry.
+ * Translation files of registered content count as registered.
+ */
+function findUnregisteredFiles(contentDir: string): string[] {
+  const filenames = Object.values(CONTENT_REGISTRY).map(
+    (entry) => entry.filename
+  );
+  const registered = new Set([
+    ...filenames,
+    ...filenames.flatMap((filename) =>
+      PREFIXED_LOCALES.map((locale) => getTranslationFilename(filename, locale))
+    ),
+  ]);
+  const registeredDirectories = new Set(filenames.map(getContentDirectoryName));
+
+  return readdirSync(contentDir, { withFileTypes: true })
+    .flatMap((dirent) => {
+      if (dirent.isDirectory()) {
+        return registeredDirectories.has(dirent.name)
+          ? []
+          : [`${dirent.name}/`];
+      }
+      return dirent.name.endsWith(".json") && !registered.has(dirent.name)
+        ? [dirent.name]
+        : [];
+    })
+    .sort();
+}
+
+/**
+ * Collects the parsed collections needed by the integrity pass.
+ * Returns the names of invalid files instead when any of them failed its schema.
+ */
+function getIntegrityInput(
+  results: Map<ContentKey, ValidationResult>
+): { input: IntegrityInput } | { invalid: string[] } {
+  const input: Partial<Record<keyof IntegrityInput, unknown>> = {};
+  const invalid: string[] = [];
+
+  for (const key of INTEGRITY_KEYS) {
+    const result = results.get(key);
+    if (result?.valid) {
+      input[key] = result.data;
+    } else {
+      invalid.push(result?.file ?? CONTENT_REGISTRY[key].filename);
+    }
+  }
+
+  return invalid.length > 0 ? { invalid } : { input: input as IntegrityInput };
+}
+
+/**
+ * Prints issues grouped by file
+ */
+function printIssues(issues: IntegrityIssue[], marker = "✗") {
+  const issuesByFile = new Map<string, IntegrityIssue[]>();
+  for (const issue of issues) {
+    issuesByFile.set(issue.file, [
+      ...(issuesByFile.get(issue.file) ?? []),
+      issue,
+    ]);
+  }
+
+  for (const [file, fileIssues] of issuesByFile) {
+    console.log(`${marker} ${file}\n`);
+    fileIssues.forEach((issue) =>
+      console.log(`  • ${formatIssuePath(issue.path)}: ${issue.message}`)
+    );
+    console.log("");
+  }
+}
+
+/**
+ * Checks cross-collection references and prints each dangling one
+ * Returns true when no integrity issues were found
+ */
+function validateIntegrity(
+  results: Map<ContentKey, ValidationResult>
+): boolean {
+  console.log("\n🔗 Checking references between collections...\n");
+
+  const loaded = getIntegrityInput(results);
+  if ("invalid" in loaded) {
+    console.log(
+      `✗ Skipped: fix schema errors in ${loaded.invalid.join(", ")} first\n`
+    );
+    return false;
+  }
+
+  const issues = checkContentIntegrity(loaded.input);
+  if (issues.length === 0) {
+    console.log("✓ All references resolve");
+    return true;
+  }
+
+  printIssues(issues);
+  console.log(`Found ${issues.length} integrity issue(s)`);
+  return false;
+}
+
+/**
+ * Checks internal links in the Markdown fields of every valid content file
+ * Returns true when every link resolves
+ */
+function validateMarkdownLinks(
+  results: Map<ContentKey, ValidationResult>
+): boolean {
+  console.log("\n📝 Checking links in Markdown content...\n");
+
+  const loaded = getIntegrityInput(results);
+  if ("invalid" in loaded) {
+    console.log(
+      `✗ Skipped: fix schema errors in ${loaded.invalid.join(", ")} first\n`
+    );
+    return false;
+  }
+
+  const routes = buildKnownRoutes(loaded.input);
+  const issues = [...results.values()]
+    .filter((result) => result.valid)
+    .flatMap((result) => checkMarkdownLinks(result.file, result.data, routes));
+
+  if (issues.length === 0) {
+    console.log("✓ All Markdown links resolve");
+    return true;
+  }
+
+  printIssues(issues);
+  console.log(`Found ${issues.length} Markdown issue(s)`);
+  return false;
+}
+
+/**
+ * Prints content that is valid but looks incomplete; never fails validation
+ */
+function reportWarnings(results: Map<ContentKey, ValidationResult>) {
+  console.log("\n📋 Checking for incomplete content...\n");
+
+  const loaded = getIntegrityInput(results);
+  if ("invalid" in loaded) {
+    console.log(
+      `✗ Skipped: fix schema errors in ${loaded.invalid.join(", ")} first\n`
+    );
+    return;
+  }
+
+  const warnings = findContentWarnings(loaded.input);
+  if (warnings.length === 0) {
+    console.log("✓ Nothing missing");
+    return;
+  }
+
+  printIssues(warnings, "⚠");
+  console.log(`Found ${warnings.length} warning(s)`);
+}
+
+/**
+ * Prints each scheduled event's slot count and scheduled time against the
+ * event's length. Schedule problems are reported with the integrity issues.
+ */
+function reportSchedules(results: Map<ContentKey, ValidationResult>) {
+  const loaded = getIntegrityInput(results);
+  if ("invalid" in loaded) return;
+
+  const { events, cities, presentations } = loaded.input;
+  const scheduled = events.events.filter((event) => event.schedule?.length);
+  if (scheduled.length === 0) return;
+
+  console.log("\n🗓️  Event schedules...\n");
+
+  const citiesById = new Map(cities.cities.map((c) => [c.id, c]));
+  const presentationsById = new Map(
+    presentations.presentations.map((p) => [p.id, p])
+  );
+  for (const event of scheduled) {
+    const { slots, totalMinutes } = analyzeSchedule(
+      event,
+      getEventTimezone(event.cityId ? citiesById.get(event.cityId) : undefined),
+      presentationsById
+    );
+    const eventMinutes =
+      (Date.parse(event.endDate) - Date.parse(event.startDate)) / 60000;
+    console.log(
+      `  ${event.slug}: ${slots.length} slot(s), ${formatMinutes(totalMinutes)} scheduled of ${formatMinutes(eventMinutes)}`
+    );
+  }
+}
+
+/**
+ * Validates every translation file against its schema (errors) and reports
+ * entries that match nothing in English and fields still in English (warnings)
+ * Returns true when every translation file is valid
+ */
+async function validateTranslations(
+  results: Map<ContentKey, ValidationResult>,
+  contentDir: string
+): Promise<boolean> {
+  console.log("\n🌐 Checking translations...\n");
+
+  let valid = true;
+  let checked = 0;
+
+  for (const [key, result] of results) {
+    const entry = CONTENT_REGISTRY[key] as ContentEntry<unknown>;
+
+    for (const locale of PREFIXED_LOCALES) {
+      const file = getTranslationFilename(entry.filename, locale);
+      if (!existsSync(join(contentDir, file))) continue;
+      checked++;
+
+      if (!result.valid) {
+        console.log(`✗ ${file}: skipped, fix ${result.file} first\n`);
+        valid = false;
+        continue;
+      }
+
+      const translated = await loadTranslationSource(
+        contentDir,
+        entry,
+        locale,
+        result.data
+      );
+      if (!translated.valid) {
+        valid = false;
+        console.log(`✗ ${file}\n`);
+        translated.issues.forEach((issue) => printSourceIssue(issue, false));
+        console.log("");
+        continue;
+      }
+
+      const overlay = JSON.parse(readFileSync(join(contentDir, file), "utf-8"));
+      const orphaned = findOrphanedTranslations(result.data, overlay);
+      const untranslated = findUntranslatedFields(result.data, translated.data);
+
+      if (orphaned.length === 0 && untranslated.length === 0) {
+        console.log(`✓ ${file}`);
+        continue;
+      }
+
+      console.log(`⚠ ${file}\n`);
+      orphaned.forEach((issue) =>
+        console.log(`  • ${formatIssuePath(issue.path)}: ${issue.message}`)
+      );
+      if (untranslated.length > 0) {
+        console.log(
+          `  ${untranslated.length} field(s) still in English, falling back:`
+        );
+        untranslated
+          .slice(0, MAX_UNTRANSLATED_LISTED)
+          .forEach((path) => console.log(`  • ${formatIssuePath(path)}`));
+        if (untranslated.length > MAX_UNTRANSLATED_LISTED) {
+          console.log(
+            `  … and ${untranslated.length - MAX_UNTRANSLATED_LISTED} more`
+          );
+        }
+      }
+      console.log("");
+    }
+  }
+
+  if (checked === 0) {
+    console.log("✓ No translation files");
+  }
+
+  return valid;
+}
+
 /**
  * Main validation function
  */
-function main() {
+async function main() {
   console.log("🔍 Validating content files...\n");
 
   const contentDir = join(process.cwd(), "content");
-  const results: ValidationResult[] = [];
+  const results = new Map<ContentKey, ValidationResult>();
   let hasErrors = false;
 
-  // Validate all content files
-  for (const [filename, schema] of Object.entries(CONTENT_SCHEMAS)) {
-    const result = validateFile(filename, schema, contentDir);
-    results.push(result);
+  // Validate every registered content file
+  for (const [key, entry] of Object.entries(CONTENT_REGISTRY)) {
+    const result = await validateFile(entry, contentDir);
+    results.set(key as ContentKey, result);
 
     if (result.valid) {
-      console.log(`✓ ${filename}`);
+      console.log(
+        result.entryFiles === undefined
+          ? `✓ ${result.file}`
+          : `✓ ${result.file} (${result.entryFiles} files)`
+      );
     } else {
       hasErrors = true;
-      console.log(`✗ ${filename}\n`);
+      console.log(`✗ ${result.file}\n`);
 
-      if (result.errors) {
-        console.log("  Validation errors:");
-        console.log(formatZodError(result.errors));
-
-        const suggestions = getSuggestions(result.errors);
-        if (suggestions.length > 0) {
-          console.log("\n  Suggestions:");
-          suggestions.forEach((suggestion) =>
-            console.log(`  💡 ${suggestion}`)
-          );
-        }
-      }
+      // Name the failing file when the issues come from a content directory
+      const issues = result.issues ?? [];
+      const showFile = issues.some((issue) => issue.file !== result.file);
+      issues.forEach((issue, i) => {
+        if (i > 0) console.log("");
+        printSourceIssue(issue, showFile);
+      });
 
       console.log("");
     }
   }
 
+  // Every file in content/ must be registered
+  const unregistered = findUnregisteredFiles(contentDir);
+  for (const filename of unregistered) {
+    hasErrors = true;
+    console.log(`✗ ${filename}\n`);
+    console.log("  No schema registered for this file or directory");
+    console.log(
+      "  💡 Add an entry to CONTENT_REGISTRY in lib/content-registry.ts\n"
+    );
+  }
+
+  // Check references between collections
+  const integrityValid = validateIntegrity(results);
+
+  // Check links in Markdown fields
+  const markdownValid = validateMarkdownLinks(results);
+
+  // Report incomplete content, e.g. past events without a recap
+  reportWarnings(results);
+  reportSchedules(results);
+
+  // Check translation files; untranslated fields are only warnings
+  const translationsValid = await validateTranslations(results, contentDir);
+
   // Print summary
   console.log("\n" + "=".repeat(50));
-  const validCount = results.filter((r) => r.valid).length;
-  const totalCount = results.length;
+  const validCount = [...results.values()].filter((r) => r.valid).length;
+  const totalCount = results.size + unregistered.length;
 
-  if (hasErrors) {
+  if (hasErrors || !integrityValid || !markdownValid || !translationsValid) {
+    const failedChecks = [
+      integrityValid ? "" : ", referential integrity check failed",
+      markdownValid ? "" : ", Markdown link check failed",
+      translationsValid ? "" : ", translation check failed",
+    ].join("");
     console.log(
-      `\n❌ Validation failed: ${validCount}/${totalCount} files valid\n`
+      `\n❌ Validation failed: ${validCount}/${totalCount} files valid${failedChecks}\n`
     );
     console.log("Fix the errors above and run validation again.");
     process.exit(1);